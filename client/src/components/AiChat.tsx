@@ -2,8 +2,11 @@ import { useState, useRef, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { Loader2, Send, Sparkles, X, AlertTriangle } from 'lucide-react';
+import { Loader2, Send, Sparkles, X, AlertTriangle, RotateCcw, Dices } from 'lucide-react';
+import type { SpriteInstance, Tile } from '@shared/schema';
+import { TileGrid, tileKey } from '@shared/tileGrid';
 import { useCanvasStore } from '@/store/useCanvasStore';
+import { withSpawnPointDefinitions } from '@/utils/demoSprites';
 import { useMutation } from '@tanstack/react-query';
 import {
   AlertDialog,
@@ -22,9 +25,25 @@ interface AiChatProps {
   placement?: AiChatPlacement;
 }
 
+interface GenerationCall {
+  functionName: string;
+  arguments: Record<string, unknown>;
+}
+
+// What a message's seeded results put on the canvas, so regenerating them can take it back first
+interface Generation {
+  calls: GenerationCall[];
+  seeds: number[];
+  shapeIds: string[];
+  spriteIds: string[];
+  tiles: Tile[];
+  replacedTiles: Tile[]; // Tiles that were in the generated cells before
+}
+
 interface ChatMessage {
   role: 'user' | 'assistant';
   content: string;
+  generation?: Generation;
 }
 
 interface ExecutionResult {
@@ -35,6 +54,35 @@ interface ExecutionResult {
   canvasUpdates?: {
     shapes?: any[];
     tiles?: any[];
+    sprites?: any[];
+  };
+  seed?: number;
+  call?: GenerationCall;
+}
+
+// Sprites that are board sprite instances; the other generators' sprite placeholders aren't placed
+const resultSprites = (result: ExecutionResult): SpriteInstance[] =>
+  (result.canvasUpdates?.sprites ?? []).filter((sprite) => sprite.spriteId);
+
+// Collect what the seeded results are about to change, reading the tiles they replace from the grid
+function collectGeneration(results: ExecutionResult[], grid: TileGrid): Generation | undefined {
+  const seeded = results.filter((result) => result.success && result.call && result.seed !== undefined);
+  if (seeded.length === 0) return undefined;
+
+  const tiles: Tile[] = seeded.flatMap((result) => result.canvasUpdates?.tiles ?? []);
+  const replaced = new Map<string, Tile>();
+  tiles.forEach((tile) => {
+    const existing = grid.get(tile.x, tile.y, tile.layer);
+    if (existing) replaced.set(tileKey(tile.x, tile.y, tile.layer), existing);
+  });
+
+  return {
+    calls: seeded.map((result) => result.call!),
+    seeds: seeded.map((result) => result.seed!),
+    shapeIds: seeded.flatMap((result) => (result.canvasUpdates?.shapes ?? []).map((shape) => shape.id)),
+    spriteIds: seeded.flatMap((result) => resultSprites(result).map((sprite) => sprite.id)),
+    tiles,
+    replacedTiles: Array.from(replaced.values()),
   };
 }
 
@@ -55,9 +103,31 @@ export function AiChat({ placement = 'floating' }: AiChatProps) {
     results: ExecutionResult[];
     aiMessage: string;
   } | null>(null);
+  const [regeneratingIndex, setRegeneratingIndex] = useState<number | null>(null);
   const scrollRef = useRef<HTMLDivElement>(null);
 
-  const { shapes, tiles, addShape, addTiles, clearShapes, clearTiles, zoom, pan, gridSize, gridVisible, snapToGrid, tool, selectedIds } = useCanvasStore();
+  const {
+    shapes,
+    tileGrid,
+    addShape,
+    addTiles,
+    clearShapes,
+    clearTiles,
+    deleteShapes,
+    addSprite,
+    spriteDefinitions,
+    setSpriteDefinitions,
+    applyTileChanges,
+    zoom,
+    pan,
+    gridSize,
+    gridVisible,
+    snapToGrid,
+    tool,
+    selectedIds,
+    tileLayers,
+    activeTileLayerId,
+  } = useCanvasStore();
 
   // Helper to apply canvas updates
   const applyCanvasUpdates = (results: ExecutionResult[]) => {
@@ -77,18 +147,97 @@ export function AiChat({ placement = 'floating' }: AiChatProps) {
             addTiles(result.canvasUpdates.tiles);
           }
         }
+        const sprites = resultSprites(result);
+        if (sprites.length > 0) {
+          setSpriteDefinitions(withSpawnPointDefinitions(spriteDefinitions));
+          sprites.forEach(sprite => addSprite(sprite));
+        }
       }
     });
   };
 
   const handleConfirm = () => {
     if (pendingConfirmation) {
+      const generation = collectGeneration(pendingConfirmation.results, useCanvasStore.getState().tileGrid);
       applyCanvasUpdates(pendingConfirmation.results);
-      setMessages(prev => [...prev, { role: 'assistant', content: pendingConfirmation.aiMessage }]);
+      setMessages(prev => [...prev, { role: 'assistant', content: pendingConfirmation.aiMessage, generation }]);
       setPendingConfirmation(null);
     }
   };
 
+  const setGeneration = (messageIndex: number, generation: Generation | undefined) => {
+    setMessages(prev => prev.map((msg, i) => (i === messageIndex ? { ...msg, generation } : msg)));
+  };
+
+  // Run a message's seeded calls again, with the same seeds or new ones, replacing what they made last time
+  const regenerate = async (messageIndex: number, keepSeed: boolean) => {
+    const generation = messages[messageIndex]?.generation;
+    if (!generation || regeneratingIndex !== null) return;
+
+    const token = localStorage.getItem('auth_token');
+    if (!token) {
+      setMessages(prev => [...prev, { role: 'assistant', content: 'You must be logged in to use AI chat. Please sign in first.' }]);
+      return;
+    }
+
+    // The generators see the canvas as it was before the last run
+    const state = useCanvasStore.getState();
+    const previousGrid = state.tileGrid.clone();
+    generation.tiles.forEach((tile) => previousGrid.delete(tile.x, tile.y, tile.layer));
+    generation.replacedTiles.forEach((tile) => previousGrid.set(tile));
+    const previousShapes = state.shapes.filter((shape) => !generation.shapeIds.includes(shape.id));
+
+    const calls = generation.calls.map((call) => {
+      if (keepSeed) return call;
+      const { seed, ...args } = call.arguments;
+      return { ...call, arguments: args };
+    });
+
+    setRegeneratingIndex(messageIndex);
+    try {
+      const response = await fetch('/api/ai/regenerate', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`
+        },
+        body: JSON.stringify({
+          calls,
+          canvasState: { shapes: previousShapes, selectedIds: [], tool, zoom, pan, gridSize, gridVisible, snapToGrid },
+          tileMap: { gridSize, tiles: previousGrid.toTiles(), layers: tileLayers },
+          activeTileLayerId
+        }),
+        credentials: 'include'
+      });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || `HTTP ${response.status}: ${response.statusText}`);
+      }
+
+      const { results } = (await response.json()) as { results: ExecutionResult[] };
+      const failures = results.filter(result => !result.success);
+      if (failures.length > 0) {
+        throw new Error(failures.map(failure => failure.message).join('\n'));
+      }
+
+      const next = collectGeneration(results, previousGrid);
+      if (generation.shapeIds.length > 0) deleteShapes(generation.shapeIds);
+      results.forEach(result => result.canvasUpdates?.shapes?.forEach(shape => addShape(shape)));
+      applyTileChanges(generation.tiles, [...generation.replacedTiles, ...(next?.tiles ?? [])], 'Regenerate AI result', {
+        remove: generation.spriteIds,
+        add: results.flatMap(resultSprites),
+      });
+      setGeneration(messageIndex, next);
+    } catch (error: any) {
+      setMessages(prev => [...prev, {
+        role: 'assistant',
+        content: `Regenerating failed: ${error?.message || 'Unknown error'}`
+      }]);
+    } finally {
+      setRegeneratingIndex(null);
+    }
+  };
+
   const handleCancel = () => {
     if (pendingConfirmation) {
       setMessages(prev => [...prev, {
@@ -148,13 +297,15 @@ export function AiChat({ placement = 'floating' }: AiChatProps) {
 
       const tileMap = {
         gridSize,
-        tiles
+        tiles: tileGrid.toTiles(),
+        layers: tileLayers
       };
 
       const requestPayload = {
         messages: [...messagesToSend, { role: 'user', content: userMessage }],
         canvasState,
-        tileMap
+        tileMap,
+        activeTileLayerId
       };
 
       console.log('Sending AI chat request:', JSON.stringify(requestPayload, null, 2));
@@ -347,7 +498,15 @@ export function AiChat({ placement = 'floating' }: AiChatProps) {
         });
       } else if (successes.length > 0) {
         // Only apply canvas updates for successful executions
+        const generation = collectGeneration(successes, useCanvasStore.getState().tileGrid);
         applyCanvasUpdates(successes);
+        if (generation) {
+          setMessages(prev => {
+            const lastIndex = prev.length - 1;
+            if (lastIndex < 0 || prev[lastIndex].role !== 'assistant') return prev;
+            return prev.map((msg, i) => (i === lastIndex ? { ...msg, generation } : msg));
+          });
+        }
       }
     },
     onError: (error: any) => {
@@ -421,6 +580,41 @@ export function AiChat({ placement = 'floating' }: AiChatProps) {
                 }`}
               >
                 <p className="text-sm whitespace-pre-wrap">{msg.content}</p>
+                {msg.generation && (
+                  <div className="flex flex-wrap items-center gap-1 mt-2 pt-2 border-t border-border text-xs text-muted-foreground">
+                    <span className="mr-auto" data-testid={`text-generation-seed-${idx}`}>
+                      Seed {msg.generation.seeds.join(', ')}
+                    </span>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-6 px-2 text-xs"
+                      onClick={() => regenerate(idx, true)}
+                      disabled={regeneratingIndex !== null}
+                      title="Regenerate with the same seed"
+                      data-testid={`button-regenerate-same-seed-${idx}`}
+                    >
+                      {regeneratingIndex === idx ? (
+                        <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                      ) : (
+                        <RotateCcw className="h-3 w-3 mr-1" />
+                      )}
+                      Same seed
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-6 px-2 text-xs"
+                      onClick={() => regenerate(idx, false)}
+                      disabled={regeneratingIndex !== null}
+                      title="Regenerate with a new seed"
+                      data-testid={`button-regenerate-new-seed-${idx}`}
+                    >
+                      <Dices className="h-3 w-3 mr-1" />
+                      New seed
+                    </Button>
+                  </div>
+                )}
               </div>
             </div>
           ))}
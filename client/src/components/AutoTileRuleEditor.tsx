@@ -0,0 +1,386 @@
+import { useEffect, useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import type { AutoTileRule, AutoTileRuleMatch, AutoTileRuleOutput, Tileset } from '@shared/schema';
+import { isAutoTilingType } from '@shared/autoTileTemplates';
+import type { RuleDirection } from '@shared/autoTileRules';
+import { useCanvasStore } from '@/store/useCanvasStore';
+import { useUpdateTileset } from '@/hooks/useTilesets';
+import { useToast } from '@/hooks/use-toast';
+import { TileThumb } from '@/components/TileThumb';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Toggle } from '@/components/ui/toggle';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import { ArrowDown, ArrowUp, FlipHorizontal, FlipVertical, Loader2, Plus, Trash2 } from 'lucide-react';
+
+// Pattern grid cells in reading order; null is the tile the rule places
+const PATTERN_CELLS: Array<RuleDirection | null> = [
+  'topLeft', 'top', 'topRight',
+  'left', null, 'right',
+  'bottomLeft', 'bottom', 'bottomRight',
+];
+
+const NEXT_MATCH: Record<AutoTileRuleMatch, AutoTileRuleMatch> = {
+  any: 'match',
+  match: 'not-match',
+  'not-match': 'any',
+};
+
+const SELF = 'self';
+
+function newRule(): AutoTileRule {
+  return { id: uuidv4(), neighbors: {}, outputs: [{ tileIndex: 0, weight: 1 }] };
+}
+
+interface AutoTileRuleEditorProps {
+  tileset: Tileset;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Edits the pattern → output rules of an auto-tiling tileset. Rules run in
+ * list order before the tileset's bitmask table; the first match wins.
+ */
+export function AutoTileRuleEditor({ tileset, open, onOpenChange }: AutoTileRuleEditorProps) {
+  const { tilesets } = useCanvasStore();
+  const updateTileset = useUpdateTileset();
+  const { toast } = useToast();
+
+  const [rules, setRules] = useState<AutoTileRule[]>([]);
+  const [selectedRuleId, setSelectedRuleId] = useState<string | null>(null);
+  const [selectedDirection, setSelectedDirection] = useState<RuleDirection>('top');
+  const [selectedOutput, setSelectedOutput] = useState(0);
+
+  useEffect(() => {
+    if (!open) return;
+    const saved = tileset.autoTileRules ?? [];
+    setRules(saved);
+    setSelectedRuleId(saved[0]?.id ?? null);
+    setSelectedOutput(0);
+  }, [open, tileset.autoTileRules]);
+
+  const rule = rules.find((r) => r.id === selectedRuleId);
+  const terrains = tilesets.filter((t) => t.id !== tileset.id && isAutoTilingType(t.tilesetType));
+  const nameOf = (id: string | null | undefined) =>
+    !id || id === tileset.id ? tileset.name : terrains.find((t) => t.id === id)?.name ?? 'Unknown tileset';
+
+  const updateRule = (updates: Partial<AutoTileRule>) => {
+    setRules(rules.map((r) => (r.id === selectedRuleId ? { ...r, ...updates } : r)));
+  };
+
+  const updateOutput = (index: number, updates: Partial<AutoTileRuleOutput>) => {
+    if (!rule) return;
+    updateRule({ outputs: rule.outputs.map((output, i) => (i === index ? { ...output, ...updates } : output)) });
+  };
+
+  const cycleCondition = (direction: RuleDirection) => {
+    if (!rule) return;
+    setSelectedDirection(direction);
+    const condition = rule.neighbors[direction];
+    const match = NEXT_MATCH[condition?.match ?? 'any'];
+    const neighbors = { ...rule.neighbors };
+    if (match === 'any') {
+      delete neighbors[direction];
+    } else {
+      neighbors[direction] = { match, tilesetId: condition?.tilesetId ?? null };
+    }
+    updateRule({ neighbors });
+  };
+
+  const setConditionTerrain = (value: string) => {
+    if (!rule) return;
+    const condition = rule.neighbors[selectedDirection];
+    if (!condition) return;
+    updateRule({
+      neighbors: { ...rule.neighbors, [selectedDirection]: { ...condition, tilesetId: value === SELF ? null : value } },
+    });
+  };
+
+  const moveRule = (offset: number) => {
+    const index = rules.findIndex((r) => r.id === selectedRuleId);
+    const target = index + offset;
+    if (index < 0 || target < 0 || target >= rules.length) return;
+    const next = [...rules];
+    [next[index], next[target]] = [next[target], next[index]];
+    setRules(next);
+  };
+
+  const addRule = () => {
+    const created = newRule();
+    setRules([...rules, created]);
+    setSelectedRuleId(created.id);
+    setSelectedOutput(0);
+  };
+
+  const removeRule = () => {
+    const remaining = rules.filter((r) => r.id !== selectedRuleId);
+    setRules(remaining);
+    setSelectedRuleId(remaining[0]?.id ?? null);
+    setSelectedOutput(0);
+  };
+
+  const handleSave = async () => {
+    try {
+      await updateTileset.mutateAsync({ id: tileset.id, updates: { autoTileRules: rules } });
+      toast({
+        title: 'Rules saved',
+        description: `Saved ${rules.length} rule${rules.length === 1 ? '' : 's'} for "${tileset.name}"`,
+      });
+      onOpenChange(false);
+    } catch (error: any) {
+      toast({
+        title: 'Save failed',
+        description: error.message || 'Failed to save autotile rules',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const totalWeight = rule?.outputs.reduce((sum, output) => sum + output.weight, 0) ?? 0;
+  const selectedCondition = rule?.neighbors[selectedDirection];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Autotile Rules: {tileset.name}</DialogTitle>
+          <DialogDescription>
+            Rules are checked top to bottom before the tileset's bitmask table. The first rule whose
+            neighbors match places one of its outputs, picked by weight.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-[12rem_1fr] gap-4 max-h-[60vh] overflow-auto">
+          <div className="space-y-2">
+            {rules.length === 0 && (
+              <p className="text-xs text-muted-foreground">No rules yet; the bitmask table places every tile.</p>
+            )}
+            {rules.map((r, index) => (
+              <Button
+                key={r.id}
+                variant={r.id === selectedRuleId ? 'default' : 'outline'}
+                size="sm"
+                className="w-full justify-start truncate"
+                onClick={() => {
+                  setSelectedRuleId(r.id);
+                  setSelectedOutput(0);
+                }}
+                data-testid={`button-rule-${index}`}
+              >
+                {r.name || `Rule ${index + 1}`}
+              </Button>
+            ))}
+            <div className="flex gap-1">
+              <Button size="sm" variant="outline" className="flex-1" onClick={addRule} data-testid="button-add-rule">
+                <Plus className="w-3 h-3 mr-1" />
+                Add
+              </Button>
+              <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => moveRule(-1)} disabled={!rule}>
+                <ArrowUp className="w-3 h-3" />
+              </Button>
+              <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => moveRule(1)} disabled={!rule}>
+                <ArrowDown className="w-3 h-3" />
+              </Button>
+              <Button size="icon" variant="ghost" className="h-8 w-8" onClick={removeRule} disabled={!rule} data-testid="button-remove-rule">
+                <Trash2 className="w-3 h-3" />
+              </Button>
+            </div>
+          </div>
+
+          {rule ? (
+            <div className="space-y-4">
+              <div className="space-y-1">
+                <Label htmlFor="rule-name" className="text-xs">Name</Label>
+                <Input
+                  id="rule-name"
+                  value={rule.name ?? ''}
+                  placeholder="e.g. Shore below water"
+                  onChange={(e) => updateRule({ name: e.target.value || undefined })}
+                  data-testid="input-rule-name"
+                />
+              </div>
+
+              <div className="flex gap-4">
+                <div className="space-y-1">
+                  <Label className="text-xs">Neighbors</Label>
+                  <div className="grid grid-cols-3 gap-1 w-fit">
+                    {PATTERN_CELLS.map((direction) => {
+                      if (!direction) {
+                        return (
+                          <div key="center" className="w-12 h-12 border-2 border-primary rounded flex items-center justify-center bg-muted overflow-hidden">
+                            {rule.outputs[0] && <TileThumb tileset={tileset} tile={rule.outputs[0]} />}
+                          </div>
+                        );
+                      }
+                      const condition = rule.neighbors[direction];
+                      return (
+                        <button
+                          key={direction}
+                          className={cn(
+                            'w-12 h-12 border-2 rounded text-[10px] leading-tight p-0.5 overflow-hidden',
+                            condition?.match === 'match' && 'border-green-500 bg-green-500/20',
+                            condition?.match === 'not-match' && 'border-red-500 bg-red-500/20',
+                            !condition && 'border-border bg-muted text-muted-foreground',
+                            selectedDirection === direction && 'ring-2 ring-primary/40'
+                          )}
+                          onClick={() => cycleCondition(direction)}
+                          title={`${direction}: ${condition?.match ?? 'any'}`}
+                          data-testid={`button-rule-neighbor-${direction}`}
+                        >
+                          {condition ? `${condition.match === 'match' ? '' : 'not '}${nameOf(condition.tilesetId)}` : 'any'}
+                        </button>
+                      );
+                    })}
+                  </div>
+                  <p className="text-[10px] text-muted-foreground">Click to cycle any / match / not-match</p>
+                </div>
+
+                <div className="flex-1 space-y-1">
+                  <Label className="text-xs">Terrain for {selectedDirection}</Label>
+                  <Select
+                    value={selectedCondition?.tilesetId || SELF}
+                    onValueChange={setConditionTerrain}
+                    disabled={!selectedCondition}
+                  >
+                    <SelectTrigger className="h-8 text-xs" data-testid="select-rule-neighbor-terrain">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={SELF}>{tileset.name} (this tileset)</SelectItem>
+                      {terrains.map((t) => (
+                        <SelectItem key={t.id} value={t.id}>{t.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label className="text-xs">Outputs</Label>
+                {rule.outputs.map((output, index) => (
+                  <div
+                    key={index}
+                    className={cn(
+                      'flex items-center gap-2 p-1 rounded border',
+                      selectedOutput === index ? 'border-primary' : 'border-transparent'
+                    )}
+                    onClick={() => setSelectedOutput(index)}
+                  >
+                    <div className="bg-muted rounded overflow-hidden">
+                      <TileThumb tileset={tileset} tile={output} />
+                    </div>
+                    <span className="text-xs w-14">Tile {output.tileIndex}</span>
+                    <Input
+                      type="number"
+                      min={0.1}
+                      step={0.1}
+                      className="h-8 w-20 text-xs"
+                      value={output.weight}
+                      onChange={(e) => updateOutput(index, { weight: Math.max(0.1, Number(e.target.value) || 0.1) })}
+                      data-testid={`input-output-weight-${index}`}
+                    />
+                    <span className="text-xs text-muted-foreground w-10">
+                      {Math.round((output.weight / totalWeight) * 100)}%
+                    </span>
+                    <Toggle
+                      size="sm"
+                      pressed={!!output.flipX}
+                      onPressedChange={(pressed) => updateOutput(index, { flipX: pressed || undefined })}
+                      aria-label="Flip horizontally"
+                    >
+                      <FlipHorizontal className="w-3 h-3" />
+                    </Toggle>
+                    <Toggle
+                      size="sm"
+                      pressed={!!output.flipY}
+                      onPressedChange={(pressed) => updateOutput(index, { flipY: pressed || undefined })}
+                      aria-label="Flip vertically"
+                    >
+                      <FlipVertical className="w-3 h-3" />
+                    </Toggle>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-8 w-8 ml-auto"
+                      disabled={rule.outputs.length === 1}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        updateRule({ outputs: rule.outputs.filter((_, i) => i !== index) });
+                        setSelectedOutput(0);
+                      }}
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => {
+                    updateRule({ outputs: [...rule.outputs, { tileIndex: 0, weight: 1 }] });
+                    setSelectedOutput(rule.outputs.length);
+                  }}
+                  data-testid="button-add-output"
+                >
+                  <Plus className="w-3 h-3 mr-1" />
+                  Add variant
+                </Button>
+              </div>
+
+              <div className="space-y-1">
+                <Label className="text-xs">Pick the tile for output {selectedOutput + 1}</Label>
+                <div
+                  className="grid gap-1 p-2 bg-muted/30 rounded-md overflow-auto w-fit"
+                  style={{ gridTemplateColumns: `repeat(${tileset.columns}, max-content)` }}
+                >
+                  {Array.from({ length: tileset.rows * tileset.columns }).map((_, tileIndex) => (
+                    <button
+                      key={tileIndex}
+                      className={cn(
+                        'border-2 rounded overflow-hidden bg-muted',
+                        rule.outputs[selectedOutput]?.tileIndex === tileIndex ? 'border-primary' : 'border-border'
+                      )}
+                      onClick={() => updateOutput(selectedOutput, { tileIndex })}
+                      data-testid={`button-rule-tile-${tileIndex}`}
+                    >
+                      <TileThumb tileset={tileset} tile={{ tileIndex }} />
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">Add a rule to start.</p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={updateTileset.isPending} data-testid="button-save-rules">
+            {updateTileset.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save rules
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
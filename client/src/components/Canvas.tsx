@@ -1,11 +1,21 @@
 import { useRef, useEffect, useState } from 'react';
-import { Stage } from 'react-konva';
+import { Stage, Layer, Rect, Image as KonvaImage } from 'react-konva';
 import { useCanvasStore } from '@/store/useCanvasStore';
-import type { Shape, Tile } from '@shared/schema';
+import type { Shape, Tile, TileBrushConfig } from '@shared/schema';
 import Konva from 'konva';
 import { v4 as uuidv4 } from 'uuid';
-import { getTilesToUpdate, getNeighborConfig, calculateAutoTileIndex } from '@/utils/autoTiling';
+import { applyAutoTiling, getTilesToUpdate } from '@shared/autoTiling';
+import { isAutoTilingType } from '@shared/autoTileTemplates';
+import { floodFillCells, lineCells, rectCells, type GridBounds, type GridCell } from '@shared/tileShapes';
+import { applyTileTransform, konvaTileTransform } from '@shared/tileTransforms';
+import { animatedTileIndex } from '@shared/tileAnimations';
+import { getTileImageUrls } from '@shared/tileProperties';
+import { brushTileIndex, variantGridBrush } from '@shared/tileBrushes';
 import { getCollaborationService } from '@/services/collaboration';
+import { useTilesetPacks } from '@/hooks/useTilesetPacks';
+import { useTileSelectionActions } from '@/hooks/useTileSelection';
+import { useTileAnimationClock } from '@/hooks/useTileAnimationClock';
+import { selectionContains, selectionFromCorners } from '@/utils/tileStamps';
 import { useLayerVisibility } from '@/contexts/LayerVisibilityContext';
 import { CanvasRenderer } from './Canvas/CanvasRenderer';
 import { useCanvasEvents } from '../hooks/useCanvasEvents';
@@ -14,6 +24,9 @@ export function Canvas() {
   const containerRef = useRef<HTMLDivElement>(null);
   const [stageSize, setStageSize] = useState({ width: 800, height: 600 });
   const { layerVisibility } = useLayerVisibility();
+  const { data: tilesetPacks = [] } = useTilesetPacks();
+  const terrainSets = tilesetPacks.map((pack) => pack.terrainSet);
+  const tileAnimationTime = useTileAnimationClock();
 
   const {
     shapes,
@@ -32,11 +45,20 @@ export function Canvas() {
     selectShapesInArea,
     transformSelectedShapes,
     removeShape,
-    tiles,
+    tileGrid,
+    tileLayers,
+    activeTileLayerId,
     tilesets,
     selectedTileset,
     selectedTileIndex,
     brushSize,
+    tileFillMode,
+    brushTransform,
+    tileBrush,
+    tileSelection,
+    activeStamp,
+    setTileSelection,
+    setActiveStamp,
     addTile,
     addTiles,
     removeTile,
@@ -61,6 +83,10 @@ export function Canvas() {
   const [isSelecting, setIsSelecting] = useState(false);
   const [selectionStart, setSelectionStart] = useState<{ x: number; y: number } | null>(null);
   const [selectionEnd, setSelectionEnd] = useState<{ x: number; y: number } | null>(null);
+  const [tileShape, setTileShape] = useState<{ start: GridCell; end: GridCell } | null>(null);
+  const [tileDrag, setTileDrag] = useState<{ mode: 'marquee' | 'move'; start: GridCell; end: GridCell } | null>(null);
+  const [hoverCell, setHoverCell] = useState<GridCell | null>(null);
+  const tileSelectionActions = useTileSelectionActions();
 
   useEffect(() => {
     const updateSize = () => {
@@ -118,33 +144,24 @@ export function Canvas() {
           imageMap.set(tileset.id, tilesetImages.get(tileset.id)!);
         }
 
-        // Load individual per-index images if tileset includes tile-urls tag
-        const tileUrlsTag = tileset.tags?.find(tag => tag.startsWith('tile-urls:'));
-        if (tileUrlsTag) {
-          try {
-            const urls = JSON.parse(tileUrlsTag.replace('tile-urls:', '')) as string[];
-            if (Array.isArray(urls) && urls.length > 0) {
-              const images: HTMLImageElement[] = [];
-              for (let i = 0; i < urls.length; i++) {
-                const url = urls[i];
-                const idxImg = new window.Image();
-                idxImg.crossOrigin = 'anonymous';
-                await new Promise<void>((resolve, reject) => {
-                  idxImg.onload = () => resolve();
-                  idxImg.onerror = () => reject();
-                  idxImg.src = url;
-                }).catch(() => {
-                  console.error(`Failed to load per-index image ${i} for tileset ${tileset.name}: ${url}`);
-                });
-                images[i] = idxImg;
-              }
-              if (images.length > 0) {
-                indexImageMap.set(tileset.id, images);
-              }
-            }
-          } catch (e) {
-            console.warn('Failed to parse tile-urls tag for tileset', tileset.name, e);
+        // Load individual per-index images of tilesets built from separate tile images
+        const urls = getTileImageUrls(tileset);
+        if (urls.length > 0) {
+          const images: HTMLImageElement[] = [];
+          for (let i = 0; i < urls.length; i++) {
+            const url = urls[i];
+            const idxImg = new window.Image();
+            idxImg.crossOrigin = 'anonymous';
+            await new Promise<void>((resolve, reject) => {
+              idxImg.onload = () => resolve();
+              idxImg.onerror = () => reject();
+              idxImg.src = url;
+            }).catch(() => {
+              console.error(`Failed to load per-index image ${i} for tileset ${tileset.name}: ${url}`);
+            });
+            images[i] = idxImg;
           }
+          indexImageMap.set(tileset.id, images);
         } else if (tilesetIndexImages.has(tileset.id)) {
           indexImageMap.set(tileset.id, tilesetIndexImages.get(tileset.id)!);
         }
@@ -160,6 +177,35 @@ export function Canvas() {
   // Keyboard event handlers for shortcuts
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
+      const typing = e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement;
+      const { tileSelection: selection, tileClipboard } = useCanvasStore.getState();
+
+      // Tile clipboard
+      if (!typing && (e.ctrlKey || e.metaKey)) {
+        const key = e.key.toLowerCase();
+        if (key === 'c' && selection) {
+          tileSelectionActions.copy();
+          e.preventDefault();
+          return;
+        }
+        if (key === 'x' && selection) {
+          tileSelectionActions.cut();
+          e.preventDefault();
+          return;
+        }
+        if (key === 'v' && tileClipboard) {
+          tileSelectionActions.paste();
+          e.preventDefault();
+          return;
+        }
+      }
+
+      if (!typing && (e.key === 'Delete' || e.key === 'Backspace') && selection && selectedIds.length === 0) {
+        tileSelectionActions.remove();
+        e.preventDefault();
+        return;
+      }
+
       if ((e.key === 'Delete' || e.key === 'Backspace') && selectedIds.length > 0) {
         selectedIds.forEach(id => removeShape(id));
         clearSelection();
@@ -173,6 +219,8 @@ export function Canvas() {
       }
       
       if (e.key === 'Escape') {
+        setTileSelection(null);
+        setActiveStamp(null);
         clearSelection();
         setIsSelecting(false);
         setSelectionStart(null);
@@ -182,7 +230,7 @@ export function Canvas() {
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [selectedIds, shapes, tool, removeShape, clearSelection, selectMultipleShapes]);
+  }, [selectedIds, shapes, tool, removeShape, clearSelection, selectMultipleShapes, setTileSelection, setActiveStamp, tileSelectionActions]);
 
   const snapToGridIfEnabled = (pos: { x: number; y: number }) => {
     if (!snapToGrid) return pos;
@@ -192,11 +240,14 @@ export function Canvas() {
     };
   };
 
+  // Painting and erasing target the active layer; fall back to the top layer if it was removed
+  const activeTileLayer =
+    tileLayers.find((layer) => layer.id === activeTileLayerId) ?? tileLayers[tileLayers.length - 1];
+
   const eraseTilesAtPosition = (gridX: number, gridY: number) => {
-    const tilesAtPosition = tiles.filter((t) => t.x === gridX && t.y === gridY);
-    if (tilesAtPosition.length === 0) return;
-    
-    const tileToRemove = tilesAtPosition.find((t) => t.layer === 'props') || tilesAtPosition[0];
+    if (!activeTileLayer || activeTileLayer.locked) return;
+
+    const tileToRemove = tileGrid.get(gridX, gridY, activeTileLayer.id);
     
     if (!tileToRemove) return;
 
@@ -211,7 +262,7 @@ export function Canvas() {
       });
       
       if (!configTile) {
-        removeTile(gridX, gridY);
+        removeTile(gridX, gridY, tileToRemove.layer);
         return;
       }
 
@@ -219,46 +270,65 @@ export function Canvas() {
       const baseY = gridY - configTile.y;
 
       tileset.multiTileConfig.tiles.forEach((tilePos) => {
-        removeTile(baseX + tilePos.x, baseY + tilePos.y, 'props');
+        removeTile(baseX + tilePos.x, baseY + tilePos.y, tileToRemove.layer);
       });
 
       return;
     }
 
     // Standard autotiling for terrain tiles
-    const tilesAfterRemoval = tiles.filter(
-      (t) => !(t.x === gridX && t.y === gridY)
-    );
+    const tilesAfterRemoval = tileGrid.clone();
+    tilesAfterRemoval.delete(gridX, gridY, tileToRemove.layer);
     const tilesToUpdate = getTilesToUpdate(
       gridX,
       gridY,
       tileToRemove.tilesetId,
       tilesAfterRemoval,
       false,
-      tileToRemove.layer
+      tileToRemove.layer,
+      tilesets,
+      terrainSets
     );
     
     removeTile(gridX, gridY, tileToRemove.layer);
     
-    if (tileToRemove.layer === 'terrain') {
+    if (tileToRemove.layer !== 'props') {
       tilesToUpdate.forEach((update) => {
-        addTile({
-          x: update.x,
-          y: update.y,
-          tilesetId: update.tilesetId,
-          tileIndex: update.tileIndex,
-          layer: 'terrain',
-        });
+        addTile({ ...update, layer: tileToRemove.layer });
       });
     }
   };
 
+  // Random/pattern brush of the selected tileset; variant grids paint their grid as a pattern
+  const activeBrush = (): TileBrushConfig | null => {
+    if (!selectedTileset) return null;
+    if (tileBrush && tileBrush.tilesetId === selectedTileset.id) return tileBrush.config;
+    if (
+      selectedTileset.tilesetType === 'variant_grid' &&
+      (brushSize.width > 1 || brushSize.height > 1) &&
+      selectedTileset.variantGridConfig
+    ) {
+      return variantGridBrush(selectedTileset.variantGridConfig, selectedTileIndex);
+    }
+    return null;
+  };
+
+  // Tile index the brush paints at a world cell
+  const brushTileAt = (brush: TileBrushConfig | null, x: number, y: number) =>
+    brush ? brushTileIndex(brush, x, y, tileBrush?.seed) : selectedTileIndex;
+
+  // Random picks take the brush orientation; patterns only read upright
+  const orientBrushTiles = (brush: TileBrushConfig | null, tiles: Tile[]) =>
+    brush?.type === 'pattern' ? tiles : tiles.map((tile) => applyTileTransform(tile, brushTransform));
+
   const paintTilesAtPosition = (gridX: number, gridY: number) => {
     if (!selectedTileset || selectedTileIndex === undefined) return;
+    if (!activeTileLayer || activeTileLayer.locked) return;
 
+    const layer = activeTileLayer.id;
     const isAutoBrush = tool === 'auto-tile-paint';
 
-    // Handle multi-tile objects (trees, etc.) always on props
+    // Handle multi-tile objects (trees, etc.)
     if (selectedTileset.tilesetType === 'multi-tile' && selectedTileset.multiTileConfig) {
       const allTilesToAdd: Tile[] = [];
       selectedTileset.multiTileConfig.tiles.forEach((tilePos) => {
@@ -268,37 +338,17 @@ export function Canvas() {
           y: gridY + tilePos.y,
           tilesetId: selectedTileset.id,
           tileIndex: tileIndex,
-          layer: 'props' as const,
+          layer,
         });
       });
       addTiles(allTilesToAdd);
       return;
     }
 
-    // Variant grid brush placement when brush size > 1
-    if (
-      selectedTileset.tilesetType === 'variant_grid' &&
-      (brushSize.width > 1 || brushSize.height > 1) &&
-      selectedTileset.variantGridConfig
-    ) {
-      const allTilesToAdd: Tile[] = [];
-      for (let dx = 0; dx < brushSize.width; dx++) {
-        for (let dy = 0; dy < brushSize.height; dy++) {
-          const x = gridX + dx;
-          const y = gridY + dy;
-          const variantX = dx % selectedTileset.variantGridConfig.width;
-          const variantY = dy % selectedTileset.variantGridConfig.height;
-          const variantIndex = variantY * selectedTileset.variantGridConfig.width + variantX;
-          const tileIndex = selectedTileIndex + variantIndex;
-          allTilesToAdd.push({ x, y, tilesetId: selectedTileset.id, tileIndex, layer: 'terrain' as const });
-        }
-      }
-      addTiles(allTilesToAdd);
-      return;
-    }
-
-    // Manual single-tile brush (default) — no auto-tiling updates
-    if (!isAutoBrush || selectedTileset.tilesetType !== 'auto-tiling') {
+    // Manual brush (default) — no auto-tiling updates. Random and pattern
+    // brushes pick each cell's tile from its world position.
+    if (!isAutoBrush || !isAutoTilingType(selectedTileset.tilesetType)) {
+      const brush = activeBrush();
       const tilesToAdd: Tile[] = [];
       for (let dy = 0; dy < brushSize.height; dy++) {
         for (let dx = 0; dx < brushSize.width; dx++) {
@@ -306,58 +356,171 @@ export function Canvas() {
             x: gridX + dx,
             y: gridY + dy,
             tilesetId: selectedTileset.id,
-            tileIndex: selectedTileIndex,
-            layer: 'terrain',
+            tileIndex: brushTileAt(brush, gridX + dx, gridY + dy),
+            layer,
           });
         }
       }
-      addTiles(tilesToAdd);
+      addTiles(orientBrushTiles(brush, tilesToAdd));
       return;
     }
 
-    // Auto-tiling for terrain using the reliable basic system
-    const currentTiles = useCanvasStore.getState().tiles;
-    const allUpdates = new Map<string, Tile>();
-
+    // Auto-tiling through the shared engine, the same one the AI tools use
+    const brushTiles: Tile[] = [];
     for (let dy = 0; dy < brushSize.height; dy++) {
       for (let dx = 0; dx < brushSize.width; dx++) {
-        const tileX = gridX + dx;
-        const tileY = gridY + dy;
-
-        // Add the new tile first
-        const newTile: Tile = {
-          x: tileX,
-          y: tileY,
+        brushTiles.push({
+          x: gridX + dx,
+          y: gridY + dy,
           tilesetId: selectedTileset.id,
-          tileIndex: 4, // Default center tile
-          layer: 'terrain',
-        };
-
-        // Get updates including surrounding tiles
-        const simulatedTiles = [...currentTiles, newTile];
-        const updates = getTilesToUpdate(
-          tileX,
-          tileY,
-          selectedTileset.id,
-          simulatedTiles,
-          true,
-          'terrain'
-        );
-
-        updates.forEach(update => {
-          const key = `${update.x},${update.y},${update.tilesetId}`;
-          allUpdates.set(key, {
-            x: update.x,
-            y: update.y,
-            tilesetId: update.tilesetId,
-            tileIndex: update.tileIndex,
-            layer: 'terrain' as const,
-          });
+          tileIndex: 4, // Recalculated from the neighbors
+          layer,
         });
       }
     }
 
-    addTiles(Array.from(allUpdates.values()));
+    addTiles(applyAutoTiling(brushTiles, useCanvasStore.getState().tileGrid, tilesets, terrainSets));
+  };
+
+  // Tiles the current brush puts on the given cells; auto-tiling tilesets are auto-tiled as one batch
+  const brushTilesForCells = (cells: GridCell[]): Tile[] => {
+    if (!selectedTileset || !activeTileLayer || selectedTileset.tilesetType === 'multi-tile') return [];
+
+    const brush = isAutoTilingType(selectedTileset.tilesetType) ? null : activeBrush();
+    const tiles: Tile[] = cells.map(({ x, y }) => ({
+      x,
+      y,
+      tilesetId: selectedTileset.id,
+      tileIndex: brushTileAt(brush, x, y),
+      layer: activeTileLayer.id,
+    }));
+
+    // Auto tiles take their orientation from the tileset's rules
+    if (!isAutoTilingType(selectedTileset.tilesetType)) {
+      return orientBrushTiles(brush, tiles);
+    }
+    return applyAutoTiling(tiles, useCanvasStore.getState().tileGrid, tilesets, terrainSets);
+  };
+
+  // Cells a line or rectangle drag covers; lines stamp the brush at every point
+  const tileShapeCells = (start: GridCell, end: GridCell): GridCell[] => {
+    if (tool === 'tile-rect') return rectCells(start, end);
+
+    const cells = new Map<string, GridCell>();
+    lineCells(start, end).forEach((point) => {
+      for (let dy = 0; dy < brushSize.height; dy++) {
+        for (let dx = 0; dx < brushSize.width; dx++) {
+          cells.set(`${point.x + dx},${point.y + dy}`, { x: point.x + dx, y: point.y + dy });
+        }
+      }
+    });
+    return Array.from(cells.values());
+  };
+
+  // Bucket fill stays within the painted area of the board and the visible cells
+  const fillBounds = (): GridBounds => {
+    const bounds: GridBounds = {
+      minX: Math.floor(-pan.x / zoom / gridSize),
+      minY: Math.floor(-pan.y / zoom / gridSize),
+      maxX: Math.floor((stageSize.width - pan.x) / zoom / gridSize),
+      maxY: Math.floor((stageSize.height - pan.y) / zoom / gridSize),
+    };
+    tileGrid.forEach((tile) => {
+      bounds.minX = Math.min(bounds.minX, tile.x);
+      bounds.minY = Math.min(bounds.minY, tile.y);
+      bounds.maxX = Math.max(bounds.maxX, tile.x);
+      bounds.maxY = Math.max(bounds.maxY, tile.y);
+    });
+    return bounds;
+  };
+
+  const fillTilesFrom = (start: GridCell) => {
+    if (!activeTileLayer) return;
+    const layer = activeTileLayer.id;
+    const target = tileGrid.get(start.x, start.y, layer);
+    // Auto-tiled terrain matches by tileset, since its cells differ only in edge tiles
+    const matchByTileset = !!target && isAutoTilingType(tilesets.find((t) => t.id === target.tilesetId)?.tilesetType);
+
+    const isTarget = (x: number, y: number) => {
+      const tile = tileGrid.get(x, y, layer);
+      if (!target || !tile) return !target && !tile;
+      return tile.tilesetId === target.tilesetId && (matchByTileset || tile.tileIndex === target.tileIndex);
+    };
+
+    const tiles = brushTilesForCells(floodFillCells(start, fillBounds(), isTarget, tileFillMode === 'contiguous'));
+    if (tiles.length > 0) addTiles(tiles);
+  };
+
+  const isTileShapeTool = tool === 'tile-fill' || tool === 'tile-rect' || tool === 'tile-line';
+  const isTileRegionTool = tool === 'tile-select' || tool === 'tile-stamp';
+  const sameCell = (a: GridCell, b: GridCell) => a.x === b.x && a.y === b.y;
+
+  const pointerCell = (e: Konva.KonvaEventObject<MouseEvent>): GridCell | null => {
+    const pointer = e.target.getStage()?.getRelativePointerPosition();
+    if (!pointer) return null;
+    return { x: Math.floor(pointer.x / gridSize), y: Math.floor(pointer.y / gridSize) };
+  };
+
+  const handleStageMouseDown = (e: Konva.KonvaEventObject<MouseEvent>) => {
+    if (!isTileShapeTool && !isTileRegionTool) {
+      handleMouseDown(e);
+      return;
+    }
+    if (e.evt.button !== 0) return;
+
+    const cell = pointerCell(e);
+    if (!cell) return;
+
+    if (tool === 'tile-select') {
+      // Dragging inside the selection moves it, anywhere else starts a new marquee
+      const mode = tileSelection && selectionContains(tileSelection, cell) ? 'move' : 'marquee';
+      setTileDrag({ mode, start: cell, end: cell });
+      return;
+    }
+    if (tool === 'tile-stamp') {
+      tileSelectionActions.placeActiveStamp(cell.x, cell.y);
+      return;
+    }
+
+    if (!selectedTileset || !activeTileLayer || activeTileLayer.locked) return;
+    if (tool === 'tile-fill') {
+      fillTilesFrom(cell);
+    } else {
+      setTileShape({ start: cell, end: cell });
+    }
+  };
+
+  const handleStageMouseMove = (e: Konva.KonvaEventObject<MouseEvent>) => {
+    const tracksHover = tool === 'tile-stamp' || tool === 'tile-paint';
+    const cell = tileShape || tileDrag || tracksHover ? pointerCell(e) : null;
+    if (cell) {
+      if (tileShape && !sameCell(cell, tileShape.end)) setTileShape({ ...tileShape, end: cell });
+      if (tileDrag && !sameCell(cell, tileDrag.end)) setTileDrag({ ...tileDrag, end: cell });
+      if (tracksHover && (!hoverCell || !sameCell(cell, hoverCell))) setHoverCell(cell);
+    }
+    handleMouseMove(e);
+  };
+
+  const handleStageMouseUp = (e: Konva.KonvaEventObject<MouseEvent>) => {
+    if (tileDrag) {
+      setTileDrag(null);
+      if (tileDrag.mode === 'move') {
+        const dx = tileDrag.end.x - tileDrag.start.x;
+        const dy = tileDrag.end.y - tileDrag.start.y;
+        if (dx !== 0 || dy !== 0) tileSelectionActions.move(dx, dy);
+      } else {
+        const layers = tileSelection?.layers ?? (activeTileLayer ? [activeTileLayer.id] : []);
+        setTileSelection(selectionFromCorners(tileDrag.start, tileDrag.end, layers));
+      }
+      return;
+    }
+    if (!tileShape) {
+      handleMouseUp(e);
+      return;
+    }
+    const tiles = brushTilesForCells(tileShapeCells(tileShape.start, tileShape.end));
+    setTileShape(null);
+    if (tiles.length > 0) addTiles(tiles);
   };
 
   const handleShapeClick = (shapeId: string, multiSelect: boolean) => {
@@ -413,7 +576,7 @@ export function Canvas() {
     selectedTileIndex,
     selectedSpriteDefId,
     shapes,
-    tiles,
+    tileGrid,
     sprites,
     spriteDefinitions,
     currentUser,
@@ -446,9 +609,9 @@ export function Canvas() {
         scaleY={zoom}
         x={pan.x}
         y={pan.y}
-        onMouseDown={handleMouseDown}
-        onMouseMove={handleMouseMove}
-        onMouseUp={handleMouseUp}
+        onMouseDown={handleStageMouseDown}
+        onMouseMove={handleStageMouseMove}
+        onMouseUp={handleStageMouseUp}
         onWheel={handleWheel}
         onDragEnd={handleStageDragEnd}
         draggable={tool === 'pan'}
@@ -459,10 +622,12 @@ export function Canvas() {
           zoom={zoom}
           pan={pan}
           stageSize={stageSize}
-          tiles={tiles}
+          tileGrid={tileGrid}
+          tileLayers={tileLayers}
           tilesets={tilesets}
           tilesetImages={tilesetImages}
           tilesetIndexImages={tilesetIndexImages}
+          tileAnimationTime={tileAnimationTime}
           layerVisibility={layerVisibility}
           shapes={shapes}
           selectedIds={selectedIds}
@@ -484,6 +649,78 @@ export function Canvas() {
           onShapeTransform={updateShape}
           onMultiTransform={transformSelectedShapes}
         />
+        <Layer listening={false}>
+          {tileShape && tileShapeCells(tileShape.start, tileShape.end).map((cell) => (
+            <Rect
+              key={`${cell.x},${cell.y}`}
+              x={cell.x * gridSize}
+              y={cell.y * gridSize}
+              width={gridSize}
+              height={gridSize}
+              fill="rgba(59, 130, 246, 0.35)"
+              stroke="rgba(59, 130, 246, 0.8)"
+              strokeWidth={1 / zoom}
+            />
+          ))}
+          {(() => {
+            // Ghost of the tile the brush paints under the cursor, in its current orientation
+            const image = selectedTileset && tilesetImages.get(selectedTileset.id);
+            if (tool !== 'tile-paint' || !hoverCell || !image || !selectedTileset) return null;
+            if (selectedTileset.tilesetType === 'multi-tile') return null;
+            const step = selectedTileset.tileSize + selectedTileset.spacing;
+            const brush = activeBrush();
+            const tileIndex = brushTileAt(brush, hoverCell.x, hoverCell.y);
+            const frame = animatedTileIndex(selectedTileset, tileIndex, tileAnimationTime);
+            return (
+              <KonvaImage
+                image={image}
+                crop={{
+                  x: (frame % selectedTileset.columns) * step,
+                  y: Math.floor(frame / selectedTileset.columns) * step,
+                  width: selectedTileset.tileSize,
+                  height: selectedTileset.tileSize,
+                }}
+                x={(hoverCell.x + 0.5) * gridSize}
+                y={(hoverCell.y + 0.5) * gridSize}
+                width={gridSize}
+                height={gridSize}
+                opacity={0.6}
+                {...konvaTileTransform(brush?.type === 'pattern' ? {} : brushTransform, gridSize)}
+              />
+            );
+          })()}
+          {tool === 'tile-stamp' && activeStamp && hoverCell && activeStamp.tiles.map((tile) => (
+            <Rect
+              key={`${tile.x},${tile.y},${tile.layer}`}
+              x={(hoverCell.x + tile.x) * gridSize}
+              y={(hoverCell.y + tile.y) * gridSize}
+              width={gridSize}
+              height={gridSize}
+              fill="rgba(34, 197, 94, 0.3)"
+            />
+          ))}
+          {(() => {
+            // Marquee while dragging a new selection, otherwise the selection (offset while moving it)
+            const dragOffset = tileDrag?.mode === 'move'
+              ? { x: tileDrag.end.x - tileDrag.start.x, y: tileDrag.end.y - tileDrag.start.y }
+              : { x: 0, y: 0 };
+            const region = tileDrag?.mode === 'marquee'
+              ? selectionFromCorners(tileDrag.start, tileDrag.end, [])
+              : tileSelection;
+            if (!region) return null;
+            return (
+              <Rect
+                x={(region.x + dragOffset.x) * gridSize}
+                y={(region.y + dragOffset.y) * gridSize}
+                width={region.width * gridSize}
+                height={region.height * gridSize}
+                stroke="#3b82f6"
+                strokeWidth={2 / zoom}
+                dash={[6 / zoom, 4 / zoom]}
+              />
+            );
+          })()}
+        </Layer>
       </Stage>
     </div>
   );
@@ -0,0 +1,279 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { applyAutoTiling } from '@shared/autoTiling';
+import { randomSeed } from '@shared/seededRandom';
+import { matchBiomeTilesets } from '@shared/terrainGeneration';
+import { DEFAULT_CAVE_RULES, MAX_CAVE_SIZE, caveTiles, generateCave, type CaveRules } from '@shared/caveGeneration';
+import { useCanvasStore } from '@/store/useCanvasStore';
+import { useTilesetPacks } from '@/hooks/useTilesetPacks';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Dices } from 'lucide-react';
+
+const PREVIEW_SIZE = 220; // px
+const NO_TILESET = 'none';
+const WALL_COLOR = '#6b7280';
+const FLOOR_COLOR = '#1f2937';
+
+type Area = { x: number; y: number; width: number; height: number };
+
+const INTEGER_RULES: Array<{ key: Exclude<keyof CaveRules, 'fillRatio'>; label: string; min: number; max: number }> = [
+  { key: 'birthLimit', label: 'Birth limit', min: 0, max: 8 },
+  { key: 'deathLimit', label: 'Death limit', min: 0, max: 8 },
+  { key: 'iterations', label: 'Iterations', min: 0, max: 10 },
+];
+
+interface CaveGeneratorDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Carves a cave into an area of the active tile layer with cellular
+ * automata. Pockets cut off from the main cavern are filled in, and the
+ * walls and floor are auto-tiled with the chosen tilesets.
+ */
+export function CaveGeneratorDialog({ open, onOpenChange }: CaveGeneratorDialogProps) {
+  const { tilesets, activeTileLayerId } = useCanvasStore();
+  const { data: tilesetPacks = [] } = useTilesetPacks();
+  const { toast } = useToast();
+  const previewRef = useRef<HTMLCanvasElement>(null);
+
+  const [area, setArea] = useState<Area>({ x: 0, y: 0, width: 48, height: 32 });
+  const [seed, setSeed] = useState(randomSeed);
+  const [rules, setRules] = useState<CaveRules>(DEFAULT_CAVE_RULES);
+  const [wallTileset, setWallTileset] = useState<string>(NO_TILESET);
+  const [floorTileset, setFloorTileset] = useState<string>(NO_TILESET);
+
+  // Start from the selected region, with stone walls when the board has them
+  useEffect(() => {
+    if (!open) return;
+    const { tileSelection, tilesets: current } = useCanvasStore.getState();
+    if (tileSelection) {
+      const { x, y, width, height } = tileSelection;
+      setArea({ x, y, width: Math.min(width, MAX_CAVE_SIZE), height: Math.min(height, MAX_CAVE_SIZE) });
+    }
+    const matched = matchBiomeTilesets(current);
+    setWallTileset((matched.stone ?? matched.dirt)?.id ?? NO_TILESET);
+  }, [open]);
+
+  const cave = useMemo(() => (open ? generateCave({ area, seed, ...rules }) : null), [open, area, seed, rules]);
+
+  useEffect(() => {
+    const canvas = previewRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context || !cave) return;
+    canvas.width = area.width;
+    canvas.height = area.height;
+    cave.walls.forEach((wall, i) => {
+      context.fillStyle = wall ? WALL_COLOR : FLOOR_COLOR;
+      context.fillRect(i % area.width, Math.floor(i / area.width), 1, 1);
+    });
+  }, [cave, area.width, area.height]);
+
+  const terrainTilesets = tilesets.filter((tileset) => tileset.tilesetType !== 'multi-tile');
+  const previewScale = PREVIEW_SIZE / Math.max(area.width, area.height);
+
+  const updateArea = (key: keyof Area, value: string) => {
+    const number = Math.floor(Number(value)) || 0;
+    const clamped = key === 'width' || key === 'height' ? Math.min(MAX_CAVE_SIZE, Math.max(1, number)) : number;
+    setArea({ ...area, [key]: clamped });
+  };
+
+  const handleGenerate = () => {
+    if (!cave) return;
+    if (wallTileset === NO_TILESET) {
+      toast({ title: 'Choose a wall tileset', variant: 'destructive' });
+      return;
+    }
+    if (cave.floorCount === 0) {
+      toast({
+        title: 'No open space',
+        description: 'Lower the fill ratio or birth limit',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    // The cave replaces whatever the layer had in the area
+    const { tileGrid, applyTileChanges } = useCanvasStore.getState();
+    const tiles = caveTiles(
+      cave,
+      { wall: wallTileset, floor: floorTileset === NO_TILESET ? undefined : floorTileset },
+      activeTileLayerId
+    );
+    const removed = tileGrid.queryRect(area.x, area.y, area.x + area.width - 1, area.y + area.height - 1, activeTileLayerId);
+    const grid = tileGrid.clone();
+    removed.forEach((tile) => grid.delete(tile.x, tile.y, tile.layer));
+    const terrainSets = tilesetPacks.map((pack) => pack.terrainSet);
+    applyTileChanges(removed, applyAutoTiling(tiles, grid, tilesets, terrainSets), 'Generate cave');
+
+    toast({
+      title: 'Cave generated',
+      description: `Seed ${seed}: ${cave.floorCount} open tiles, ${cave.removedPockets} isolated pockets filled`,
+    });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Generate Cave</DialogTitle>
+          <DialogDescription>
+            Random walls are smoothed into caverns, then pockets cut off from the largest cavern are filled in.
+            The area replaces the tiles of the active layer and is auto-tiled with its surroundings.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-[1fr_auto] gap-6 max-h-[65vh] overflow-auto">
+          <div className="space-y-4">
+            <div className="grid grid-cols-4 gap-2">
+              {(['x', 'y', 'width', 'height'] as const).map((key) => (
+                <div key={key} className="space-y-1">
+                  <Label className="text-xs capitalize">{key}</Label>
+                  <Input
+                    type="number"
+                    min={key === 'width' || key === 'height' ? 1 : undefined}
+                    max={key === 'width' || key === 'height' ? MAX_CAVE_SIZE : undefined}
+                    value={area[key]}
+                    onChange={(e) => updateArea(key, e.target.value)}
+                    className="h-8 text-xs"
+                    data-testid={`input-cave-${key}`}
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div className="flex items-end gap-2">
+              <div className="space-y-1 flex-1">
+                <Label className="text-xs">Seed</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  value={seed}
+                  onChange={(e) => setSeed(Math.max(0, Math.floor(Number(e.target.value)) || 0))}
+                  className="h-8 text-xs"
+                  data-testid="input-cave-seed"
+                />
+              </div>
+              <Button
+                size="icon"
+                variant="outline"
+                className="h-8 w-8"
+                onClick={() => setSeed(randomSeed())}
+                title="New seed"
+                data-testid="button-cave-new-seed"
+              >
+                <Dices className="h-4 w-4" />
+              </Button>
+            </div>
+
+            <div className="space-y-1">
+              <Label className="text-xs">Fill ratio: {rules.fillRatio.toFixed(2)}</Label>
+              <Slider
+                value={[Math.round(rules.fillRatio * 100)]}
+                min={0}
+                max={100}
+                step={1}
+                onValueChange={([value]) => setRules({ ...rules, fillRatio: value / 100 })}
+                data-testid="slider-cave-fill-ratio"
+              />
+            </div>
+
+            <div className="grid grid-cols-3 gap-2">
+              {INTEGER_RULES.map(({ key, label, min, max }) => (
+                <div key={key} className="space-y-1">
+                  <Label className="text-xs">{label}</Label>
+                  <Input
+                    type="number"
+                    min={min}
+                    max={max}
+                    value={rules[key]}
+                    onChange={(e) =>
+                      setRules({ ...rules, [key]: Math.min(max, Math.max(min, Math.floor(Number(e.target.value)) || 0)) })
+                    }
+                    className="h-8 text-xs"
+                    data-testid={`input-cave-${key}`}
+                  />
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Open cells with at least the birth limit of wall neighbours fill in; walls with fewer than the death
+              limit open up.
+            </p>
+
+            <div className="space-y-2">
+              <Label className="text-xs">Tilesets</Label>
+              {([
+                ['Walls', wallTileset, setWallTileset, 'Choose a tileset', 'select-cave-wall'],
+                ['Floor', floorTileset, setFloorTileset, 'Leave empty', 'select-cave-floor'],
+              ] as const).map(([label, value, onChange, emptyLabel, testId]) => (
+                <div key={label} className="grid grid-cols-[5rem_1fr] gap-2 items-center">
+                  <span className="text-xs">{label}</span>
+                  <Select value={value} onValueChange={onChange}>
+                    <SelectTrigger className="h-8 text-xs" data-testid={testId}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_TILESET}>{emptyLabel}</SelectItem>
+                      {terrainTilesets.map((tileset) => (
+                        <SelectItem key={tileset.id} value={tileset.id}>{tileset.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-xs">Preview</Label>
+            <canvas
+              ref={previewRef}
+              className="rounded border border-border"
+              style={{
+                width: area.width * previewScale,
+                height: area.height * previewScale,
+                imageRendering: 'pixelated',
+              }}
+            />
+            {cave && (
+              <div className="space-y-0.5 text-xs text-muted-foreground">
+                <div>{Math.round((cave.floorCount / cave.walls.length) * 100)}% open</div>
+                <div>{cave.removedPockets} isolated pockets filled</div>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleGenerate} data-testid="button-generate-cave">
+            Generate
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
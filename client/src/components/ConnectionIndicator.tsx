@@ -0,0 +1,88 @@
+import { useEffect, useState } from 'react';
+import type { CollaborationService, ConnectionState } from '@/services/collaboration';
+import { Badge } from '@/components/ui/badge';
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from '@/components/ui/tooltip';
+import { Cloud, CloudOff, Loader2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+const STATUS_LABELS: Record<ConnectionState['status'], string> = {
+  connecting: 'Connecting',
+  connected: 'Connected',
+  disconnected: 'Offline',
+  reconnecting: 'Reconnecting',
+  error: 'Connection error',
+  auth_failed: 'Sign-in required',
+};
+
+interface ConnectionIndicatorProps {
+  service: CollaborationService | null;
+}
+
+export function ConnectionIndicator({ service }: ConnectionIndicatorProps) {
+  const [metrics, setMetrics] = useState(() => service?.getConnectionMetrics() ?? null);
+
+  useEffect(() => {
+    if (!service) {
+      setMetrics(null);
+      return;
+    }
+
+    const update = () => setMetrics(service.getConnectionMetrics());
+    update();
+    service.onConnectionStateChange(update);
+    return () => service.removeConnectionCallback(update);
+  }, [service]);
+
+  // Boards outside a project aren't shared
+  if (!metrics) return null;
+
+  const state = service!.getConnectionState();
+  const isConnected = metrics.status === 'connected';
+  const isBusy = metrics.status === 'connecting' || metrics.status === 'reconnecting';
+  const Icon = isBusy ? Loader2 : isConnected ? Cloud : CloudOff;
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <div className="flex items-center gap-1.5 px-2 text-xs text-gray-300" data-testid="connection-indicator">
+          <Icon
+            className={cn(
+              'h-4 w-4',
+              isBusy && 'animate-spin',
+              isConnected ? 'text-green-400' : isBusy ? 'text-yellow-400' : 'text-red-400'
+            )}
+          />
+          <span>{STATUS_LABELS[metrics.status]}</span>
+          {metrics.pendingChanges > 0 && (
+            <Badge variant="secondary" className="px-1.5 py-0" data-testid="badge-pending-changes">
+              {metrics.pendingChanges} pending
+            </Badge>
+          )}
+          {state.readOnly && (
+            <Badge variant="outline" className="px-1.5 py-0">
+              Read-only
+            </Badge>
+          )}
+        </div>
+      </TooltipTrigger>
+      <TooltipContent>
+        {metrics.pendingChanges > 0 ? (
+          <p className="text-xs">
+            {metrics.pendingChanges} {metrics.pendingChanges === 1 ? 'change is' : 'changes are'} saved
+            locally and will sync when the connection is back
+          </p>
+        ) : (
+          <p className="text-xs">All changes synced</p>
+        )}
+        {state.error && <p className="text-xs text-muted-foreground">{state.error}</p>}
+        {metrics.reconnectAttempts > 0 && (
+          <p className="text-xs text-muted-foreground">Reconnect attempt {metrics.reconnectAttempts}</p>
+        )}
+      </TooltipContent>
+    </Tooltip>
+  );
+}
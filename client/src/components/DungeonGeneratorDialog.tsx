@@ -0,0 +1,338 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { applyAutoTiling } from '@shared/autoTiling';
+import { randomSeed } from '@shared/seededRandom';
+import { matchBiomeTilesets } from '@shared/terrainGeneration';
+import { layerAbove } from '@shared/tileLayers';
+import {
+  DEFAULT_DUNGEON_LOOPS,
+  DEFAULT_MAX_ROOM_SIZE,
+  DEFAULT_MIN_ROOM_SIZE,
+  DEFAULT_ROOM_COUNT,
+  MAX_DUNGEON_SIZE,
+  dungeonTiles,
+  generateDungeon,
+  spawnSprites,
+  type DungeonCell,
+  type RoomTag,
+} from '@shared/dungeonGeneration';
+import { useCanvasStore } from '@/store/useCanvasStore';
+import { useTilesetPacks } from '@/hooks/useTilesetPacks';
+import { useToast } from '@/hooks/use-toast';
+import { withSpawnPointDefinitions } from '@/utils/demoSprites';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Dices } from 'lucide-react';
+
+const PREVIEW_SIZE = 220; // px
+const NO_TILESET = 'none';
+
+const CELL_COLORS: Record<DungeonCell, string> = {
+  empty: '#111827',
+  room: '#a16207',
+  corridor: '#854d0e',
+  wall: '#6b7280',
+};
+const DOOR_COLOR = '#f5f5f4';
+const SPAWN_COLORS: Record<RoomTag, string> = {
+  start: '#16a34a',
+  boss: '#dc2626',
+  treasure: '#d97706',
+};
+
+type Area = { x: number; y: number; width: number; height: number };
+
+type RoomSettings = { roomCount: number; minRoomSize: number; maxRoomSize: number; loops: number };
+
+const ROOM_SETTINGS: Array<{ key: keyof RoomSettings; label: string; min: number; max: number }> = [
+  { key: 'roomCount', label: 'Rooms', min: 1, max: 50 },
+  { key: 'minRoomSize', label: 'Min room size', min: 2, max: 30 },
+  { key: 'maxRoomSize', label: 'Max room size', min: 2, max: 30 },
+  { key: 'loops', label: 'Loops', min: 0, max: 20 },
+];
+
+interface DungeonGeneratorDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Generates a top-down dungeon of rooms, corridors and doors over an area
+ * of the active tile layer, with spawn-point sprites in the start, boss and
+ * treasure rooms. Tiles and sprites are added as one edit.
+ */
+export function DungeonGeneratorDialog({ open, onOpenChange }: DungeonGeneratorDialogProps) {
+  const { tilesets, tileLayers, activeTileLayerId } = useCanvasStore();
+  const { data: tilesetPacks = [] } = useTilesetPacks();
+  const { toast } = useToast();
+  const previewRef = useRef<HTMLCanvasElement>(null);
+
+  const [area, setArea] = useState<Area>({ x: 0, y: 0, width: 48, height: 32 });
+  const [seed, setSeed] = useState(randomSeed);
+  const [settings, setSettings] = useState<RoomSettings>({
+    roomCount: DEFAULT_ROOM_COUNT,
+    minRoomSize: DEFAULT_MIN_ROOM_SIZE,
+    maxRoomSize: DEFAULT_MAX_ROOM_SIZE,
+    loops: DEFAULT_DUNGEON_LOOPS,
+  });
+  const [floorTileset, setFloorTileset] = useState<string>(NO_TILESET);
+  const [wallTileset, setWallTileset] = useState<string>(NO_TILESET);
+  const [doorTileset, setDoorTileset] = useState<string>(NO_TILESET);
+
+  // Start from the selected region, with dirt floors and stone walls when the board has them
+  useEffect(() => {
+    if (!open) return;
+    const { tileSelection, tilesets: current } = useCanvasStore.getState();
+    if (tileSelection) {
+      const { x, y, width, height } = tileSelection;
+      setArea({ x, y, width: Math.min(width, MAX_DUNGEON_SIZE), height: Math.min(height, MAX_DUNGEON_SIZE) });
+    }
+    const matched = matchBiomeTilesets(current);
+    setFloorTileset(matched.dirt?.id ?? NO_TILESET);
+    setWallTileset(matched.stone?.id ?? NO_TILESET);
+  }, [open]);
+
+  const dungeon = useMemo(
+    () => (open ? generateDungeon({ area, seed, ...settings }) : null),
+    [open, area, seed, settings]
+  );
+
+  useEffect(() => {
+    const canvas = previewRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context || !dungeon) return;
+    canvas.width = area.width;
+    canvas.height = area.height;
+    dungeon.cells.forEach((cell, i) => {
+      context.fillStyle = CELL_COLORS[cell];
+      context.fillRect(i % area.width, Math.floor(i / area.width), 1, 1);
+    });
+    context.fillStyle = DOOR_COLOR;
+    dungeon.doors.forEach((door) => context.fillRect(door.x - area.x, door.y - area.y, 1, 1));
+    dungeon.spawns.forEach((spawn) => {
+      context.fillStyle = SPAWN_COLORS[spawn.tag];
+      context.fillRect(spawn.x - area.x, spawn.y - area.y, 1, 1);
+    });
+  }, [dungeon, area.x, area.y, area.width, area.height]);
+
+  const terrainTilesets = tilesets.filter((tileset) => tileset.tilesetType !== 'multi-tile');
+  const previewScale = PREVIEW_SIZE / Math.max(area.width, area.height);
+
+  const updateArea = (key: keyof Area, value: string) => {
+    const number = Math.floor(Number(value)) || 0;
+    const clamped = key === 'width' || key === 'height' ? Math.min(MAX_DUNGEON_SIZE, Math.max(1, number)) : number;
+    setArea({ ...area, [key]: clamped });
+  };
+
+  const updateSetting = (key: keyof RoomSettings, value: string) => {
+    const { min, max } = ROOM_SETTINGS.find((setting) => setting.key === key)!;
+    setSettings({ ...settings, [key]: Math.min(max, Math.max(min, Math.floor(Number(value)) || min)) });
+  };
+
+  const handleGenerate = () => {
+    if (!dungeon) return;
+    if (floorTileset === NO_TILESET) {
+      toast({ title: 'Choose a floor tileset', variant: 'destructive' });
+      return;
+    }
+    if (dungeon.rooms.length === 0) {
+      toast({
+        title: 'No rooms fit',
+        description: 'Make the area larger or the minimum room size smaller',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    // The dungeon replaces the active layer in the area; doors go on the layer above it when there is one
+    const { tileGrid, gridSize, currentUser, spriteDefinitions, setSpriteDefinitions, applyTileChanges } =
+      useCanvasStore.getState();
+    const doorLayer = layerAbove(tileLayers, activeTileLayerId);
+    const tiles = dungeonTiles(
+      dungeon,
+      {
+        floor: floorTileset,
+        wall: wallTileset === NO_TILESET ? undefined : wallTileset,
+        door: doorTileset === NO_TILESET ? undefined : doorTileset,
+      },
+      activeTileLayerId,
+      doorLayer
+    );
+    const removed = [
+      ...tileGrid.queryRect(area.x, area.y, area.x + area.width - 1, area.y + area.height - 1, activeTileLayerId),
+      ...tiles.flatMap((tile) => (tile.layer !== activeTileLayerId ? tileGrid.get(tile.x, tile.y, tile.layer) ?? [] : [])),
+    ];
+    const grid = tileGrid.clone();
+    removed.forEach((tile) => grid.delete(tile.x, tile.y, tile.layer));
+    const terrainSets = tilesetPacks.map((pack) => pack.terrainSet);
+    const sprites = spawnSprites(dungeon, gridSize, uuidv4, currentUser?.id ?? 'local');
+
+    setSpriteDefinitions(withSpawnPointDefinitions(spriteDefinitions));
+    applyTileChanges(removed, applyAutoTiling(tiles, grid, tilesets, terrainSets), 'Generate dungeon', { add: sprites });
+
+    toast({
+      title: 'Dungeon generated',
+      description: `Seed ${seed}: ${dungeon.rooms.length} rooms, ${dungeon.corridors} corridors, ${dungeon.doors.length} doors`,
+    });
+    onOpenChange(false);
+  };
+
+  const tilesetSelect = (
+    label: string,
+    value: string,
+    onChange: (value: string) => void,
+    emptyLabel: string,
+    testId: string
+  ) => (
+    <div className="grid grid-cols-[5rem_1fr] gap-2 items-center">
+      <span className="text-xs">{label}</span>
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger className="h-8 text-xs" data-testid={testId}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NO_TILESET}>{emptyLabel}</SelectItem>
+          {terrainTilesets.map((tileset) => (
+            <SelectItem key={tileset.id} value={tileset.id}>{tileset.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Generate Dungeon</DialogTitle>
+          <DialogDescription>
+            Rooms are laid out by splitting the area and joined by corridors, with doors where corridors meet
+            rooms. The area replaces the active layer's tiles, and the start, boss and treasure rooms get
+            spawn points.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-[1fr_auto] gap-6 max-h-[65vh] overflow-auto">
+          <div className="space-y-4">
+            <div className="grid grid-cols-4 gap-2">
+              {(['x', 'y', 'width', 'height'] as const).map((key) => (
+                <div key={key} className="space-y-1">
+                  <Label className="text-xs capitalize">{key}</Label>
+                  <Input
+                    type="number"
+                    min={key === 'width' || key === 'height' ? 1 : undefined}
+                    max={key === 'width' || key === 'height' ? MAX_DUNGEON_SIZE : undefined}
+                    value={area[key]}
+                    onChange={(e) => updateArea(key, e.target.value)}
+                    className="h-8 text-xs"
+                    data-testid={`input-dungeon-${key}`}
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-4 gap-2">
+              {ROOM_SETTINGS.map(({ key, label, min, max }) => (
+                <div key={key} className="space-y-1">
+                  <Label className="text-xs">{label}</Label>
+                  <Input
+                    type="number"
+                    min={min}
+                    max={max}
+                    value={settings[key]}
+                    onChange={(e) => updateSetting(key, e.target.value)}
+                    className="h-8 text-xs"
+                    data-testid={`input-dungeon-${key}`}
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div className="flex items-end gap-2">
+              <div className="space-y-1 flex-1">
+                <Label className="text-xs">Seed</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  value={seed}
+                  onChange={(e) => setSeed(Math.max(0, Math.floor(Number(e.target.value)) || 0))}
+                  className="h-8 text-xs"
+                  data-testid="input-dungeon-seed"
+                />
+              </div>
+              <Button
+                size="icon"
+                variant="outline"
+                className="h-8 w-8"
+                onClick={() => setSeed(randomSeed())}
+                title="New seed"
+                data-testid="button-dungeon-new-seed"
+              >
+                <Dices className="h-4 w-4" />
+              </Button>
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-xs">Tilesets</Label>
+              {tilesetSelect('Floor', floorTileset, setFloorTileset, 'Choose a tileset', 'select-dungeon-floor')}
+              {tilesetSelect('Walls', wallTileset, setWallTileset, 'Leave empty', 'select-dungeon-wall')}
+              {tilesetSelect('Doors', doorTileset, setDoorTileset, 'Leave open', 'select-dungeon-door')}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-xs">Preview</Label>
+            <canvas
+              ref={previewRef}
+              className="rounded border border-border"
+              style={{
+                width: area.width * previewScale,
+                height: area.height * previewScale,
+                imageRendering: 'pixelated',
+              }}
+            />
+            {dungeon && (
+              <div className="space-y-0.5 text-xs text-muted-foreground">
+                <div>
+                  {dungeon.rooms.length} of {settings.roomCount} rooms, {dungeon.corridors} corridors
+                </div>
+                <div>{dungeon.doors.length} doors</div>
+                {dungeon.spawns.map((spawn) => (
+                  <div key={spawn.tag} className="flex items-center gap-2">
+                    <span className="w-3 h-3 rounded-sm" style={{ backgroundColor: SPAWN_COLORS[spawn.tag] }} />
+                    <span className="capitalize">{spawn.tag}</span> at ({spawn.x}, {spawn.y})
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleGenerate} data-testid="button-generate-dungeon">
+            Generate
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,46 @@
+import { useState } from 'react';
+import { CaveGeneratorDialog } from '@/components/CaveGeneratorDialog';
+import { DungeonGeneratorDialog } from '@/components/DungeonGeneratorDialog';
+import { TerrainGeneratorDialog } from '@/components/TerrainGeneratorDialog';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Wand2 } from 'lucide-react';
+
+/** Procedural generators for the current board */
+export function GenerateMenu() {
+  const [showTerrain, setShowTerrain] = useState(false);
+  const [showDungeon, setShowDungeon] = useState(false);
+  const [showCave, setShowCave] = useState(false);
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button size="sm" variant="ghost" data-testid="button-generate-menu">
+            <Wand2 className="h-4 w-4 mr-2" />
+            Generate
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start">
+          <DropdownMenuItem onClick={() => setShowTerrain(true)} data-testid="menu-generate-terrain">
+            Terrain
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => setShowDungeon(true)} data-testid="menu-generate-dungeon">
+            Dungeon
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => setShowCave(true)} data-testid="menu-generate-cave">
+            Cave
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <TerrainGeneratorDialog open={showTerrain} onOpenChange={setShowTerrain} />
+      <DungeonGeneratorDialog open={showDungeon} onOpenChange={setShowDungeon} />
+      <CaveGeneratorDialog open={showCave} onOpenChange={setShowCave} />
+    </>
+  );
+}
@@ -0,0 +1,144 @@
+import { useMemo, useState } from 'react';
+import type { MaterialConfig } from '@shared/schema';
+import { useCanvasStore } from '@/store/useCanvasStore';
+import { apiDownload } from '@/lib/queryClient';
+import { downloadFile } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Label } from '@/components/ui/label';
+import { Loader2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+
+type CollisionType = MaterialConfig['collisionType'];
+
+// Same defaults the AI executor uses for physics materials
+const COLLISION_MATERIALS: Record<CollisionType, MaterialConfig> = {
+  solid: { id: 'solid', name: 'Solid', materialId: 'solid', friction: 0.7, restitution: 0, density: 1, collisionType: 'solid' },
+  platform: { id: 'platform', name: 'One-way platform', materialId: 'platform', friction: 0.6, restitution: 0, density: 1, collisionType: 'platform' },
+  trigger: { id: 'trigger', name: 'Trigger', materialId: 'trigger', friction: 0.5, restitution: 0, density: 1, collisionType: 'trigger' },
+  hazard: { id: 'hazard', name: 'Hazard', materialId: 'hazard', friction: 0.5, restitution: 0, density: 1, collisionType: 'hazard' },
+};
+
+interface GodotExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function GodotExportDialog({ open, onOpenChange }: GodotExportDialogProps) {
+  const { currentBoardId, boards, tilesets, tileGrid } = useCanvasStore();
+  const [collisions, setCollisions] = useState<Record<string, CollisionType | 'none'>>({});
+  const [exporting, setExporting] = useState(false);
+  const { toast } = useToast();
+
+  const board = boards.find((b) => b.id === currentBoardId);
+  const usedTilesets = useMemo(() => {
+    const ids = new Set<string>();
+    tileGrid.forEach((tile) => ids.add(tile.tilesetId));
+    return tilesets.filter((tileset) => ids.has(tileset.id));
+  }, [tileGrid, tilesets]);
+
+  const handleExport = async () => {
+    if (!currentBoardId) return;
+
+    const tilesetMaterials: Record<string, string> = {};
+    const used = new Set<CollisionType>();
+    Object.entries(collisions).forEach(([tilesetId, collision]) => {
+      if (collision === 'none') return;
+      tilesetMaterials[tilesetId] = COLLISION_MATERIALS[collision].materialId;
+      used.add(collision);
+    });
+    const materials = Array.from(used).map((collision) => COLLISION_MATERIALS[collision]);
+
+    setExporting(true);
+    try {
+      const zip = await apiDownload('POST', `/api/boards/${currentBoardId}/export/godot`, { materials, tilesetMaterials });
+      const fileName = (board?.name || 'board').replace(/[^A-Za-z0-9_-]+/g, '_');
+      downloadFile(`${fileName}-godot.zip`, zip);
+      toast({
+        title: 'Board Exported',
+        description: 'Godot scene and TileSet downloaded',
+      });
+      onOpenChange(false);
+    } catch (error: any) {
+      toast({
+        title: 'Export Failed',
+        description: error.message || 'Could not export the board',
+        variant: 'destructive',
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Export to Godot 4</DialogTitle>
+          <DialogDescription>
+            Downloads a .tscn scene with one TileMapLayer per layer and a TileSet resource.
+            Pick the collision each tileset's tiles should get.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="py-4 max-h-96 overflow-auto space-y-3">
+          {!currentBoardId ? (
+            <p className="text-sm text-muted-foreground">
+              Open a saved board to export it.
+            </p>
+          ) : usedTilesets.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No tiles have been painted on this board yet.
+            </p>
+          ) : (
+            usedTilesets.map((tileset) => (
+              <div key={tileset.id} className="flex items-center justify-between gap-4">
+                <Label htmlFor={`godot-collision-${tileset.id}`} className="text-sm truncate">
+                  {tileset.name}
+                </Label>
+                <Select
+                  value={collisions[tileset.id] ?? 'none'}
+                  onValueChange={(val) => setCollisions((prev) => ({ ...prev, [tileset.id]: val as CollisionType | 'none' }))}
+                >
+                  <SelectTrigger id={`godot-collision-${tileset.id}`} className="w-44" data-testid={`select-godot-collision-${tileset.id}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">No collision</SelectItem>
+                    {Object.values(COLLISION_MATERIALS).map((material) => (
+                      <SelectItem key={material.collisionType} value={material.collisionType}>
+                        {material.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport} disabled={!currentBoardId || exporting} data-testid="button-export-godot">
+            {exporting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Export
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,71 @@
+import { useCanvasStore } from '@/store/useCanvasStore';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { History, Undo2, Redo2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+export function HistoryPanel() {
+  const { history, historyIndex, undo, redo, jumpToHistory } = useCanvasStore();
+
+  const formatTime = (timestamp: number) =>
+    new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+  return (
+    <Card className="overflow-y-hidden bg-gray-800 border-gray-700">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-sm flex items-center gap-2 text-gray-100">
+            <History className="h-4 w-4" />
+            History
+          </CardTitle>
+          <div className="flex gap-1">
+            <Button
+              size="icon"
+              variant="ghost"
+              onClick={undo}
+              disabled={historyIndex <= 0}
+              className="h-6 w-6"
+              title="Undo"
+            >
+              <Undo2 className="h-3 w-3" />
+            </Button>
+            <Button
+              size="icon"
+              variant="ghost"
+              onClick={redo}
+              disabled={historyIndex >= history.length - 1}
+              className="h-6 w-6"
+              title="Redo"
+            >
+              <Redo2 className="h-3 w-3" />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="p-2">
+        <div className="space-y-1 max-h-64 overflow-y-auto">
+          {/* Newest first; entries after the current one are redoable */}
+          {history
+            .map((entry, index) => ({ entry, index }))
+            .reverse()
+            .map(({ entry, index }) => (
+              <button
+                key={entry.id}
+                type="button"
+                onClick={() => jumpToHistory(index)}
+                className={cn(
+                  'w-full flex items-center gap-2 p-2 rounded-md text-left hover-elevate',
+                  index === historyIndex && 'bg-accent',
+                  index > historyIndex && 'opacity-50'
+                )}
+                data-testid={`history-entry-${index}`}
+              >
+                <span className="text-sm flex-1 truncate">{entry.label}</span>
+                <span className="text-xs font-mono text-muted-foreground">{formatTime(entry.timestamp)}</span>
+              </button>
+            ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
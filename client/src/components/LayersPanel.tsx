@@ -1,10 +1,13 @@
+import { useState } from 'react';
 import { useCanvasStore } from '@/store/useCanvasStore';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Separator } from '@/components/ui/separator';
 import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
-import { Eye, EyeOff, Trash2, Grid3X3, Shapes, Gamepad2 } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Slider } from '@/components/ui/slider';
+import { Eye, EyeOff, Trash2, Grid3X3, Shapes, Gamepad2, Lock, Unlock, ChevronUp, ChevronDown, Plus, Eraser } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useLayerVisibility } from '@/contexts/LayerVisibilityContext';
 
@@ -15,8 +18,15 @@ export function LayersPanel() {
     selectShape, 
     deleteShapes, 
     updateShape,
-    tiles,
-    removeTile,
+    tileGrid,
+    clearTileLayer,
+    tileLayers,
+    activeTileLayerId,
+    setActiveTileLayer,
+    addTileLayer,
+    updateTileLayer,
+    moveTileLayer,
+    deleteTileLayer,
     useGodotRendering,
     setUseGodotRendering,
     setGodotProjectConfig
@@ -26,9 +36,9 @@ export function LayersPanel() {
 
   const sortedShapes = [...shapes].reverse();
   
-  // Group tiles by layer
-  const terrainTiles = tiles.filter(tile => tile.layer === 'terrain');
-  const propsTiles = tiles.filter(tile => tile.layer === 'props');
+  const [newLayerName, setNewLayerName] = useState('');
+  const [editingLayerId, setEditingLayerId] = useState<string | null>(null);
+  const [editingLayerName, setEditingLayerName] = useState('');
 
   const handleVisibilityToggle = (id: string, locked: boolean) => {
     updateShape(id, {
@@ -36,12 +46,16 @@ export function LayersPanel() {
     });
   };
 
-  const clearTileLayer = (layer: 'terrain' | 'props') => {
-    // Remove all tiles from the specified layer
-    const tilesToRemove = tiles.filter(tile => tile.layer === layer);
-    tilesToRemove.forEach(tile => {
-      removeTile(tile.x, tile.y, tile.layer);
-    });
+  const handleAddLayer = () => {
+    addTileLayer(newLayerName.trim() || `Layer ${tileLayers.length + 1}`);
+    setNewLayerName('');
+  };
+
+  const commitLayerRename = () => {
+    if (editingLayerId && editingLayerName.trim()) {
+      updateTileLayer(editingLayerId, { name: editingLayerName.trim() });
+    }
+    setEditingLayerId(null);
   };
 
   const clearAllShapes = () => {
@@ -82,80 +96,182 @@ export function LayersPanel() {
             TILE LAYERS
           </div>
           
-          {/* Props Layer */}
-          <div className="space-y-1">
-            <div
-              className={cn(
-                'flex items-center gap-2 p-2 rounded-md hover-elevate cursor-pointer',
-                !layerVisibility.props && 'opacity-50'
-              )}
-            >
-              <div className="w-4 h-4 rounded border border-border flex-shrink-0 bg-green-500/20" />
-              <span className="text-sm flex-1">Props Layer ({propsTiles.length} tiles)</span>
-              <div className="flex gap-1">
-                <Button
-                   size="icon"
-                   variant="ghost"
-                   onClick={() => toggleLayerVisibility('props')}
-                   className="h-6 w-6"
-                   title={layerVisibility.props ? 'Hide props layer' : 'Show props layer'}
-                 >
-                   {layerVisibility.props ? (
-                     <Eye className="h-3 w-3" />
-                   ) : (
-                     <EyeOff className="h-3 w-3" />
-                   )}
-                 </Button>
-                <Button
-                  size="icon"
-                  variant="ghost"
-                  onClick={() => clearTileLayer('props')}
-                  className="h-6 w-6 text-destructive hover:text-destructive"
-                  title="Clear all props tiles"
-                  disabled={propsTiles.length === 0}
+          {[...tileLayers].reverse().map((layer, index) => {
+            const isActive = layer.id === activeTileLayerId;
+            const tileCount = tileGrid.countLayer(layer.id);
+
+            return (
+              <div key={layer.id} className="space-y-1">
+                <div
+                  className={cn(
+                    'flex items-center gap-2 p-2 rounded-md hover-elevate cursor-pointer',
+                    isActive && 'bg-accent',
+                    !layer.visible && 'opacity-50'
+                  )}
+                  onClick={() => setActiveTileLayer(layer.id)}
+                  data-testid={`tile-layer-${layer.id}`}
                 >
-                  <Trash2 className="h-3 w-3" />
-                </Button>
+                  {editingLayerId === layer.id ? (
+                    <Input
+                      autoFocus
+                      value={editingLayerName}
+                      onChange={(e) => setEditingLayerName(e.target.value)}
+                      onClick={(e) => e.stopPropagation()}
+                      onBlur={commitLayerRename}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') commitLayerRename();
+                        if (e.key === 'Escape') setEditingLayerId(null);
+                      }}
+                      className="h-6 text-sm flex-1"
+                      data-testid={`input-tile-layer-name-${layer.id}`}
+                    />
+                  ) : (
+                    <span
+                      className="text-sm flex-1 truncate"
+                      onDoubleClick={(e) => {
+                        e.stopPropagation();
+                        setEditingLayerId(layer.id);
+                        setEditingLayerName(layer.name);
+                      }}
+                      title="Double-click to rename"
+                    >
+                      {layer.name} ({tileCount} tiles)
+                    </span>
+                  )}
+                  <div className="flex gap-1" onClick={(e) => e.stopPropagation()}>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => moveTileLayer(layer.id, 'up')}
+                      className="h-6 w-6"
+                      title="Move layer up"
+                      disabled={index === 0}
+                    >
+                      <ChevronUp className="h-3 w-3" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => moveTileLayer(layer.id, 'down')}
+                      className="h-6 w-6"
+                      title="Move layer down"
+                      disabled={index === tileLayers.length - 1}
+                    >
+                      <ChevronDown className="h-3 w-3" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => updateTileLayer(layer.id, { visible: !layer.visible })}
+                      className="h-6 w-6"
+                      title={layer.visible ? `Hide ${layer.name}` : `Show ${layer.name}`}
+                      data-testid={`button-tile-layer-visibility-${layer.id}`}
+                    >
+                      {layer.visible ? <Eye className="h-3 w-3" /> : <EyeOff className="h-3 w-3" />}
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => updateTileLayer(layer.id, { locked: !layer.locked })}
+                      className="h-6 w-6"
+                      title={layer.locked ? `Unlock ${layer.name}` : `Lock ${layer.name}`}
+                      data-testid={`button-tile-layer-lock-${layer.id}`}
+                    >
+                      {layer.locked ? <Lock className="h-3 w-3" /> : <Unlock className="h-3 w-3" />}
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => clearTileLayer(layer.id)}
+                      className="h-6 w-6 text-destructive hover:text-destructive"
+                      title={`Clear all ${layer.name} tiles`}
+                      disabled={tileCount === 0 || layer.locked}
+                    >
+                      <Eraser className="h-3 w-3" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => deleteTileLayer(layer.id)}
+                      className="h-6 w-6 text-destructive hover:text-destructive"
+                      title={`Delete ${layer.name}`}
+                      disabled={tileLayers.length <= 1}
+                      data-testid={`button-tile-layer-delete-${layer.id}`}
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                </div>
+
+                {/* Settings for the active layer */}
+                {isActive && (
+                  <div className="space-y-2 px-2 pb-2">
+                    <div className="flex items-center gap-2">
+                      <Label className="text-xs text-muted-foreground w-16">Opacity</Label>
+                      <Slider
+                        value={[Math.round(layer.opacity * 100)]}
+                        min={0}
+                        max={100}
+                        step={5}
+                        onValueChange={([value]) => updateTileLayer(layer.id, { opacity: value / 100 })}
+                        className="flex-1"
+                      />
+                      <span className="text-xs font-mono w-8 text-right">{Math.round(layer.opacity * 100)}%</span>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Label className="text-xs text-muted-foreground w-16">Parallax</Label>
+                      <Input
+                        type="number"
+                        step={0.1}
+                        value={layer.parallax.x}
+                        onChange={(e) =>
+                          updateTileLayer(layer.id, {
+                            parallax: { ...layer.parallax, x: parseFloat(e.target.value) || 0 },
+                          })
+                        }
+                        className="h-6 text-xs"
+                        title="Horizontal parallax factor"
+                      />
+                      <Input
+                        type="number"
+                        step={0.1}
+                        value={layer.parallax.y}
+                        onChange={(e) =>
+                          updateTileLayer(layer.id, {
+                            parallax: { ...layer.parallax, y: parseFloat(e.target.value) || 0 },
+                          })
+                        }
+                        className="h-6 text-xs"
+                        title="Vertical parallax factor"
+                      />
+                    </div>
+                  </div>
+                )}
               </div>
-            </div>
-          </div>
+            );
+          })}
 
-          {/* Terrain Layer */}
-          <div className="space-y-1">
-            <div
-              className={cn(
-                'flex items-center gap-2 p-2 rounded-md hover-elevate cursor-pointer',
-                !layerVisibility.terrain && 'opacity-50'
-              )}
+          <div className="flex gap-1">
+            <Input
+              placeholder="New layer name"
+              value={newLayerName}
+              onChange={(e) => setNewLayerName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleAddLayer();
+              }}
+              className="h-7 text-xs"
+              data-testid="input-new-tile-layer"
+            />
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={handleAddLayer}
+              className="h-7 text-xs"
+              data-testid="button-add-tile-layer"
             >
-              <div className="w-4 h-4 rounded border border-border flex-shrink-0 bg-amber-500/20" />
-              <span className="text-sm flex-1">Terrain Layer ({terrainTiles.length} tiles)</span>
-              <div className="flex gap-1">
-                <Button
-                   size="icon"
-                   variant="ghost"
-                   onClick={() => toggleLayerVisibility('terrain')}
-                   className="h-6 w-6"
-                   title={layerVisibility.terrain ? 'Hide terrain layer' : 'Show terrain layer'}
-                 >
-                   {layerVisibility.terrain ? (
-                     <Eye className="h-3 w-3" />
-                   ) : (
-                     <EyeOff className="h-3 w-3" />
-                   )}
-                 </Button>
-                <Button
-                  size="icon"
-                  variant="ghost"
-                  onClick={() => clearTileLayer('terrain')}
-                  className="h-6 w-6 text-destructive hover:text-destructive"
-                  title="Clear all terrain tiles"
-                  disabled={terrainTiles.length === 0}
-                >
-                  <Trash2 className="h-3 w-3" />
-                </Button>
-              </div>
-            </div>
+              <Plus className="h-3 w-3 mr-1" />
+              Add
+            </Button>
           </div>
         </div>
 
@@ -1,6 +1,14 @@
-import { useState } from 'react';
+import { useRef, useState } from 'react';
+import type { Tileset } from '@shared/schema';
 import { useCanvasStore } from '@/store/useCanvasStore';
+import { DEFAULT_TILE_LAYERS } from '@shared/tileLayers';
+import { TileGrid } from '@shared/tileGrid';
 import { useProjects, useCreateProject, useUpdateProject } from '@/hooks/useProjects';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { downloadFile } from '@/lib/utils';
+import { exportTiledMap, importTiledMap, type TiledFile, type TiledImportedTileset, type TiledMapFormat } from '@/utils/tiled';
+import { exportLdtkProject, type LdtkExportBoard } from '@/utils/ldtk';
+import { GodotExportDialog } from '@/components/GodotExportDialog';
 import { Button } from '@/components/ui/button';
 import {
   Dialog,
@@ -11,16 +19,30 @@ import {
   DialogTrigger,
   DialogFooter,
 } from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Save, FolderOpen, Download, Loader2 } from 'lucide-react';
+import { Save, FolderOpen, Download, Upload, Loader2 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 
+// Tileset images the server can serve; anything else (e.g. a file next to a TSX) can't be recreated
+const isServableImageUrl = (url: string) => url.startsWith('/') || /^https?:\/\//.test(url);
+
 export function ProjectManager() {
   const [showSave, setShowSave] = useState(false);
   const [showLoad, setShowLoad] = useState(false);
   const [projectName, setProjectName] = useState('');
-  const { currentProjectName, currentProjectId, setCurrentProject, shapes, tiles, zoom, pan, gridSize } = useCanvasStore();
+  const [importing, setImporting] = useState(false);
+  const [showGodotExport, setShowGodotExport] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const { currentProjectName, currentProjectId, setCurrentProject, shapes, tileGrid, tileLayers, zoom, pan, gridSize } = useCanvasStore();
   const { toast } = useToast();
 
   const { data: projects, isLoading: projectsLoading } = useProjects();
@@ -41,7 +63,8 @@ export function ProjectManager() {
 
     const tileMap = {
       gridSize,
-      tiles,
+      tiles: tileGrid.toTiles(),
+      layers: tileLayers,
     };
 
     const name = projectName || currentProjectName;
@@ -86,28 +109,29 @@ export function ProjectManager() {
       if (projectWithBoards.boards && projectWithBoards.boards.length > 0) {
         const firstBoard = projectWithBoards.boards[0];
         useCanvasStore.setState({
+          currentBoardId: firstBoard.id,
+          currentBoardName: firstBoard.name,
           shapes: firstBoard.canvasState?.shapes || [],
-          tiles: firstBoard.tileMap?.tiles || [],
+          tileGrid: TileGrid.fromTiles(firstBoard.tileMap?.tiles),
           zoom: firstBoard.canvasState?.zoom || 1,
           pan: firstBoard.canvasState?.pan || { x: 0, y: 0 },
           gridSize: firstBoard.canvasState?.gridSize || 32,
         });
+        useCanvasStore.getState().setTileLayers(firstBoard.tileMap?.layers || DEFAULT_TILE_LAYERS);
       } else {
         // Fallback for legacy projects without boards
         useCanvasStore.setState({
           shapes: [],
-          tiles: [],
+          tileGrid: new TileGrid(),
           zoom: 1,
           pan: { x: 0, y: 0 },
           gridSize: 32,
         });
+        useCanvasStore.getState().setTileLayers(DEFAULT_TILE_LAYERS);
       }
       setCurrentProject(project.id, project.name);
-      
-      // Sync loaded data to collaboration document
-      if ((window as any).__collaborationService) {
-        (window as any).__collaborationService.syncFromLocal();
-      }
+      useCanvasStore.getState().resetHistory();
+      // Setting the current project/board makes Board.tsx join that board's collaboration room
       
       toast({
         title: 'Project Loaded',
@@ -121,7 +145,20 @@ export function ProjectManager() {
     const state = useCanvasStore.getState();
     const data = {
       shapes: state.shapes,
-      tiles: state.tiles,
+      tiles: state.tileGrid.toTiles(),
+      tileLayers: state.tileLayers,
+      // Frame lists of animated tiles, by tileset id
+      tileAnimations: Object.fromEntries(
+        state.tilesets
+          .filter((tileset) => tileset.tileAnimations?.length)
+          .map((tileset) => [tileset.id, tileset.tileAnimations])
+      ),
+      // Custom property schemas and per-tile values, by tileset id
+      tileProperties: Object.fromEntries(
+        state.tilesets
+          .filter((tileset) => tileset.tileProperties?.length)
+          .map((tileset) => [tileset.id, { properties: tileset.tileProperties, values: tileset.tilePropertyValues ?? {} }])
+      ),
       canvasState: {
         shapes: state.shapes,
         sprites: state.sprites,
@@ -135,15 +172,7 @@ export function ProjectManager() {
       },
     };
 
-    const blob = new Blob([JSON.stringify(data, null, 2)], {
-      type: 'application/json',
-    });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `${currentProjectName || 'project'}.json`;
-    a.click();
-    URL.revokeObjectURL(url);
+    downloadFile(`${currentProjectName || 'project'}.json`, JSON.stringify(data, null, 2), 'application/json');
 
     toast({
       title: 'Project Exported',
@@ -151,6 +180,122 @@ export function ProjectManager() {
     });
   };
 
+  // The board being edited lives in the store's top-level state, not in `boards`
+  const getCurrentBoardSnapshot = (): LdtkExportBoard => {
+    const state = useCanvasStore.getState();
+    return {
+      id: state.currentBoardId ?? 'current',
+      name: state.currentBoardName || currentProjectName || 'board',
+      canvasState: {
+        shapes: state.shapes,
+        sprites: state.sprites,
+        selectedIds: [],
+        tool: state.tool,
+        zoom: state.zoom,
+        pan: state.pan,
+        gridSize: state.gridSize,
+        gridVisible: state.gridVisible,
+        snapToGrid: state.snapToGrid,
+      },
+      tileMap: {
+        gridSize: state.gridSize,
+        tiles: state.tileGrid.toTiles(),
+        layers: state.tileLayers,
+        spriteDefinitions: state.spriteDefinitions,
+      },
+    };
+  };
+
+  const handleTiledExport = (format: TiledMapFormat) => {
+    const files = exportTiledMap(getCurrentBoardSnapshot(), useCanvasStore.getState().tilesets, format);
+
+    files.forEach((file) =>
+      downloadFile(file.name, file.contents, format === 'tmj' && file === files[0] ? 'application/json' : 'application/xml')
+    );
+
+    toast({
+      title: 'Board Exported',
+      description: `Downloaded ${files[0].name}${files.length > 1 ? ` and ${files.length - 1} tileset file(s)` : ''}. Keep them in the same folder.`,
+    });
+  };
+
+  const handleLdtkExport = () => {
+    const state = useCanvasStore.getState();
+    const current = getCurrentBoardSnapshot();
+    const boards: LdtkExportBoard[] = state.boards.map((board) => (board.id === current.id ? current : board));
+    if (!boards.some((board) => board.id === current.id)) {
+      boards.push(current);
+    }
+
+    downloadFile(`${currentProjectName || 'project'}.ldtk`, exportLdtkProject(boards, state.tilesets), 'application/json');
+
+    toast({
+      title: 'Project Exported',
+      description: `${boards.length} board(s) have been exported as LDtk levels.`,
+    });
+  };
+
+  // Reuse the tileset the map was exported from when we still have it, otherwise create it
+  const resolveImportedTileset = async (imported: TiledImportedTileset): Promise<Tileset | null> => {
+    const { tilesets, setTilesets } = useCanvasStore.getState();
+    const existing =
+      tilesets.find((tileset) => tileset.id === imported.sourceId) ??
+      tilesets.find((tileset) => tileset.name === imported.name && tileset.imageUrl === imported.imageUrl);
+    if (existing) return existing;
+    if (!isServableImageUrl(imported.imageUrl)) return null;
+
+    const created: Tileset = await apiRequest('POST', '/api/tilesets', {
+      name: imported.name,
+      tileSize: imported.tileSize,
+      spacing: imported.spacing,
+      imageUrl: imported.imageUrl,
+      columns: imported.columns,
+      rows: imported.rows,
+      tilesetType: imported.tilesetType,
+      multiTileConfig: imported.multiTileConfig,
+      autoTileTemplate: imported.autoTileTemplate,
+      tileAnimations: imported.tileAnimations,
+      tileProperties: imported.tileProperties,
+      tilePropertyValues: imported.tilePropertyValues,
+      tileImageUrls: imported.tileImageUrls,
+    });
+    queryClient.invalidateQueries({ queryKey: ['/api/tilesets'] });
+    const tileset = { ...created, tags: imported.tags ?? [], variantGridConfig: imported.variantGridConfig };
+    setTilesets([...useCanvasStore.getState().tilesets, tileset]);
+    return tileset;
+  };
+
+  const handleTiledImport = async (fileList: FileList | null) => {
+    if (!fileList || fileList.length === 0) return;
+
+    setImporting(true);
+    try {
+      const files: TiledFile[] = await Promise.all(
+        Array.from(fileList).map(async (file) => ({ name: file.name, contents: await file.text() }))
+      );
+      const result = await importTiledMap(files, resolveImportedTileset);
+      useCanvasStore.getState().replaceBoardContent(result, `Import ${result.name}`);
+
+      toast({
+        title: 'Map Imported',
+        description: result.skippedTiles > 0
+          ? `"${result.name}" was imported, but ${result.skippedTiles} tile(s) use tilesets that couldn't be found.`
+          : `"${result.name}" has been imported into the current board.`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Import Failed',
+        description: error instanceof Error ? error.message : 'The map could not be imported.',
+        variant: 'destructive',
+      });
+    } finally {
+      setImporting(false);
+      if (importInputRef.current) {
+        importInputRef.current.value = '';
+      }
+    }
+  };
+
   return (
     <div className="flex items-center gap-2">
       <Dialog open={showSave} onOpenChange={setShowSave}>
@@ -240,10 +385,59 @@ export function ProjectManager() {
         </DialogContent>
       </Dialog>
 
-      <Button size="sm" variant="ghost" onClick={handleExport} data-testid="button-export-project">
-        <Download className="h-4 w-4 mr-2" />
-        Export
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button size="sm" variant="ghost" data-testid="button-export-project">
+            <Download className="h-4 w-4 mr-2" />
+            Export
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onClick={handleExport} data-testid="menu-export-json">
+            Project JSON
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuLabel className="text-xs text-muted-foreground">Tiled</DropdownMenuLabel>
+          <DropdownMenuItem onClick={() => handleTiledExport('tmj')} data-testid="menu-export-tmj">
+            Map (.tmj) + tilesets (.tsx)
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => handleTiledExport('tmx')} data-testid="menu-export-tmx">
+            Map (.tmx) + tilesets (.tsx)
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuLabel className="text-xs text-muted-foreground">LDtk</DropdownMenuLabel>
+          <DropdownMenuItem onClick={handleLdtkExport} data-testid="menu-export-ldtk">
+            Project (.ldtk), all boards
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuLabel className="text-xs text-muted-foreground">Godot</DropdownMenuLabel>
+          <DropdownMenuItem onClick={() => setShowGodotExport(true)} data-testid="menu-export-godot">
+            Godot 4 scene (.zip)
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <GodotExportDialog open={showGodotExport} onOpenChange={setShowGodotExport} />
+
+      <Button
+        size="sm"
+        variant="ghost"
+        onClick={() => importInputRef.current?.click()}
+        disabled={importing}
+        title="Import a Tiled map; select the .tmj/.tmx together with its .tsx tilesets"
+        data-testid="button-import-tiled"
+      >
+        {importing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+        Import
       </Button>
+      <input
+        ref={importInputRef}
+        type="file"
+        accept=".tmj,.tmx,.tsx,.tsj,.json"
+        multiple
+        className="hidden"
+        onChange={(e) => handleTiledImport(e.target.files)}
+        data-testid="input-import-tiled"
+      />
     </div>
   );
 }
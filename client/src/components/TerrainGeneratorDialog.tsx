@@ -0,0 +1,292 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { applyAutoTiling } from '@shared/autoTiling';
+import { randomSeed } from '@shared/seededRandom';
+import {
+  BIOMES,
+  DEFAULT_BIOME_THRESHOLDS,
+  DEFAULT_NOISE_SCALE,
+  generateTerrain,
+  matchBiomeTilesets,
+  type Biome,
+  type BiomeThresholds,
+} from '@shared/terrainGeneration';
+import { useCanvasStore } from '@/store/useCanvasStore';
+import { useTilesetPacks } from '@/hooks/useTilesetPacks';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Dices } from 'lucide-react';
+
+const MAX_AREA_SIZE = 200; // tiles
+const PREVIEW_SIZE = 220; // px
+const NO_TILESET = 'none';
+
+const BIOME_LABELS: Record<Biome, string> = {
+  water: 'Water',
+  sand: 'Sand',
+  grass: 'Grass',
+  dirt: 'Dirt',
+  stone: 'Stone',
+};
+
+const BIOME_COLORS: Record<Biome, string> = {
+  water: '#3b82f6',
+  sand: '#fde68a',
+  grass: '#22c55e',
+  dirt: '#a16207',
+  stone: '#9ca3af',
+};
+
+const THRESHOLDS: Array<{ key: keyof BiomeThresholds; label: string }> = [
+  { key: 'water', label: 'Water below height' },
+  { key: 'sand', label: 'Sand below height' },
+  { key: 'stone', label: 'Stone above height' },
+  { key: 'moisture', label: 'Grass above moisture' },
+];
+
+type Area = { x: number; y: number; width: number; height: number };
+
+interface TerrainGeneratorDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Fills an area of the active tile layer with noise-generated biomes, one
+ * terrain tileset per biome, and auto-tiles the result. The same seed and
+ * settings always give the same terrain.
+ */
+export function TerrainGeneratorDialog({ open, onOpenChange }: TerrainGeneratorDialogProps) {
+  const { tilesets, activeTileLayerId } = useCanvasStore();
+  const { data: tilesetPacks = [] } = useTilesetPacks();
+  const { toast } = useToast();
+  const previewRef = useRef<HTMLCanvasElement>(null);
+
+  const [area, setArea] = useState<Area>({ x: 0, y: 0, width: 48, height: 32 });
+  const [seed, setSeed] = useState(randomSeed);
+  const [scale, setScale] = useState(DEFAULT_NOISE_SCALE);
+  const [thresholds, setThresholds] = useState<BiomeThresholds>(DEFAULT_BIOME_THRESHOLDS);
+  const [biomeTilesets, setBiomeTilesets] = useState<Partial<Record<Biome, string>>>({});
+
+  // Start from the selected region and the tilesets whose names fit each biome
+  useEffect(() => {
+    if (!open) return;
+    const { tileSelection, tilesets: current } = useCanvasStore.getState();
+    if (tileSelection) {
+      const { x, y, width, height } = tileSelection;
+      setArea({ x, y, width: Math.min(width, MAX_AREA_SIZE), height: Math.min(height, MAX_AREA_SIZE) });
+    }
+    const matched = matchBiomeTilesets(current);
+    setBiomeTilesets(Object.fromEntries(BIOMES.flatMap((biome) => (matched[biome] ? [[biome, matched[biome]!.id]] : []))));
+  }, [open]);
+
+  const terrain = useMemo(
+    () => (open ? generateTerrain({ area, seed, scale, thresholds, biomeTilesets, layer: activeTileLayerId }) : null),
+    [open, area, seed, scale, thresholds, biomeTilesets, activeTileLayerId]
+  );
+
+  useEffect(() => {
+    const canvas = previewRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context || !terrain) return;
+    canvas.width = area.width;
+    canvas.height = area.height;
+    terrain.biomes.forEach((biome, i) => {
+      context.fillStyle = biomeTilesets[biome] ? BIOME_COLORS[biome] : '#111827';
+      context.fillRect(i % area.width, Math.floor(i / area.width), 1, 1);
+    });
+  }, [terrain, area.width, area.height, biomeTilesets]);
+
+  const terrainTilesets = tilesets.filter((tileset) => tileset.tilesetType !== 'multi-tile');
+  const previewScale = PREVIEW_SIZE / Math.max(area.width, area.height);
+
+  const updateArea = (key: keyof Area, value: string) => {
+    const number = Math.floor(Number(value)) || 0;
+    const clamped = key === 'width' || key === 'height' ? Math.min(MAX_AREA_SIZE, Math.max(1, number)) : number;
+    setArea({ ...area, [key]: clamped });
+  };
+
+  const handleGenerate = () => {
+    if (!terrain) return;
+    if (terrain.tiles.length === 0) {
+      toast({
+        title: 'Nothing to generate',
+        description: 'Choose a tileset for at least one biome',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    // The generated area replaces whatever the layer had there
+    const { tileGrid, applyTileChanges } = useCanvasStore.getState();
+    const removed = tileGrid.queryRect(area.x, area.y, area.x + area.width - 1, area.y + area.height - 1, activeTileLayerId);
+    const grid = tileGrid.clone();
+    removed.forEach((tile) => grid.delete(tile.x, tile.y, tile.layer));
+    const terrainSets = tilesetPacks.map((pack) => pack.terrainSet);
+    applyTileChanges(removed, applyAutoTiling(terrain.tiles, grid, tilesets, terrainSets), 'Generate terrain');
+
+    const summary = BIOMES.filter((biome) => biomeTilesets[biome] && terrain.counts[biome] > 0)
+      .map((biome) => `${terrain.counts[biome]} ${biome}`)
+      .join(', ');
+    toast({ title: 'Terrain generated', description: `Seed ${seed}: ${summary}` });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Generate Terrain</DialogTitle>
+          <DialogDescription>
+            Height and moisture noise decide each cell's biome. The area replaces the tiles of the active layer
+            and is auto-tiled with its surroundings.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-[1fr_auto] gap-6 max-h-[65vh] overflow-auto">
+          <div className="space-y-4">
+            <div className="grid grid-cols-4 gap-2">
+              {(['x', 'y', 'width', 'height'] as const).map((key) => (
+                <div key={key} className="space-y-1">
+                  <Label className="text-xs capitalize">{key}</Label>
+                  <Input
+                    type="number"
+                    min={key === 'width' || key === 'height' ? 1 : undefined}
+                    max={key === 'width' || key === 'height' ? MAX_AREA_SIZE : undefined}
+                    value={area[key]}
+                    onChange={(e) => updateArea(key, e.target.value)}
+                    className="h-8 text-xs"
+                    data-testid={`input-terrain-${key}`}
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div className="flex items-end gap-2">
+              <div className="space-y-1 flex-1">
+                <Label className="text-xs">Seed</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  value={seed}
+                  onChange={(e) => setSeed(Math.max(0, Math.floor(Number(e.target.value)) || 0))}
+                  className="h-8 text-xs"
+                  data-testid="input-terrain-seed"
+                />
+              </div>
+              <Button
+                size="icon"
+                variant="outline"
+                className="h-8 w-8"
+                onClick={() => setSeed(randomSeed())}
+                title="New seed"
+                data-testid="button-terrain-new-seed"
+              >
+                <Dices className="h-4 w-4" />
+              </Button>
+            </div>
+
+            <div className="space-y-1">
+              <Label className="text-xs">Feature size: {scale} tiles</Label>
+              <Slider value={[scale]} min={4} max={64} step={1} onValueChange={([value]) => setScale(value)} />
+            </div>
+
+            <div className="grid grid-cols-2 gap-x-4 gap-y-3">
+              {THRESHOLDS.map(({ key, label }) => (
+                <div key={key} className="space-y-1">
+                  <Label className="text-xs">
+                    {label}: {thresholds[key].toFixed(2)}
+                  </Label>
+                  <Slider
+                    value={[Math.round(thresholds[key] * 100)]}
+                    min={0}
+                    max={100}
+                    step={1}
+                    onValueChange={([value]) => setThresholds({ ...thresholds, [key]: value / 100 })}
+                    data-testid={`slider-terrain-${key}`}
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-xs">Tilesets</Label>
+              {BIOMES.map((biome) => (
+                <div key={biome} className="grid grid-cols-[5rem_1fr] gap-2 items-center">
+                  <span className="flex items-center gap-2 text-xs">
+                    <span className="w-3 h-3 rounded-sm" style={{ backgroundColor: BIOME_COLORS[biome] }} />
+                    {BIOME_LABELS[biome]}
+                  </span>
+                  <Select
+                    value={biomeTilesets[biome] ?? NO_TILESET}
+                    onValueChange={(value) =>
+                      setBiomeTilesets({ ...biomeTilesets, [biome]: value === NO_TILESET ? undefined : value })
+                    }
+                  >
+                    <SelectTrigger className="h-8 text-xs" data-testid={`select-terrain-tileset-${biome}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_TILESET}>Leave empty</SelectItem>
+                      {terrainTilesets.map((tileset) => (
+                        <SelectItem key={tileset.id} value={tileset.id}>{tileset.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-xs">Preview</Label>
+            <canvas
+              ref={previewRef}
+              className="rounded border border-border"
+              style={{
+                width: area.width * previewScale,
+                height: area.height * previewScale,
+                imageRendering: 'pixelated',
+              }}
+            />
+            {terrain && (
+              <div className="space-y-0.5 text-xs text-muted-foreground">
+                {BIOMES.map((biome) => (
+                  <div key={biome}>
+                    {BIOME_LABELS[biome]}: {Math.round((terrain.counts[biome] / terrain.biomes.length) * 100)}%
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleGenerate} data-testid="button-generate-terrain">
+            Generate
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
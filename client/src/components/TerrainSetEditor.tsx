@@ -0,0 +1,220 @@
+import { useEffect, useMemo, useState } from 'react';
+import type { TerrainTransition, TilesetPack } from '@shared/schema';
+import { isAutoTilingType } from '@shared/autoTileTemplates';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useTilesets } from '@/hooks/useTilesets';
+import { useUpdateTilesetPack } from '@/hooks/useTilesetPacks';
+import { ArrowDown, ArrowUp, Plus, Trash2 } from 'lucide-react';
+
+interface TerrainSetEditorProps {
+  pack: TilesetPack;
+}
+
+/**
+ * Priority order and transition sheets for the pack's auto-tiling tilesets.
+ * Higher terrains draw their edges over lower ones; a transition sheet
+ * replaces a terrain's own edges where it meets one specific lower terrain.
+ */
+export function TerrainSetEditor({ pack }: TerrainSetEditorProps) {
+  const { data: allTilesets = [] } = useTilesets();
+  const updatePack = useUpdateTilesetPack();
+  const { toast } = useToast();
+
+  const packTilesets = useMemo(
+    () => allTilesets.filter((tileset) => tileset.packId === pack.id && isAutoTilingType(tileset.tilesetType)),
+    [allTilesets, pack.id]
+  );
+  const nameOf = (id: string) => packTilesets.find((tileset) => tileset.id === id)?.name ?? 'Unknown tileset';
+
+  const [priorities, setPriorities] = useState<string[]>([]);
+  const [transitions, setTransitions] = useState<TerrainTransition[]>([]);
+  const [draft, setDraft] = useState({ terrainId: '', underId: '', tilesetId: '' });
+
+  // Saved order first, then any tilesets added to the pack since
+  useEffect(() => {
+    const ids = new Set(packTilesets.map((tileset) => tileset.id));
+    const saved = (pack.terrainSet?.priorities ?? []).filter((id) => ids.has(id));
+    setPriorities([...saved, ...packTilesets.map((tileset) => tileset.id).filter((id) => !saved.includes(id))]);
+    setTransitions(pack.terrainSet?.transitions ?? []);
+  }, [pack.terrainSet, packTilesets]);
+
+  const transitionSheets = new Set(transitions.map((t) => t.tilesetId));
+  // Transition sheets take no part in the order, they paint as their terrain
+  const terrains = priorities.filter((id) => !transitionSheets.has(id));
+
+  const move = (index: number, offset: number) => {
+    const next = [...terrains];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    setPriorities([...next, ...priorities.filter((id) => transitionSheets.has(id))]);
+  };
+
+  const addTransition = () => {
+    if (!draft.terrainId || !draft.underId || !draft.tilesetId) return;
+    // Transitions only apply where the terrain covers the one under it
+    if (terrains.indexOf(draft.terrainId) >= terrains.indexOf(draft.underId)) {
+      toast({
+        title: 'Invalid transition',
+        description: 'The terrain must rank above the one it is drawn over',
+        variant: 'destructive',
+      });
+      return;
+    }
+    setTransitions([
+      ...transitions.filter((t) => t.terrainId !== draft.terrainId || t.underId !== draft.underId),
+      draft,
+    ]);
+    setDraft({ terrainId: '', underId: '', tilesetId: '' });
+  };
+
+  const handleSave = async () => {
+    try {
+      await updatePack.mutateAsync({
+        id: pack.id,
+        updates: {
+          terrainSet: {
+            priorities: terrains,
+            transitions,
+          },
+        },
+      });
+      toast({
+        title: 'Terrains saved',
+        description: `Updated terrain order for "${pack.name}"`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Update failed',
+        description: 'Failed to save terrain settings',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  if (packTilesets.length < 2) {
+    return (
+      <p className="text-xs text-muted-foreground">
+        Add two or more auto-tiling tilesets to this pack to set terrain priorities.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3" data-testid={`terrain-set-${pack.id}`}>
+      <div className="space-y-1">
+        <Label className="text-xs">Terrain priority (highest first)</Label>
+        {terrains.map((id, index) => (
+          <div key={id} className="flex items-center gap-1 text-xs">
+            <span className="flex-1 truncate">{nameOf(id)}</span>
+            <Button
+              size="icon"
+              variant="ghost"
+              className="h-6 w-6"
+              disabled={index === 0}
+              onClick={() => move(index, -1)}
+              data-testid={`button-terrain-up-${id}`}
+            >
+              <ArrowUp className="w-3 h-3" />
+            </Button>
+            <Button
+              size="icon"
+              variant="ghost"
+              className="h-6 w-6"
+              disabled={index === terrains.length - 1}
+              onClick={() => move(index, 1)}
+              data-testid={`button-terrain-down-${id}`}
+            >
+              <ArrowDown className="w-3 h-3" />
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-1">
+        <Label className="text-xs">Transition tiles</Label>
+        {transitions.length === 0 && (
+          <p className="text-xs text-muted-foreground">No transitions; terrains meet with their own edges.</p>
+        )}
+        {transitions.map((transition) => (
+          <div key={`${transition.terrainId}>${transition.underId}`} className="flex items-center gap-1 text-xs">
+            <span className="flex-1 truncate">
+              {nameOf(transition.terrainId)} over {nameOf(transition.underId)}: {nameOf(transition.tilesetId)}
+            </span>
+            <Button
+              size="icon"
+              variant="ghost"
+              className="h-6 w-6"
+              onClick={() => setTransitions(transitions.filter((t) => t !== transition))}
+              data-testid={`button-remove-transition-${transition.terrainId}-${transition.underId}`}
+            >
+              <Trash2 className="w-3 h-3" />
+            </Button>
+          </div>
+        ))}
+        <div className="grid grid-cols-3 gap-1">
+          <Select value={draft.terrainId} onValueChange={(val) => setDraft({ ...draft, terrainId: val })}>
+            <SelectTrigger className="h-8 text-xs" data-testid={`select-transition-terrain-${pack.id}`}>
+              <SelectValue placeholder="Terrain" />
+            </SelectTrigger>
+            <SelectContent>
+              {terrains.map((id) => (
+                <SelectItem key={id} value={id}>{nameOf(id)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={draft.underId} onValueChange={(val) => setDraft({ ...draft, underId: val })}>
+            <SelectTrigger className="h-8 text-xs" data-testid={`select-transition-under-${pack.id}`}>
+              <SelectValue placeholder="Over" />
+            </SelectTrigger>
+            <SelectContent>
+              {terrains.map((id) => (
+                <SelectItem key={id} value={id}>{nameOf(id)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={draft.tilesetId} onValueChange={(val) => setDraft({ ...draft, tilesetId: val })}>
+            <SelectTrigger className="h-8 text-xs" data-testid={`select-transition-tileset-${pack.id}`}>
+              <SelectValue placeholder="Sheet" />
+            </SelectTrigger>
+            <SelectContent>
+              {packTilesets
+                .filter((tileset) => tileset.id !== draft.terrainId && tileset.id !== draft.underId)
+                .map((tileset) => (
+                  <SelectItem key={tileset.id} value={tileset.id}>{tileset.name}</SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Button
+          size="sm"
+          variant="outline"
+          className="w-full"
+          onClick={addTransition}
+          disabled={!draft.terrainId || !draft.underId || !draft.tilesetId}
+          data-testid={`button-add-transition-${pack.id}`}
+        >
+          <Plus className="w-3 h-3 mr-1" />
+          Add transition
+        </Button>
+      </div>
+
+      <Button
+        size="sm"
+        className="w-full"
+        onClick={handleSave}
+        disabled={updatePack.isPending}
+        data-testid={`button-save-terrain-${pack.id}`}
+      >
+        Save terrains
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,315 @@
+import { useEffect, useState } from 'react';
+import type { TileAnimation, TileAnimationFrame, Tileset } from '@shared/schema';
+import { animationDuration, animationFrameAt } from '@shared/tileAnimations';
+import { useUpdateTileset } from '@/hooks/useTilesets';
+import { useToast } from '@/hooks/use-toast';
+import { TileThumb } from '@/components/TileThumb';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { cn } from '@/lib/utils';
+import { ArrowDown, ArrowUp, Loader2, Plus, Trash2 } from 'lucide-react';
+
+const DEFAULT_FRAME_DURATION = 150; // ms
+const PREVIEW_INTERVAL = 50; // ms
+
+// The sheet either picks the tile that plays the animation or adds frames to it
+type PickMode = 'tile' | 'frame';
+
+interface TileAnimationEditorProps {
+  tileset: Tileset;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Edits the animated tiles of a tileset. Each animation belongs to one tile
+ * index and plays its frames wherever that tile is placed.
+ */
+export function TileAnimationEditor({ tileset, open, onOpenChange }: TileAnimationEditorProps) {
+  const updateTileset = useUpdateTileset();
+  const { toast } = useToast();
+
+  const [animations, setAnimations] = useState<TileAnimation[]>([]);
+  const [selectedTileIndex, setSelectedTileIndex] = useState<number | null>(null);
+  const [pickMode, setPickMode] = useState<PickMode>('frame');
+  const [stripLength, setStripLength] = useState(4);
+  const [previewTime, setPreviewTime] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!open) return;
+    const saved = tileset.tileAnimations ?? [];
+    setAnimations(saved);
+    setSelectedTileIndex(saved[0]?.tileIndex ?? null);
+    setPickMode(saved.length > 0 ? 'frame' : 'tile');
+  }, [open, tileset.tileAnimations]);
+
+  useEffect(() => {
+    if (!open) return;
+    const timer = setInterval(() => setPreviewTime(Date.now()), PREVIEW_INTERVAL);
+    return () => clearInterval(timer);
+  }, [open]);
+
+  const animation = animations.find((a) => a.tileIndex === selectedTileIndex);
+  const tileCount = tileset.rows * tileset.columns;
+
+  const updateFrames = (frames: TileAnimationFrame[]) => {
+    setAnimations(animations.map((a) => (a.tileIndex === selectedTileIndex ? { ...a, frames } : a)));
+  };
+
+  const updateFrame = (index: number, updates: Partial<TileAnimationFrame>) => {
+    if (!animation) return;
+    updateFrames(animation.frames.map((frame, i) => (i === index ? { ...frame, ...updates } : frame)));
+  };
+
+  const moveFrame = (index: number, offset: number) => {
+    if (!animation) return;
+    const target = index + offset;
+    if (target < 0 || target >= animation.frames.length) return;
+    const frames = [...animation.frames];
+    [frames[index], frames[target]] = [frames[target], frames[index]];
+    updateFrames(frames);
+  };
+
+  // Selecting a tile without an animation starts one that shows the tile itself
+  const pickTile = (tileIndex: number) => {
+    if (!animations.some((a) => a.tileIndex === tileIndex)) {
+      setAnimations([...animations, { tileIndex, frames: [{ tileIndex, duration: DEFAULT_FRAME_DURATION }] }]);
+    }
+    setSelectedTileIndex(tileIndex);
+    setPickMode('frame');
+  };
+
+  const handleSheetClick = (tileIndex: number) => {
+    if (pickMode === 'tile' || !animation) {
+      pickTile(tileIndex);
+      return;
+    }
+    updateFrames([...animation.frames, { tileIndex, duration: DEFAULT_FRAME_DURATION }]);
+  };
+
+  // Frame strips are laid out left to right from the animated tile
+  const fillFromStrip = () => {
+    if (!animation) return;
+    const count = Math.max(1, Math.min(stripLength, tileCount - animation.tileIndex));
+    const duration = animation.frames[0]?.duration ?? DEFAULT_FRAME_DURATION;
+    updateFrames(Array.from({ length: count }, (_, i) => ({ tileIndex: animation.tileIndex + i, duration })));
+  };
+
+  const removeAnimation = () => {
+    const remaining = animations.filter((a) => a.tileIndex !== selectedTileIndex);
+    setAnimations(remaining);
+    setSelectedTileIndex(remaining[0]?.tileIndex ?? null);
+  };
+
+  const handleSave = async () => {
+    try {
+      await updateTileset.mutateAsync({
+        id: tileset.id,
+        updates: { tileAnimations: animations.length > 0 ? animations : null },
+      });
+      toast({
+        title: 'Animations saved',
+        description: `Saved ${animations.length} animated tile${animations.length === 1 ? '' : 's'} for "${tileset.name}"`,
+      });
+      onOpenChange(false);
+    } catch (error: any) {
+      toast({
+        title: 'Save failed',
+        description: error.message || 'Failed to save tile animations',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Tile Animations: {tileset.name}</DialogTitle>
+          <DialogDescription>
+            An animated tile plays its frames wherever it's placed on the board, in sync with every other
+            copy of it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-[12rem_1fr] gap-4 max-h-[60vh] overflow-auto">
+          <div className="space-y-2">
+            {animations.length === 0 && (
+              <p className="text-xs text-muted-foreground">No animated tiles yet.</p>
+            )}
+            {animations.map((a) => (
+              <Button
+                key={a.tileIndex}
+                variant={a.tileIndex === selectedTileIndex ? 'default' : 'outline'}
+                size="sm"
+                className="w-full justify-start gap-2"
+                onClick={() => {
+                  setSelectedTileIndex(a.tileIndex);
+                  setPickMode('frame');
+                }}
+                data-testid={`button-animation-${a.tileIndex}`}
+              >
+                <div className="w-4 h-4 overflow-hidden flex-shrink-0">
+                  <div style={{ transform: `scale(${16 / tileset.tileSize})`, transformOrigin: 'top left' }}>
+                    <TileThumb tileset={tileset} tile={{ tileIndex: animationFrameAt(a, previewTime) }} />
+                  </div>
+                </div>
+                Tile {a.tileIndex} ({a.frames.length} frames)
+              </Button>
+            ))}
+            <div className="flex gap-1">
+              <Button
+                size="sm"
+                variant={pickMode === 'tile' ? 'default' : 'outline'}
+                className="flex-1"
+                onClick={() => setPickMode('tile')}
+                data-testid="button-add-animation"
+              >
+                <Plus className="w-3 h-3 mr-1" />
+                Add
+              </Button>
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-8 w-8"
+                onClick={removeAnimation}
+                disabled={!animation}
+                data-testid="button-remove-animation"
+              >
+                <Trash2 className="w-3 h-3" />
+              </Button>
+            </div>
+          </div>
+
+          <div className="space-y-4">
+            {animation && (
+              <>
+                <div className="flex items-end gap-4">
+                  <div className="space-y-1">
+                    <Label className="text-xs">Preview</Label>
+                    <div className="bg-muted rounded overflow-hidden w-fit">
+                      <TileThumb tileset={tileset} tile={{ tileIndex: animationFrameAt(animation, previewTime) }} />
+                    </div>
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {animation.frames.length} frames, {animationDuration(animation)} ms per loop
+                  </div>
+                  <div className="ml-auto flex items-end gap-1">
+                    <div className="space-y-1">
+                      <Label htmlFor="strip-length" className="text-xs">Strip frames</Label>
+                      <Input
+                        id="strip-length"
+                        type="number"
+                        min={1}
+                        className="h-8 w-16 text-xs"
+                        value={stripLength}
+                        onChange={(e) => setStripLength(Math.max(1, Math.floor(Number(e.target.value)) || 1))}
+                        data-testid="input-strip-length"
+                      />
+                    </div>
+                    <Button size="sm" variant="outline" onClick={fillFromStrip} data-testid="button-fill-strip">
+                      Use strip
+                    </Button>
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label className="text-xs">Frames</Label>
+                  {animation.frames.map((frame, index) => (
+                    <div key={index} className="flex items-center gap-2 p-1 rounded border border-border">
+                      <div className="bg-muted rounded overflow-hidden">
+                        <TileThumb tileset={tileset} tile={frame} />
+                      </div>
+                      <span className="text-xs w-14">Tile {frame.tileIndex}</span>
+                      <Input
+                        type="number"
+                        min={1}
+                        step={10}
+                        className="h-8 w-20 text-xs"
+                        value={frame.duration}
+                        onChange={(e) => updateFrame(index, { duration: Math.max(1, Math.floor(Number(e.target.value)) || 1) })}
+                        data-testid={`input-frame-duration-${index}`}
+                      />
+                      <span className="text-xs text-muted-foreground">ms</span>
+                      <div className="ml-auto flex">
+                        <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => moveFrame(index, -1)} disabled={index === 0}>
+                          <ArrowUp className="w-3 h-3" />
+                        </Button>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          className="h-8 w-8"
+                          onClick={() => moveFrame(index, 1)}
+                          disabled={index === animation.frames.length - 1}
+                        >
+                          <ArrowDown className="w-3 h-3" />
+                        </Button>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          className="h-8 w-8"
+                          disabled={animation.frames.length === 1}
+                          onClick={() => updateFrames(animation.frames.filter((_, i) => i !== index))}
+                          data-testid={`button-remove-frame-${index}`}
+                        >
+                          <Trash2 className="w-3 h-3" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+
+            <div className="space-y-1">
+              <Label className="text-xs">
+                {pickMode === 'tile' || !animation ? 'Pick the tile to animate' : 'Click tiles to add frames'}
+              </Label>
+              <div
+                className="grid gap-1 p-2 bg-muted/30 rounded-md overflow-auto w-fit"
+                style={{ gridTemplateColumns: `repeat(${tileset.columns}, max-content)` }}
+              >
+                {Array.from({ length: tileCount }).map((_, tileIndex) => (
+                  <button
+                    key={tileIndex}
+                    className={cn(
+                      'border-2 rounded overflow-hidden bg-muted',
+                      tileIndex === selectedTileIndex
+                        ? 'border-primary'
+                        : animations.some((a) => a.tileIndex === tileIndex)
+                          ? 'border-green-500'
+                          : 'border-border'
+                    )}
+                    onClick={() => handleSheetClick(tileIndex)}
+                    data-testid={`button-animation-tile-${tileIndex}`}
+                  >
+                    <TileThumb tileset={tileset} tile={{ tileIndex }} />
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={updateTileset.isPending} data-testid="button-save-animations">
+            {updateTileset.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save animations
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
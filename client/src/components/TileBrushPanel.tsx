@@ -0,0 +1,296 @@
+import { useState } from 'react';
+import type { TileBrushConfig, Tileset } from '@shared/schema';
+import { useCanvasStore } from '@/store/useCanvasStore';
+import { useCreateTileBrush, useDeleteTileBrush, useTileBrushes, useUpdateTileBrush } from '@/hooks/useTileBrushes';
+import { useToast } from '@/hooks/use-toast';
+import { TileThumb } from '@/components/TileThumb';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dices, Paintbrush, Plus, Trash2 } from 'lucide-react';
+
+const MAX_PATTERN_SIZE = 8;
+const THUMB_SIZE = 20; // px
+
+const newSeed = () => Math.floor(Math.random() * 0x7fffffff);
+
+function SmallThumb({ tileset, tileIndex }: { tileset: Tileset; tileIndex: number }) {
+  return (
+    <div className="overflow-hidden flex-shrink-0 bg-muted" style={{ width: THUMB_SIZE, height: THUMB_SIZE }}>
+      <div style={{ transform: `scale(${THUMB_SIZE / tileset.tileSize})`, transformOrigin: 'top left' }}>
+        <TileThumb tileset={tileset} tile={{ tileIndex }} />
+      </div>
+    </div>
+  );
+}
+
+// The pattern resized, keeping the tiles of cells that still fit
+function resizePattern(pattern: Extract<TileBrushConfig, { type: 'pattern' }>, width: number, height: number, fill: number) {
+  const tiles = Array.from({ length: width * height }, (_, i) => {
+    const x = i % width;
+    const y = Math.floor(i / width);
+    return x < pattern.width && y < pattern.height ? pattern.tiles[y * pattern.width + x] : fill;
+  });
+  return { ...pattern, width, height, tiles };
+}
+
+/**
+ * Random and pattern brushes for the selected tileset, and the brushes the
+ * user saved. While one is active, painting uses it instead of the selected tile.
+ */
+export function TileBrushPanel() {
+  const { selectedTileset, selectedTileIndex, tileBrush, setTileBrush } = useCanvasStore();
+  const { data: savedBrushes = [] } = useTileBrushes();
+  const createBrush = useCreateTileBrush();
+  const updateBrush = useUpdateTileBrush();
+  const deleteBrush = useDeleteTileBrush();
+  const { toast } = useToast();
+  const [brushName, setBrushName] = useState('');
+
+  if (!selectedTileset || selectedTileset.tilesetType === 'multi-tile') {
+    return <p className="text-xs text-muted-foreground">Select a tileset to paint with random or pattern brushes.</p>;
+  }
+
+  const tileset = selectedTileset;
+  const active = tileBrush?.tilesetId === tileset.id ? tileBrush : null;
+  const brush = active?.config ?? null;
+  const tilesetBrushes = savedBrushes.filter((saved) => saved.tilesetId === tileset.id);
+
+  const setConfig = (config: TileBrushConfig) => {
+    setTileBrush({ tilesetId: tileset.id, config, seed: active?.seed ?? newSeed(), savedId: active?.savedId });
+  };
+
+  const startRandom = () => {
+    setTileBrush({
+      tilesetId: tileset.id,
+      config: { type: 'random', tiles: [{ tileIndex: selectedTileIndex, weight: 1 }] },
+      seed: newSeed(),
+    });
+  };
+
+  const startPattern = () => {
+    setTileBrush({
+      tilesetId: tileset.id,
+      config: { type: 'pattern', width: 2, height: 2, tiles: Array(4).fill(selectedTileIndex) },
+      seed: newSeed(),
+    });
+  };
+
+  const handleSave = async () => {
+    if (!brush) return;
+    const name = brushName.trim() || `${brush.type === 'random' ? 'Random' : 'Pattern'} brush ${tilesetBrushes.length + 1}`;
+    try {
+      if (active?.savedId) {
+        await updateBrush.mutateAsync({ id: active.savedId, updates: { config: brush, ...(brushName.trim() ? { name } : {}) } });
+      } else {
+        const saved = await createBrush.mutateAsync({ tilesetId: tileset.id, name, config: brush });
+        setTileBrush({ ...active!, savedId: saved.id });
+      }
+      setBrushName('');
+      toast({ title: 'Brush saved', description: `Saved "${name}"` });
+    } catch (error: any) {
+      toast({
+        title: 'Save failed',
+        description: error.message || 'Failed to save the brush',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteBrush.mutateAsync(id);
+      if (active?.savedId === id) setTileBrush({ ...active, savedId: undefined });
+    } catch (error: any) {
+      toast({
+        title: 'Delete failed',
+        description: error.message || 'Failed to delete the brush',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const totalWeight = brush?.type === 'random' ? brush.tiles.reduce((sum, tile) => sum + tile.weight, 0) : 0;
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-3 gap-1">
+        <Button
+          size="sm"
+          variant={!brush ? 'default' : 'outline'}
+          onClick={() => setTileBrush(null)}
+          data-testid="button-brush-mode-single"
+          className="text-xs h-7"
+        >
+          Single
+        </Button>
+        <Button
+          size="sm"
+          variant={brush?.type === 'random' ? 'default' : 'outline'}
+          onClick={startRandom}
+          data-testid="button-brush-mode-random"
+          className="text-xs h-7"
+        >
+          Random
+        </Button>
+        <Button
+          size="sm"
+          variant={brush?.type === 'pattern' ? 'default' : 'outline'}
+          onClick={startPattern}
+          data-testid="button-brush-mode-pattern"
+          className="text-xs h-7"
+        >
+          Pattern
+        </Button>
+      </div>
+
+      {brush?.type === 'random' && (
+        <div className="space-y-1">
+          {brush.tiles.map((tile, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <SmallThumb tileset={tileset} tileIndex={tile.tileIndex} />
+              <span className="text-xs w-12">Tile {tile.tileIndex}</span>
+              <Input
+                type="number"
+                min={0.1}
+                step={0.5}
+                value={tile.weight}
+                onChange={(e) => {
+                  const weight = Math.max(0.1, Number(e.target.value) || 0.1);
+                  setConfig({ ...brush, tiles: brush.tiles.map((t, i) => (i === index ? { ...t, weight } : t)) });
+                }}
+                className="h-7 w-16 text-xs"
+                title="Weight"
+                data-testid={`input-brush-weight-${index}`}
+              />
+              <span className="text-xs text-muted-foreground w-9 text-right">
+                {Math.round((tile.weight / totalWeight) * 100)}%
+              </span>
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-7 w-7"
+                disabled={brush.tiles.length === 1}
+                onClick={() => setConfig({ ...brush, tiles: brush.tiles.filter((_, i) => i !== index) })}
+                data-testid={`button-remove-brush-tile-${index}`}
+              >
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </div>
+          ))}
+          <div className="flex gap-1">
+            <Button
+              size="sm"
+              variant="outline"
+              className="flex-1 h-7 text-xs"
+              disabled={brush.tiles.some((tile) => tile.tileIndex === selectedTileIndex)}
+              onClick={() => setConfig({ ...brush, tiles: [...brush.tiles, { tileIndex: selectedTileIndex, weight: 1 }] })}
+              data-testid="button-add-brush-tile"
+            >
+              <Plus className="h-3 w-3 mr-1" />
+              Add tile {selectedTileIndex}
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              className="h-7"
+              onClick={() => setTileBrush({ ...active!, seed: newSeed() })}
+              title="Reroll the random picks"
+              data-testid="button-brush-reroll"
+            >
+              <Dices className="h-3 w-3" />
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {brush?.type === 'pattern' && (
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            {(['width', 'height'] as const).map((dimension) => (
+              <Input
+                key={dimension}
+                type="number"
+                min={1}
+                max={MAX_PATTERN_SIZE}
+                value={brush[dimension]}
+                onChange={(e) => {
+                  const size = Math.min(MAX_PATTERN_SIZE, Math.max(1, Math.floor(Number(e.target.value)) || 1));
+                  const width = dimension === 'width' ? size : brush.width;
+                  const height = dimension === 'height' ? size : brush.height;
+                  setConfig(resizePattern(brush, width, height, selectedTileIndex));
+                }}
+                className="h-7 w-14 text-xs"
+                title={dimension === 'width' ? 'Columns' : 'Rows'}
+                data-testid={`input-pattern-${dimension}`}
+              />
+            ))}
+            <span className="text-xs text-muted-foreground">Click a cell to set it to tile {selectedTileIndex}</span>
+          </div>
+          <div className="grid gap-px w-fit" style={{ gridTemplateColumns: `repeat(${brush.width}, max-content)` }}>
+            {brush.tiles.map((tileIndex, index) => (
+              <button
+                key={index}
+                className="border border-border hover:border-primary"
+                onClick={() => setConfig({ ...brush, tiles: brush.tiles.map((t, i) => (i === index ? selectedTileIndex : t)) })}
+                data-testid={`button-pattern-cell-${index}`}
+              >
+                <SmallThumb tileset={tileset} tileIndex={tileIndex} />
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {brush && (
+        <div className="flex gap-1">
+          <Input
+            placeholder={active?.savedId ? 'Rename (optional)' : 'Brush name'}
+            value={brushName}
+            onChange={(e) => setBrushName(e.target.value)}
+            className="h-7 text-xs"
+            data-testid="input-brush-name"
+          />
+          <Button
+            size="sm"
+            className="h-7 text-xs"
+            onClick={handleSave}
+            disabled={createBrush.isPending || updateBrush.isPending}
+            data-testid="button-save-brush"
+          >
+            {active?.savedId ? 'Update' : 'Save'}
+          </Button>
+        </div>
+      )}
+
+      {tilesetBrushes.length > 0 && (
+        <div className="space-y-1">
+          <Label className="text-xs">My Brushes</Label>
+          {tilesetBrushes.map((saved) => (
+            <div key={saved.id} className="flex items-center gap-1">
+              <Button
+                size="sm"
+                variant={active?.savedId === saved.id ? 'default' : 'outline'}
+                className="flex-1 justify-start h-7 text-xs truncate"
+                onClick={() => setTileBrush({ tilesetId: tileset.id, config: saved.config, seed: newSeed(), savedId: saved.id })}
+                data-testid={`button-brush-${saved.id}`}
+              >
+                <Paintbrush className="h-3 w-3 mr-2" />
+                {saved.name}
+              </Button>
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-7 w-7"
+                onClick={() => handleDelete(saved.id)}
+                data-testid={`button-delete-brush-${saved.id}`}
+              >
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,162 @@
+import { useEffect, useState } from 'react';
+import type { TilePropertyDefinition, TilePropertyValue } from '@shared/schema';
+import { coerceTilePropertyValue, getTilePropertyValues, setTilePropertyValue } from '@shared/tileProperties';
+import { useCanvasStore } from '@/store/useCanvasStore';
+import { useUpdateTileset } from '@/hooks/useTilesets';
+import { useToast } from '@/hooks/use-toast';
+import { TileThumb } from '@/components/TileThumb';
+import { TilePropertyInput } from '@/components/TilePropertyInput';
+import { TilePropertySchemaEditor } from '@/components/TilePropertySchemaEditor';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Loader2, RotateCcw, Settings2, SlidersHorizontal } from 'lucide-react';
+
+/**
+ * Custom property values of the tile selected in the tileset panel. Values
+ * the tile doesn't set show the tileset default; edits are saved together.
+ */
+export function TileInspectorPanel() {
+  const { tilesets, selectedTileset, selectedTileIndex } = useCanvasStore();
+  const updateTileset = useUpdateTileset();
+  const { toast } = useToast();
+  const [schemaOpen, setSchemaOpen] = useState(false);
+  // Unsaved edits by property name; undefined resets the tile to the default
+  const [edits, setEdits] = useState<Record<string, TilePropertyValue | undefined>>({});
+
+  // The selected tileset object can be stale after a save, so read the current one
+  const tileset = selectedTileset ? tilesets.find((t) => t.id === selectedTileset.id) ?? selectedTileset : null;
+
+  useEffect(() => {
+    setEdits({});
+  }, [tileset?.id, selectedTileIndex]);
+
+  const header = (
+    <CardHeader className="pb-3">
+      <div className="flex items-center justify-between">
+        <CardTitle className="text-sm flex items-center gap-2 text-gray-100">
+          <SlidersHorizontal className="h-4 w-4" />
+          Tile Inspector
+        </CardTitle>
+        {tileset && (
+          <Button
+            size="icon"
+            variant="ghost"
+            className="h-6 w-6"
+            onClick={() => setSchemaOpen(true)}
+            title="Edit tile properties"
+            data-testid="button-edit-tile-properties"
+          >
+            <Settings2 className="h-3 w-3" />
+          </Button>
+        )}
+      </div>
+    </CardHeader>
+  );
+
+  if (!tileset) {
+    return (
+      <Card className="bg-gray-800 border-gray-700">
+        {header}
+        <CardContent className="p-2 text-xs text-muted-foreground">Select a tile in the tileset panel.</CardContent>
+      </Card>
+    );
+  }
+
+  const definitions = tileset.tileProperties ?? [];
+  const own = tileset.tilePropertyValues?.[String(selectedTileIndex)] ?? {};
+  const values = getTilePropertyValues(tileset, selectedTileIndex);
+  const dirty = Object.keys(edits).length > 0;
+
+  const isOwn = (name: string) => (name in edits ? edits[name] !== undefined : name in own);
+  const valueOf = (definition: TilePropertyDefinition) =>
+    definition.name in edits
+      ? edits[definition.name] ?? coerceTilePropertyValue(definition, definition.default)
+      : values[definition.name];
+
+  const handleSave = async () => {
+    const tilePropertyValues = Object.entries(edits).reduce(
+      (data, [name, value]) => setTilePropertyValue(data, selectedTileIndex, name, value),
+      tileset.tilePropertyValues ?? {}
+    );
+    try {
+      await updateTileset.mutateAsync({ id: tileset.id, updates: { tilePropertyValues } });
+      setEdits({});
+    } catch (error: any) {
+      toast({
+        title: 'Save failed',
+        description: error.message || 'Failed to save tile properties',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Card className="bg-gray-800 border-gray-700">
+      {header}
+      <CardContent className="p-2 space-y-3">
+        <div className="flex items-center gap-2">
+          <div className="bg-muted rounded overflow-hidden">
+            <TileThumb tileset={tileset} tile={{ tileIndex: selectedTileIndex }} />
+          </div>
+          <div className="text-xs text-gray-300">
+            Tile {selectedTileIndex}
+            <div className="text-muted-foreground">{tileset.name}</div>
+          </div>
+        </div>
+
+        {definitions.length === 0 ? (
+          <p className="text-xs text-muted-foreground">
+            This tileset has no tile properties yet. Add some with the settings button.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {definitions.map((definition) => (
+              <div key={definition.name} className="grid grid-cols-[6rem_1fr_auto] gap-2 items-center">
+                <Label className={isOwn(definition.name) ? 'text-xs' : 'text-xs text-muted-foreground'}>
+                  {definition.name}
+                </Label>
+                <TilePropertyInput
+                  definition={definition}
+                  value={valueOf(definition)}
+                  onChange={(value) => setEdits({ ...edits, [definition.name]: value })}
+                />
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-6 w-6"
+                  disabled={!isOwn(definition.name)}
+                  onClick={() => setEdits({ ...edits, [definition.name]: undefined })}
+                  title="Use the tileset default"
+                  data-testid={`button-reset-tile-property-${definition.name}`}
+                >
+                  <RotateCcw className="h-3 w-3" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {dirty && (
+          <div className="flex gap-2">
+            <Button size="sm" variant="ghost" className="flex-1 h-7 text-xs" onClick={() => setEdits({})}>
+              Discard
+            </Button>
+            <Button
+              size="sm"
+              className="flex-1 h-7 text-xs"
+              onClick={handleSave}
+              disabled={updateTileset.isPending}
+              data-testid="button-save-tile-values"
+            >
+              {updateTileset.isPending && <Loader2 className="h-3 w-3 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </div>
+        )}
+      </CardContent>
+
+      <TilePropertySchemaEditor tileset={tileset} open={schemaOpen} onOpenChange={setSchemaOpen} />
+    </Card>
+  );
+}
@@ -0,0 +1,55 @@
+import type { TilePropertyDefinition, TilePropertyValue } from '@shared/schema';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+interface TilePropertyInputProps {
+  definition: TilePropertyDefinition;
+  value: TilePropertyValue;
+  onChange: (value: TilePropertyValue) => void;
+}
+
+/** Editor control for one tile property value, matching the property's type */
+export function TilePropertyInput({ definition, value, onChange }: TilePropertyInputProps) {
+  const testId = `input-tile-property-value-${definition.name}`;
+
+  switch (definition.type) {
+    case 'boolean':
+      return <Switch checked={value === true} onCheckedChange={onChange} data-testid={testId} />;
+    case 'number':
+      return (
+        <Input
+          type="number"
+          value={Number(value)}
+          onChange={(e) => onChange(Number(e.target.value) || 0)}
+          className="h-8 text-xs"
+          data-testid={testId}
+        />
+      );
+    case 'string':
+      return (
+        <Input value={String(value)} onChange={(e) => onChange(e.target.value)} className="h-8 text-xs" data-testid={testId} />
+      );
+    case 'enum': {
+      const options = definition.options ?? [];
+      return (
+        <Select value={options.includes(String(value)) ? String(value) : undefined} onValueChange={onChange} disabled={options.length === 0}>
+          <SelectTrigger className="h-8 text-xs" data-testid={testId}>
+            <SelectValue placeholder={options.length === 0 ? 'No choices' : 'Choose'} />
+          </SelectTrigger>
+          <SelectContent>
+            {options.map((option) => (
+              <SelectItem key={option} value={option}>{option}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    }
+  }
+}
@@ -0,0 +1,221 @@
+import { useEffect, useState } from 'react';
+import type { TilePropertyDefinition, TilePropertyType, Tileset } from '@shared/schema';
+import { coerceTilePropertyValue, defaultValueForType, migrateTilePropertyValues } from '@shared/tileProperties';
+import { useUpdateTileset } from '@/hooks/useTilesets';
+import { useToast } from '@/hooks/use-toast';
+import { TilePropertyInput } from '@/components/TilePropertyInput';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Loader2, Plus, Trash2 } from 'lucide-react';
+
+const PROPERTY_TYPES: Array<{ value: TilePropertyType; label: string }> = [
+  { value: 'boolean', label: 'Boolean' },
+  { value: 'number', label: 'Number' },
+  { value: 'string', label: 'Text' },
+  { value: 'enum', label: 'Choice' },
+];
+
+// Draft rows remember the name they were saved under, so renames keep their tile values
+interface DraftProperty {
+  definition: TilePropertyDefinition;
+  savedName?: string;
+  optionsText?: string; // Choices as typed, so a trailing comma survives until the next choice
+}
+
+interface TilePropertySchemaEditorProps {
+  tileset: Tileset;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Edits the typed properties a tileset's tiles carry. Tiles keep their values
+ * through renames; values of removed properties are dropped on save.
+ */
+export function TilePropertySchemaEditor({ tileset, open, onOpenChange }: TilePropertySchemaEditorProps) {
+  const updateTileset = useUpdateTileset();
+  const { toast } = useToast();
+  const [properties, setProperties] = useState<DraftProperty[]>([]);
+
+  useEffect(() => {
+    if (!open) return;
+    setProperties((tileset.tileProperties ?? []).map((definition) => ({ definition, savedName: definition.name })));
+  }, [open, tileset.tileProperties]);
+
+  const updateProperty = (index: number, updates: Partial<TilePropertyDefinition>) => {
+    setProperties(
+      properties.map((property, i) => {
+        if (i !== index) return property;
+        const definition = { ...property.definition, ...updates };
+        // Keep the default valid for the (possibly new) type and options
+        return { ...property, definition: { ...definition, default: coerceTilePropertyValue(definition, definition.default) } };
+      })
+    );
+  };
+
+  const changeType = (index: number, type: TilePropertyType) => {
+    const options = type === 'enum' ? properties[index].definition.options ?? [] : undefined;
+    updateProperty(index, { type, options, default: defaultValueForType(type, options) });
+  };
+
+  const changeOptions = (index: number, text: string) => {
+    const options = Array.from(new Set(text.split(',').map((option) => option.trim()).filter(Boolean)));
+    const definition = { ...properties[index].definition, options };
+    setProperties(
+      properties.map((property, i) =>
+        i === index
+          ? { ...property, optionsText: text, definition: { ...definition, default: coerceTilePropertyValue(definition, definition.default) } }
+          : property
+      )
+    );
+  };
+
+  const addProperty = () => {
+    const name = `property${properties.length + 1}`;
+    setProperties([...properties, { definition: { name, type: 'boolean', default: false } }]);
+  };
+
+  const names = properties.map((property) => property.definition.name.trim());
+  const duplicate = names.find((name, i) => names.indexOf(name) !== i);
+  const invalid = names.some((name) => name.length === 0) || !!duplicate;
+
+  const handleSave = async () => {
+    const definitions = properties.map((property) => ({ ...property.definition, name: property.definition.name.trim() }));
+    const renamed: Record<string, string> = {};
+    properties.forEach((property, i) => {
+      if (property.savedName) renamed[property.savedName] = definitions[i].name;
+    });
+
+    try {
+      await updateTileset.mutateAsync({
+        id: tileset.id,
+        updates: {
+          tileProperties: definitions,
+          tilePropertyValues: migrateTilePropertyValues(tileset.tilePropertyValues, definitions, renamed),
+        },
+      });
+      toast({
+        title: 'Properties saved',
+        description: `"${tileset.name}" tiles now have ${definitions.length} propert${definitions.length === 1 ? 'y' : 'ies'}`,
+      });
+      onOpenChange(false);
+    } catch (error: any) {
+      toast({
+        title: 'Save failed',
+        description: error.message || 'Failed to save tile properties',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Tile Properties: {tileset.name}</DialogTitle>
+          <DialogDescription>
+            Every tile of this tileset has these properties. Tiles use the default until you set their own
+            value in the tile inspector.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2 max-h-[60vh] overflow-auto">
+          {properties.length === 0 && (
+            <p className="text-sm text-muted-foreground">
+              No properties yet. Add ones your game reads, e.g. walkable, damage or footstep sound.
+            </p>
+          )}
+          {properties.map((property, index) => {
+            const { definition } = property;
+            return (
+              <div key={index} className="grid grid-cols-[1fr_7rem_1fr_auto] gap-2 items-end p-2 rounded border border-border">
+                <div className="space-y-1">
+                  <Label className="text-xs">Name</Label>
+                  <Input
+                    value={definition.name}
+                    onChange={(e) => updateProperty(index, { name: e.target.value })}
+                    className="h-8 text-xs"
+                    data-testid={`input-tile-property-name-${index}`}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Type</Label>
+                  <Select value={definition.type} onValueChange={(value) => changeType(index, value as TilePropertyType)}>
+                    <SelectTrigger className="h-8 text-xs" data-testid={`select-tile-property-type-${index}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {PROPERTY_TYPES.map((type) => (
+                        <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Default</Label>
+                  <TilePropertyInput
+                    definition={definition}
+                    value={definition.default}
+                    onChange={(value) => updateProperty(index, { default: value })}
+                  />
+                </div>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-8 w-8"
+                  onClick={() => setProperties(properties.filter((_, i) => i !== index))}
+                  data-testid={`button-remove-tile-property-${index}`}
+                >
+                  <Trash2 className="w-3 h-3" />
+                </Button>
+                {definition.type === 'enum' && (
+                  <div className="col-span-4 space-y-1">
+                    <Label className="text-xs">Choices (comma separated)</Label>
+                    <Input
+                      value={property.optionsText ?? (definition.options ?? []).join(', ')}
+                      placeholder="e.g. none, full, top, slope"
+                      onChange={(e) => changeOptions(index, e.target.value)}
+                      className="h-8 text-xs"
+                      data-testid={`input-tile-property-options-${index}`}
+                    />
+                  </div>
+                )}
+              </div>
+            );
+          })}
+          <Button size="sm" variant="outline" onClick={addProperty} data-testid="button-add-tile-property">
+            <Plus className="w-3 h-3 mr-1" />
+            Add property
+          </Button>
+          {duplicate && <p className="text-xs text-destructive">"{duplicate}" is used by more than one property.</p>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={invalid || updateTileset.isPending} data-testid="button-save-tile-properties">
+            {updateTileset.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save properties
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,171 @@
+import { useState } from 'react';
+import { useCanvasStore } from '@/store/useCanvasStore';
+import { useTileSelectionActions } from '@/hooks/useTileSelection';
+import { WfcGeneratorDialog } from '@/components/WfcGeneratorDialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  ClipboardPaste,
+  Copy,
+  FlipHorizontal2,
+  FlipVertical2,
+  RotateCw,
+  Scissors,
+  Sprout,
+  Stamp,
+  Trash2,
+} from 'lucide-react';
+
+/** Actions for the tile marquee selection, and the saved stamp brushes */
+export function TileSelectionPanel() {
+  const {
+    tileSelection,
+    tileClipboard,
+    tileStamps,
+    activeStamp,
+    tileLayers,
+    tool,
+    setTileSelection,
+    setActiveStamp,
+    deleteTileStamp,
+    setTool,
+  } = useCanvasStore();
+  const actions = useTileSelectionActions();
+  const [stampName, setStampName] = useState('');
+  const [showGrow, setShowGrow] = useState(false);
+
+  const toggleLayer = (layerId: string, checked: boolean) => {
+    if (!tileSelection) return;
+    const layers = checked
+      ? [...tileSelection.layers, layerId]
+      : tileSelection.layers.filter((id) => id !== layerId);
+    setTileSelection({ ...tileSelection, layers });
+  };
+
+  const handleSaveStamp = () => {
+    actions.saveAsStamp(stampName.trim() || `Stamp ${tileStamps.length + 1}`);
+    setStampName('');
+  };
+
+  if (!tileSelection && !tileClipboard && tileStamps.length === 0) {
+    return (
+      <p className="text-xs text-muted-foreground">
+        Use Select Tiles (M) to copy, move or save part of the map as a stamp.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {tileSelection && (
+        <div className="space-y-2">
+          <Label className="text-xs">
+            Selection {tileSelection.width}×{tileSelection.height}
+          </Label>
+          <div className="space-y-1">
+            {[...tileLayers].reverse().map((layer) => (
+              <label key={layer.id} className="flex items-center gap-2 text-xs">
+                <Checkbox
+                  checked={tileSelection.layers.includes(layer.id)}
+                  onCheckedChange={(checked) => toggleLayer(layer.id, checked === true)}
+                  data-testid={`checkbox-selection-layer-${layer.id}`}
+                />
+                {layer.name}
+              </label>
+            ))}
+          </div>
+          <div className="grid grid-cols-6 gap-1">
+            <Button size="icon" variant="outline" className="h-7 w-full" onClick={actions.copy} title="Copy (Ctrl+C)" data-testid="button-selection-copy">
+              <Copy className="h-3 w-3" />
+            </Button>
+            <Button size="icon" variant="outline" className="h-7 w-full" onClick={actions.cut} title="Cut (Ctrl+X)" data-testid="button-selection-cut">
+              <Scissors className="h-3 w-3" />
+            </Button>
+            <Button size="icon" variant="outline" className="h-7 w-full" onClick={() => actions.remove()} title="Delete" data-testid="button-selection-delete">
+              <Trash2 className="h-3 w-3" />
+            </Button>
+            <Button size="icon" variant="outline" className="h-7 w-full" onClick={() => actions.transform('flipX')} title="Flip horizontally" data-testid="button-selection-flip-x">
+              <FlipHorizontal2 className="h-3 w-3" />
+            </Button>
+            <Button size="icon" variant="outline" className="h-7 w-full" onClick={() => actions.transform('flipY')} title="Flip vertically" data-testid="button-selection-flip-y">
+              <FlipVertical2 className="h-3 w-3" />
+            </Button>
+            <Button size="icon" variant="outline" className="h-7 w-full" onClick={() => actions.transform('rotate')} title="Rotate 90°" data-testid="button-selection-rotate">
+              <RotateCw className="h-3 w-3" />
+            </Button>
+          </div>
+          <div className="flex gap-1">
+            <Input
+              placeholder="Stamp name"
+              value={stampName}
+              onChange={(e) => setStampName(e.target.value)}
+              className="h-7 text-xs"
+              data-testid="input-stamp-name"
+            />
+            <Button size="sm" className="h-7 text-xs" onClick={handleSaveStamp} data-testid="button-save-stamp">
+              Save stamp
+            </Button>
+          </div>
+          <Button
+            size="sm"
+            variant="outline"
+            className="w-full h-7 text-xs"
+            onClick={() => setShowGrow(true)}
+            title="Fill a larger area in the style of the selection"
+            data-testid="button-grow-from-sample"
+          >
+            <Sprout className="h-3 w-3 mr-2" />
+            Grow from sample
+          </Button>
+          <WfcGeneratorDialog
+            sample={tileSelection}
+            layers={tileSelection.layers}
+            open={showGrow}
+            onOpenChange={setShowGrow}
+          />
+        </div>
+      )}
+
+      {tileClipboard && (
+        <Button size="sm" variant="outline" className="w-full h-7 text-xs" onClick={actions.paste} data-testid="button-paste-tiles">
+          <ClipboardPaste className="h-3 w-3 mr-2" />
+          Paste {tileClipboard.width}×{tileClipboard.height} (Ctrl+V)
+        </Button>
+      )}
+
+      {tileStamps.length > 0 && (
+        <div className="space-y-1">
+          <Label className="text-xs">Stamps</Label>
+          {tileStamps.map((stamp) => (
+            <div key={stamp.id} className="flex items-center gap-1">
+              <Button
+                size="sm"
+                variant={tool === 'tile-stamp' && activeStamp?.id === stamp.id ? 'default' : 'outline'}
+                className="flex-1 justify-start h-7 text-xs truncate"
+                onClick={() => {
+                  setActiveStamp(stamp);
+                  setTool('tile-stamp');
+                }}
+                data-testid={`button-stamp-${stamp.id}`}
+              >
+                <Stamp className="h-3 w-3 mr-2" />
+                {stamp.name} ({stamp.width}×{stamp.height})
+              </Button>
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-7 w-7"
+                onClick={() => deleteTileStamp(stamp.id)}
+                data-testid={`button-delete-stamp-${stamp.id}`}
+              >
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,28 @@
+import type { Tile, Tileset } from '@shared/schema';
+import { cssTileTransform } from '@shared/tileTransforms';
+
+interface TileThumbProps {
+  tileset: Tileset;
+  tile: Pick<Tile, 'tileIndex' | 'flipX' | 'flipY' | 'rotate90'>;
+}
+
+/** One tile of a tileset sheet at its native size, in its orientation */
+export function TileThumb({ tileset, tile }: TileThumbProps) {
+  const col = tile.tileIndex % tileset.columns;
+  const row = Math.floor(tile.tileIndex / tileset.columns);
+  const spacing = tileset.spacing || 0;
+
+  return (
+    <div
+      style={{
+        width: `${tileset.tileSize}px`,
+        height: `${tileset.tileSize}px`,
+        backgroundImage: `url(${tileset.imageUrl})`,
+        backgroundPosition: `-${col * (tileset.tileSize + spacing)}px -${row * (tileset.tileSize + spacing)}px`,
+        backgroundRepeat: 'no-repeat',
+        imageRendering: 'pixelated',
+        transform: cssTileTransform(tile),
+      }}
+    />
+  );
+}
@@ -3,9 +3,10 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { useToast } from '@/hooks/use-toast';
-import { Package, Plus, Trash2, Edit2, X } from 'lucide-react';
+import { Package, Plus, Trash2, Edit2, X, Layers } from 'lucide-react';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { useTilesetPacks, useCreateTilesetPack, useUpdateTilesetPack, useDeleteTilesetPack } from '@/hooks/useTilesetPacks';
+import { TerrainSetEditor } from '@/components/TerrainSetEditor';
 
 export function TilesetPackPanel() {
   const { data: packs, isLoading } = useTilesetPacks();
@@ -16,6 +17,7 @@ export function TilesetPackPanel() {
 
   const [showCreateForm, setShowCreateForm] = useState(false);
   const [editingPackId, setEditingPackId] = useState<string | null>(null);
+  const [terrainPackId, setTerrainPackId] = useState<string | null>(null);
   const [formData, setFormData] = useState({ name: '', description: '' });
 
   const handleCreate = async () => {
@@ -245,6 +247,16 @@ export function TilesetPackPanel() {
                       )}
                     </div>
                     <div className="flex gap-1">
+                      <Button
+                        size="icon"
+                        variant={terrainPackId === pack.id ? 'secondary' : 'ghost'}
+                        className="h-8 w-8"
+                        onClick={() => setTerrainPackId(terrainPackId === pack.id ? null : pack.id)}
+                        title="Terrain priorities and transitions"
+                        data-testid={`button-terrains-${pack.id}`}
+                      >
+                        <Layers className="w-3 h-3" />
+                      </Button>
                       <Button
                         size="icon"
                         variant="ghost"
@@ -265,6 +277,7 @@ export function TilesetPackPanel() {
                       </Button>
                     </div>
                   </div>
+                  {terrainPackId === pack.id && <TerrainSetEditor pack={pack} />}
                 </>
               )}
             </div>
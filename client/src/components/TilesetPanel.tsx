@@ -2,13 +2,32 @@ import { useCanvasStore } from '@/store/useCanvasStore';
 import { useTilesets } from '@/hooks/useTilesets';
 import { useTilesetPacks } from '@/hooks/useTilesetPacks';
 import type { Tileset } from '@shared/schema';
+import {
+  getTemplatesForType,
+  isAutoTilingType,
+  isTemplateTilesetType,
+  type AutoTileTemplate,
+} from '@shared/autoTileTemplates';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
-import { Upload, Plus, Loader2, ImagePlus, ChevronDown, ChevronUp } from 'lucide-react';
+import {
+  Upload,
+  Plus,
+  Loader2,
+  ImagePlus,
+  ChevronDown,
+  ChevronUp,
+  Wand2,
+  Film,
+  FlipHorizontal2,
+  FlipVertical2,
+  RotateCw,
+  RotateCcw,
+} from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useState, useEffect } from 'react';
 import { ObjectUploader } from '@/components/ObjectUploader';
@@ -20,12 +39,50 @@ import { ExtractionItem } from '@/types/extractionQueue';
 import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
 import { DebugTilesPanel } from './DebugTilesPanel';
+import { AutoTileRuleEditor } from './AutoTileRuleEditor';
+import { TileAnimationEditor } from './TileAnimationEditor';
+import { TileSelectionPanel } from './TileSelectionPanel';
+import { TileBrushPanel } from './TileBrushPanel';
 import { createDebugTilesetPack } from '@/utils/debugTilesets';
+import { flipTileTransform, hasTileTransform, rotateTileTransform } from '@shared/tileTransforms';
+import { getTileImageUrls } from '@shared/tileProperties';
 import type { UploadResult } from '@uppy/core';
 import { apiRequest, queryClient } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
 
 type UploadStep = 'initial' | 'image-selected' | 'tile-extraction' | 'metadata-editing' | 'uploading' | 'enhanced-upload';
+type UploadTilesetType = 'auto-tiling' | 'blob-47' | 'wang-corner' | 'multi-tile' | 'variant_grid';
+
+// Sketch of the neighbors each cell of an autotile template stands for
+function AutoTileTemplatePreview({ template }: { template: AutoTileTemplate }) {
+  const isBlob = template.tilesetType === 'blob-47';
+
+  return (
+    <div
+      className="grid gap-0.5 border rounded-md p-2 bg-background"
+      style={{ gridTemplateColumns: `repeat(${template.columns}, 1fr)` }}
+    >
+      {template.masks.map((mask, index) => {
+        // Blob cells are 3x3 (center always filled), Wang cells show their 2x2 corners
+        const cells = isBlob
+          ? [mask & 128, mask & 1, mask & 2, mask & 64, 1, mask & 4, mask & 32, mask & 16, mask & 8]
+          : [mask & 8, mask & 1, mask & 4, mask & 2];
+        return (
+          <div
+            key={index}
+            className="aspect-square grid border border-border/50"
+            style={{ gridTemplateColumns: `repeat(${isBlob ? 3 : 2}, 1fr)` }}
+            title={mask >= 0 ? `Tile ${index}: mask ${mask}` : `Tile ${index}: unused`}
+          >
+            {mask >= 0 && cells.map((filled, i) => (
+              <div key={i} className={filled ? 'bg-primary/70' : 'bg-muted'} />
+            ))}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
 
 export function TilesetPanel() {
   const {
@@ -36,6 +93,10 @@ export function TilesetPanel() {
     setSelectedTileIndex,
     setTilesets,
     setBrushSize,
+    tileFillMode,
+    setTileFillMode,
+    brushTransform,
+    setBrushTransform,
     gridSize,
   } = useCanvasStore();
 
@@ -46,7 +107,8 @@ export function TilesetPanel() {
   const [tilesetName, setTilesetName] = useState('');
   const [selectedPackId, setSelectedPackId] = useState<string>('');
   const [uploading, setUploading] = useState(false);
-  const [tilesetType, setTilesetType] = useState<'auto-tiling' | 'multi-tile' | 'variant_grid'>('multi-tile');
+  const [tilesetType, setTilesetType] = useState<UploadTilesetType>('multi-tile');
+  const [autoTileTemplate, setAutoTileTemplate] = useState<string>('');
   const [tileSize, setTileSize] = useState(16);
   const [spacing, setSpacing] = useState(1);
   const [columns, setColumns] = useState(3);
@@ -56,6 +118,8 @@ export function TilesetPanel() {
   const [isOpen, setIsOpen] = useState(true);
   const { toast } = useToast();
   const [libraryTab, setLibraryTab] = useState<'single' | 'auto'>('single');
+  const [ruleEditorTileset, setRuleEditorTileset] = useState<Tileset | null>(null);
+  const [animationEditorTileset, setAnimationEditorTileset] = useState<Tileset | null>(null);
 
   // Auto-load debug tilesets on mount (only once)
   useEffect(() => {
@@ -89,6 +153,30 @@ export function TilesetPanel() {
     setUploading(false);
     setSelectedTiles([]);
     setTilesetType('multi-tile');
+    setAutoTileTemplate('');
+  };
+
+  const selectedTemplate = isTemplateTilesetType(tilesetType)
+    ? getTemplatesForType(tilesetType).find((t) => t.id === autoTileTemplate)
+    : undefined;
+
+  // Blob and Wang sheets follow a template; start with the first one and its dimensions
+  const handleTilesetTypeChange = (type: UploadTilesetType) => {
+    setTilesetType(type);
+    const template = isTemplateTilesetType(type) ? getTemplatesForType(type)[0] : undefined;
+    setAutoTileTemplate(template?.id ?? '');
+    if (template) {
+      setColumns(template.columns);
+      setRows(template.rows);
+    }
+  };
+
+  const handleTemplateChange = (templateId: string) => {
+    const template = getTemplatesForType(tilesetType).find((t) => t.id === templateId);
+    if (!template) return;
+    setAutoTileTemplate(template.id);
+    setColumns(template.columns);
+    setRows(template.rows);
   };
 
   const handleGetUploadParameters = async (file: File) => {
@@ -180,6 +268,7 @@ export function TilesetPanel() {
         packId: selectedPackId || null,
         tilesetType,
         multiTileConfig,
+        autoTileTemplate: selectedTemplate?.id ?? null,
       });
       const newTileset = await createRes.json();
 
@@ -210,6 +299,7 @@ export function TilesetPanel() {
       setUploadedImageUrl(null);
       setSelectedTiles([]);
       setTilesetType('multi-tile');
+      setAutoTileTemplate('');
     } catch (error) {
       console.error('Error creating tileset:', error);
       toast({
@@ -287,18 +377,41 @@ export function TilesetPanel() {
               <Label htmlFor="type-select" className="text-xs">
                 Tileset Type
               </Label>
-              <Select value={tilesetType} onValueChange={(val: any) => setTilesetType(val)}>
+              <Select value={tilesetType} onValueChange={(val) => handleTilesetTypeChange(val as UploadTilesetType)}>
                 <SelectTrigger id="type-select" data-testid="select-type">
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="multi-tile">Multi-Tile Object (trees, waterfalls, bridges)</SelectItem>
                   <SelectItem value="auto-tiling">Auto-Tiling Terrain (grass, dirt, water)</SelectItem>
+                  <SelectItem value="blob-47">Blob Auto-Tiling (47 tiles, inner corners)</SelectItem>
+                  <SelectItem value="wang-corner">Corner Wang Auto-Tiling (16 tiles)</SelectItem>
                   <SelectItem value="variant_grid">Variant Grid (manual selection)</SelectItem>
                 </SelectContent>
               </Select>
             </div>
 
+            {isTemplateTilesetType(tilesetType) && (
+              <div className="space-y-1.5">
+                <Label htmlFor="template-select" className="text-xs">
+                  Sheet Template
+                </Label>
+                <Select value={autoTileTemplate} onValueChange={handleTemplateChange}>
+                  <SelectTrigger id="template-select" data-testid="select-autotile-template">
+                    <SelectValue placeholder="Choose a layout" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {getTemplatesForType(tilesetType).map((template) => (
+                      <SelectItem key={template.id} value={template.id}>
+                        {template.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {selectedTemplate && <AutoTileTemplatePreview template={selectedTemplate} />}
+              </div>
+            )}
+
             <div className="space-y-1.5">
               <Label htmlFor="pack-select" className="text-xs">
                 Tileset Pack (optional)
@@ -500,12 +613,12 @@ export function TilesetPanel() {
                 <Tabs value={libraryTab} onValueChange={(v) => setLibraryTab(v as 'single' | 'auto')}>
                   <TabsList>
                     <TabsTrigger value="single">Single / Regular</TabsTrigger>
-                    <TabsTrigger value="auto">3x3 Auto-tiling</TabsTrigger>
+                    <TabsTrigger value="auto">Auto-tiling</TabsTrigger>
                   </TabsList>
 
                   <TabsContent value="single">
                     {(tilesets || [])
-                      .filter((t: any) => t.tilesetType !== 'auto-tiling')
+                      .filter((t: any) => !isAutoTilingType(t.tilesetType))
                       .map((tileset: any) => (
                         <div key={tileset.id} className="space-y-2">
                           <Button
@@ -602,13 +715,26 @@ export function TilesetPanel() {
                               </div>
                             )
                           )}
+
+                          {selectedTileset?.id === tileset.id && tileset.tilesetType !== 'multi-tile' && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="w-full"
+                              onClick={() => setAnimationEditorTileset(tileset)}
+                              data-testid={`button-tile-animations-${tileset.id}`}
+                            >
+                              <Film className="h-4 w-4 mr-2" />
+                              Animations ({tileset.tileAnimations?.length ?? 0})
+                            </Button>
+                          )}
                         </div>
                       ))}
                   </TabsContent>
 
                   <TabsContent value="auto">
                     {(tilesets || [])
-                      .filter((t: any) => t.tilesetType === 'auto-tiling')
+                      .filter((t: any) => isAutoTilingType(t.tilesetType))
                       .map((tileset: any) => (
                         <div key={tileset.id} className="space-y-2">
                           <Button
@@ -626,7 +752,10 @@ export function TilesetPanel() {
                           </Button>
 
                           {selectedTileset?.id === tileset.id && (
-                            <div className="grid grid-cols-3 gap-1 p-2 bg-muted/30 rounded-md">
+                            <div
+                              className="grid gap-1 p-2 bg-muted/30 rounded-md overflow-auto"
+                              style={{ gridTemplateColumns: `repeat(${tileset.columns}, max-content)` }}
+                            >
                               {Array.from({ length: tileset.rows * tileset.columns }).map((_, index) => {
                                 const col = index % tileset.columns;
                                 const row = Math.floor(index / tileset.columns);
@@ -635,22 +764,9 @@ export function TilesetPanel() {
                                 const x = col * (tileSize + spacing);
                                 const y = row * (tileSize + spacing);
 
-                                let individualImageUrl = tileset.imageUrl;
-                                let useBackgroundPosition = true;
-                                if (tileset.tags) {
-                                  const tag = tileset.tags.find((t: string) => t.startsWith('tile-urls:'));
-                                  if (tag) {
-                                    try {
-                                      const urls = JSON.parse(tag.replace('tile-urls:', '')) as string[];
-                                      if (Array.isArray(urls) && urls[index]) {
-                                        individualImageUrl = urls[index];
-                                        useBackgroundPosition = false;
-                                      }
-                                    } catch (e) {
-                                      console.warn('Failed to parse tile URLs from tags:', e);
-                                    }
-                                  }
-                                }
+                                const tileImageUrl = getTileImageUrls(tileset)[index];
+                                const individualImageUrl = tileImageUrl || tileset.imageUrl;
+                                const useBackgroundPosition = !tileImageUrl;
 
                                 return (
                                   <button
@@ -713,6 +829,31 @@ export function TilesetPanel() {
                               })}
                             </div>
                           )}
+
+                          {selectedTileset?.id === tileset.id && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="w-full"
+                              onClick={() => setRuleEditorTileset(tileset)}
+                              data-testid={`button-autotile-rules-${tileset.id}`}
+                            >
+                              <Wand2 className="h-4 w-4 mr-2" />
+                              Autotile Rules ({tileset.autoTileRules?.length ?? 0})
+                            </Button>
+                          )}
+                          {selectedTileset?.id === tileset.id && tileset.tilesetType !== 'multi-tile' && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="w-full"
+                              onClick={() => setAnimationEditorTileset(tileset)}
+                              data-testid={`button-tile-animations-${tileset.id}`}
+                            >
+                              <Film className="h-4 w-4 mr-2" />
+                              Animations ({tileset.tileAnimations?.length ?? 0})
+                            </Button>
+                          )}
                         </div>
                       ))}
                   </TabsContent>
@@ -760,12 +901,121 @@ export function TilesetPanel() {
               </div>
             </div>
 
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label className="text-xs">Brush Orientation</Label>
+                {hasTileTransform(brushTransform) && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => setBrushTransform({})}
+                    data-testid="button-brush-transform-reset"
+                    className="text-xs h-6 px-2"
+                  >
+                    Reset
+                  </Button>
+                )}
+              </div>
+              <div className="grid grid-cols-4 gap-1">
+                <Button
+                  size="sm"
+                  variant={brushTransform.flipX ? 'default' : 'outline'}
+                  onClick={() => setBrushTransform(flipTileTransform(brushTransform, 'x'))}
+                  title="Flip horizontally (X)"
+                  data-testid="button-brush-flip-x"
+                  className="h-7"
+                >
+                  <FlipHorizontal2 className="h-3 w-3" />
+                </Button>
+                <Button
+                  size="sm"
+                  variant={brushTransform.flipY ? 'default' : 'outline'}
+                  onClick={() => setBrushTransform(flipTileTransform(brushTransform, 'y'))}
+                  title="Flip vertically (Y)"
+                  data-testid="button-brush-flip-y"
+                  className="h-7"
+                >
+                  <FlipVertical2 className="h-3 w-3" />
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setBrushTransform(rotateTileTransform(brushTransform, false))}
+                  title="Rotate counter-clockwise (Shift+Z)"
+                  data-testid="button-brush-rotate-ccw"
+                  className="h-7"
+                >
+                  <RotateCcw className="h-3 w-3" />
+                </Button>
+                <Button
+                  size="sm"
+                  variant={brushTransform.rotate90 ? 'default' : 'outline'}
+                  onClick={() => setBrushTransform(rotateTileTransform(brushTransform))}
+                  title="Rotate clockwise (Z)"
+                  data-testid="button-brush-rotate-cw"
+                  className="h-7"
+                >
+                  <RotateCw className="h-3 w-3" />
+                </Button>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-xs">Brush Tiles</Label>
+              <TileBrushPanel />
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-xs">Bucket Fill</Label>
+              <div className="grid grid-cols-2 gap-1">
+                <Button
+                  size="sm"
+                  variant={tileFillMode === 'contiguous' ? 'default' : 'outline'}
+                  onClick={() => setTileFillMode('contiguous')}
+                  data-testid="button-fill-contiguous"
+                  className="text-xs h-7"
+                >
+                  Contiguous
+                </Button>
+                <Button
+                  size="sm"
+                  variant={tileFillMode === 'global' ? 'default' : 'outline'}
+                  onClick={() => setTileFillMode('global')}
+                  data-testid="button-fill-global"
+                  className="text-xs h-7"
+                >
+                  Whole Layer
+                </Button>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-xs">Selection &amp; Stamps</Label>
+              <TileSelectionPanel />
+            </div>
+
             <div className="pt-4 border-t">
               <DebugTilesPanel />
             </div>
           </div>
         )}
       </CardContent>
+
+      {ruleEditorTileset && (
+        <AutoTileRuleEditor
+          tileset={ruleEditorTileset}
+          open={!!ruleEditorTileset}
+          onOpenChange={(open) => !open && setRuleEditorTileset(null)}
+        />
+      )}
+
+      {animationEditorTileset && (
+        <TileAnimationEditor
+          tileset={animationEditorTileset}
+          open={!!animationEditorTileset}
+          onOpenChange={(open) => !open && setAnimationEditorTileset(null)}
+        />
+      )}
     </Card>
   );
 }
\ No newline at end of file
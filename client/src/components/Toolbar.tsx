@@ -12,12 +12,19 @@ import {
   Hand,
   Paintbrush,
   Eraser,
+  PaintBucket,
+  RectangleHorizontal,
+  Slash,
+  SquareDashed,
+  Stamp,
   Undo,
   Redo,
   Grid3x3,
   ZoomIn,
   ZoomOut,
   User,
+  Play,
+  Pause,
 } from 'lucide-react';
 import type { ToolType } from '@shared/schema';
 import { EnhancedStatusIndicator } from './EnhancedStatusIndicator';
@@ -33,6 +40,11 @@ const tools: Array<{ type: ToolType | 'sprite'; icon: typeof MousePointer; label
   { type: 'tile-paint', icon: Paintbrush, label: 'Paint Tile (T)' },
   { type: 'auto-tile-paint', icon: Grid3x3, label: 'Auto Tile Brush' },
   { type: 'tile-erase', icon: Eraser, label: 'Erase Tile (E)' },
+  { type: 'tile-fill', icon: PaintBucket, label: 'Bucket Fill Tiles (B)' },
+  { type: 'tile-rect', icon: RectangleHorizontal, label: 'Tile Rectangle' },
+  { type: 'tile-line', icon: Slash, label: 'Tile Line' },
+  { type: 'tile-select', icon: SquareDashed, label: 'Select Tiles (M)' },
+  { type: 'tile-stamp', icon: Stamp, label: 'Stamp Brush' },
   { type: 'sprite' as any, icon: User, label: 'Sprite (X)' },
 ];
 
@@ -51,6 +63,8 @@ export function Toolbar() {
     setGridVisible,
     snapToGrid,
     setSnapToGrid,
+    tileAnimationsPaused,
+    setTileAnimationsPaused,
   } = useCanvasStore();
 
   const canUndo = historyIndex > 0;
@@ -176,6 +190,17 @@ export function Toolbar() {
         >
           Snap
         </Button>
+        <Button
+          size="icon"
+          variant="ghost"
+          onClick={() => setTileAnimationsPaused(!tileAnimationsPaused)}
+          data-testid="button-tile-animations-toggle"
+          title={tileAnimationsPaused ? 'Play Tile Animations' : 'Pause Tile Animations'}
+          className="text-gray-300 hover:text-white hover:bg-gray-700"
+          data-active={!tileAnimationsPaused}
+        >
+          {tileAnimationsPaused ? <Play className="h-4 w-4" /> : <Pause className="h-4 w-4" />}
+        </Button>
       </div>
 
       <Separator orientation="vertical" className="h-6 bg-gray-600" />
@@ -0,0 +1,236 @@
+import { useEffect, useState } from 'react';
+import type { TileLayer } from '@shared/schema';
+import { randomSeed } from '@shared/seededRandom';
+import {
+  DEFAULT_WFC_ATTEMPTS,
+  DEFAULT_WFC_PATTERN_SIZE,
+  MAX_WFC_TARGET_SIZE,
+  growFromSample,
+  type TileRegion,
+  type WfcResult,
+} from '@shared/waveFunctionCollapse';
+import { useCanvasStore } from '@/store/useCanvasStore';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Dices, Loader2 } from 'lucide-react';
+
+const TARGET_GROWTH = 3; // Default target is this many times the sample per side
+
+interface WfcGeneratorDialogProps {
+  sample: TileRegion;
+  layers: TileLayer[]; // Layers the sample was selected on
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Grows a larger area in the style of a selected sample with Wave Function
+ * Collapse. Tiles already in the target stay and the rest is filled around
+ * them; the new tiles are added as one edit.
+ */
+export function WfcGeneratorDialog({ sample, layers, open, onOpenChange }: WfcGeneratorDialogProps) {
+  const { tileLayers, addTiles } = useCanvasStore();
+  const { toast } = useToast();
+
+  const [layer, setLayer] = useState<TileLayer>('terrain');
+  const [target, setTarget] = useState<TileRegion>(sample);
+  const [patternSize, setPatternSize] = useState(DEFAULT_WFC_PATTERN_SIZE);
+  const [seed, setSeed] = useState(randomSeed);
+  const [maxAttempts, setMaxAttempts] = useState(DEFAULT_WFC_ATTEMPTS);
+  const [running, setRunning] = useState(false);
+  const [result, setResult] = useState<WfcResult | null>(null);
+
+  // The target starts at the sample, so the sample itself is kept and grown from
+  useEffect(() => {
+    if (!open) return;
+    const { activeTileLayerId } = useCanvasStore.getState();
+    setLayer(layers.includes(activeTileLayerId) ? activeTileLayerId : layers[0] ?? activeTileLayerId);
+    setTarget({
+      x: sample.x,
+      y: sample.y,
+      width: Math.min(MAX_WFC_TARGET_SIZE, sample.width * TARGET_GROWTH),
+      height: Math.min(MAX_WFC_TARGET_SIZE, sample.height * TARGET_GROWTH),
+    });
+    setResult(null);
+  }, [open, sample.x, sample.y, sample.width, sample.height, layers]);
+
+  const updateTarget = (key: keyof TileRegion, value: string) => {
+    const number = Math.floor(Number(value)) || 0;
+    const clamped = key === 'width' || key === 'height' ? Math.min(MAX_WFC_TARGET_SIZE, Math.max(1, number)) : number;
+    setTarget({ ...target, [key]: clamped });
+  };
+
+  const handleGenerate = () => {
+    setRunning(true);
+    setResult(null);
+    // Let the spinner render before the (synchronous) generation blocks
+    setTimeout(() => {
+      const outcome = growFromSample({
+        grid: useCanvasStore.getState().tileGrid,
+        layer,
+        sample,
+        target,
+        seed,
+        patternSize,
+        maxAttempts,
+      });
+      setRunning(false);
+      setResult(outcome);
+      if (!outcome.success) return;
+
+      addTiles(outcome.tiles);
+      const used = outcome.attempts[outcome.attempts.length - 1];
+      toast({
+        title: 'Area generated',
+        description: `Added ${outcome.tiles.length} tiles with seed ${used.seed} after ${outcome.attempts.length} attempt${outcome.attempts.length === 1 ? '' : 's'}`,
+      });
+      onOpenChange(false);
+    }, 0);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Grow From Sample</DialogTitle>
+          <DialogDescription>
+            Fills the target with the {sample.width}×{sample.height} selection's patterns. Existing tiles in the
+            target are kept and the new tiles fit around them.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label className="text-xs">Layer</Label>
+              <Select value={layer} onValueChange={setLayer}>
+                <SelectTrigger className="h-8 text-xs" data-testid="select-wfc-layer">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {tileLayers.filter((l) => layers.includes(l.id)).map((l) => (
+                    <SelectItem key={l.id} value={l.id}>{l.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Pattern size</Label>
+              <Select value={String(patternSize)} onValueChange={(value) => setPatternSize(Number(value))}>
+                <SelectTrigger className="h-8 text-xs" data-testid="select-wfc-pattern-size">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="2">2×2, looser</SelectItem>
+                  <SelectItem value="3">3×3, closer to the sample</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <Label className="text-xs">Target (max {MAX_WFC_TARGET_SIZE}×{MAX_WFC_TARGET_SIZE})</Label>
+            <div className="grid grid-cols-4 gap-2">
+              {(['x', 'y', 'width', 'height'] as const).map((key) => (
+                <Input
+                  key={key}
+                  type="number"
+                  value={target[key]}
+                  onChange={(e) => updateTarget(key, e.target.value)}
+                  className="h-8 text-xs"
+                  title={key}
+                  data-testid={`input-wfc-${key}`}
+                />
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-[1fr_auto_6rem] gap-2 items-end">
+            <div className="space-y-1">
+              <Label className="text-xs">Seed</Label>
+              <Input
+                type="number"
+                min={0}
+                value={seed}
+                onChange={(e) => setSeed(Math.max(0, Math.floor(Number(e.target.value)) || 0))}
+                className="h-8 text-xs"
+                data-testid="input-wfc-seed"
+              />
+            </div>
+            <Button
+              size="icon"
+              variant="outline"
+              className="h-8 w-8"
+              onClick={() => setSeed(randomSeed())}
+              title="New seed"
+              data-testid="button-wfc-new-seed"
+            >
+              <Dices className="h-4 w-4" />
+            </Button>
+            <div className="space-y-1">
+              <Label className="text-xs">Attempts</Label>
+              <Input
+                type="number"
+                min={1}
+                max={50}
+                value={maxAttempts}
+                onChange={(e) => setMaxAttempts(Math.min(50, Math.max(1, Math.floor(Number(e.target.value)) || 1)))}
+                className="h-8 text-xs"
+                data-testid="input-wfc-attempts"
+              />
+            </div>
+          </div>
+
+          {result && !result.success && (
+            <div className="rounded border border-destructive/50 p-2 space-y-1 text-xs" data-testid="text-wfc-report">
+              {result.error ? (
+                <p className="text-destructive">{result.error}</p>
+              ) : (
+                <>
+                  <p className="text-destructive">
+                    No fill found in {result.attempts.length} attempt{result.attempts.length === 1 ? '' : 's'}. Try a
+                    larger sample, a smaller pattern size or fewer fixed tiles in the target.
+                  </p>
+                  <div className="max-h-32 overflow-auto text-muted-foreground">
+                    {result.attempts.map((attempt, index) => (
+                      <div key={index}>
+                        Seed {attempt.seed}: contradiction at ({attempt.contradiction?.x}, {attempt.contradiction?.y})
+                      </div>
+                    ))}
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleGenerate} disabled={running} data-testid="button-wfc-generate">
+            {running && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Generate
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,29 @@
+import { useEffect, useState } from 'react';
+import { useCanvasStore } from '@/store/useCanvasStore';
+import { msUntilNextFrame } from '@shared/tileAnimations';
+
+/**
+ * Shared clock for animated tiles, in wall-clock ms. It only ticks when some
+ * animation changes frame, and stops while animations are paused.
+ */
+export function useTileAnimationClock(): number {
+  const { tilesets, tileAnimationsPaused } = useCanvasStore();
+  const [time, setTime] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (tileAnimationsPaused) return;
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const tick = () => {
+      const now = Date.now();
+      setTime(now);
+      const wait = msUntilNextFrame(tilesets, now);
+      // +1 so the next tick lands inside the new frame rather than on its boundary
+      if (wait !== null) timer = setTimeout(tick, wait + 1);
+    };
+    tick();
+    return () => clearTimeout(timer);
+  }, [tilesets, tileAnimationsPaused]);
+
+  return time;
+}
@@ -0,0 +1,43 @@
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import type { TileBrush, InsertTileBrush } from '@shared/schema';
+
+// Saved brushes belong to the signed-in user
+export function useTileBrushes() {
+  return useQuery<TileBrush[]>({
+    queryKey: ['/api/tile-brushes'],
+  });
+}
+
+export function useCreateTileBrush() {
+  return useMutation({
+    mutationFn: async (brush: Omit<InsertTileBrush, 'userId'>): Promise<TileBrush> => {
+      return apiRequest('POST', '/api/tile-brushes', brush);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/tile-brushes'] });
+    },
+  });
+}
+
+export function useUpdateTileBrush() {
+  return useMutation({
+    mutationFn: async ({ id, updates }: { id: string; updates: Partial<Pick<InsertTileBrush, 'name' | 'config'>> }) => {
+      return apiRequest('PATCH', `/api/tile-brushes/${id}`, updates);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/tile-brushes'] });
+    },
+  });
+}
+
+export function useDeleteTileBrush() {
+  return useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest('DELETE', `/api/tile-brushes/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/tile-brushes'] });
+    },
+  });
+}
@@ -0,0 +1,142 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { Tile, TileLayer } from '@shared/schema';
+import type { TileGrid } from '@shared/tileGrid';
+import { applyAutoTiling } from '@shared/autoTiling';
+import { isAutoTilingType } from '@shared/autoTileTemplates';
+import { useCanvasStore } from '@/store/useCanvasStore';
+import { useTilesetPacks } from '@/hooks/useTilesetPacks';
+import {
+  extractStamp,
+  isStampBorder,
+  placeStamp,
+  selectedTiles,
+  selectionContains,
+  transformStamp,
+  type StampTransform,
+  type TileSelection,
+  type TileStamp,
+} from '@/utils/tileStamps';
+
+type Region = Omit<TileSelection, 'layers'>;
+
+/**
+ * Clipboard, stamp and transform actions on the tile selection. Each action is
+ * a single store edit, so it undoes in one step and syncs as one batch.
+ */
+export function useTileSelectionActions() {
+  const { data: tilesetPacks = [] } = useTilesetPacks();
+  const terrainSets = tilesetPacks.map((pack) => pack.terrainSet);
+
+  // Auto-tiled tiles bordering the edited regions, recalculated against the edited grid
+  const retileAround = (grid: TileGrid, regions: Region[], layers: TileLayer[], placed: Tile[] = []): Tile[] => {
+    const { tilesets } = useCanvasStore.getState();
+    const isAutoTiled = (tile: Tile) => isAutoTilingType(tilesets.find((t) => t.id === tile.tilesetId)?.tilesetType);
+
+    const ring = regions.flatMap((region) =>
+      layers.flatMap((layer) =>
+        grid
+          .queryRect(region.x - 1, region.y - 1, region.x + region.width, region.y + region.height, layer)
+          .filter((tile) => !selectionContains({ ...region, layers }, tile))
+      )
+    );
+    const seeds = [...ring, ...placed].filter(isAutoTiled);
+    return seeds.length > 0 ? applyAutoTiling(seeds, grid, tilesets, terrainSets) : [];
+  };
+
+  // Replace `removed` with `added` and re-autotile the borders of the touched regions
+  const commit = (removed: Tile[], added: Tile[], regions: Region[], layers: TileLayer[], placedBorder: Tile[], description: string) => {
+    const { tileGrid, applyTileChanges } = useCanvasStore.getState();
+    const grid = tileGrid.clone();
+    removed.forEach((tile) => grid.delete(tile.x, tile.y, tile.layer));
+    added.forEach((tile) => grid.set(tile));
+    applyTileChanges(removed, [...added, ...retileAround(grid, regions, layers, placedBorder)], description);
+  };
+
+  const borderTiles = (stamp: TileStamp, x: number, y: number) =>
+    placeStamp({ ...stamp, tiles: stamp.tiles.filter((tile) => isStampBorder(stamp, tile)) }, x, y);
+
+  const copy = () => {
+    const { tileGrid, tileSelection, setTileClipboard } = useCanvasStore.getState();
+    if (!tileSelection) return;
+    setTileClipboard(extractStamp(tileGrid, tileSelection, uuidv4(), 'Clipboard'));
+  };
+
+  const remove = (description = 'Delete tiles') => {
+    const { tileGrid, tileSelection } = useCanvasStore.getState();
+    if (!tileSelection) return;
+    commit(selectedTiles(tileGrid, tileSelection), [], [tileSelection], tileSelection.layers, [], description);
+  };
+
+  const cut = () => {
+    copy();
+    remove('Cut tiles');
+  };
+
+  // Lift the selection and put it back at an offset, transformed or as is
+  const relocate = (dx: number, dy: number, transform: StampTransform | null, description: string) => {
+    const { tileGrid, tileSelection, setTileSelection } = useCanvasStore.getState();
+    if (!tileSelection) return;
+
+    const lifted = extractStamp(tileGrid, tileSelection, uuidv4(), 'Selection');
+    const stamp = transform ? transformStamp(lifted, transform) : lifted;
+    const target: TileSelection = {
+      ...tileSelection,
+      x: tileSelection.x + dx,
+      y: tileSelection.y + dy,
+      width: stamp.width,
+      height: stamp.height,
+    };
+
+    commit(
+      selectedTiles(tileGrid, tileSelection),
+      placeStamp(stamp, target.x, target.y),
+      [tileSelection, target],
+      tileSelection.layers,
+      borderTiles(stamp, target.x, target.y),
+      description
+    );
+    setTileSelection(target);
+  };
+
+  const move = (dx: number, dy: number) => relocate(dx, dy, null, 'Move tiles');
+
+  const transform = (kind: StampTransform) =>
+    relocate(0, 0, kind, kind === 'rotate' ? 'Rotate tiles' : 'Flip tiles');
+
+  // Paste goes through the stamp tool, so the clipboard can be placed anywhere
+  const paste = () => {
+    const { tileClipboard, setActiveStamp, setTool } = useCanvasStore.getState();
+    if (!tileClipboard) return;
+    setActiveStamp(tileClipboard);
+    setTool('tile-stamp');
+  };
+
+  const placeActiveStamp = (x: number, y: number) => {
+    const { activeStamp, tileLayers, activeTileLayerId, setTileSelection } = useCanvasStore.getState();
+    if (!activeStamp) return;
+
+    // Tiles keep their layer when it still exists and isn't locked; others land on the active layer
+    const layerIds = new Set(tileLayers.map((layer) => layer.id));
+    const locked = new Set(tileLayers.filter((layer) => layer.locked).map((layer) => layer.id));
+    const stamp: TileStamp = {
+      ...activeStamp,
+      tiles: activeStamp.tiles
+        .map((tile) => (layerIds.has(tile.layer) ? tile : { ...tile, layer: activeTileLayerId }))
+        .filter((tile) => !locked.has(tile.layer)),
+    };
+    if (stamp.tiles.length === 0) return;
+
+    const layers = Array.from(new Set(stamp.tiles.map((tile) => tile.layer)));
+    const region: TileSelection = { x, y, width: stamp.width, height: stamp.height, layers };
+    commit([], placeStamp(stamp, x, y), [region], layers, borderTiles(stamp, x, y), 'Place stamp');
+    setTileSelection(region);
+  };
+
+  const saveAsStamp = (name: string) => {
+    const { tileGrid, tileSelection, addTileStamp } = useCanvasStore.getState();
+    if (!tileSelection) return;
+    addTileStamp(extractStamp(tileGrid, tileSelection, uuidv4(), name));
+  };
+
+  return { copy, cut, remove, move, transform, paste, placeActiveStamp, saveAsStamp };
+}
@@ -11,8 +11,7 @@ export function useTilesetPacks() {
 export function useCreateTilesetPack() {
   return useMutation({
     mutationFn: async (pack: InsertTilesetPack) => {
-      const response = await apiRequest('POST', '/api/tileset-packs', pack);
-      return response.json();
+      return apiRequest('POST', '/api/tileset-packs', pack);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/tileset-packs'] });
@@ -23,8 +22,7 @@ export function useCreateTilesetPack() {
 export function useUpdateTilesetPack() {
   return useMutation({
     mutationFn: async ({ id, updates }: { id: string; updates: Partial<InsertTilesetPack> }) => {
-      const response = await apiRequest('PUT', `/api/tileset-packs/${id}`, updates);
-      return response.json();
+      return apiRequest('PATCH', `/api/tileset-packs/${id}`, updates);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/tileset-packs'] });
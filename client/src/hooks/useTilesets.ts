@@ -37,6 +37,17 @@ export function useCreateTileset() {
   });
 }
 
+export function useUpdateTileset() {
+  return useMutation({
+    mutationFn: async ({ id, updates }: { id: string; updates: Partial<InsertTileset> }) => {
+      return await apiRequest('PATCH', `/api/tilesets/${id}`, updates);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/tilesets'] });
+    },
+  });
+}
+
 export function useDeleteTileset() {
   return useMutation({
     mutationFn: async (id: string) => {
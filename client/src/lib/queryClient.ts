@@ -40,6 +40,35 @@ export async function apiRequest(
   return await res.json();
 }
 
+// Like apiRequest, for endpoints that respond with a file
+export async function apiDownload(
+  method: string,
+  url: string,
+  data?: unknown | undefined,
+): Promise<Blob> {
+  const token = getAuthToken();
+  const headers: Record<string, string> = {};
+
+  if (data) {
+    headers["Content-Type"] = "application/json";
+  }
+
+  if (token) {
+    headers["Authorization"] = `Bearer ${token}`;
+  }
+
+  const res = await fetch(url, {
+    method,
+    headers,
+    body: data ? JSON.stringify(data) : undefined,
+    credentials: "include",
+    cache: "no-store",
+  });
+
+  await throwIfResNotOk(res);
+  return await res.blob();
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
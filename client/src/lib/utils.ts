@@ -4,3 +4,14 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// Save a generated file through a temporary download link
+export function downloadFile(name: string, contents: string | Blob, type = "application/octet-stream") {
+  const blob = typeof contents === "string" ? new Blob([contents], { type }) : contents
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement("a")
+  a.href = url
+  a.download = name
+  a.click()
+  URL.revokeObjectURL(url)
+}
@@ -3,14 +3,21 @@ import { Canvas } from '@/components/Canvas';
 import { Toolbar } from '@/components/Toolbar';
 import { PropertiesPanel } from '@/components/PropertiesPanel';
 import { LayersPanel } from '@/components/LayersPanel';
+import { HistoryPanel } from '@/components/HistoryPanel';
 import { TilesetPanel } from '@/components/TilesetPanel';
+import { TilesetPackPanel } from '@/components/TilesetPackPanel';
+import { TileInspectorPanel } from '@/components/TileInspectorPanel';
 import { SpritePanel } from '@/components/SpritePanel';
 import { UserPresence } from '@/components/UserPresence';
+import { ConnectionIndicator } from '@/components/ConnectionIndicator';
 import { ProjectManager } from '@/components/ProjectManager';
 import { BoardManager } from '@/components/BoardManager';
+import { GenerateMenu } from '@/components/GenerateMenu';
 import { AiChat } from '@/components/AiChat';
 import { useCanvasStore } from '@/store/useCanvasStore';
-import { getCollaborationService } from '@/services/collaboration';
+import { getCollaborationService, type CollaborationService } from '@/services/collaboration';
+import { boardRoomId } from '@shared/projectRoles';
+import { flipTileTransform, rotateTileTransform } from '@shared/tileTransforms';
 import { LayerVisibilityProvider } from '@/contexts/LayerVisibilityContext';
 import { useAuth } from '@/contexts/AuthContext';
 import { v4 as uuidv4 } from 'uuid';
@@ -35,11 +42,14 @@ export default function Board() {
     setTool, 
     undo, 
     redo,
-    clearCanvas
+    clearCanvas,
+    currentProjectId,
+    currentBoardId
   } = useCanvasStore();
   
   const { logout } = useAuth();
   const collaborationRef = useRef<ReturnType<typeof getCollaborationService> | null>(null);
+  const [collaborationService, setCollaborationService] = useState<CollaborationService | null>(null);
   const [leftPanelOpen, setLeftPanelOpen] = useState(true);
   const [rightPanelOpen, setRightPanelOpen] = useState(true);
 
@@ -73,26 +83,33 @@ export default function Board() {
       selection: [],
       tool: 'select',
     });
+  }, []); // Empty dependency array - only run once on mount
+
+  // Join the collaboration room of the open board; boards outside a project stay local
+  useEffect(() => {
+    if (!currentProjectId || !currentBoardId) return;
 
-    // Initialize collaboration service
-    const roomId = new URLSearchParams(window.location.search).get('room') || 'default';
-    collaborationRef.current = getCollaborationService(roomId);
+    collaborationRef.current = getCollaborationService(boardRoomId(currentProjectId, currentBoardId));
     
     // Get auth token from localStorage and connect
     const authToken = localStorage.getItem('auth_token');
     collaborationRef.current.connect(authToken || undefined);
+    collaborationRef.current.switchToBoard(currentBoardId);
     
     // Make collaboration service globally available for store to use
     (window as any).__collaborationService = collaborationRef.current;
+    setCollaborationService(collaborationRef.current);
 
     return () => {
       console.log('Board.tsx: Cleanup function called - disconnecting collaboration service');
       if (collaborationRef.current) {
         collaborationRef.current.disconnect();
+        collaborationRef.current = null;
         (window as any).__collaborationService = null;
+        setCollaborationService(null);
       }
     };
-  }, []); // Empty dependency array - only run once on mount
+  }, [currentProjectId, currentBoardId]);
 
   // Keyboard shortcuts
   useEffect(() => {
@@ -114,6 +131,25 @@ export default function Board() {
           e.preventDefault();
           undo();
         }
+        // Leave other modifier combos (copy, paste, ...) to the canvas
+        return;
+      }
+
+      // Brush orientation while painting or stamping tiles, as in Tiled:
+      // X/Y flip, Z turns clockwise and Shift+Z back
+      const { tool, brushTransform, setBrushTransform } = useCanvasStore.getState();
+      if (tool === 'tile-paint' || tool === 'tile-stamp') {
+        switch (e.key.toLowerCase()) {
+          case 'x':
+            setBrushTransform(flipTileTransform(brushTransform, 'x'));
+            return;
+          case 'y':
+            setBrushTransform(flipTileTransform(brushTransform, 'y'));
+            return;
+          case 'z':
+            setBrushTransform(rotateTileTransform(brushTransform, !e.shiftKey));
+            return;
+        }
       }
 
       // Tool shortcuts
@@ -145,6 +181,12 @@ export default function Board() {
         case 'e':
           setTool('tile-erase');
           break;
+        case 'b':
+          setTool('tile-fill');
+          break;
+        case 'm':
+          setTool('tile-select');
+          break;
         case 'g':
           setTool('sprite');
           break;
@@ -172,6 +214,7 @@ export default function Board() {
             </Button>
             <BoardManager />
             <ProjectManager />
+            <GenerateMenu />
           </div>
           
           {/* Horizontal Toolbar with drawing tools only */}
@@ -182,6 +225,7 @@ export default function Board() {
           </div>
           
           <div className="flex items-center gap-2">
+            <ConnectionIndicator service={collaborationService} />
             <UserPresence />
             <Button
               variant="ghost"
@@ -221,6 +265,7 @@ export default function Board() {
               <div className="flex-1 overflow-y-auto">
                 <PropertiesPanel />
                 <LayersPanel />
+                <HistoryPanel />
               </div>
             </div>
           </div>
@@ -235,6 +280,8 @@ export default function Board() {
             <div className="h-full flex flex-col">
               <div className="flex-1 overflow-y-auto">
                 <TilesetPanel />
+                <TileInspectorPanel />
+                <TilesetPackPanel />
                 <SpritePanel />
               </div>
               <div className="flex-1">
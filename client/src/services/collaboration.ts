@@ -1,20 +1,34 @@
 import * as Y from 'yjs';
 import { Awareness } from 'y-protocols/awareness';
 import { encodeAwarenessUpdate, applyAwarenessUpdate } from 'y-protocols/awareness';
-import type { Shape, UserPresence } from '@shared/schema';
+import type { ProjectRole, Shape, Tile, TileLayerDefinition, UserPresence } from '@shared/schema';
+import { tileKey } from '@shared/tileGrid';
 import { useCanvasStore } from '@/store/useCanvasStore';
+import { OfflinePersistence, PERSISTENCE_ORIGIN } from './offlinePersistence';
 
-interface ConnectionState {
+type UndoStackItem = NonNullable<ReturnType<Y.UndoManager['undo']>>;
+
+// Undo stack item meta linking a step to the store history entry it was recorded as
+const HISTORY_ENTRY_META = 'historyEntryId';
+
+export interface ConnectionState {
   status: 'connecting' | 'connected' | 'disconnected' | 'reconnecting' | 'error' | 'auth_failed';
   lastConnected?: Date;
   reconnectAttempts: number;
   error?: string;
   errorCode?: string;
+  role?: ProjectRole;
+  readOnly?: boolean; // Set for viewers/commenters; the server drops their document updates
+  pendingChanges?: number; // Local changes to the current board the server hasn't received yet
 }
 
 interface WebSocketMessage {
-  type: 'yjs-update' | 'yjs-awareness' | 'error' | 'auth_success' | 'ping' | 'pong';
+  type: 'yjs-update' | 'yjs-sync' | 'yjs-sync-step2' | 'yjs-awareness' | 'error' | 'auth_success' | 'room_access' | 'ping' | 'pong';
   data?: any;
+  boardId?: string;
+  stateVector?: number[];
+  role?: ProjectRole;
+  readOnly?: boolean;
   error?: string;
   code?: string;
   user?: any;
@@ -28,8 +42,13 @@ export class CollaborationService {
   private boardMaps: Map<string, {
     shapesMap: Y.Map<any>;
     tilesMap: Y.Map<any>;
+    tileLayersMap: Y.Map<any>;
     spritesMap: Y.Map<any>;
   }> = new Map();
+  // Per-board undo stacks that only track this client's own ('local') transactions
+  private undoManagers: Map<string, Y.UndoManager> = new Map();
+  // Undo step still capturing changes on each board, until stopCapturing() links it to a history entry
+  private openUndoSteps: Map<string, UndoStackItem> = new Map();
   private awareness: Awareness;
   private roomId: string;
   private currentBoardId: string | null = null;
@@ -40,8 +59,10 @@ export class CollaborationService {
   private reconnectTimer: NodeJS.Timeout | null = null;
   private maxReconnectAttempts = 10;
   private reconnectDelay = 1000; // Start with 1 second
-  private updateQueue: Array<() => void> = [];
-  private isProcessingQueue = false;
+  // Board documents are kept in IndexedDB so offline edits survive a reload
+  private persistence = OfflinePersistence.isSupported() ? new OfflinePersistence() : null;
+  private loadedBoards: Map<string, Promise<void>> = new Map();
+  private pendingChanges: Map<string, number> = new Map();
   private heartbeatTimer: NodeJS.Timeout | null = null;
   private heartbeatInterval = 60000; // 60 seconds (increased from 30 for long-running operations)
   private lastHeartbeat: number = 0;
@@ -114,11 +135,7 @@ export class CollaborationService {
 
     this.ws.onopen = () => {
       console.log('WebSocket connected');
-      // Send initial state
-      const stateVector = Y.encodeStateVector(this.doc);
-      if (this.ws) {
-        this.ws.send(stateVector);
-      }
+      // Document sync starts once the server confirms authentication (see handleAuthSuccess)
       
       // Set local user state AFTER WebSocket is connected
       const currentUser = useCanvasStore.getState().currentUser;
@@ -130,7 +147,14 @@ export class CollaborationService {
     };
 
     this.ws.onmessage = (event) => {
-      if (event.data instanceof ArrayBuffer) {
+      if (typeof event.data === 'string') {
+        // Control and document sync messages
+        try {
+          this.handleJsonMessage(JSON.parse(event.data));
+        } catch (error) {
+          console.error('Error handling WebSocket message:', error);
+        }
+      } else if (event.data instanceof ArrayBuffer) {
         const update = new Uint8Array(event.data);
         // Check if this is an awareness update (first byte is 1) or doc update (first byte is 0)
         if (update.length > 0 && update[0] === 1) {
@@ -138,10 +162,7 @@ export class CollaborationService {
           applyAwarenessUpdate(this.awareness, update.slice(1), null);
         } else if (update.length > 0 && update[0] === 0) {
           // This is a document update - strip the prefix byte
-          Y.applyUpdate(this.doc, update.slice(1));
-        } else {
-          // Legacy message without prefix (for backwards compatibility during initial handshake)
-          Y.applyUpdate(this.doc, update);
+          this.handleBinaryMessage(update.slice(1));
         }
       }
     };
@@ -156,20 +177,22 @@ export class CollaborationService {
       this.notifyError('WebSocket connection error', 'CONNECTION_ERROR');
     };
 
+    const socket = this.ws;
     this.ws.onclose = () => {
       console.log('WebSocket disconnected');
-    };
+      // disconnect() clears this.ws before closing, so only unexpected drops get here
+      if (this.ws !== socket) return;
+      this.ws = null;
 
-    // Send document updates to the server
-    this.doc.on('update', (update: Uint8Array) => {
-      if (this.ws && this.ws.readyState === WebSocket.OPEN) {
-        // Prepend 0 to indicate this is a document update
-        const message = new Uint8Array(update.length + 1);
-        message[0] = 0;
-        message.set(update, 1);
-        this.ws.send(message);
+      if (this.connectionState.status === 'auth_failed') return;
+      this.updateConnectionState({ status: 'disconnected' });
+      // Edits keep going to the local documents and are merged by the next sync
+      if (this.connectionState.reconnectAttempts < this.maxReconnectAttempts) {
+        this.scheduleReconnect();
       }
-    });
+    };
+
+    // Document updates are sent per board by the handler set up in createBoardDocument
 
     // Send awareness updates to the server
     this.awareness.on('update', ({ added, updated, removed }: any) => {
@@ -218,14 +241,24 @@ export class CollaborationService {
     // Setup observers for the new board
     this.setupBoardObservers(boardId);
     
-    // Sync from local state if maps are empty
-    const boardMaps = this.boardMaps.get(boardId);
-    if (boardMaps && 
-        boardMaps.shapesMap.size === 0 && 
-        boardMaps.tilesMap.size === 0 && 
-        boardMaps.spritesMap.size === 0) {
-      this.syncFromLocal();
-    }
+    // Wait for edits saved offline to be restored before seeding or syncing the board
+    this.whenLoaded(boardId).then(() => {
+      if (this.currentBoardId !== boardId) return;
+
+      // Sync from local state if maps are empty
+      const boardMaps = this.boardMaps.get(boardId);
+      if (boardMaps && 
+          boardMaps.shapesMap.size === 0 && 
+          boardMaps.tilesMap.size === 0 && 
+          boardMaps.spritesMap.size === 0) {
+        this.syncFromLocal();
+      }
+
+      this.updateConnectionState({ pendingChanges: this.pendingChanges.get(boardId) ?? 0 });
+
+      // Catch up with the server's copy of the board
+      this.sendSyncStep1(boardId);
+    });
   }
 
   private createBoardDocument(boardId: string) {
@@ -235,30 +268,92 @@ export class CollaborationService {
     // Create maps for this board
     const shapesMap = doc.getMap('shapes');
     const tilesMap = doc.getMap('tiles');
+    const tileLayersMap = doc.getMap('tileLayers');
     const spritesMap = doc.getMap('sprites');
     
     this.boardMaps.set(boardId, {
       shapesMap,
       tilesMap,
+      tileLayersMap,
       spritesMap,
     });
+
+    // Only changes made through this service (origin 'local') are undoable, so
+    // undo never reverts edits that arrived from collaborators. Stack items are
+    // closed explicitly by stopCapturing() when the store records a history entry.
+    const undoManager = new Y.UndoManager(
+      [shapesMap, tilesMap, tileLayersMap, spritesMap],
+      {
+        trackedOrigins: new Set(['local']),
+        captureTimeout: Number.POSITIVE_INFINITY,
+      }
+    );
+    undoManager.on('stack-item-added', ({ stackItem }) => {
+      if (undoManager.undoing || undoManager.redoing) {
+        // The reverse of an undone or redone step belongs to the same history entry
+        const entryId = undoManager.currStackItem?.meta.get(HISTORY_ENTRY_META);
+        if (entryId) stackItem.meta.set(HISTORY_ENTRY_META, entryId);
+      } else {
+        this.openUndoSteps.set(boardId, stackItem);
+      }
+    });
+    this.undoManagers.set(boardId, undoManager);
+    
+    this.loadedBoards.set(boardId, this.loadPersistedBoard(boardId, doc));
     
     // Setup update handler for this document
     doc.on('update', (update: Uint8Array, origin: any) => {
-      if (origin !== 'remote' && this.ws && this.ws.readyState === WebSocket.OPEN) {
+      // A read-only member's own edits are never accepted by the server, so
+      // keeping them offline would only replay them after a reload
+      const rejectedLocally = origin !== 'remote' && this.connectionState.readOnly;
+      if (origin !== PERSISTENCE_ORIGIN && !rejectedLocally) {
+        this.persistence?.storeUpdate(this.documentName(boardId), update, doc).catch((error) => {
+          console.error('Error saving board update offline:', error);
+        });
+      }
+
+      // Only local edits go to the server, and the server would drop them for read-only members
+      if (origin === 'remote' || origin === PERSISTENCE_ORIGIN || this.connectionState.readOnly) return;
+
+      if (this.connectionState.status === 'connected' && this.ws && this.ws.readyState === WebSocket.OPEN) {
         const message = JSON.stringify({ boardId, update: Array.from(update) });
         this.ws.send(message);
-      } else if (origin !== 'remote') {
-        this.queueUpdate(() => {
-          if (this.ws && this.ws.readyState === WebSocket.OPEN) {
-            const message = JSON.stringify({ boardId, update: Array.from(update) });
-            this.ws.send(message);
-          }
-        });
+      } else {
+        // Not sent now; the sync after reconnecting sends everything the server is missing
+        this.setPendingChanges(boardId, (this.pendingChanges.get(boardId) ?? 0) + 1);
       }
     });
   }
 
+  private async loadPersistedBoard(boardId: string, doc: Y.Doc): Promise<void> {
+    if (!this.persistence) return;
+
+    try {
+      const pending = await this.persistence.load(this.documentName(boardId), doc);
+      this.pendingChanges.set(boardId, pending);
+    } catch (error) {
+      console.error('Error restoring offline board state:', error);
+    }
+  }
+
+  private whenLoaded(boardId: string): Promise<void> {
+    return this.loadedBoards.get(boardId) ?? Promise.resolve();
+  }
+
+  private documentName(boardId: string): string {
+    return `${this.roomId}/${boardId}`;
+  }
+
+  private setPendingChanges(boardId: string, count: number) {
+    this.pendingChanges.set(boardId, count);
+    this.persistence?.setPendingChanges(this.documentName(boardId), count).catch((error) => {
+      console.error('Error saving pending change count:', error);
+    });
+    if (boardId === this.currentBoardId) {
+      this.updateConnectionState({ pendingChanges: count });
+    }
+  }
+
   private setupBoardObservers(boardId: string) {
     const boardMaps = this.boardMaps.get(boardId);
     if (!boardMaps) return;
@@ -271,14 +366,35 @@ export class CollaborationService {
       if (event.transaction.origin !== 'local') {
         const shapes = Array.from(boardMaps.shapesMap.values());
         useCanvasStore.setState({ shapes });
+        useCanvasStore.getState().syncHistoryBaseline();
       }
     });
 
-    // Tiles observer
+    // Tiles observer - apply only the changed cells to the chunked tile index
     boardMaps.tilesMap.observe((event) => {
       if (event.transaction.origin !== 'local') {
-        const tiles = Array.from(boardMaps.tilesMap.values());
-        useCanvasStore.setState({ tiles });
+        const tileGrid = useCanvasStore.getState().tileGrid.clone();
+        event.changes.keys.forEach((change, key) => {
+          if (change.action === 'delete' || change.action === 'update') {
+            const oldTile = change.oldValue as Tile | undefined;
+            if (oldTile) tileGrid.delete(oldTile.x, oldTile.y, oldTile.layer);
+          }
+          if (change.action === 'add' || change.action === 'update') {
+            const tile = boardMaps.tilesMap.get(key) as Tile | undefined;
+            if (tile) tileGrid.set(tile);
+          }
+        });
+        useCanvasStore.setState({ tileGrid });
+        useCanvasStore.getState().syncHistoryBaseline();
+      }
+    });
+
+    // Tile layers observer
+    boardMaps.tileLayersMap.observe((event) => {
+      if (event.transaction.origin !== 'local') {
+        const tileLayers = Array.from(boardMaps.tileLayersMap.values()) as TileLayerDefinition[];
+        useCanvasStore.getState().setTileLayers(tileLayers);
+        useCanvasStore.getState().syncHistoryBaseline();
       }
     });
 
@@ -287,6 +403,7 @@ export class CollaborationService {
       if (event.transaction.origin !== 'local') {
         const sprites = Array.from(boardMaps.spritesMap.values());
         useCanvasStore.setState({ sprites });
+        useCanvasStore.getState().syncHistoryBaseline();
       }
     });
   }
@@ -315,31 +432,6 @@ export class CollaborationService {
     }, delay);
   }
 
-  private queueUpdate(updateFn: () => void) {
-    this.updateQueue.push(updateFn);
-  }
-
-  private async processUpdateQueue() {
-    if (this.isProcessingQueue || this.updateQueue.length === 0) return;
-    
-    this.isProcessingQueue = true;
-    
-    while (this.updateQueue.length > 0) {
-      const updateFn = this.updateQueue.shift();
-      if (updateFn) {
-        try {
-          updateFn();
-        } catch (error) {
-          console.error('Error processing queued update:', error);
-        }
-      }
-      // Small delay to prevent overwhelming
-      await new Promise(resolve => setTimeout(resolve, 10));
-    }
-    
-    this.isProcessingQueue = false;
-  }
-
   private setupChangeObservers() {
     // This method is now handled by setupBoardObservers for each board
     // Keep for backward compatibility but observers are set up per board
@@ -390,9 +482,16 @@ export class CollaborationService {
     // Sync tiles
     doc.transact(() => {
       boardMaps.tilesMap.clear();
-      state.tiles.forEach((tile, index) => {
-        const tileId = `${tile.x}-${tile.y}-${tile.layer || 0}-${tile.tilesetId}`;
-        boardMaps.tilesMap.set(tileId, tile);
+      state.tileGrid.forEach((tile) => {
+        boardMaps.tilesMap.set(tileKey(tile.x, tile.y, tile.layer), tile);
+      });
+    }, 'local');
+
+    // Sync tile layers
+    doc.transact(() => {
+      boardMaps.tileLayersMap.clear();
+      state.tileLayers.forEach((layer) => {
+        boardMaps.tileLayersMap.set(layer.id, layer);
       });
     }, 'local');
 
@@ -403,6 +502,52 @@ export class CollaborationService {
         boardMaps.spritesMap.set(sprite.id || `sprite-${index}`, sprite);
       });
     }, 'local');
+
+    // Seeding the shared document from local state is not an undoable edit
+    this.clearUndoHistory();
+  }
+
+  // Per-user undo/redo
+  hasUndoTracking(): boolean {
+    return !!this.currentBoardId && this.undoManagers.has(this.currentBoardId);
+  }
+
+  /**
+   * Close the current undo step so the next local change starts a new one.
+   * The step is linked to `historyEntryId` so undo can move the store's
+   * history to the entry it reverted.
+   */
+  stopCapturing(historyEntryId?: string) {
+    if (!this.currentBoardId) return;
+    const step = this.openUndoSteps.get(this.currentBoardId);
+    if (step && historyEntryId) step.meta.set(HISTORY_ENTRY_META, historyEntryId);
+    this.openUndoSteps.delete(this.currentBoardId);
+    this.undoManagers.get(this.currentBoardId)?.stopCapturing();
+  }
+
+  /**
+   * Revert this client's last undo step. Returns the history entry it was
+   * recorded as (undefined for an unlinked step), or null when there was
+   * nothing to undo.
+   */
+  undo(): { historyEntryId?: string } | null {
+    if (!this.currentBoardId) return null;
+    this.openUndoSteps.delete(this.currentBoardId);
+    const step = this.undoManagers.get(this.currentBoardId)?.undo();
+    return step ? { historyEntryId: step.meta.get(HISTORY_ENTRY_META) } : null;
+  }
+
+  /** Reapply this client's last undone step; same result as undo() */
+  redo(): { historyEntryId?: string } | null {
+    if (!this.currentBoardId) return null;
+    const step = this.undoManagers.get(this.currentBoardId)?.redo();
+    return step ? { historyEntryId: step.meta.get(HISTORY_ENTRY_META) } : null;
+  }
+
+  clearUndoHistory() {
+    if (!this.currentBoardId) return;
+    this.openUndoSteps.delete(this.currentBoardId);
+    this.undoManagers.get(this.currentBoardId)?.clear();
   }
 
   // Enhanced shape operations with ID-based updates
@@ -448,7 +593,7 @@ export class CollaborationService {
   }
 
   // Enhanced tile operations
-  addTile(tile: any) {
+  addTile(tile: Tile) {
     if (!this.currentBoardId) return;
     
     const boardMaps = this.boardMaps.get(this.currentBoardId);
@@ -456,7 +601,8 @@ export class CollaborationService {
     
     if (!boardMaps || !doc) return;
     
-    const tileId = `${tile.x}-${tile.y}-${tile.layer || 0}-${tile.tilesetId}`;
+    // One tile per cell and layer, so painting over a cell replaces the previous entry
+    const tileId = tileKey(tile.x, tile.y, tile.layer);
     doc.transact(() => {
       boardMaps.tilesMap.set(tileId, tile);
     }, 'local');
@@ -488,6 +634,33 @@ export class CollaborationService {
     }, 'local');
   }
 
+  // Tile layer operations
+  setTileLayer(layer: TileLayerDefinition) {
+    if (!this.currentBoardId) return;
+    
+    const boardMaps = this.boardMaps.get(this.currentBoardId);
+    const doc = this.docs.get(this.currentBoardId);
+    
+    if (!boardMaps || !doc) return;
+    
+    doc.transact(() => {
+      boardMaps.tileLayersMap.set(layer.id, layer);
+    }, 'local');
+  }
+
+  deleteTileLayer(layerId: string) {
+    if (!this.currentBoardId) return;
+    
+    const boardMaps = this.boardMaps.get(this.currentBoardId);
+    const doc = this.docs.get(this.currentBoardId);
+    
+    if (!boardMaps || !doc) return;
+    
+    doc.transact(() => {
+      boardMaps.tileLayersMap.delete(layerId);
+    }, 'local');
+  }
+
   // Enhanced sprite operations
   addSprite(sprite: any) {
     if (!this.currentBoardId) return '';
@@ -597,6 +770,9 @@ export class CollaborationService {
       case 'auth_success':
         this.handleAuthSuccess(message);
         break;
+      case 'room_access':
+        this.updateConnectionState({ role: message.role, readOnly: !!message.readOnly });
+        break;
       case 'error':
         this.handleErrorMessage(message);
         break;
@@ -607,8 +783,14 @@ export class CollaborationService {
         this.handlePong();
         break;
       case 'yjs-update':
+      case 'yjs-sync-step2':
         if (message.data) {
-          this.handleBinaryMessage(new Uint8Array(message.data));
+          this.handleBinaryMessage(new Uint8Array(message.data), message.boardId);
+        }
+        break;
+      case 'yjs-sync':
+        if (message.boardId && message.stateVector) {
+          this.sendSyncStep2(message.boardId, new Uint8Array(message.stateVector));
         }
         break;
       case 'yjs-awareness':
@@ -621,9 +803,9 @@ export class CollaborationService {
     }
   }
 
-  private handleBinaryMessage(update: Uint8Array): void {
-    if (this.currentBoardId) {
-      const doc = this.docs.get(this.currentBoardId);
+  private handleBinaryMessage(update: Uint8Array, boardId: string | null = this.currentBoardId): void {
+    if (boardId) {
+      const doc = this.docs.get(boardId);
       if (doc) {
         try {
           Y.applyUpdate(doc, update, 'remote');
@@ -662,28 +844,44 @@ export class CollaborationService {
       this.reconnectTimer = null;
     }
 
-    // Send initial state vector for synchronization for current board
-    if (this.currentBoardId) {
-      const doc = this.docs.get(this.currentBoardId);
-      if (doc) {
-        try {
-          const stateVector = Y.encodeStateVector(doc);
-          if (this.ws && this.ws.readyState === WebSocket.OPEN) {
-            const syncMessage = JSON.stringify({ 
-              type: 'yjs-sync',
-              boardId: this.currentBoardId, 
-              stateVector: Array.from(stateVector) 
-            });
-            this.ws.send(syncMessage);
-          }
-        } catch (error) {
-          console.error('Error sending initial sync:', error);
-        }
-      }
+    // Send initial state vector for synchronization for current board. The server
+    // answers with its own state vector, and our reply carries any offline edits.
+    const boardId = this.currentBoardId;
+    if (boardId) {
+      this.whenLoaded(boardId).then(() => this.sendSyncStep1(boardId));
     }
+  }
 
-    // Process any queued updates
-    this.processUpdateQueue();
+  // Sync step 1: tell the server what we have so it can send what we're missing
+  private sendSyncStep1(boardId: string): void {
+    const doc = this.docs.get(boardId);
+    if (!doc || !this.ws || this.ws.readyState !== WebSocket.OPEN) return;
+
+    try {
+      const syncMessage = JSON.stringify({ 
+        type: 'yjs-sync',
+        boardId, 
+        stateVector: Array.from(Y.encodeStateVector(doc)) 
+      });
+      this.ws.send(syncMessage);
+    } catch (error) {
+      console.error('Error sending initial sync:', error);
+    }
+  }
+
+  // Sync step 2: answer the server's state vector with the updates it is missing
+  private sendSyncStep2(boardId: string, stateVector: Uint8Array): void {
+    const doc = this.docs.get(boardId);
+    if (!doc || !this.ws || this.ws.readyState !== WebSocket.OPEN) return;
+
+    try {
+      const update = Y.encodeStateAsUpdate(doc, stateVector);
+      this.ws.send(JSON.stringify({ type: 'yjs-sync-step2', boardId, update: Array.from(update) }));
+      // The server now has everything we had queued
+      this.setPendingChanges(boardId, 0);
+    } catch (error) {
+      console.error('Error sending sync reply:', error);
+    }
   }
 
   private handleErrorMessage(message: WebSocketMessage): void {
@@ -833,7 +1031,8 @@ export class CollaborationService {
       lastHeartbeat: this.lastHeartbeat,
       isHealthy: this.isHealthy(),
       hasError: !!this.connectionState.error,
-      errorCode: this.connectionState.errorCode
+      errorCode: this.connectionState.errorCode,
+      pendingChanges: this.connectionState.pendingChanges ?? 0
     };
   }
 
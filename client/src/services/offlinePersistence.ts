@@ -0,0 +1,118 @@
+import * as Y from 'yjs';
+
+const DB_NAME = 'gamedevboard-collaboration';
+const DB_VERSION = 1;
+const UPDATES_STORE = 'updates';
+const PENDING_STORE = 'pending';
+
+// Once a document has this many stored updates they are merged into one
+const COMPACT_THRESHOLD = 200;
+
+/** Transaction origin for updates restored from IndexedDB (never re-sent to the server) */
+export const PERSISTENCE_ORIGIN = 'indexeddb';
+
+interface StoredUpdate {
+  id?: number;
+  name: string;
+  update: Uint8Array;
+}
+
+const requestToPromise = <T,>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+/**
+ * Persists collaborative board documents in IndexedDB so edits made while
+ * offline survive a page reload. Every Yjs update is appended to the
+ * `updates` store and merged into a single update once enough pile up; on
+ * load they are replayed into the board's Y.Doc, and the regular sync with
+ * the server merges them on reconnect.
+ *
+ * The number of local changes the server hasn't seen yet is kept alongside
+ * so it can be shown after a reload.
+ */
+export class OfflinePersistence {
+  private db: Promise<IDBDatabase> | null = null;
+  private updateCounts = new Map<string, number>();
+
+  static isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  /**
+   * Replay every stored update for a document into `doc`.
+   * Resolves with the number of local changes still waiting to be synced.
+   */
+  async load(name: string, doc: Y.Doc): Promise<number> {
+    const db = await this.open();
+    const transaction = db.transaction([UPDATES_STORE, PENDING_STORE], 'readonly');
+    const [updates, pending] = await Promise.all([
+      requestToPromise<StoredUpdate[]>(transaction.objectStore(UPDATES_STORE).index('name').getAll(name)),
+      requestToPromise<number | undefined>(transaction.objectStore(PENDING_STORE).get(name)),
+    ]);
+
+    if (updates.length > 0) {
+      Y.transact(doc, () => {
+        updates.forEach(({ update }) => Y.applyUpdate(doc, update));
+      }, PERSISTENCE_ORIGIN);
+    }
+    this.updateCounts.set(name, updates.length);
+
+    return pending ?? 0;
+  }
+
+  async storeUpdate(name: string, update: Uint8Array, doc: Y.Doc): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(UPDATES_STORE, 'readwrite');
+    transaction.objectStore(UPDATES_STORE).add({ name, update } satisfies StoredUpdate);
+    await transactionDone(transaction);
+
+    const count = (this.updateCounts.get(name) ?? 0) + 1;
+    this.updateCounts.set(name, count);
+    if (count >= COMPACT_THRESHOLD) {
+      await this.compact(name, doc);
+    }
+  }
+
+  async setPendingChanges(name: string, count: number): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(PENDING_STORE, 'readwrite');
+    transaction.objectStore(PENDING_STORE).put(count, name);
+    await transactionDone(transaction);
+  }
+
+  // Replace a document's stored updates with a single merged one
+  private async compact(name: string, doc: Y.Doc): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(UPDATES_STORE, 'readwrite');
+    const store = transaction.objectStore(UPDATES_STORE);
+    const keys = await requestToPromise(store.index('name').getAllKeys(name));
+    keys.forEach((key) => store.delete(key));
+    store.add({ name, update: Y.encodeStateAsUpdate(doc) } satisfies StoredUpdate);
+    await transactionDone(transaction);
+    this.updateCounts.set(name, 1);
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        const updates = db.createObjectStore(UPDATES_STORE, { keyPath: 'id', autoIncrement: true });
+        updates.createIndex('name', 'name');
+        db.createObjectStore(PENDING_STORE);
+      };
+      this.db = requestToPromise(request);
+    }
+    return this.db;
+  }
+}
@@ -0,0 +1,158 @@
+import type { Shape, SpriteInstance, TileLayerDefinition } from '@shared/schema';
+import type { TileChange, TileGrid } from '@shared/tileGrid';
+
+/**
+ * Diff-based undo history for the canvas store.
+ *
+ * Each entry stores only what its action changed (before/after values per
+ * shape, sprite and tile cell) instead of a copy of the whole document, so
+ * a stroke on a large map costs as much as the cells it touched.
+ */
+
+/** The parts of the store that are recorded in history */
+export interface HistoryDocument {
+  shapes: Shape[];
+  sprites: SpriteInstance[];
+  tileGrid: TileGrid;
+  tileLayers: TileLayerDefinition[];
+}
+
+interface ItemChange<T> {
+  id: string;
+  before?: T;
+  after?: T;
+}
+
+interface ListPatch<T> {
+  changes: ItemChange<T>[];
+  // Id order before/after the action, only recorded when the order changed
+  orderBefore?: string[];
+  orderAfter?: string[];
+}
+
+export interface HistoryPatch {
+  shapes?: ListPatch<Shape>;
+  sprites?: ListPatch<SpriteInstance>;
+  tiles?: TileChange[];
+  tileLayers?: { before: TileLayerDefinition[]; after: TileLayerDefinition[] };
+}
+
+export interface HistoryEntry {
+  id: string;
+  label: string;
+  timestamp: number;
+  patch: HistoryPatch;
+}
+
+export const MAX_HISTORY_ENTRIES = 500;
+
+function diffList<T extends { id: string }>(before: T[], after: T[]): ListPatch<T> | undefined {
+  if (before === after) return undefined;
+
+  const beforeById = new Map(before.map((item) => [item.id, item]));
+  const afterById = new Map(after.map((item) => [item.id, item]));
+  const changes: ItemChange<T>[] = [];
+
+  beforeById.forEach((item, id) => {
+    const next = afterById.get(id);
+    if (next !== item) changes.push({ id, before: item, after: next });
+  });
+  afterById.forEach((item, id) => {
+    if (!beforeById.has(id)) changes.push({ id, after: item });
+  });
+
+  const orderBefore = before.map((item) => item.id);
+  const orderAfter = after.map((item) => item.id);
+  const orderChanged =
+    orderBefore.length !== orderAfter.length || orderBefore.some((id, i) => id !== orderAfter[i]);
+
+  if (changes.length === 0 && !orderChanged) return undefined;
+
+  return orderChanged ? { changes, orderBefore, orderAfter } : { changes };
+}
+
+/** Record what changed between two document states; null when nothing did */
+export function createHistoryPatch(before: HistoryDocument, after: HistoryDocument): HistoryPatch | null {
+  const patch: HistoryPatch = {};
+
+  const shapes = diffList(before.shapes, after.shapes);
+  if (shapes) patch.shapes = shapes;
+
+  const sprites = diffList(before.sprites, after.sprites);
+  if (sprites) patch.sprites = sprites;
+
+  if (before.tileGrid !== after.tileGrid) {
+    const tiles = after.tileGrid.diff(before.tileGrid);
+    if (tiles.length > 0) patch.tiles = tiles;
+  }
+
+  if (before.tileLayers !== after.tileLayers) {
+    patch.tileLayers = { before: before.tileLayers, after: after.tileLayers };
+  }
+
+  return Object.keys(patch).length > 0 ? patch : null;
+}
+
+function applyListPatch<T extends { id: string }>(
+  items: T[],
+  patch: ListPatch<T>,
+  direction: 'undo' | 'redo'
+): T[] {
+  const byId = new Map(items.map((item) => [item.id, item]));
+
+  for (const change of patch.changes) {
+    const value = direction === 'undo' ? change.before : change.after;
+    if (value) {
+      byId.set(change.id, value);
+    } else {
+      byId.delete(change.id);
+    }
+  }
+
+  const order = direction === 'undo' ? patch.orderBefore : patch.orderAfter;
+  if (order) {
+    const ordered = order.filter((id) => byId.has(id)).map((id) => byId.get(id)!);
+    // Keep items this patch doesn't know about (e.g. added by a collaborator) at the end
+    const known = new Set(order);
+    byId.forEach((item, id) => {
+      if (!known.has(id)) ordered.push(item);
+    });
+    return ordered;
+  }
+
+  const result = items.filter((item) => byId.has(item.id)).map((item) => byId.get(item.id)!);
+  const existing = new Set(items.map((item) => item.id));
+  byId.forEach((item, id) => {
+    if (!existing.has(id)) result.push(item);
+  });
+  return result;
+}
+
+/** Apply a patch backwards (undo) or forwards (redo) to a document */
+export function applyHistoryPatch(
+  doc: HistoryDocument,
+  patch: HistoryPatch,
+  direction: 'undo' | 'redo'
+): HistoryDocument {
+  let tileGrid = doc.tileGrid;
+  if (patch.tiles) {
+    tileGrid = tileGrid.clone();
+    for (const change of patch.tiles) {
+      const value = direction === 'undo' ? change.before : change.after;
+      if (value) {
+        tileGrid.set(value);
+      } else {
+        tileGrid.delete(change.x, change.y, change.layer);
+      }
+    }
+  }
+
+  return {
+    shapes: patch.shapes ? applyListPatch(doc.shapes, patch.shapes, direction) : doc.shapes,
+    sprites: patch.sprites ? applyListPatch(doc.sprites, patch.sprites, direction) : doc.sprites,
+    tileGrid,
+    tileLayers: patch.tileLayers
+      ? direction === 'undo' ? patch.tileLayers.before : patch.tileLayers.after
+      : doc.tileLayers,
+  };
+}
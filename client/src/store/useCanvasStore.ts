@@ -19,54 +19,76 @@ import type {
   AdvancedAnimation,
   SpritesheetData,
   GodotProject,
-  GodotLayer
+  GodotLayer,
+  TileLayer,
+  TileLayerDefinition,
+  TileBrushConfig
 } from '@shared/schema';
+import { DEFAULT_TILE_LAYERS } from '@shared/tileLayers';
 import type { GodotProjectConfig } from '@/types/godot';
+import { TileGrid, tileKey } from '@shared/tileGrid';
+import type { TileTransform } from '@shared/tileTransforms';
+import { withTileImageUrls } from '@shared/tileProperties';
 import { v4 as uuidv4 } from 'uuid';
 import { initializeDemoSprites } from '@/utils/demoSprites';
+import type { TileSelection, TileStamp } from '@/utils/tileStamps';
+import {
+  applyHistoryPatch,
+  createHistoryPatch,
+  MAX_HISTORY_ENTRIES,
+  type HistoryDocument,
+  type HistoryEntry,
+} from './history';
+
+let historyDebounceTimer: ReturnType<typeof setTimeout> | null = null;
+
+const TILE_STAMPS_STORAGE_KEY = 'tileStamps';
+
+const loadTileStamps = (): TileStamp[] => {
+  if (typeof localStorage === 'undefined') return [];
+  try {
+    const stored = JSON.parse(localStorage.getItem(TILE_STAMPS_STORAGE_KEY) || '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+};
 
-type HistoryEntry = CanvasState & { tiles: Tile[] };
-
-type HistorySource = {
-  shapes: Shape[];
-  sprites: SpriteInstance[];
-  selectedIds: string[];
-  tool: ToolType;
-  zoom: number;
-  pan: { x: number; y: number };
-  gridSize: number;
-  gridVisible: boolean;
-  snapToGrid: boolean;
-  tiles: Tile[];
+const saveTileStamps = (stamps: TileStamp[]) => {
+  localStorage.setItem(TILE_STAMPS_STORAGE_KEY, JSON.stringify(stamps));
 };
 
-const createHistorySnapshot = (state: HistorySource): HistoryEntry =>
-  structuredClone({
-    shapes: state.shapes,
-    sprites: state.sprites,
-    selectedIds: state.selectedIds,
-    tool: state.tool,
-    zoom: state.zoom,
-    pan: state.pan,
-    gridSize: state.gridSize,
-    gridVisible: state.gridVisible,
-    snapToGrid: state.snapToGrid,
-    tiles: state.tiles,
-  });
-
-const applyHistorySnapshot = (snapshot: HistoryEntry) => ({
-  shapes: structuredClone(snapshot.shapes),
-  sprites: structuredClone(snapshot.sprites),
-  selectedIds: [...snapshot.selectedIds],
-  tool: snapshot.tool,
-  zoom: snapshot.zoom,
-  pan: { ...snapshot.pan },
-  gridSize: snapshot.gridSize,
-  gridVisible: snapshot.gridVisible,
-  snapToGrid: snapshot.snapToGrid,
-  tiles: structuredClone(snapshot.tiles),
+const createInitialHistoryEntry = (): HistoryEntry => ({
+  id: uuidv4(),
+  label: 'Initial state',
+  timestamp: Date.now(),
+  patch: {},
+});
+
+const getHistoryDocument = (state: HistoryDocument): HistoryDocument => ({
+  shapes: state.shapes,
+  sprites: state.sprites,
+  tileGrid: state.tileGrid,
+  tileLayers: state.tileLayers,
 });
 
+/** Bucket fill: the connected region under the cursor, or every matching cell on the layer */
+export type TileFillMode = 'contiguous' | 'global';
+
+/** Random or pattern brush painting in place of the selected tile, while its tileset is selected */
+export interface ActiveTileBrush {
+  tilesetId: string;
+  config: TileBrushConfig;
+  seed: number; // Salts the random brush's per-cell picks
+  savedId?: string; // Saved brush it was loaded from
+}
+
+/** Everything an imported map replaces on the current board */
+export type BoardContent = Pick<CanvasState, 'shapes' | 'sprites' | 'gridSize'> & {
+  tiles: Tile[];
+  tileLayers: TileLayerDefinition[];
+};
+
 interface CanvasStore extends CanvasState {
   // Actions
   setTool: (tool: ToolType) => void;
@@ -84,6 +106,7 @@ interface CanvasStore extends CanvasState {
   removeShape: (id: string) => void;
   clearShapes: () => void;
   clearCanvas: () => void;
+  replaceBoardContent: (content: BoardContent, actionDescription: string) => void;
   setSelectedIds: (ids: string[]) => void;
   selectShape: (id: string, multi?: boolean) => void;
   clearSelection: () => void;
@@ -97,6 +120,9 @@ interface CanvasStore extends CanvasState {
   pushHistoryDebounced: (actionDescription?: string, delay?: number) => void;
   undo: () => void;
   redo: () => void;
+  jumpToHistory: (index: number) => void;
+  resetHistory: () => void;
+  syncHistoryBaseline: () => void;
   
   // Collaboration
   users: Map<string, UserPresence>;
@@ -105,22 +131,60 @@ interface CanvasStore extends CanvasState {
   updateUser: (id: string, updates: Partial<UserPresence>) => void;
   removeUser: (id: string) => void;
   
-  // Tiles
-  tiles: Tile[];
+  // Tiles (chunked index; use tileGrid.toTiles() for TileMap serialization)
+  tileGrid: TileGrid;
+  setTiles: (tiles: Tile[]) => void;
   addTile: (tile: Tile) => void;
   addTiles: (tiles: Tile[]) => void;
-  removeTile: (x: number, y: number, layer?: 'terrain' | 'props') => void;
+  removeTile: (x: number, y: number, layer?: TileLayer) => void;
+  /** Remove and add tiles, and optionally sprites, as one edit: one history entry and one collaboration batch */
+  applyTileChanges: (
+    remove: Array<Pick<Tile, 'x' | 'y' | 'layer'>>,
+    add: Tile[],
+    actionDescription: string,
+    spriteChanges?: { remove?: string[]; add?: SpriteInstance[] }
+  ) => void;
   clearTiles: () => void;
+
+  // Tile selection, clipboard and stamp brushes
+  tileSelection: TileSelection | null;
+  tileClipboard: TileStamp | null;
+  tileStamps: TileStamp[]; // Saved stamp brushes, kept in localStorage
+  activeStamp: TileStamp | null; // Stamp the 'tile-stamp' tool places
+  setTileSelection: (selection: TileSelection | null) => void;
+  setTileClipboard: (stamp: TileStamp | null) => void;
+  addTileStamp: (stamp: TileStamp) => void;
+  deleteTileStamp: (id: string) => void;
+  setActiveStamp: (stamp: TileStamp | null) => void;
+  clearTileLayer: (layer: TileLayer) => void;
+
+  // Tile layers (sorted by order, bottom first)
+  tileLayers: TileLayerDefinition[];
+  activeTileLayerId: TileLayer;
+  setTileLayers: (layers: TileLayerDefinition[]) => void;
+  setActiveTileLayer: (id: TileLayer) => void;
+  addTileLayer: (name: string) => TileLayerDefinition;
+  updateTileLayer: (id: TileLayer, updates: Partial<Omit<TileLayerDefinition, 'id'>>) => void;
+  moveTileLayer: (id: TileLayer, direction: 'up' | 'down') => void;
+  deleteTileLayer: (id: TileLayer) => void;
   
   // Tilesets
   tilesets: Tileset[];
   selectedTileset: Tileset | null;
   selectedTileIndex: number;
   brushSize: { width: number; height: number };
+  tileFillMode: TileFillMode;
+  brushTransform: TileTransform; // Flip/rotation given to tiles painted with the brush
+  tileBrush: ActiveTileBrush | null;
+  tileAnimationsPaused: boolean;
   setTilesets: (tilesets: Tileset[]) => void;
   setSelectedTileset: (tileset: Tileset | null) => void;
   setSelectedTileIndex: (index: number) => void;
   setBrushSize: (size: { width: number; height: number }) => void;
+  setTileFillMode: (mode: TileFillMode) => void;
+  setBrushTransform: (transform: TileTransform) => void;
+  setTileBrush: (brush: ActiveTileBrush | null) => void;
+  setTileAnimationsPaused: (paused: boolean) => void;
   
   // Enhanced autotiling status
   enhancedAutotilingEnabled: boolean;
@@ -225,22 +289,43 @@ const initialState: CanvasState = {
   snapToGrid: false,
 };
 
-const initialHistoryEntry = createHistorySnapshot({
-  ...initialState,
-  tiles: [],
-});
+// Keep layers sorted by order and renumber them 0..n-1
+const normalizeTileLayers = (layers: TileLayerDefinition[]): TileLayerDefinition[] =>
+  [...layers]
+    .sort((a, b) => a.order - b.order)
+    .map((layer, index) => (layer.order === index ? layer : { ...layer, order: index }));
+
+const initialTileGrid = new TileGrid();
+
+// Document state as of the current history entry; pushHistory diffs against it
+let historyBaseline: HistoryDocument = {
+  shapes: initialState.shapes,
+  sprites: initialState.sprites,
+  tileGrid: initialTileGrid,
+  tileLayers: DEFAULT_TILE_LAYERS,
+};
 
 export const useCanvasStore = create<CanvasStore>((set, get) => ({
   ...initialState,
-  history: [initialHistoryEntry],
+  history: [createInitialHistoryEntry()],
   historyIndex: 0,
   users: new Map(),
   currentUser: null,
-  tiles: [],
+  tileGrid: initialTileGrid,
+  tileLayers: DEFAULT_TILE_LAYERS,
+  activeTileLayerId: 'terrain',
   tilesets: [],
   selectedTileset: null,
   selectedTileIndex: 0,
   brushSize: { width: 1, height: 1 },
+  tileFillMode: 'contiguous',
+  brushTransform: {},
+  tileBrush: null,
+  tileAnimationsPaused: false,
+  tileSelection: null,
+  tileClipboard: null,
+  tileStamps: loadTileStamps(),
+  activeStamp: null,
   currentProjectId: null,
   currentProjectName: 'Untitled Project',
   
@@ -306,12 +391,12 @@ export const useCanvasStore = create<CanvasStore>((set, get) => ({
       shapes: [...state.shapes, shape],
       selectedIds: [shape.id],
     }));
-    get().pushHistory('Add shape');
     
     // Notify collaboration service
     if ((window as any).__collaborationService) {
       (window as any).__collaborationService.addShape(shape);
     }
+    get().pushHistory('Add shape');
   },
 
   updateShape: (id, updates, options) => {
@@ -331,7 +416,7 @@ export const useCanvasStore = create<CanvasStore>((set, get) => ({
 
       // Notify collaboration service
       if ((window as any).__collaborationService) {
-        (window as any).__collaborationService.updateShape(index, updatedShape);
+        (window as any).__collaborationService.updateShape(id, updatedShape);
       }
 
       return { shapes: updatedShapes };
@@ -347,9 +432,8 @@ export const useCanvasStore = create<CanvasStore>((set, get) => ({
       // Notify collaboration service before deleting
       if ((window as any).__collaborationService) {
         ids.forEach((id) => {
-          const index = state.shapes.findIndex((s) => s.id === id);
-          if (index >= 0) {
-            (window as any).__collaborationService.deleteShape(index);
+          if (state.shapes.some((s) => s.id === id)) {
+            (window as any).__collaborationService.deleteShape(id);
           }
         });
       }
@@ -400,7 +484,7 @@ export const useCanvasStore = create<CanvasStore>((set, get) => ({
       state.selectedIds.forEach((id) => {
         const index = state.shapes.findIndex((shape) => shape.id === id);
         if (index >= 0) {
-          (window as any).__collaborationService.updateShape(index, updatedShapes[index]);
+          (window as any).__collaborationService.updateShape(id, updatedShapes[index]);
         }
       });
     }
@@ -426,35 +510,35 @@ export const useCanvasStore = create<CanvasStore>((set, get) => ({
       state.selectedIds.forEach((id) => {
         const index = state.shapes.findIndex((shape) => shape.id === id);
         if (index >= 0) {
-          (window as any).__collaborationService.updateShape(index, updatedShapes[index]);
+          (window as any).__collaborationService.updateShape(id, updatedShapes[index]);
         }
       });
     }
     get().pushHistory();
   },
 
-  pushHistory: () => {
-    const state = get();
-    const snapshot = createHistorySnapshot({
-      shapes: state.shapes,
-      sprites: state.sprites,
-      selectedIds: state.selectedIds,
-      tool: state.tool,
-      zoom: state.zoom,
-      pan: state.pan,
-      gridSize: state.gridSize,
-      gridVisible: state.gridVisible,
-      snapToGrid: state.snapToGrid,
-      tiles: state.tiles,
-    });
+  pushHistory: (actionDescription) => {
+    const current = getHistoryDocument(get());
+    const patch = createHistoryPatch(historyBaseline, current);
+    historyBaseline = current;
+
+    // Nothing recorded changed (e.g. selection or timeline edits)
+    if (!patch) return;
+
+    const entry: HistoryEntry = {
+      id: uuidv4(),
+      label: actionDescription || 'Edit',
+      timestamp: Date.now(),
+      patch,
+    };
 
     set((state) => {
       const newHistory = state.history.slice(0, state.historyIndex + 1);
-      newHistory.push(snapshot);
+      newHistory.push(entry);
 
-      // Limit history to 100 items
-      if (newHistory.length > 100) {
-        newHistory.shift();
+      // Oldest entries fall off; the first remaining entry becomes the new base state
+      if (newHistory.length > MAX_HISTORY_ENTRIES) {
+        newHistory.splice(0, newHistory.length - MAX_HISTORY_ENTRIES);
       }
 
       return {
@@ -462,6 +546,9 @@ export const useCanvasStore = create<CanvasStore>((set, get) => ({
         historyIndex: newHistory.length - 1,
       };
     });
+
+    // Everything synced since the last entry becomes one step on this user's undo stack
+    (window as any).__collaborationService?.stopCapturing(entry.id);
   },
 
   pushHistoryDebounced: (actionDescription?: string, delay: number = 300) => {
@@ -476,35 +563,79 @@ export const useCanvasStore = create<CanvasStore>((set, get) => ({
   },
 
   undo: () => {
-    set((state) => {
-      if (state.historyIndex <= 0) {
-        return {};
+    const state = get();
+    if (state.historyIndex <= 0) return;
+
+    // Record any pending unrecorded change first so it isn't lost
+    state.pushHistory();
+
+    const { history, historyIndex } = get();
+
+    // In a shared board only this user's own changes are reverted; the Yjs
+    // observers bring the result back into the store. Entries that never
+    // reached the shared document have no undo step, so the step says which
+    // entry was reverted.
+    const collaborationService = (window as any).__collaborationService;
+    if (collaborationService?.hasUndoTracking()) {
+      const step = collaborationService.undo();
+      if (step) {
+        const index = history.findIndex((entry) => entry.id === step.historyEntryId);
+        set({ historyIndex: index > 0 ? index - 1 : Math.max(0, historyIndex - 1) });
       }
+      return;
+    }
 
-      const newIndex = state.historyIndex - 1;
-      const snapshot = state.history[newIndex];
+    const entry = history[historyIndex];
+    const doc = applyHistoryPatch(getHistoryDocument(get()), entry.patch, 'undo');
+    historyBaseline = doc;
 
-      return {
-        ...applyHistorySnapshot(snapshot),
-        historyIndex: newIndex,
-      };
-    });
+    set({ ...doc, historyIndex: historyIndex - 1 });
   },
 
   redo: () => {
-    set((state) => {
-      if (state.historyIndex >= state.history.length - 1) {
-        return {};
+    const state = get();
+    if (state.historyIndex >= state.history.length - 1) return;
+
+    const collaborationService = (window as any).__collaborationService;
+    if (collaborationService?.hasUndoTracking()) {
+      const step = collaborationService.redo();
+      if (step) {
+        const index = state.history.findIndex((entry) => entry.id === step.historyEntryId);
+        set({ historyIndex: index > state.historyIndex ? index : state.historyIndex + 1 });
       }
+      return;
+    }
 
-      const newIndex = state.historyIndex + 1;
-      const snapshot = state.history[newIndex];
+    const entry = state.history[state.historyIndex + 1];
+    const doc = applyHistoryPatch(getHistoryDocument(state), entry.patch, 'redo');
+    historyBaseline = doc;
 
-      return {
-        ...applyHistorySnapshot(snapshot),
-        historyIndex: newIndex,
-      };
-    });
+    set({ ...doc, historyIndex: state.historyIndex + 1 });
+  },
+
+  jumpToHistory: (index) => {
+    const target = Math.max(0, Math.min(index, get().history.length - 1));
+    // Stop early if a step couldn't be applied (e.g. nothing left on the shared undo stack)
+    while (get().historyIndex > target) {
+      const before = get().historyIndex;
+      get().undo();
+      if (get().historyIndex === before) break;
+    }
+    while (get().historyIndex < target) {
+      const before = get().historyIndex;
+      get().redo();
+      if (get().historyIndex === before) break;
+    }
+  },
+
+  resetHistory: () => {
+    historyBaseline = getHistoryDocument(get());
+    set({ history: [createInitialHistoryEntry()], historyIndex: 0 });
+  },
+
+  // Accept the current document (e.g. after remote edits) without recording an entry
+  syncHistoryBaseline: () => {
+    historyBaseline = getHistoryDocument(get());
   },
 
   setCurrentUser: (user) => set({ currentUser: user }),
@@ -528,102 +659,266 @@ export const useCanvasStore = create<CanvasStore>((set, get) => ({
     });
   },
 
+  setTiles: (tiles) => {
+    set({ tileGrid: TileGrid.fromTiles(tiles) });
+  },
+
   addTile: (tile) => {
-    set((state) => {
-      // Find existing tile at same position AND same layer
-      const existingIndex = state.tiles.findIndex(
-        (t) => t.x === tile.x && t.y === tile.y && t.layer === tile.layer
-      );
-      if (existingIndex >= 0) {
-        const newTiles = [...state.tiles];
-        newTiles[existingIndex] = tile;
-        
-        // Notify collaboration service
-        if ((window as any).__collaborationService) {
-          (window as any).__collaborationService.updateTile(existingIndex, tile);
-        }
-        
-        return { tiles: newTiles };
-      }
-      
-      // Notify collaboration service
-      if ((window as any).__collaborationService) {
-        (window as any).__collaborationService.addTile(tile);
-      }
-      
-      return { tiles: [...state.tiles, tile] };
-    });
-    get().pushHistory('Add tile');
+    get().addTiles([tile]);
   },
 
   addTiles: (tilesToAdd) => {
     set((state) => {
-      let newTiles = [...state.tiles];
-      
+      const tileGrid = state.tileGrid.clone();
+
       tilesToAdd.forEach((tile) => {
-        // Find existing tile at same position AND same layer
-        const existingIndex = newTiles.findIndex(
-          (t) => t.x === tile.x && t.y === tile.y && t.layer === tile.layer
-        );
-        
-        if (existingIndex >= 0) {
-          newTiles[existingIndex] = tile;
-          // Notify collaboration service
-          if ((window as any).__collaborationService) {
-            (window as any).__collaborationService.updateTile(existingIndex, tile);
-          }
-        } else {
-          newTiles.push(tile);
-          // Notify collaboration service
-          if ((window as any).__collaborationService) {
-            (window as any).__collaborationService.addTile(tile);
-          }
-        }
+        // Replaces any tile at the same position AND same layer
+        tileGrid.set(tile);
       });
-      
-      return { tiles: newTiles };
+
+      return { tileGrid };
     });
-    get().pushHistory('Add tiles');
+
+    // Notify collaboration service, as one transaction however many tiles changed
+    const collaborationService = (window as any).__collaborationService;
+    if (collaborationService && tilesToAdd.length > 0) {
+      collaborationService.batchUpdate([
+        () => tilesToAdd.forEach((tile) => collaborationService.addTile(tile)),
+      ]);
+    }
+    get().pushHistory(tilesToAdd.length === 1 ? 'Add tile' : 'Add tiles');
   },
 
   removeTile: (x, y, layer) => {
     set((state) => {
       // If layer is specified, only remove tiles from that layer
       // Otherwise, remove all tiles at the position (backwards compatibility)
-      const index = state.tiles.findIndex((t) => 
-        t.x === x && t.y === y && (!layer || t.layer === layer)
-      );
-      
+      const tileGrid = state.tileGrid.clone();
+      const removed = tileGrid.delete(x, y, layer);
+
       // Notify collaboration service
-      if (index >= 0 && (window as any).__collaborationService) {
-        (window as any).__collaborationService.deleteTile(index);
+      if ((window as any).__collaborationService) {
+        removed.forEach((tile) => {
+          (window as any).__collaborationService.deleteTile(tileKey(tile.x, tile.y, tile.layer));
+        });
       }
-      
-      return {
-        tiles: state.tiles.filter((t) => 
-          !(t.x === x && t.y === y && (!layer || t.layer === layer))
-        ),
-      };
+
+      return removed.length > 0 ? { tileGrid } : {};
     });
     get().pushHistory('Remove tile');
   },
 
+  applyTileChanges: (remove, add, actionDescription, spriteChanges) => {
+    const removeSpriteIds = spriteChanges?.remove ?? [];
+    const addSprites = spriteChanges?.add ?? [];
+    if (remove.length === 0 && add.length === 0 && removeSpriteIds.length === 0 && addSprites.length === 0) return;
+
+    const tileGrid = get().tileGrid.clone();
+    const removedKeys: string[] = [];
+    remove.forEach((cell) => {
+      tileGrid.delete(cell.x, cell.y, cell.layer).forEach((tile) => removedKeys.push(tileKey(tile.x, tile.y, tile.layer)));
+    });
+    add.forEach((tile) => tileGrid.set(tile));
+    set((state) => ({
+      tileGrid,
+      sprites: [...state.sprites.filter((sprite) => !removeSpriteIds.includes(sprite.id)), ...addSprites],
+      selectedSpriteId: state.selectedSpriteId && removeSpriteIds.includes(state.selectedSpriteId) ? null : state.selectedSpriteId,
+    }));
+
+    // Notify collaboration service
+    const collaborationService = (window as any).__collaborationService;
+    if (collaborationService) {
+      const addedKeys = new Set(add.map((tile) => tileKey(tile.x, tile.y, tile.layer)));
+      collaborationService.batchUpdate([
+        () => removedKeys.filter((key) => !addedKeys.has(key)).forEach((key) => collaborationService.deleteTile(key)),
+        () => add.forEach((tile) => collaborationService.addTile(tile)),
+        () => removeSpriteIds.forEach((id) => collaborationService.deleteSprite(id)),
+        () => addSprites.forEach((sprite) => collaborationService.addSprite(sprite)),
+      ]);
+    }
+    get().pushHistory(actionDescription);
+  },
+
+  setTileSelection: (selection) => set({ tileSelection: selection }),
+  setTileClipboard: (stamp) => set({ tileClipboard: stamp }),
+  addTileStamp: (stamp) => {
+    const tileStamps = [...get().tileStamps, stamp];
+    set({ tileStamps });
+    saveTileStamps(tileStamps);
+  },
+  deleteTileStamp: (id) => {
+    const tileStamps = get().tileStamps.filter((stamp) => stamp.id !== id);
+    set((state) => ({ tileStamps, activeStamp: state.activeStamp?.id === id ? null : state.activeStamp }));
+    saveTileStamps(tileStamps);
+  },
+  setActiveStamp: (stamp) => set({ activeStamp: stamp }),
+
   clearTiles: () => {
-    set({ tiles: [] });
+    const removedTiles = get().tileGrid.toTiles();
+    set({ tileGrid: new TileGrid() });
+
+    // Notify collaboration service
+    const collaborationService = (window as any).__collaborationService;
+    if (collaborationService && removedTiles.length > 0) {
+      collaborationService.batchUpdate([
+        () => removedTiles.forEach((tile) => collaborationService.deleteTile(tileKey(tile.x, tile.y, tile.layer))),
+      ]);
+    }
     get().pushHistory('Clear tiles');
   },
 
+  clearTileLayer: (layer) => {
+    const state = get();
+    const removedTiles: Tile[] = [];
+    state.tileGrid.forEach((tile) => removedTiles.push(tile), layer);
+    if (removedTiles.length === 0) return;
+
+    const tileGrid = state.tileGrid.clone();
+    tileGrid.clearLayer(layer);
+    set({ tileGrid });
+
+    // Notify collaboration service
+    const collaborationService = (window as any).__collaborationService;
+    if (collaborationService) {
+      collaborationService.batchUpdate([
+        () => removedTiles.forEach((tile) => collaborationService.deleteTile(tileKey(tile.x, tile.y, tile.layer))),
+      ]);
+    }
+    get().pushHistory('Clear layer');
+  },
+
+  setTileLayers: (layers) => {
+    const tileLayers = normalizeTileLayers(layers.length > 0 ? layers : DEFAULT_TILE_LAYERS);
+    set((state) => ({
+      tileLayers,
+      activeTileLayerId: tileLayers.some((l) => l.id === state.activeTileLayerId)
+        ? state.activeTileLayerId
+        : tileLayers[tileLayers.length - 1].id,
+    }));
+  },
+
+  setActiveTileLayer: (id) => set({ activeTileLayerId: id }),
+
+  addTileLayer: (name) => {
+    const layer: TileLayerDefinition = {
+      id: uuidv4(),
+      name,
+      order: get().tileLayers.length,
+      visible: true,
+      locked: false,
+      opacity: 1,
+      parallax: { x: 1, y: 1 },
+    };
+
+    set((state) => ({
+      tileLayers: [...state.tileLayers, layer],
+      activeTileLayerId: layer.id,
+    }));
+
+    // Notify collaboration service
+    if ((window as any).__collaborationService) {
+      (window as any).__collaborationService.setTileLayer(layer);
+    }
+    get().pushHistory('Add layer');
+
+    return layer;
+  },
+
+  updateTileLayer: (id, updates) => {
+    let updatedLayer: TileLayerDefinition | undefined;
+
+    set((state) => ({
+      tileLayers: state.tileLayers.map((layer) => {
+        if (layer.id !== id) return layer;
+        updatedLayer = { ...layer, ...updates, id };
+        return updatedLayer;
+      }),
+    }));
+    if (!updatedLayer) return;
+
+    // Notify collaboration service
+    if ((window as any).__collaborationService) {
+      (window as any).__collaborationService.setTileLayer(updatedLayer);
+    }
+    get().pushHistory('Update layer');
+  },
+
+  moveTileLayer: (id, direction) => {
+    const layers = get().tileLayers;
+    const index = layers.findIndex((l) => l.id === id);
+    const swapIndex = direction === 'up' ? index + 1 : index - 1;
+    if (index === -1 || swapIndex < 0 || swapIndex >= layers.length) return;
+
+    const reordered = [...layers];
+    [reordered[index], reordered[swapIndex]] = [reordered[swapIndex], reordered[index]];
+    const tileLayers = reordered.map((layer, order) => ({ ...layer, order }));
+
+    set({ tileLayers });
+
+    // Notify collaboration service
+    const collaborationService = (window as any).__collaborationService;
+    if (collaborationService) {
+      collaborationService.batchUpdate([
+        () => collaborationService.setTileLayer(tileLayers[index]),
+        () => collaborationService.setTileLayer(tileLayers[swapIndex]),
+      ]);
+    }
+    get().pushHistory('Reorder layers');
+  },
+
+  deleteTileLayer: (id) => {
+    const state = get();
+    // A board always keeps at least one tile layer
+    if (state.tileLayers.length <= 1 || !state.tileLayers.some((l) => l.id === id)) return;
+
+    const tileLayers = normalizeTileLayers(state.tileLayers.filter((l) => l.id !== id));
+    const tileGrid = state.tileGrid.clone();
+    const removedTiles: Tile[] = [];
+    state.tileGrid.forEach((tile) => removedTiles.push(tile), id);
+    tileGrid.clearLayer(id);
+
+    set({
+      tileLayers,
+      tileGrid,
+      activeTileLayerId: state.activeTileLayerId === id
+        ? tileLayers[tileLayers.length - 1].id
+        : state.activeTileLayerId,
+    });
+
+    // Notify collaboration service
+    const collaborationService = (window as any).__collaborationService;
+    if (collaborationService) {
+      collaborationService.batchUpdate([
+        () => removedTiles.forEach((tile) => collaborationService.deleteTile(tileKey(tile.x, tile.y, tile.layer))),
+        () => collaborationService.deleteTileLayer(id),
+        () => tileLayers.forEach((layer) => collaborationService.setTileLayer(layer)),
+      ]);
+    }
+    get().pushHistory('Delete layer');
+  },
+
   clearShapes: () => {
+    const removedIds = get().shapes.map((shape) => shape.id);
     set({ shapes: [], selectedIds: [] });
+
+    // Notify collaboration service
+    const collaborationService = (window as any).__collaborationService;
+    if (collaborationService && removedIds.length > 0) {
+      collaborationService.batchUpdate([
+        () => removedIds.forEach((id) => collaborationService.deleteShape(id)),
+      ]);
+    }
     get().pushHistory('Clear shapes');
   },
 
   clearCanvas: () => {
+    const { shapes, sprites, tileGrid } = get();
     set({ 
       shapes: [], 
       sprites: [],
-      tiles: [],
+      tileGrid: new TileGrid(),
       selectedIds: [],
+      tileSelection: null,
       zoom: 1,
       pan: { x: 0, y: 0 },
       gridSize: 16,
@@ -631,13 +926,60 @@ export const useCanvasStore = create<CanvasStore>((set, get) => ({
       snapToGrid: false,
       tool: 'select'
     });
+
+    // Notify collaboration service
+    const collaborationService = (window as any).__collaborationService;
+    if (collaborationService) {
+      collaborationService.batchUpdate([
+        () => shapes.forEach((shape) => collaborationService.deleteShape(shape.id)),
+        () => sprites.forEach((sprite) => collaborationService.deleteSprite(sprite.id)),
+        () => tileGrid.forEach((tile) => collaborationService.deleteTile(tileKey(tile.x, tile.y, tile.layer))),
+      ]);
+    }
     get().pushHistory('Clear canvas');
   },
 
-  setTilesets: (tilesets) => set({ tilesets }),
+  replaceBoardContent: (content, actionDescription) => {
+    const { shapes, sprites, tileGrid, tileLayers } = get();
+    const nextTileLayers = normalizeTileLayers(content.tileLayers.length > 0 ? content.tileLayers : DEFAULT_TILE_LAYERS);
+    set({
+      shapes: content.shapes,
+      sprites: content.sprites,
+      tileGrid: TileGrid.fromTiles(content.tiles),
+      tileLayers: nextTileLayers,
+      activeTileLayerId: nextTileLayers[nextTileLayers.length - 1].id,
+      gridSize: content.gridSize,
+      selectedIds: [],
+      selectedSpriteId: null,
+      tileSelection: null,
+    });
+
+    // Notify collaboration service
+    const collaborationService = (window as any).__collaborationService;
+    if (collaborationService) {
+      collaborationService.batchUpdate([
+        () => shapes.forEach((shape) => collaborationService.deleteShape(shape.id)),
+        () => sprites.forEach((sprite) => collaborationService.deleteSprite(sprite.id)),
+        () => tileGrid.forEach((tile) => collaborationService.deleteTile(tileKey(tile.x, tile.y, tile.layer))),
+        () => tileLayers.forEach((layer) => collaborationService.deleteTileLayer(layer.id)),
+        () => nextTileLayers.forEach((layer) => collaborationService.setTileLayer(layer)),
+        () => content.shapes.forEach((shape) => collaborationService.addShape(shape)),
+        () => content.sprites.forEach((sprite) => collaborationService.addSprite(sprite)),
+        () => content.tiles.forEach((tile) => collaborationService.addTile(tile)),
+      ]);
+    }
+    get().pushHistory(actionDescription);
+  },
+
+  // Tilesets from before `tileImageUrls` get their legacy tag converted as they're loaded
+  setTilesets: (tilesets) => set({ tilesets: tilesets.map(withTileImageUrls) }),
   setSelectedTileset: (tileset) => set({ selectedTileset: tileset }),
   setSelectedTileIndex: (index) => set({ selectedTileIndex: index }),
   setBrushSize: (size) => set({ brushSize: size }),
+  setTileFillMode: (mode) => set({ tileFillMode: mode }),
+  setBrushTransform: (transform) => set({ brushTransform: transform }),
+  setTileBrush: (brush) => set({ tileBrush: brush }),
+  setTileAnimationsPaused: (paused) => set({ tileAnimationsPaused: paused }),
   
   // Enhanced autotiling
   enhancedAutotilingEnabled: true,
@@ -670,12 +1012,12 @@ export const useCanvasStore = create<CanvasStore>((set, get) => ({
       selectedSpriteId: sprite.id,
       selectedIds: [], // Clear shape selection
     }));
-    get().pushHistory('Add sprite');
     
     // Notify collaboration service
     if ((window as any).__collaborationService) {
       (window as any).__collaborationService.addSprite(sprite);
     }
+    get().pushHistory('Add sprite');
   },
 
   updateSprite: (id, updates, options) => {
@@ -695,7 +1037,7 @@ export const useCanvasStore = create<CanvasStore>((set, get) => ({
 
       // Notify collaboration service
       if ((window as any).__collaborationService) {
-        (window as any).__collaborationService.updateSprite(index, updatedSprite);
+        (window as any).__collaborationService.updateSprite(id, updatedSprite);
       }
 
       return { sprites: updatedSprites };
@@ -712,7 +1054,7 @@ export const useCanvasStore = create<CanvasStore>((set, get) => ({
       
       // Notify collaboration service before deleting
       if (index >= 0 && (window as any).__collaborationService) {
-        (window as any).__collaborationService.deleteSprite(index);
+        (window as any).__collaborationService.deleteSprite(id);
       }
       
       return {
@@ -796,6 +1138,7 @@ export const useCanvasStore = create<CanvasStore>((set, get) => ({
       tileMap: {
         gridSize: 16,
         tiles: [],
+        layers: DEFAULT_TILE_LAYERS,
         spriteDefinitions: initializeDemoSprites(),
       },
       createdAt: new Date(),
@@ -827,7 +1170,8 @@ export const useCanvasStore = create<CanvasStore>((set, get) => ({
       
       const currentTileMap = {
         gridSize: state.gridSize,
-        tiles: state.tiles,
+        tiles: state.tileGrid.toTiles(),
+        layers: state.tileLayers,
         spriteDefinitions: state.spriteDefinitions,
       };
       
@@ -850,14 +1194,14 @@ export const useCanvasStore = create<CanvasStore>((set, get) => ({
       gridSize: board.canvasState?.gridSize || 16,
       gridVisible: board.canvasState?.gridVisible ?? true,
       snapToGrid: board.canvasState?.snapToGrid ?? false,
-      tiles: board.tileMap?.tiles || [],
+      tileGrid: TileGrid.fromTiles(board.tileMap?.tiles),
+      tileSelection: null,
       spriteDefinitions: board.tileMap?.spriteDefinitions || initializeDemoSprites(),
     });
-    
-    // Sync to collaboration service
-    if ((window as any).__collaborationService) {
-      (window as any).__collaborationService.syncFromLocal();
-    }
+    get().setTileLayers(board.tileMap?.layers || DEFAULT_TILE_LAYERS);
+    // History entries belong to the board they were made on
+    get().resetHistory();
+    // The board's collaboration room is joined by Board.tsx once currentBoardId changes
   },
 
   // Timeline actions
@@ -1,4 +1,5 @@
 import type { SpriteDefinition } from '@shared/schema';
+import { SPAWN_SPRITE_IDS, SPAWN_SPRITE_SIZE, type RoomTag } from '@shared/dungeonGeneration';
 import { v4 as uuidv4 } from 'uuid';
 
 // Demo knight sprite definition based on the provided sprite sheet
@@ -98,6 +99,49 @@ export const swordsmanAttackDefinition: SpriteDefinition = {
   tags: ['character', 'swordsman', 'warrior'],
 };
 
+// Spawn-point markers placed in the tagged rooms of generated dungeons, one 16px frame each
+const spawnPointImage = (fill: string, symbol: string) =>
+  `data:image/svg+xml;utf8,${encodeURIComponent(
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${SPAWN_SPRITE_SIZE}" height="${SPAWN_SPRITE_SIZE}" viewBox="0 0 16 16">` +
+      `<circle cx="8" cy="8" r="7" fill="${fill}" stroke="#111827" stroke-width="1"/>` +
+      `<text x="8" y="11.5" font-family="sans-serif" font-size="9" font-weight="bold" text-anchor="middle" fill="#ffffff">${symbol}</text>` +
+      `</svg>`
+  )}`;
+
+const spawnPointDefinition = (tag: RoomTag, name: string, fill: string, symbol: string): SpriteDefinition => ({
+  id: SPAWN_SPRITE_IDS[tag],
+  name,
+  imageUrl: spawnPointImage(fill, symbol),
+  frameWidth: SPAWN_SPRITE_SIZE,
+  frameHeight: SPAWN_SPRITE_SIZE,
+  animations: {
+    idle: { frames: [0], fps: 1, loop: true },
+  },
+  advancedAnimations: [],
+  timelines: [],
+  defaultAnimation: 'idle',
+  tags: ['spawn', tag],
+  category: 'spawn',
+  metadata: {
+    version: '1.0.0',
+    description: `Where the ${tag} room's spawn point is`,
+    createdAt: new Date(0),
+    updatedAt: new Date(0),
+  },
+});
+
+export const spawnPointDefinitions: SpriteDefinition[] = [
+  spawnPointDefinition('start', 'Spawn (Start)', '#16a34a', 'S'),
+  spawnPointDefinition('boss', 'Spawn (Boss)', '#dc2626', 'B'),
+  spawnPointDefinition('treasure', 'Spawn (Treasure)', '#d97706', 'T'),
+];
+
+// Boards saved before spawn points existed don't have their definitions yet
+export const withSpawnPointDefinitions = (definitions: SpriteDefinition[]) => [
+  ...definitions,
+  ...spawnPointDefinitions.filter((spawn) => !definitions.some((definition) => definition.id === spawn.id)),
+];
+
 // Function to initialize demo sprites in the store
 export const initializeDemoSprites = () => {
   return [
@@ -105,5 +149,6 @@ export const initializeDemoSprites = () => {
     swordsmanIdleDefinition,
     swordsmanWalkDefinition,
     swordsmanAttackDefinition,
+    ...spawnPointDefinitions,
   ];
 };
\ No newline at end of file
@@ -0,0 +1,678 @@
+import type { Board, SpriteInstance, Tile, TileLayerDefinition, Tileset } from '@shared/schema';
+import { DEFAULT_TILE_LAYERS } from '@shared/tileLayers';
+import { v4 as uuidv4 } from 'uuid';
+import { BITMASK_TO_TILE } from '@shared/autoTiling';
+import { findTileAnimation } from '@shared/tileAnimations';
+import { getTilePropertyValues } from '@shared/tileProperties';
+
+/**
+ * LDtk (https://ldtk.io) project export.
+ *
+ * Every board becomes a level, laid out left to right in a free world:
+ * - each (tile layer, tileset) pair becomes a Tiles layer, since an LDtk
+ *   layer draws from a single tileset
+ * - pairs using a 3x3 `auto-tiling` tileset become an AutoLayer fed by a
+ *   hidden IntGrid layer that marks the painted cells. The AutoLayer carries
+ *   one rule per neighbor bitmask (see BITMASK_TO_TILE), so LDtk rebuilds the
+ *   same tiles when the IntGrid is edited
+ * - sprite instances become entities, one entity definition per sprite
+ * - tilesets become tileset definitions; multi-tile objects are kept as
+ *   saved selections so they can be stamped in LDtk. Custom tile
+ *   properties and tile animations go in per-tile custom data: a JSON object
+ *   of every property, plus the frame list (`__animation`) of animated tiles
+ *
+ * Shapes have no LDtk equivalent and are not exported, and neither are 90°
+ * tile rotations (LDtk tiles only flip). Layer definitions are shared by all
+ * levels and use the first board's grid size.
+ */
+
+export type LdtkExportBoard = Pick<Board, 'id' | 'name' | 'canvasState' | 'tileMap'>;
+
+const LDTK_VERSION = '1.5.3';
+const LEVEL_GAP = 64; // px between levels in the world view
+const INT_GRID_VALUE = 1;
+
+// Bitmask bits match autoTiling.ts: N=1, E=2, S=4, W=8. Pattern cells are row-major 3x3.
+const NEIGHBOR_PATTERN_CELLS = [
+  { bit: 1, cell: 1 },
+  { bit: 2, cell: 5 },
+  { bit: 4, cell: 7 },
+  { bit: 8, cell: 3 },
+];
+
+interface TileSlot {
+  key: string;
+  layer: TileLayerDefinition;
+  tileset: Tileset;
+  auto: boolean;
+  identifier: string;
+  layerUid: number;
+  // Only used by auto slots
+  intGridIdentifier: string;
+  intGridUid: number;
+  ruleUids: number[]; // Indexed by bitmask
+}
+
+interface EntityDefinition {
+  spriteId: string;
+  identifier: string;
+  uid: number;
+  width: number;
+  height: number;
+  fieldUids: Record<SpriteField, number>;
+}
+
+type SpriteField = 'scale' | 'rotation' | 'animation' | 'flipX' | 'flipY';
+
+const SPRITE_FIELDS: Array<{ name: SpriteField; type: 'Float' | 'String' | 'Bool' }> = [
+  { name: 'scale', type: 'Float' },
+  { name: 'rotation', type: 'Float' },
+  { name: 'animation', type: 'String' },
+  { name: 'flipX', type: 'Bool' },
+  { name: 'flipY', type: 'Bool' },
+];
+
+const spriteFieldValue = (sprite: SpriteInstance, field: SpriteField) => {
+  switch (field) {
+    case 'scale':
+      return sprite.scale;
+    case 'rotation':
+      return sprite.rotation;
+    case 'animation':
+      return sprite.currentAnimation;
+    case 'flipX':
+      return sprite.flipX;
+    case 'flipY':
+      return sprite.flipY;
+  }
+};
+
+// LDtk identifiers look like code identifiers
+const toIdentifier = (name: string) => {
+  const base = name.trim().replace(/[^A-Za-z0-9_]+/g, '_').replace(/^_+|_+$/g, '') || 'Unnamed';
+  return /^[0-9]/.test(base) ? `_${base}` : base.charAt(0).toUpperCase() + base.slice(1);
+};
+
+// Identifiers must also be unique per kind (layers, entities, ...)
+const createIdentifierFactory = () => {
+  const used = new Set<string>();
+  return (name: string) => {
+    const base = toIdentifier(name);
+    let identifier = base;
+    for (let i = 2; used.has(identifier); i++) {
+      identifier = `${base}_${i}`;
+    }
+    used.add(identifier);
+    return identifier;
+  };
+};
+
+const boardLayers = (board: LdtkExportBoard): TileLayerDefinition[] =>
+  [...(board.tileMap?.layers ?? DEFAULT_TILE_LAYERS)].sort((a, b) => a.order - b.order);
+
+// LDtk tile flip bits: 1 = X, 2 = Y
+const flipBits = (tile: Tile) => (tile.flipX ? 1 : 0) | (tile.flipY ? 2 : 0);
+
+// LDtk has no property schema, so every tile gets all values, defaults included
+const tileCustomData = (tileset: Tileset) => {
+  const hasProperties = !!tileset.tileProperties && tileset.tileProperties.length > 0;
+  return Array.from({ length: tileset.columns * tileset.rows }, (_, tileId) => tileId).flatMap((tileId) => {
+    const animation = findTileAnimation(tileset, tileId);
+    if (!hasProperties && !animation) return [];
+    const data: Record<string, unknown> = getTilePropertyValues(tileset, tileId);
+    if (animation) {
+      data.__animation = animation.frames.map((frame) => ({ tileId: frame.tileIndex, duration: frame.duration }));
+    }
+    return [{ tileId, data: JSON.stringify(data) }];
+  });
+};
+
+const tileSource = (tileset: Tileset, tileIndex: number) => [
+  (tileIndex % tileset.columns) * (tileset.tileSize + tileset.spacing),
+  Math.floor(tileIndex / tileset.columns) * (tileset.tileSize + tileset.spacing),
+];
+
+function layerDefinition(type: 'Tiles' | 'AutoLayer' | 'IntGrid' | 'Entities', identifier: string, uid: number, gridSize: number, extra: Record<string, unknown> = {}) {
+  return {
+    __type: type,
+    identifier,
+    type,
+    uid,
+    doc: null,
+    uiColor: null,
+    gridSize,
+    guideGridWid: 0,
+    guideGridHei: 0,
+    displayOpacity: 1,
+    inactiveOpacity: 1,
+    hideInList: false,
+    hideFieldsWhenInactive: true,
+    canSelectWhenInactive: true,
+    renderInWorldView: true,
+    pxOffsetX: 0,
+    pxOffsetY: 0,
+    parallaxFactorX: 0,
+    parallaxFactorY: 0,
+    parallaxScaling: true,
+    requiredTags: [],
+    excludedTags: [],
+    autoTilesKilledByOtherLayerUid: null,
+    uiFilterTags: [],
+    useAsyncRender: false,
+    intGridValues: [],
+    intGridValuesGroups: [],
+    autoRuleGroups: [],
+    autoSourceLayerDefUid: null,
+    tilesetDefUid: null,
+    tilePivotX: 0,
+    tilePivotY: 0,
+    biomeFieldUid: null,
+    ...extra,
+  };
+}
+
+function autoRule(uid: number, bitmask: number) {
+  const pattern = [0, 0, 0, 0, INT_GRID_VALUE, 0, 0, 0, 0];
+  NEIGHBOR_PATTERN_CELLS.forEach(({ bit, cell }) => {
+    pattern[cell] = bitmask & bit ? INT_GRID_VALUE : -INT_GRID_VALUE;
+  });
+
+  return {
+    uid,
+    active: true,
+    size: 3,
+    tileRectsIds: [[BITMASK_TO_TILE[bitmask]]],
+    alpha: 1,
+    chance: 1,
+    breakOnMatch: true,
+    pattern,
+    flipX: false,
+    flipY: false,
+    xModulo: 1,
+    yModulo: 1,
+    xOffset: 0,
+    yOffset: 0,
+    tileXOffset: 0,
+    tileYOffset: 0,
+    tileRandomXMin: 0,
+    tileRandomXMax: 0,
+    tileRandomYMin: 0,
+    tileRandomYMax: 0,
+    checker: 'None',
+    tileMode: 'Single',
+    pivotX: 0,
+    pivotY: 0,
+    outOfBoundsValue: null,
+    invalidated: false,
+    perlinActive: false,
+    perlinSeed: 0,
+    perlinScale: 0.2,
+    perlinOctaves: 2,
+  };
+}
+
+function fieldDefinition(identifier: string, type: 'Float' | 'String' | 'Bool', uid: number) {
+  return {
+    identifier,
+    doc: null,
+    __type: type,
+    uid,
+    type: `F_${type}`,
+    isArray: false,
+    canBeNull: false,
+    arrayMinLength: null,
+    arrayMaxLength: null,
+    editorDisplayMode: 'Hidden',
+    editorDisplayScale: 1,
+    editorDisplayPos: 'Above',
+    editorLinkStyle: 'StraightArrow',
+    editorDisplayColor: null,
+    editorAlwaysShow: false,
+    editorShowInWorld: true,
+    editorCutLongValues: true,
+    editorTextSuffix: null,
+    editorTextPrefix: null,
+    useForSmartColor: false,
+    exportToToc: false,
+    searchable: false,
+    min: null,
+    max: null,
+    regex: null,
+    acceptFileTypes: null,
+    defaultOverride: null,
+    textLanguageMode: null,
+    symmetricalRef: false,
+    autoChainRef: true,
+    allowOutOfLevelRef: true,
+    allowedRefs: 'OnlySame',
+    allowedRefsEntityUid: null,
+    allowedRefTags: [],
+    tilesetUid: null,
+  };
+}
+
+/**
+ * Convert a project's boards to an LDtk project (the contents of a `.ldtk`
+ * file). Tileset images are referenced by their URL.
+ */
+export function exportLdtkProject(boards: LdtkExportBoard[], tilesets: Tileset[]): string {
+  let nextUid = 1;
+  const uid = () => nextUid++;
+
+  const gridSize = boards[0]?.canvasState?.gridSize || boards[0]?.tileMap?.gridSize || 16;
+  const tilesetsById = new Map(tilesets.map((tileset) => [tileset.id, tileset]));
+  const tilesetIdentifier = createIdentifierFactory();
+  const layerIdentifier = createIdentifierFactory();
+  const entityIdentifier = createIdentifierFactory();
+
+  // Tileset definitions for every tileset painted on any board
+  const tilesetUids = new Map<string, number>();
+  const tilesetDefs: unknown[] = [];
+  boards.forEach((board) =>
+    board.tileMap?.tiles.forEach((tile) => {
+      const tileset = tilesetsById.get(tile.tilesetId);
+      if (!tileset || tilesetUids.has(tileset.id)) return;
+
+      const tilesetUid = uid();
+      tilesetUids.set(tileset.id, tilesetUid);
+      const multiTileIds = tileset.multiTileConfig?.tiles.map((pos) => pos.y * tileset.columns + pos.x) ?? [];
+      tilesetDefs.push({
+        __cWid: tileset.columns,
+        __cHei: tileset.rows,
+        identifier: tilesetIdentifier(tileset.name),
+        uid: tilesetUid,
+        relPath: tileset.imageUrl,
+        embedAtlas: null,
+        pxWid: tileset.columns * tileset.tileSize + Math.max(0, tileset.columns - 1) * tileset.spacing,
+        pxHei: tileset.rows * tileset.tileSize + Math.max(0, tileset.rows - 1) * tileset.spacing,
+        tileGridSize: tileset.tileSize,
+        spacing: tileset.spacing,
+        padding: 0,
+        tags: tileset.tags ?? [],
+        tagsSourceEnumUid: null,
+        enumTags: [],
+        customData: tileCustomData(tileset),
+        savedSelections: multiTileIds.length > 0 ? [{ ids: multiTileIds, mode: 'Stamp' }] : [],
+        cachedPixelData: null,
+      });
+    })
+  );
+
+  // One layer per (tile layer, tileset) pair, bottom first. Layers with the
+  // same id on different boards share a definition.
+  const slots = new Map<string, TileSlot>();
+  const slotOrder: Array<{ slot: TileSlot; order: number; index: number }> = [];
+  boards.forEach((board) => {
+    const layers = boardLayers(board);
+    board.tileMap?.tiles.forEach((tile) => {
+      const tileset = tilesetsById.get(tile.tilesetId);
+      const key = `${tile.layer}|${tile.tilesetId}`;
+      if (!tileset || slots.has(key)) return;
+
+      const layer = layers.find((l) => l.id === tile.layer) ?? {
+        id: tile.layer,
+        name: tile.layer,
+        order: layers.length,
+        visible: true,
+        locked: false,
+        opacity: 1,
+        parallax: { x: 1, y: 1 },
+      };
+      const auto = tileset.tilesetType === 'auto-tiling';
+      const identifier = layerIdentifier(`${layer.name}_${tileset.name}`);
+      const slot: TileSlot = {
+        key,
+        layer,
+        tileset,
+        auto,
+        identifier,
+        layerUid: uid(),
+        intGridIdentifier: auto ? layerIdentifier(`${identifier}_Cells`) : '',
+        intGridUid: auto ? uid() : 0,
+        ruleUids: auto ? BITMASK_TO_TILE.map(() => uid()) : [],
+      };
+      slots.set(key, slot);
+      slotOrder.push({ slot, order: layer.order, index: slotOrder.length });
+    });
+  });
+  const orderedSlots = slotOrder
+    .sort((a, b) => a.order - b.order || a.index - b.index)
+    .map(({ slot }) => slot);
+
+  // One entity definition per sprite used
+  const entityDefs = new Map<string, EntityDefinition>();
+  boards.forEach((board) =>
+    board.canvasState?.sprites?.forEach((sprite) => {
+      if (entityDefs.has(sprite.spriteId)) return;
+      const definition = board.tileMap?.spriteDefinitions?.find((def) => def.id === sprite.spriteId);
+      entityDefs.set(sprite.spriteId, {
+        spriteId: sprite.spriteId,
+        identifier: entityIdentifier(definition?.name ?? sprite.spriteId),
+        uid: uid(),
+        width: definition?.frameWidth ?? gridSize,
+        height: definition?.frameHeight ?? gridSize,
+        fieldUids: Object.fromEntries(SPRITE_FIELDS.map((field) => [field.name, uid()])) as Record<SpriteField, number>,
+      });
+    })
+  );
+  const entitiesLayerUid = uid();
+  const entitiesLayerIdentifier = layerIdentifier('Entities');
+
+  // LDtk lists layers top first
+  const layerDefs: unknown[] = [
+    layerDefinition('Entities', entitiesLayerIdentifier, entitiesLayerUid, gridSize),
+  ];
+  [...orderedSlots].reverse().forEach((slot) => {
+    const tilesetDefUid = tilesetUids.get(slot.tileset.id)!;
+    const common = {
+      displayOpacity: slot.layer.opacity,
+      parallaxFactorX: 1 - slot.layer.parallax.x,
+      parallaxFactorY: 1 - slot.layer.parallax.y,
+    };
+
+    if (!slot.auto) {
+      layerDefs.push(layerDefinition('Tiles', slot.identifier, slot.layerUid, gridSize, { ...common, tilesetDefUid }));
+      return;
+    }
+
+    layerDefs.push(
+      layerDefinition('AutoLayer', slot.identifier, slot.layerUid, gridSize, {
+        ...common,
+        tilesetDefUid,
+        autoSourceLayerDefUid: slot.intGridUid,
+        autoRuleGroups: [
+          {
+            uid: uid(),
+            name: slot.tileset.name,
+            color: null,
+            icon: null,
+            active: true,
+            isOptional: false,
+            rules: slot.ruleUids.map((ruleUid, bitmask) => autoRule(ruleUid, bitmask)),
+            usesWizard: false,
+            requiredBiomeValues: [],
+            biomeRequirementMode: 0,
+          },
+        ],
+      }),
+      layerDefinition('IntGrid', slot.intGridIdentifier, slot.intGridUid, gridSize, {
+        intGridValues: [{ value: INT_GRID_VALUE, identifier: toIdentifier(slot.tileset.name), color: '#8FBC5A', tile: null, groupUid: 0 }],
+      })
+    );
+  });
+
+  const entityDefJson = Array.from(entityDefs.values()).map((def) => ({
+    identifier: def.identifier,
+    uid: def.uid,
+    tags: [],
+    exportToToc: false,
+    allowOutOfBounds: true,
+    doc: null,
+    width: def.width,
+    height: def.height,
+    resizableX: false,
+    resizableY: false,
+    minWidth: null,
+    maxWidth: null,
+    minHeight: null,
+    maxHeight: null,
+    keepAspectRatio: false,
+    tileOpacity: 1,
+    fillOpacity: 0.08,
+    lineOpacity: 0,
+    hollow: false,
+    color: '#94D9B3',
+    renderMode: 'Rectangle',
+    showName: true,
+    tilesetId: null,
+    tileRenderMode: 'FitInside',
+    tileRect: null,
+    uiTileRect: null,
+    nineSliceBorders: [],
+    maxCount: 0,
+    limitScope: 'PerLevel',
+    limitBehavior: 'MoveLastOne',
+    pivotX: 0,
+    pivotY: 0,
+    fieldDefs: SPRITE_FIELDS.map((field) => fieldDefinition(field.name, field.type, def.fieldUids[field.name])),
+  }));
+
+  let worldX = 0;
+  const levelIdentifier = createIdentifierFactory();
+  const levels = boards.map((board) => {
+    const levelUid = uid();
+    const tiles = (board.tileMap?.tiles ?? []).filter((tile) => slots.has(`${tile.layer}|${tile.tilesetId}`));
+    const sprites = board.canvasState?.sprites ?? [];
+
+    // Levels start at (0, 0), so shift everything by the board's top-left cell.
+    // Reduced rather than spread into Math.min/max, which overflows the stack on large boards
+    const cells = [
+      ...tiles.map((tile) => ({ x: tile.x, y: tile.y })),
+      ...sprites.map((sprite) => ({ x: Math.floor(sprite.x / gridSize), y: Math.floor(sprite.y / gridSize) })),
+    ];
+    const bounds = cells.reduce(
+      (b, cell) => ({
+        minX: Math.min(b.minX, cell.x),
+        minY: Math.min(b.minY, cell.y),
+        maxX: Math.max(b.maxX, cell.x),
+        maxY: Math.max(b.maxY, cell.y),
+      }),
+      { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity }
+    );
+    const minX = cells.length > 0 ? bounds.minX : 0;
+    const minY = cells.length > 0 ? bounds.minY : 0;
+    const cWid = cells.length > 0 ? bounds.maxX - minX + 1 : 1;
+    const cHei = cells.length > 0 ? bounds.maxY - minY + 1 : 1;
+    const coordId = (tile: Tile) => (tile.x - minX) + (tile.y - minY) * cWid;
+    const px = (tile: Tile) => [(tile.x - minX) * gridSize, (tile.y - minY) * gridSize];
+
+    const layerInstance = (
+      type: 'Tiles' | 'AutoLayer' | 'IntGrid' | 'Entities',
+      identifier: string,
+      layerDefUid: number,
+      extra: Record<string, unknown> = {}
+    ) => ({
+      __identifier: identifier,
+      __type: type,
+      __cWid: cWid,
+      __cHei: cHei,
+      __gridSize: gridSize,
+      __opacity: 1,
+      __pxTotalOffsetX: 0,
+      __pxTotalOffsetY: 0,
+      __tilesetDefUid: null,
+      __tilesetRelPath: null,
+      iid: uuidv4(),
+      levelId: levelUid,
+      layerDefUid,
+      pxOffsetX: 0,
+      pxOffsetY: 0,
+      visible: true,
+      optionalRules: [],
+      intGridCsv: [],
+      autoLayerTiles: [],
+      seed: Math.floor(Math.random() * 9999999),
+      overrideTilesetUid: null,
+      gridTiles: [],
+      entityInstances: [],
+      ...extra,
+    });
+
+    const layerInstances: unknown[] = [
+      layerInstance('Entities', entitiesLayerIdentifier, entitiesLayerUid, {
+        entityInstances: sprites
+          .filter((sprite) => entityDefs.has(sprite.spriteId))
+          .map((sprite) => {
+            const def = entityDefs.get(sprite.spriteId)!;
+            const x = sprite.x - minX * gridSize;
+            const y = sprite.y - minY * gridSize;
+            return {
+              __identifier: def.identifier,
+              __grid: [Math.floor(x / gridSize), Math.floor(y / gridSize)],
+              __pivot: [0, 0],
+              __tags: [],
+              __tile: null,
+              __smartColor: '#94D9B3',
+              __worldX: worldX + x,
+              __worldY: y,
+              iid: uuidv4(),
+              width: def.width,
+              height: def.height,
+              defUid: def.uid,
+              px: [x, y],
+              fieldInstances: SPRITE_FIELDS.map((field) => {
+                const value = spriteFieldValue(sprite, field.name);
+                return {
+                  __identifier: field.name,
+                  __type: field.type,
+                  __value: value,
+                  __tile: null,
+                  defUid: def.fieldUids[field.name],
+                  realEditorValues: [{ id: `V_${field.type}`, params: [value] }],
+                };
+              }),
+            };
+          }),
+      }),
+    ];
+
+    [...orderedSlots].reverse().forEach((slot) => {
+      const slotTiles = tiles.filter((tile) => tile.layer === slot.layer.id && tile.tilesetId === slot.tileset.id);
+      const tilesetFields = {
+        __opacity: slot.layer.opacity,
+        __tilesetDefUid: tilesetUids.get(slot.tileset.id)!,
+        __tilesetRelPath: slot.tileset.imageUrl,
+        visible: slot.layer.visible,
+      };
+
+      if (!slot.auto) {
+        layerInstances.push(
+          layerInstance('Tiles', slot.identifier, slot.layerUid, {
+            ...tilesetFields,
+            gridTiles: slotTiles.map((tile) => ({
+              px: px(tile),
+              src: tileSource(slot.tileset, tile.tileIndex),
+              f: flipBits(tile),
+              t: tile.tileIndex,
+              d: [coordId(tile)],
+              a: 1,
+            })),
+          })
+        );
+        return;
+      }
+
+      // Keep the tiles as painted; each one is attributed to the rule its neighbors match
+      const painted = new Set(slotTiles.map((tile) => `${tile.x},${tile.y}`));
+      const bitmaskAt = (tile: Tile) =>
+        (painted.has(`${tile.x},${tile.y - 1}`) ? 1 : 0) |
+        (painted.has(`${tile.x + 1},${tile.y}`) ? 2 : 0) |
+        (painted.has(`${tile.x},${tile.y + 1}`) ? 4 : 0) |
+        (painted.has(`${tile.x - 1},${tile.y}`) ? 8 : 0);
+      const intGridCsv = new Array<number>(cWid * cHei).fill(0);
+      slotTiles.forEach((tile) => {
+        intGridCsv[coordId(tile)] = INT_GRID_VALUE;
+      });
+
+      layerInstances.push(
+        layerInstance('AutoLayer', slot.identifier, slot.layerUid, {
+          ...tilesetFields,
+          autoLayerTiles: slotTiles.map((tile) => ({
+            px: px(tile),
+            src: tileSource(slot.tileset, tile.tileIndex),
+            f: flipBits(tile),
+            t: tile.tileIndex,
+            d: [slot.ruleUids[bitmaskAt(tile)], coordId(tile)],
+            a: 1,
+          })),
+        }),
+        layerInstance('IntGrid', slot.intGridIdentifier, slot.intGridUid, { intGridCsv, visible: false })
+      );
+    });
+
+    const level = {
+      identifier: levelIdentifier(board.name || 'Level'),
+      iid: uuidv4(),
+      uid: levelUid,
+      worldX,
+      worldY: 0,
+      worldDepth: 0,
+      pxWid: cWid * gridSize,
+      pxHei: cHei * gridSize,
+      __bgColor: '#696A79',
+      bgColor: null,
+      useAutoIdentifier: false,
+      bgRelPath: null,
+      bgPos: null,
+      bgPivotX: 0.5,
+      bgPivotY: 0.5,
+      __smartColor: '#ADADB5',
+      __bgPos: null,
+      externalRelPath: null,
+      fieldInstances: [],
+      layerInstances,
+      __neighbours: [],
+    };
+    worldX += cWid * gridSize + LEVEL_GAP;
+    return level;
+  });
+
+  return JSON.stringify(
+    {
+      __header__: {
+        fileType: 'LDtk Project JSON',
+        app: 'LDtk',
+        doc: 'https://ldtk.io/json',
+        schema: 'https://ldtk.io/files/JSON_SCHEMA.json',
+        appAuthor: 'Sebastien \'deepnight\' Benard',
+        appVersion: LDTK_VERSION,
+        url: 'https://ldtk.io',
+      },
+      iid: uuidv4(),
+      jsonVersion: LDTK_VERSION,
+      appBuildId: 0,
+      nextUid,
+      identifierStyle: 'Capitalize',
+      toc: [],
+      worldLayout: 'Free',
+      worldGridWidth: 256,
+      worldGridHeight: 256,
+      defaultLevelWidth: 256,
+      defaultLevelHeight: 256,
+      defaultPivotX: 0,
+      defaultPivotY: 0,
+      defaultGridSize: gridSize,
+      defaultEntityWidth: gridSize,
+      defaultEntityHeight: gridSize,
+      bgColor: '#40465B',
+      defaultLevelBgColor: '#696A79',
+      minifyJson: false,
+      externalLevels: false,
+      exportTiled: false,
+      simplifiedExport: false,
+      imageExportMode: 'None',
+      exportLevelBg: true,
+      pngFilePattern: null,
+      backupOnSave: false,
+      backupLimit: 10,
+      backupRelPath: null,
+      levelNamePattern: 'Level_%idx',
+      tutorialDesc: null,
+      customCommands: [],
+      flags: [],
+      defs: {
+        layers: layerDefs,
+        entities: entityDefJson,
+        tilesets: tilesetDefs,
+        enums: [],
+        externalEnums: [],
+        levelFields: [],
+      },
+      levels,
+      worlds: [],
+      dummyWorldIid: uuidv4(),
+    },
+    null,
+    2
+  );
+}
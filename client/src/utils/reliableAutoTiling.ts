@@ -1,57 +1,32 @@
 import type { Tile } from '@shared/schema';
+import {
+  calculateAutoTileIndex,
+  calculateTilesetTileIndex,
+  type AutoTilingTileset,
+  type NeighborConfig,
+} from '@shared/autoTiling';
+import { getAutoTileTemplate, isTemplateTilesetType } from '@shared/autoTileTemplates';
 
 /**
  * Reliable 3x3 auto-tiling system
  * 
  * This is a simplified but robust autotiling implementation that handles
- * the most common use cases without complex dependencies.
+ * the most common use cases without complex dependencies. It works on plain
+ * tile arrays and uses the lookup tables of the shared engine
+ * (shared/autoTiling.ts); blob (47-tile) and corner Wang (16-tile) tilesets
+ * use all 8 neighbors and their sheet template.
  * 
  * Tileset layout (indices):
  * 0 1 2
  * 3 4 5  
  * 6 7 8
- * 
- * Bitmask algorithm maps 4-neighbor patterns to tile indices
  */
 
-interface NeighborConfig {
-  top: boolean;
-  bottom: boolean;
-  left: boolean;
-  right: boolean;
-}
-
-// Reliable bitmask to tile index lookup
-const BITMASK_TO_TILE: number[] = [
-  4,  // 0000 (no neighbors) → center/isolated
-  7,  // 0001 (N) → bottom edge
-  3,  // 0010 (E) → left edge
-  6,  // 0011 (N+E) → bottom-left corner
-  1,  // 0100 (S) → top edge
-  4,  // 0101 (N+S) → vertical center
-  0,  // 0110 (E+S) → top-left corner
-  3,  // 0111 (N+E+S) → left edge
-  5,  // 1000 (W) → right edge
-  8,  // 1001 (N+W) → bottom-right corner
-  4,  // 1010 (E+W) → horizontal center
-  7,  // 1011 (N+E+W) → bottom edge
-  2,  // 1100 (S+W) → top-right corner
-  5,  // 1101 (N+S+W) → right edge
-  1,  // 1110 (E+S+W) → top edge
-  4,  // 1111 (all) → center
-];
-
 /**
  * Calculate the correct tile index based on neighbor configuration
  */
 export function calculateReliableAutoTileIndex(neighbors: NeighborConfig): number {
-  const bitmask =
-    (neighbors.top ? 1 : 0) |
-    (neighbors.right ? 2 : 0) |
-    (neighbors.bottom ? 4 : 0) |
-    (neighbors.left ? 8 : 0);
-
-  return BITMASK_TO_TILE[bitmask];
+  return calculateAutoTileIndex(neighbors);
 }
 
 /**
@@ -76,6 +51,10 @@ export function getReliableNeighborConfig(
     bottom: hasTileAt(x, y + 1),
     left: hasTileAt(x - 1, y),
     right: hasTileAt(x + 1, y),
+    topLeft: hasTileAt(x - 1, y - 1),
+    topRight: hasTileAt(x + 1, y - 1),
+    bottomLeft: hasTileAt(x - 1, y + 1),
+    bottomRight: hasTileAt(x + 1, y + 1),
   };
 }
 
@@ -89,16 +68,21 @@ export function getReliableTilesToUpdate(
   tilesetId: string,
   tiles: Tile[],
   includeSelf: boolean = true,
-  layer: 'terrain' | 'props' = 'terrain'
+  layer: 'terrain' | 'props' = 'terrain',
+  tileset?: AutoTilingTileset
 ): Array<{ x: number; y: number; tileIndex: number; tilesetId: string }> {
   const updates: Array<{ x: number; y: number; tileIndex: number; tilesetId: string }> = [];
 
-  // Define positions to check (center + 4 neighbors)
+  // Define positions to check (center + 8 neighbors; diagonals matter to blob and Wang sets)
   const positions = [
     { x, y: y - 1 }, // Top
     { x, y: y + 1 }, // Bottom
     { x: x - 1, y }, // Left
     { x: x + 1, y }, // Right
+    { x: x - 1, y: y - 1 }, // Top-left
+    { x: x + 1, y: y - 1 }, // Top-right
+    { x: x - 1, y: y + 1 }, // Bottom-left
+    { x: x + 1, y: y + 1 }, // Bottom-right
   ];
 
   if (includeSelf) {
@@ -114,7 +98,7 @@ export function getReliableTilesToUpdate(
     // Update each tile at this position
     for (const tile of tilesAtPosition) {
       const neighbors = getReliableNeighborConfig(pos.x, pos.y, tilesetId, tiles, layer);
-      const tileIndex = calculateReliableAutoTileIndex(neighbors);
+      const tileIndex = calculateTilesetTileIndex(neighbors, tileset);
       
       updates.push({
         x: pos.x,
@@ -127,7 +111,7 @@ export function getReliableTilesToUpdate(
     // If no tile exists at this position but it's the center and we want to include self
     if (tilesAtPosition.length === 0 && pos.x === x && pos.y === y && includeSelf) {
       const neighbors = getReliableNeighborConfig(pos.x, pos.y, tilesetId, tiles, layer);
-      const tileIndex = calculateReliableAutoTileIndex(neighbors);
+      const tileIndex = calculateTilesetTileIndex(neighbors, tileset);
       
       updates.push({
         x: pos.x,
@@ -149,7 +133,8 @@ export function getReliableBatchTileUpdates(
   positions: Array<{ x: number; y: number }>,
   tilesetId: string,
   existingTiles: Tile[],
-  layer: 'terrain' | 'props' = 'terrain'
+  layer: 'terrain' | 'props' = 'terrain',
+  tileset?: AutoTilingTileset
 ): Array<{ x: number; y: number; tileIndex: number; tilesetId: string }> {
   const allUpdates = new Map<string, { x: number; y: number; tileIndex: number; tilesetId: string }>();
 
@@ -174,7 +159,8 @@ export function getReliableBatchTileUpdates(
       tilesetId,
       simulatedTiles,
       true,
-      layer
+      layer,
+      tileset
     );
 
     updates.forEach(update => {
@@ -191,8 +177,13 @@ export function getReliableBatchTileUpdates(
  */
 export function validateAutoTileset(tileset: any): boolean {
   if (!tileset) return false;
-  if (tileset.tilesetType !== 'auto-tiling') return false;
   if (!tileset.imageUrl) return false;
+  if (isTemplateTilesetType(tileset.tilesetType)) {
+    // The sheet has to be at least as large as its template
+    const template = getAutoTileTemplate(tileset);
+    return !!template && tileset.columns >= template.columns && tileset.rows >= template.rows;
+  }
+  if (tileset.tilesetType !== 'auto-tiling') return false;
   if (tileset.rows !== 3 || tileset.columns !== 3) return false;
   return true;
 }
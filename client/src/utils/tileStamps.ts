@@ -0,0 +1,95 @@
+import type { Tile, TileLayer } from '@shared/schema';
+import type { TileGrid } from '@shared/tileGrid';
+import type { GridCell } from '@shared/tileShapes';
+import { flipTileTransform, rotateTileTransform } from '@shared/tileTransforms';
+
+/** Rectangle of grid cells selected with the tile marquee, on the chosen layers */
+export interface TileSelection {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  layers: TileLayer[];
+}
+
+/**
+ * A copied tile region. Tile positions are relative to the stamp's top-left
+ * cell and keep the layer they were copied from.
+ */
+export interface TileStamp {
+  id: string;
+  name: string;
+  width: number;
+  height: number;
+  tiles: Tile[];
+}
+
+export type StampTransform = 'flipX' | 'flipY' | 'rotate';
+
+/** Selection rectangle spanned by two corner cells */
+export function selectionFromCorners(a: GridCell, b: GridCell, layers: TileLayer[]): TileSelection {
+  return {
+    x: Math.min(a.x, b.x),
+    y: Math.min(a.y, b.y),
+    width: Math.abs(a.x - b.x) + 1,
+    height: Math.abs(a.y - b.y) + 1,
+    layers,
+  };
+}
+
+export function selectionContains(selection: TileSelection, cell: GridCell): boolean {
+  return (
+    cell.x >= selection.x &&
+    cell.y >= selection.y &&
+    cell.x < selection.x + selection.width &&
+    cell.y < selection.y + selection.height
+  );
+}
+
+/** Tiles inside the selection on its layers, in board coordinates */
+export function selectedTiles(grid: TileGrid, selection: TileSelection): Tile[] {
+  const maxX = selection.x + selection.width - 1;
+  const maxY = selection.y + selection.height - 1;
+  return selection.layers.flatMap((layer) => grid.queryRect(selection.x, selection.y, maxX, maxY, layer));
+}
+
+export function extractStamp(grid: TileGrid, selection: TileSelection, id: string, name: string): TileStamp {
+  return {
+    id,
+    name,
+    width: selection.width,
+    height: selection.height,
+    tiles: selectedTiles(grid, selection).map((tile) => ({ ...tile, x: tile.x - selection.x, y: tile.y - selection.y })),
+  };
+}
+
+/**
+ * Mirror or rotate (90° clockwise) a stamp. Tiles move to their new cells and
+ * their art is mirrored or turned with them.
+ */
+export function transformStamp(stamp: TileStamp, transform: StampTransform): TileStamp {
+  const tiles = stamp.tiles.map((tile): Tile => {
+    switch (transform) {
+      case 'flipX':
+        return { ...flipTileTransform(tile, 'x'), x: stamp.width - 1 - tile.x };
+      case 'flipY':
+        return { ...flipTileTransform(tile, 'y'), y: stamp.height - 1 - tile.y };
+      case 'rotate':
+        return { ...rotateTileTransform(tile), x: stamp.height - 1 - tile.y, y: tile.x };
+    }
+  });
+
+  return transform === 'rotate'
+    ? { ...stamp, width: stamp.height, height: stamp.width, tiles }
+    : { ...stamp, tiles };
+}
+
+/** The stamp's tiles with its top-left cell at (x, y) */
+export function placeStamp(stamp: TileStamp, x: number, y: number): Tile[] {
+  return stamp.tiles.map((tile) => ({ ...tile, x: tile.x + x, y: tile.y + y }));
+}
+
+/** Whether a stamp-relative cell lies on the stamp's outer edge */
+export function isStampBorder(stamp: Pick<TileStamp, 'width' | 'height'>, cell: GridCell): boolean {
+  return cell.x === 0 || cell.y === 0 || cell.x === stamp.width - 1 || cell.y === stamp.height - 1;
+}
@@ -0,0 +1,1346 @@
+import type {
+  AnimationState,
+  Board,
+  Shape,
+  ShapeType,
+  SpriteInstance,
+  Tile,
+  TileLayerDefinition,
+  TilePropertyData,
+  TilePropertyDefinition,
+  TilePropertyValue,
+  Tileset,
+  TilesetType,
+} from '@shared/schema';
+import { DEFAULT_TILE_LAYERS } from '@shared/tileLayers';
+import { coerceTilePropertyValue, defaultValueForType, withTileImageUrls } from '@shared/tileProperties';
+import { fromDiagonalFlags, toDiagonalFlags } from '@shared/tileTransforms';
+import { v4 as uuidv4 } from 'uuid';
+import type { BoardContent } from '@/store/useCanvasStore';
+
+/**
+ * Tiled (https://www.mapeditor.org) map export and import.
+ *
+ * A board becomes an orthogonal map in either TMJ (JSON) or TMX (XML) format:
+ * - every tile layer becomes a tile layer, in render order (bottom first)
+ * - shapes and sprites become the "Shapes" and "Sprites" object layers
+ * - every tileset used by the board becomes an external TSX file, with its
+ *   animated tiles as Tiled tile animations and its custom tile properties as
+ *   Tiled tile properties
+ *
+ * Board data Tiled has no field for (layer ids, shape styles, multi-tile
+ * configs, ...) is stored as custom properties, which is what lets the
+ * importer restore tilesets, multi-tile objects and layer order. Tiled maps
+ * start at (0, 0), so the top-left tile's board coordinate is kept in the
+ * `originX`/`originY` map properties.
+ *
+ * Both formats are read into the same `TiledMap` model, so export and import
+ * only convert between that model and the board once.
+ */
+
+export type TiledMapFormat = 'tmj' | 'tmx';
+
+export interface TiledFile {
+  name: string;
+  contents: string;
+}
+
+/** The parts of a board written to a Tiled map */
+export type TiledExportSource = Pick<Board, 'name' | 'canvasState' | 'tileMap'>;
+
+/** A tileset read from a map, before it has been matched to one of ours */
+export type TiledImportedTileset = Omit<Tileset, 'id'> & {
+  sourceId?: string; // Id of the tileset the map was exported from, if it came from GameDevBoard
+};
+
+/** Find (or create) the tileset to use for an imported one; null drops its tiles */
+export type TiledTilesetResolver = (tileset: TiledImportedTileset) => Promise<Tileset | null>;
+
+export interface TiledImportResult extends BoardContent {
+  name: string;
+  tilesets: Tileset[];
+  skippedTiles: number; // Tiles whose tileset couldn't be resolved
+}
+
+const TILED_VERSION = '1.10';
+const TILED_EDITOR_VERSION = '1.10.2';
+
+// Tiled stores flip/rotation flags in the top bits of a gid
+const GID_FLAGS_MASK = 0xf0000000;
+const GID_FLIPPED_HORIZONTALLY = 0x80000000;
+const GID_FLIPPED_VERTICALLY = 0x40000000;
+const GID_FLIPPED_DIAGONALLY = 0x20000000;
+
+const SHAPES_LAYER_NAME = 'Shapes';
+const SPRITES_LAYER_NAME = 'Sprites';
+const SPRITE_CLASS = 'sprite';
+
+const SHAPE_TYPES: ShapeType[] = ['rectangle', 'circle', 'polygon', 'star', 'line', 'text'];
+const TILESET_TYPES: TilesetType[] = ['auto-tiling', 'blob-47', 'wang-corner', 'multi-tile', 'single-tile', 'variant_grid'];
+const ANIMATION_STATES: AnimationState[] = ['idle', 'walk', 'run', 'attack', 'hurt', 'die', 'jump', 'fall', 'custom'];
+
+const isOneOf = <T extends string>(values: readonly T[], value: unknown): value is T =>
+  values.includes(value as T);
+
+type TiledPropertyType = 'string' | 'int' | 'float' | 'bool';
+
+interface TiledProperty {
+  name: string;
+  type: TiledPropertyType;
+  value: string | number | boolean;
+}
+
+interface TiledText {
+  text: string;
+  pixelsize?: number;
+  fontfamily?: string;
+  color?: string;
+  halign?: 'left' | 'center' | 'right';
+  wrap?: boolean;
+}
+
+interface TiledObject {
+  id: number;
+  name: string;
+  type: string; // The object's class
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  rotation: number;
+  visible: boolean;
+  ellipse?: boolean;
+  point?: boolean;
+  polygon?: Array<{ x: number; y: number }>;
+  polyline?: Array<{ x: number; y: number }>;
+  text?: TiledText;
+  gid?: number;
+  properties: TiledProperty[];
+}
+
+interface TiledChunk {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  data: number[];
+}
+
+interface TiledTileLayer {
+  type: 'tilelayer';
+  id: number;
+  name: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  opacity: number;
+  visible: boolean;
+  locked: boolean;
+  parallaxx: number;
+  parallaxy: number;
+  data?: number[];
+  chunks?: TiledChunk[]; // Infinite maps store their tiles in chunks instead of `data`
+  properties: TiledProperty[];
+}
+
+interface TiledObjectGroup {
+  type: 'objectgroup';
+  id: number;
+  name: string;
+  opacity: number;
+  visible: boolean;
+  locked: boolean;
+  draworder: 'index' | 'topdown';
+  objects: TiledObject[];
+  properties: TiledProperty[];
+}
+
+type TiledLayer = TiledTileLayer | TiledObjectGroup;
+
+interface TiledTileAnimationFrame {
+  tileid: number;
+  duration: number; // milliseconds
+}
+
+// Per-tile data of a tileset; only animations and custom properties are read and written
+interface TiledTile {
+  id: number;
+  animation: TiledTileAnimationFrame[];
+  properties: TiledProperty[];
+}
+
+interface TiledTileset {
+  name: string;
+  tilewidth: number;
+  tileheight: number;
+  spacing: number;
+  margin: number;
+  tilecount: number;
+  columns: number;
+  image: string;
+  imagewidth: number;
+  imageheight: number;
+  properties: TiledProperty[];
+  tiles: TiledTile[];
+}
+
+interface TiledTilesetRef {
+  firstgid: number;
+  source?: string; // External TSX/TSJ file
+  tileset?: TiledTileset; // Embedded tileset
+}
+
+interface TiledMap {
+  width: number;
+  height: number;
+  tilewidth: number;
+  tileheight: number;
+  infinite: boolean;
+  nextlayerid: number;
+  nextobjectid: number;
+  layers: TiledLayer[];
+  tilesets: TiledTilesetRef[];
+  properties: TiledProperty[];
+}
+
+// ---------------------------------------------------------------------------
+// Properties
+
+const stringProperty = (name: string, value: string): TiledProperty => ({ name, type: 'string', value });
+const intProperty = (name: string, value: number): TiledProperty => ({ name, type: 'int', value: Math.round(value) });
+const floatProperty = (name: string, value: number): TiledProperty => ({ name, type: 'float', value });
+const boolProperty = (name: string, value: boolean): TiledProperty => ({ name, type: 'bool', value });
+
+const findProperty = (properties: TiledProperty[], name: string) =>
+  properties.find((property) => property.name === name)?.value;
+
+const getString = (properties: TiledProperty[], name: string): string | undefined => {
+  const value = findProperty(properties, name);
+  return value === undefined ? undefined : String(value);
+};
+
+const getNumber = (properties: TiledProperty[], name: string): number | undefined => {
+  const value = Number(findProperty(properties, name));
+  return Number.isFinite(value) ? value : undefined;
+};
+
+const getBool = (properties: TiledProperty[], name: string): boolean | undefined => {
+  const value = findProperty(properties, name);
+  if (value === undefined) return undefined;
+  return value === true || value === 'true';
+};
+
+const getJson = <T,>(properties: TiledProperty[], name: string): T | undefined => {
+  const value = getString(properties, name);
+  if (!value) return undefined;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return undefined;
+  }
+};
+
+const parsePropertyValue = (type: TiledPropertyType, value: string): TiledProperty['value'] => {
+  if (type === 'bool') return value === 'true';
+  if (type === 'int' || type === 'float') return Number(value);
+  return value;
+};
+
+const toPropertyType = (type: unknown): TiledPropertyType =>
+  type === 'int' || type === 'float' || type === 'bool' ? type : 'string';
+
+// Enum values are plain strings to Tiled; the choices travel in the tileset's `tileProperties`
+const tilePropertyToTiled = (definition: TilePropertyDefinition, value: TilePropertyValue): TiledProperty =>
+  definition.type === 'boolean'
+    ? boolProperty(definition.name, value === true)
+    : definition.type === 'number'
+      ? floatProperty(definition.name, Number(value))
+      : stringProperty(definition.name, String(value));
+
+// ---------------------------------------------------------------------------
+// Board -> TiledMap
+
+const tilesetFileName = (name: string, used: Set<string>) => {
+  const base = name.trim().replace(/[^A-Za-z0-9_-]+/g, '_').replace(/^_+|_+$/g, '') || 'tileset';
+  let fileName = `${base}.tsx`;
+  for (let i = 2; used.has(fileName); i++) {
+    fileName = `${base}_${i}.tsx`;
+  }
+  used.add(fileName);
+  return fileName;
+};
+
+function tilesetToTiled(tileset: Tileset, tileCount: number): TiledTileset {
+  const properties = [
+    stringProperty('sourceId', tileset.id),
+    stringProperty('tilesetType', tileset.tilesetType),
+  ];
+  if (tileset.multiTileConfig) {
+    properties.push(stringProperty('multiTileConfig', JSON.stringify(tileset.multiTileConfig)));
+  }
+  if (tileset.autoTileTemplate) {
+    properties.push(stringProperty('autoTileTemplate', tileset.autoTileTemplate));
+  }
+  if (tileset.variantGridConfig) {
+    properties.push(stringProperty('variantGridConfig', JSON.stringify(tileset.variantGridConfig)));
+  }
+  if (tileset.tags && tileset.tags.length > 0) {
+    properties.push(stringProperty('tags', JSON.stringify(tileset.tags)));
+  }
+  if (tileset.tileImageUrls && tileset.tileImageUrls.length > 0) {
+    properties.push(stringProperty('tileImageUrls', JSON.stringify(tileset.tileImageUrls)));
+  }
+  if (tileset.tileProperties && tileset.tileProperties.length > 0) {
+    properties.push(stringProperty('tileProperties', JSON.stringify(tileset.tileProperties)));
+  }
+
+  // Tiles only carry the property values they set; defaults are in `tileProperties`
+  const tiles = new Map<number, TiledTile>();
+  const tileAt = (id: number) => {
+    if (!tiles.has(id)) tiles.set(id, { id, animation: [], properties: [] });
+    return tiles.get(id)!;
+  };
+  (tileset.tileAnimations ?? []).forEach((animation) => {
+    tileAt(animation.tileIndex).animation = animation.frames.map((frame) => ({ tileid: frame.tileIndex, duration: frame.duration }));
+  });
+  Object.entries(tileset.tilePropertyValues ?? {}).forEach(([tileIndex, values]) => {
+    const tileProperties = (tileset.tileProperties ?? [])
+      .filter((definition) => definition.name in values)
+      .map((definition) => tilePropertyToTiled(definition, coerceTilePropertyValue(definition, values[definition.name])));
+    if (tileProperties.length > 0) tileAt(Number(tileIndex)).properties = tileProperties;
+  });
+
+  return {
+    name: tileset.name,
+    tilewidth: tileset.tileSize,
+    tileheight: tileset.tileSize,
+    spacing: tileset.spacing,
+    margin: 0,
+    tilecount: tileCount,
+    columns: tileset.columns,
+    image: tileset.imageUrl,
+    imagewidth: tileset.columns * tileset.tileSize + Math.max(0, tileset.columns - 1) * tileset.spacing,
+    imageheight: tileset.rows * tileset.tileSize + Math.max(0, tileset.rows - 1) * tileset.spacing,
+    properties,
+    tiles: Array.from(tiles.values()).sort((a, b) => a.id - b.id),
+  };
+}
+
+const toPointList = (points: number[] | undefined) => {
+  const list: Array<{ x: number; y: number }> = [];
+  for (let i = 0; points && i + 1 < points.length; i += 2) {
+    list.push({ x: points[i], y: points[i + 1] });
+  }
+  return list;
+};
+
+function shapeToTiled(shape: Shape, id: number, offsetX: number, offsetY: number): TiledObject {
+  const { transform, style, metadata } = shape;
+  const properties = [
+    stringProperty('sourceId', shape.id),
+    stringProperty('fill', style.fill),
+    stringProperty('stroke', style.stroke),
+    floatProperty('strokeWidth', style.strokeWidth),
+    floatProperty('opacity', style.opacity),
+    floatProperty('scaleX', transform.scaleX),
+    floatProperty('scaleY', transform.scaleY),
+    intProperty('layer', metadata.layer),
+    boolProperty('locked', metadata.locked),
+    stringProperty('createdBy', metadata.createdBy),
+  ];
+  if (metadata.groupId) {
+    properties.push(stringProperty('groupId', metadata.groupId));
+  }
+
+  const object: TiledObject = {
+    id,
+    name: '',
+    type: shape.type,
+    x: transform.x - offsetX,
+    y: transform.y - offsetY,
+    width: transform.width,
+    height: transform.height,
+    rotation: transform.rotation,
+    visible: true,
+    properties,
+  };
+
+  if (shape.type === 'circle') {
+    object.ellipse = true;
+  } else if (shape.type === 'line' && shape.points) {
+    object.polyline = toPointList(shape.points);
+  } else if ((shape.type === 'polygon' || shape.type === 'star') && shape.points) {
+    object.polygon = toPointList(shape.points);
+  } else if (shape.type === 'text') {
+    object.name = shape.text ?? '';
+    object.text = {
+      text: shape.text ?? '',
+      pixelsize: style.fontSize,
+      fontfamily: style.fontFamily,
+      color: style.fill,
+      halign: style.textAlign,
+      wrap: true,
+    };
+  }
+
+  return object;
+}
+
+function spriteToTiled(sprite: SpriteInstance, id: number, offsetX: number, offsetY: number): TiledObject {
+  return {
+    id,
+    name: sprite.spriteId,
+    type: SPRITE_CLASS,
+    x: sprite.x - offsetX,
+    y: sprite.y - offsetY,
+    width: 0,
+    height: 0,
+    rotation: sprite.rotation,
+    visible: true,
+    point: true,
+    properties: [
+      stringProperty('sourceId', sprite.id),
+      stringProperty('spriteId', sprite.spriteId),
+      floatProperty('scale', sprite.scale),
+      stringProperty('animation', sprite.currentAnimation),
+      boolProperty('flipX', sprite.flipX),
+      boolProperty('flipY', sprite.flipY),
+      intProperty('layer', sprite.layer),
+      boolProperty('locked', sprite.metadata.locked),
+      stringProperty('createdBy', sprite.metadata.createdBy),
+    ],
+  };
+}
+
+// Gid with the tile's flip/rotation flags; `>>> 0` keeps it an unsigned 32-bit number
+function tileGid(gid: number, tile: Tile): number {
+  const flags = toDiagonalFlags(tile);
+  const bits =
+    (flags.horizontal ? GID_FLIPPED_HORIZONTALLY : 0) |
+    (flags.vertical ? GID_FLIPPED_VERTICALLY : 0) |
+    (flags.diagonal ? GID_FLIPPED_DIAGONALLY : 0);
+  return (gid | bits) >>> 0;
+}
+
+function boardToTiledMap(board: TiledExportSource, tilesets: Tileset[]): { map: TiledMap; tilesetFiles: Map<number, TiledTileset & { fileName: string }> } {
+  const tiles = board.tileMap?.tiles ?? [];
+  const gridSize = board.canvasState?.gridSize || board.tileMap?.gridSize || 16;
+  const tilesetsById = new Map(tilesets.map((tileset) => [tileset.id, tileset]));
+
+  // Tilesets actually used by the board get consecutive gid ranges
+  const highestIndex = new Map<string, number>();
+  tiles.forEach((tile) => {
+    if (!tilesetsById.has(tile.tilesetId)) return;
+    highestIndex.set(tile.tilesetId, Math.max(highestIndex.get(tile.tilesetId) ?? 0, tile.tileIndex));
+  });
+
+  const firstGids = new Map<string, number>();
+  const tilesetFiles = new Map<number, TiledTileset & { fileName: string }>();
+  const usedFileNames = new Set<string>();
+  let nextGid = 1;
+  highestIndex.forEach((maxIndex, tilesetId) => {
+    const tileset = tilesetsById.get(tilesetId)!;
+    const tileCount = Math.max(tileset.columns * tileset.rows, maxIndex + 1);
+    firstGids.set(tilesetId, nextGid);
+    tilesetFiles.set(nextGid, { ...tilesetToTiled(tileset, tileCount), fileName: tilesetFileName(tileset.name, usedFileNames) });
+    nextGid += tileCount;
+  });
+
+  const exportedTiles = tiles.filter((tile) => firstGids.has(tile.tilesetId));
+  // One pass rather than spreading into Math.min/max, which overflows the stack on large boards
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  exportedTiles.forEach((tile) => {
+    minX = Math.min(minX, tile.x);
+    minY = Math.min(minY, tile.y);
+    maxX = Math.max(maxX, tile.x);
+    maxY = Math.max(maxY, tile.y);
+  });
+  if (exportedTiles.length === 0) minX = minY = maxX = maxY = 0;
+  const width = maxX - minX + 1;
+  const height = maxY - minY + 1;
+
+  // Tiles on layers the board doesn't define (legacy data) still get exported
+  const layers = [...(board.tileMap?.layers ?? DEFAULT_TILE_LAYERS)].sort((a, b) => a.order - b.order);
+  exportedTiles.forEach((tile) => {
+    if (!layers.some((layer) => layer.id === tile.layer)) {
+      layers.push({ id: tile.layer, name: tile.layer, order: layers.length, visible: true, locked: false, opacity: 1, parallax: { x: 1, y: 1 } });
+    }
+  });
+
+  let nextLayerId = 1;
+  let nextObjectId = 1;
+
+  const mapLayers: TiledLayer[] = layers.map((layer) => {
+    const data = new Array<number>(width * height).fill(0);
+    exportedTiles.forEach((tile) => {
+      if (tile.layer !== layer.id) return;
+      data[(tile.y - minY) * width + (tile.x - minX)] = tileGid(firstGids.get(tile.tilesetId)! + tile.tileIndex, tile);
+    });
+    return {
+      type: 'tilelayer',
+      id: nextLayerId++,
+      name: layer.name,
+      x: 0,
+      y: 0,
+      width,
+      height,
+      opacity: layer.opacity,
+      visible: layer.visible,
+      locked: layer.locked,
+      parallaxx: layer.parallax.x,
+      parallaxy: layer.parallax.y,
+      data,
+      properties: [stringProperty('sourceId', layer.id)],
+    };
+  });
+
+  const offsetX = minX * gridSize;
+  const offsetY = minY * gridSize;
+
+  const shapes = [...(board.canvasState?.shapes ?? [])].sort((a, b) => a.metadata.layer - b.metadata.layer);
+  if (shapes.length > 0) {
+    mapLayers.push({
+      type: 'objectgroup',
+      id: nextLayerId++,
+      name: SHAPES_LAYER_NAME,
+      opacity: 1,
+      visible: true,
+      locked: false,
+      draworder: 'index',
+      objects: shapes.map((shape) => shapeToTiled(shape, nextObjectId++, offsetX, offsetY)),
+      properties: [],
+    });
+  }
+
+  const sprites = [...(board.canvasState?.sprites ?? [])].sort((a, b) => a.layer - b.layer);
+  if (sprites.length > 0) {
+    mapLayers.push({
+      type: 'objectgroup',
+      id: nextLayerId++,
+      name: SPRITES_LAYER_NAME,
+      opacity: 1,
+      visible: true,
+      locked: false,
+      draworder: 'index',
+      objects: sprites.map((sprite) => spriteToTiled(sprite, nextObjectId++, offsetX, offsetY)),
+      properties: [],
+    });
+  }
+
+  const map: TiledMap = {
+    width,
+    height,
+    tilewidth: gridSize,
+    tileheight: gridSize,
+    infinite: false,
+    nextlayerid: nextLayerId,
+    nextobjectid: nextObjectId,
+    layers: mapLayers,
+    tilesets: Array.from(tilesetFiles.entries()).map(([firstgid, tileset]) => ({ firstgid, source: tileset.fileName })),
+    properties: [intProperty('originX', minX), intProperty('originY', minY)],
+  };
+
+  return { map, tilesetFiles };
+}
+
+// ---------------------------------------------------------------------------
+// Serialization
+
+const stripUndefined = <T extends object>(value: T): T =>
+  Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as T;
+
+function objectToTmj(object: TiledObject) {
+  return stripUndefined({
+    ...object,
+    properties: object.properties.length > 0 ? object.properties : undefined,
+    text: object.text ? stripUndefined(object.text) : undefined,
+  });
+}
+
+function layerToTmj(layer: TiledLayer) {
+  const properties = layer.properties.length > 0 ? layer.properties : undefined;
+  if (layer.type === 'objectgroup') {
+    return stripUndefined({ ...layer, properties, objects: layer.objects.map(objectToTmj) });
+  }
+  return stripUndefined({ ...layer, properties });
+}
+
+function mapToTmj(map: TiledMap): string {
+  return JSON.stringify(
+    {
+      type: 'map',
+      version: TILED_VERSION,
+      tiledversion: TILED_EDITOR_VERSION,
+      orientation: 'orthogonal',
+      renderorder: 'right-down',
+      compressionlevel: -1,
+      ...map,
+      layers: map.layers.map(layerToTmj),
+    },
+    null,
+    2
+  );
+}
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const xmlAttributes = (attributes: Record<string, string | number | boolean | undefined>) =>
+  Object.entries(attributes)
+    .filter(([, value]) => value !== undefined)
+    .map(([name, value]) => ` ${name}="${escapeXml(typeof value === 'boolean' ? (value ? '1' : '0') : String(value))}"`)
+    .join('');
+
+function propertiesToXml(properties: TiledProperty[], indent: string): string {
+  if (properties.length === 0) return '';
+  const lines = properties.map(
+    (property) =>
+      `${indent} <property${xmlAttributes({
+        name: property.name,
+        type: property.type === 'string' ? undefined : property.type,
+        value: String(property.value),
+      })}/>`
+  );
+  return `${indent}<properties>\n${lines.join('\n')}\n${indent}</properties>\n`;
+}
+
+function objectToXml(object: TiledObject, indent: string): string {
+  const attributes = xmlAttributes({
+    id: object.id,
+    name: object.name || undefined,
+    type: object.type || undefined,
+    gid: object.gid,
+    x: object.x,
+    y: object.y,
+    width: object.point ? undefined : object.width,
+    height: object.point ? undefined : object.height,
+    rotation: object.rotation || undefined,
+  });
+
+  let body = propertiesToXml(object.properties, `${indent} `);
+  if (object.ellipse) body += `${indent} <ellipse/>\n`;
+  if (object.point) body += `${indent} <point/>\n`;
+  if (object.polygon) {
+    body += `${indent} <polygon points="${object.polygon.map((p) => `${p.x},${p.y}`).join(' ')}"/>\n`;
+  }
+  if (object.polyline) {
+    body += `${indent} <polyline points="${object.polyline.map((p) => `${p.x},${p.y}`).join(' ')}"/>\n`;
+  }
+  if (object.text) {
+    const { text, ...textAttributes } = object.text;
+    body += `${indent} <text${xmlAttributes(textAttributes)}>${escapeXml(text)}</text>\n`;
+  }
+
+  return body ? `${indent}<object${attributes}>\n${body}${indent}</object>\n` : `${indent}<object${attributes}/>\n`;
+}
+
+function layerToXml(layer: TiledLayer): string {
+  const common = {
+    id: layer.id,
+    name: layer.name,
+    opacity: layer.opacity === 1 ? undefined : layer.opacity,
+    visible: layer.visible ? undefined : false,
+    locked: layer.locked ? true : undefined,
+  };
+
+  if (layer.type === 'objectgroup') {
+    const objects = layer.objects.map((object) => objectToXml(object, '  ')).join('');
+    return ` <objectgroup${xmlAttributes({ ...common, draworder: layer.draworder })}>\n${propertiesToXml(layer.properties, '  ')}${objects} </objectgroup>\n`;
+  }
+
+  const rows: string[] = [];
+  const data = layer.data ?? [];
+  for (let y = 0; y < layer.height; y++) {
+    rows.push(data.slice(y * layer.width, (y + 1) * layer.width).join(','));
+  }
+  const attributes = xmlAttributes({
+    ...common,
+    width: layer.width,
+    height: layer.height,
+    parallaxx: layer.parallaxx === 1 ? undefined : layer.parallaxx,
+    parallaxy: layer.parallaxy === 1 ? undefined : layer.parallaxy,
+  });
+  return ` <layer${attributes}>\n${propertiesToXml(layer.properties, '  ')}  <data encoding="csv">\n${rows.join(',\n')}\n</data>\n </layer>\n`;
+}
+
+function mapToTmx(map: TiledMap): string {
+  const attributes = xmlAttributes({
+    version: TILED_VERSION,
+    tiledversion: TILED_EDITOR_VERSION,
+    orientation: 'orthogonal',
+    renderorder: 'right-down',
+    width: map.width,
+    height: map.height,
+    tilewidth: map.tilewidth,
+    tileheight: map.tileheight,
+    infinite: map.infinite,
+    nextlayerid: map.nextlayerid,
+    nextobjectid: map.nextobjectid,
+  });
+  const tilesets = map.tilesets
+    .map((ref) => ` <tileset${xmlAttributes({ firstgid: ref.firstgid, source: ref.source })}/>\n`)
+    .join('');
+  return `<?xml version="1.0" encoding="UTF-8"?>\n<map${attributes}>\n${propertiesToXml(map.properties, ' ')}${tilesets}${map.layers.map(layerToXml).join('')}</map>\n`;
+}
+
+function tilesetToTsx(tileset: TiledTileset): string {
+  const attributes = xmlAttributes({
+    version: TILED_VERSION,
+    tiledversion: TILED_EDITOR_VERSION,
+    name: tileset.name,
+    tilewidth: tileset.tilewidth,
+    tileheight: tileset.tileheight,
+    spacing: tileset.spacing || undefined,
+    margin: tileset.margin || undefined,
+    tilecount: tileset.tilecount,
+    columns: tileset.columns,
+  });
+  const image = ` <image${xmlAttributes({ source: tileset.image, width: tileset.imagewidth, height: tileset.imageheight })}/>\n`;
+  const tiles = tileset.tiles
+    .map((tile) => {
+      const frames = tile.animation.map((frame) => `   <frame${xmlAttributes({ tileid: frame.tileid, duration: frame.duration })}/>\n`);
+      const animation = frames.length > 0 ? `  <animation>\n${frames.join('')}  </animation>\n` : '';
+      return ` <tile id="${tile.id}">\n${propertiesToXml(tile.properties, '  ')}${animation} </tile>\n`;
+    })
+    .join('');
+  return `<?xml version="1.0" encoding="UTF-8"?>\n<tileset${attributes}>\n${propertiesToXml(tileset.properties, ' ')}${image}${tiles}</tileset>\n`;
+}
+
+/**
+ * Convert a board to a Tiled map. The map file comes first, followed by one
+ * TSX file per tileset the board uses; the map references them by file name,
+ * so they should be saved next to it.
+ */
+export function exportTiledMap(board: TiledExportSource, tilesets: Tileset[], format: TiledMapFormat): TiledFile[] {
+  const { map, tilesetFiles } = boardToTiledMap(board, tilesets);
+  const baseName = board.name.trim().replace(/[^A-Za-z0-9_-]+/g, '_') || 'board';
+
+  return [
+    { name: `${baseName}.${format}`, contents: format === 'tmj' ? mapToTmj(map) : mapToTmx(map) },
+    ...Array.from(tilesetFiles.values()).map((tileset) => ({ name: tileset.fileName, contents: tilesetToTsx(tileset) })),
+  ];
+}
+
+// ---------------------------------------------------------------------------
+// Parsing
+
+const fileBaseName = (path: string) => path.split(/[\\/]/).pop() ?? path;
+
+function decodeLayerData(data: unknown, encoding?: string | null, compression?: string | null): number[] {
+  if (Array.isArray(data)) return data.map(Number);
+  if (typeof data !== 'string') return [];
+
+  if (compression) {
+    throw new Error(`Compressed (${compression}) tile layers aren't supported; save the map with CSV layer format`);
+  }
+  if (encoding === 'base64') {
+    const bytes = Uint8Array.from(atob(data.trim()), (c) => c.charCodeAt(0));
+    const view = new DataView(bytes.buffer);
+    const gids: number[] = [];
+    for (let offset = 0; offset + 4 <= bytes.length; offset += 4) {
+      gids.push(view.getUint32(offset, true));
+    }
+    return gids;
+  }
+  return data
+    .split(',')
+    .map((value) => value.trim())
+    .filter((value) => value.length > 0)
+    .map(Number);
+}
+
+// --- TMJ/TSJ
+
+function propertiesFromJson(value: unknown): TiledProperty[] {
+  if (!Array.isArray(value)) return [];
+  return value.map((property: any) => {
+    const type = toPropertyType(property.type);
+    return { name: String(property.name), type, value: parsePropertyValue(type, String(property.value)) };
+  });
+}
+
+function tilesetFromJson(json: any): TiledTileset {
+  if (!json.image) {
+    throw new Error(`Tileset "${json.name}" is an image collection, which isn't supported`);
+  }
+  return {
+    name: String(json.name ?? 'Tileset'),
+    tilewidth: Number(json.tilewidth),
+    tileheight: Number(json.tileheight),
+    spacing: Number(json.spacing ?? 0),
+    margin: Number(json.margin ?? 0),
+    tilecount: Number(json.tilecount ?? 0),
+    columns: Number(json.columns ?? 1),
+    image: String(json.image),
+    imagewidth: Number(json.imagewidth ?? 0),
+    imageheight: Number(json.imageheight ?? 0),
+    properties: propertiesFromJson(json.properties),
+    tiles: (Array.isArray(json.tiles) ? json.tiles : []).map((tile: any) => ({
+      id: Number(tile.id),
+      animation: (Array.isArray(tile.animation) ? tile.animation : []).map((frame: any) => ({
+        tileid: Number(frame.tileid),
+        duration: Number(frame.duration),
+      })),
+      properties: propertiesFromJson(tile.properties),
+    })),
+  };
+}
+
+function objectFromJson(json: any): TiledObject {
+  return {
+    id: Number(json.id),
+    name: String(json.name ?? ''),
+    type: String(json.type ?? json.class ?? ''),
+    x: Number(json.x ?? 0),
+    y: Number(json.y ?? 0),
+    width: Number(json.width ?? 0),
+    height: Number(json.height ?? 0),
+    rotation: Number(json.rotation ?? 0),
+    visible: json.visible !== false,
+    ellipse: json.ellipse === true || undefined,
+    point: json.point === true || undefined,
+    polygon: json.polygon,
+    polyline: json.polyline,
+    text: json.text,
+    gid: json.gid,
+    properties: propertiesFromJson(json.properties),
+  };
+}
+
+function layersFromJson(layers: any[], encoding?: string, compression?: string): TiledLayer[] {
+  return layers.flatMap((json: any): TiledLayer[] => {
+    const common = {
+      id: Number(json.id ?? 0),
+      name: String(json.name ?? ''),
+      opacity: Number(json.opacity ?? 1),
+      visible: json.visible !== false,
+      locked: json.locked === true,
+      properties: propertiesFromJson(json.properties),
+    };
+
+    if (json.type === 'group') {
+      // Group layers are flattened; their children keep their relative order
+      return layersFromJson(json.layers ?? [], encoding, compression);
+    }
+    if (json.type === 'objectgroup') {
+      return [{ ...common, type: 'objectgroup', draworder: json.draworder === 'index' ? 'index' : 'topdown', objects: (json.objects ?? []).map(objectFromJson) }];
+    }
+    if (json.type !== 'tilelayer') return [];
+
+    return [{
+      ...common,
+      type: 'tilelayer',
+      x: Number(json.x ?? 0),
+      y: Number(json.y ?? 0),
+      width: Number(json.width ?? 0),
+      height: Number(json.height ?? 0),
+      parallaxx: Number(json.parallaxx ?? 1),
+      parallaxy: Number(json.parallaxy ?? 1),
+      data: json.data !== undefined ? decodeLayerData(json.data, json.encoding, json.compression) : undefined,
+      chunks: json.chunks?.map((chunk: any) => ({
+        x: Number(chunk.x),
+        y: Number(chunk.y),
+        width: Number(chunk.width),
+        height: Number(chunk.height),
+        data: decodeLayerData(chunk.data, json.encoding, json.compression),
+      })),
+    }];
+  });
+}
+
+function mapFromJson(json: any): TiledMap {
+  if (json.type !== 'map') {
+    throw new Error('Not a Tiled map');
+  }
+  if (json.orientation && json.orientation !== 'orthogonal') {
+    throw new Error(`Only orthogonal maps are supported (this map is ${json.orientation})`);
+  }
+  return {
+    width: Number(json.width),
+    height: Number(json.height),
+    tilewidth: Number(json.tilewidth),
+    tileheight: Number(json.tileheight),
+    infinite: json.infinite === true,
+    nextlayerid: Number(json.nextlayerid ?? 1),
+    nextobjectid: Number(json.nextobjectid ?? 1),
+    layers: layersFromJson(json.layers ?? []),
+    tilesets: (json.tilesets ?? []).map((ref: any) => ({
+      firstgid: Number(ref.firstgid),
+      source: ref.source,
+      tileset: ref.source ? undefined : tilesetFromJson(ref),
+    })),
+    properties: propertiesFromJson(json.properties),
+  };
+}
+
+// --- TMX/TSX
+
+const childElements = (element: Element, tagName: string) =>
+  Array.from(element.children).filter((child) => child.tagName === tagName);
+
+const numberAttribute = (element: Element, name: string, fallback = 0) => {
+  const value = element.getAttribute(name);
+  return value === null ? fallback : Number(value);
+};
+
+function parseXml(contents: string): Document {
+  const document = new DOMParser().parseFromString(contents, 'application/xml');
+  const error = document.querySelector('parsererror');
+  if (error) {
+    throw new Error(`Invalid XML: ${error.textContent?.trim() ?? 'parse error'}`);
+  }
+  return document;
+}
+
+function propertiesFromXml(element: Element): TiledProperty[] {
+  const properties = childElements(element, 'properties')[0];
+  if (!properties) return [];
+  return childElements(properties, 'property').map((property) => {
+    const type = toPropertyType(property.getAttribute('type'));
+    // Multi-line string values are stored as the element's text
+    const value = property.getAttribute('value') ?? property.textContent ?? '';
+    return { name: property.getAttribute('name') ?? '', type, value: parsePropertyValue(type, value) };
+  });
+}
+
+function tilesetFromXml(element: Element): TiledTileset {
+  const image = childElements(element, 'image')[0];
+  const name = element.getAttribute('name') ?? 'Tileset';
+  if (!image) {
+    throw new Error(`Tileset "${name}" is an image collection, which isn't supported`);
+  }
+  return {
+    name,
+    tilewidth: numberAttribute(element, 'tilewidth'),
+    tileheight: numberAttribute(element, 'tileheight'),
+    spacing: numberAttribute(element, 'spacing'),
+    margin: numberAttribute(element, 'margin'),
+    tilecount: numberAttribute(element, 'tilecount'),
+    columns: numberAttribute(element, 'columns', 1),
+    image: image.getAttribute('source') ?? '',
+    imagewidth: numberAttribute(image, 'width'),
+    imageheight: numberAttribute(image, 'height'),
+    properties: propertiesFromXml(element),
+    tiles: childElements(element, 'tile').map((tile) => ({
+      id: numberAttribute(tile, 'id'),
+      animation: childElements(tile, 'animation').flatMap((animation) =>
+        childElements(animation, 'frame').map((frame) => ({
+          tileid: numberAttribute(frame, 'tileid'),
+          duration: numberAttribute(frame, 'duration'),
+        }))
+      ),
+      properties: propertiesFromXml(tile),
+    })),
+  };
+}
+
+const parsePoints = (points: string | null) =>
+  (points ?? '')
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((pair) => {
+      const [x, y] = pair.split(',').map(Number);
+      return { x, y };
+    });
+
+function objectFromXml(element: Element): TiledObject {
+  const polygon = childElements(element, 'polygon')[0];
+  const polyline = childElements(element, 'polyline')[0];
+  const text = childElements(element, 'text')[0];
+  const gid = element.getAttribute('gid');
+
+  return {
+    id: numberAttribute(element, 'id'),
+    name: element.getAttribute('name') ?? '',
+    type: element.getAttribute('type') ?? element.getAttribute('class') ?? '',
+    x: numberAttribute(element, 'x'),
+    y: numberAttribute(element, 'y'),
+    width: numberAttribute(element, 'width'),
+    height: numberAttribute(element, 'height'),
+    rotation: numberAttribute(element, 'rotation'),
+    visible: element.getAttribute('visible') !== '0',
+    ellipse: childElements(element, 'ellipse').length > 0 || undefined,
+    point: childElements(element, 'point').length > 0 || undefined,
+    polygon: polygon ? parsePoints(polygon.getAttribute('points')) : undefined,
+    polyline: polyline ? parsePoints(polyline.getAttribute('points')) : undefined,
+    text: text
+      ? {
+          text: text.textContent ?? '',
+          pixelsize: text.hasAttribute('pixelsize') ? numberAttribute(text, 'pixelsize') : undefined,
+          fontfamily: text.getAttribute('fontfamily') ?? undefined,
+          color: text.getAttribute('color') ?? undefined,
+          halign: (text.getAttribute('halign') as TiledText['halign']) ?? undefined,
+        }
+      : undefined,
+    gid: gid === null ? undefined : Number(gid),
+    properties: propertiesFromXml(element),
+  };
+}
+
+function layersFromXml(parent: Element): TiledLayer[] {
+  return Array.from(parent.children).flatMap((element): TiledLayer[] => {
+    const common = {
+      id: numberAttribute(element, 'id'),
+      name: element.getAttribute('name') ?? '',
+      opacity: numberAttribute(element, 'opacity', 1),
+      visible: element.getAttribute('visible') !== '0',
+      locked: element.getAttribute('locked') === '1',
+      properties: propertiesFromXml(element),
+    };
+
+    if (element.tagName === 'group') {
+      return layersFromXml(element);
+    }
+    if (element.tagName === 'objectgroup') {
+      return [{
+        ...common,
+        type: 'objectgroup',
+        draworder: element.getAttribute('draworder') === 'index' ? 'index' : 'topdown',
+        objects: childElements(element, 'object').map(objectFromXml),
+      }];
+    }
+    if (element.tagName !== 'layer') return [];
+
+    const data = childElements(element, 'data')[0];
+    const encoding = data?.getAttribute('encoding');
+    const compression = data?.getAttribute('compression');
+    if (data && !encoding) {
+      throw new Error('XML tile layer data isn\'t supported; save the map with CSV layer format');
+    }
+    const chunks = data ? childElements(data, 'chunk') : [];
+
+    return [{
+      ...common,
+      type: 'tilelayer',
+      x: numberAttribute(element, 'x'),
+      y: numberAttribute(element, 'y'),
+      width: numberAttribute(element, 'width'),
+      height: numberAttribute(element, 'height'),
+      parallaxx: numberAttribute(element, 'parallaxx', 1),
+      parallaxy: numberAttribute(element, 'parallaxy', 1),
+      data: data && chunks.length === 0 ? decodeLayerData(data.textContent ?? '', encoding, compression) : undefined,
+      chunks: chunks.length > 0
+        ? chunks.map((chunk) => ({
+            x: numberAttribute(chunk, 'x'),
+            y: numberAttribute(chunk, 'y'),
+            width: numberAttribute(chunk, 'width'),
+            height: numberAttribute(chunk, 'height'),
+            data: decodeLayerData(chunk.textContent ?? '', encoding, compression),
+          }))
+        : undefined,
+    }];
+  });
+}
+
+function mapFromXml(contents: string): TiledMap {
+  const map = parseXml(contents).documentElement;
+  if (map.tagName !== 'map') {
+    throw new Error('Not a Tiled map');
+  }
+  const orientation = map.getAttribute('orientation');
+  if (orientation && orientation !== 'orthogonal') {
+    throw new Error(`Only orthogonal maps are supported (this map is ${orientation})`);
+  }
+
+  return {
+    width: numberAttribute(map, 'width'),
+    height: numberAttribute(map, 'height'),
+    tilewidth: numberAttribute(map, 'tilewidth'),
+    tileheight: numberAttribute(map, 'tileheight'),
+    infinite: map.getAttribute('infinite') === '1',
+    nextlayerid: numberAttribute(map, 'nextlayerid', 1),
+    nextobjectid: numberAttribute(map, 'nextobjectid', 1),
+    layers: layersFromXml(map),
+    tilesets: childElements(map, 'tileset').map((element) => {
+      const source = element.getAttribute('source');
+      return {
+        firstgid: numberAttribute(element, 'firstgid', 1),
+        source: source ?? undefined,
+        tileset: source ? undefined : tilesetFromXml(element),
+      };
+    }),
+    properties: propertiesFromXml(map),
+  };
+}
+
+const isJson = (contents: string) => contents.trimStart().startsWith('{');
+
+function parseTilesetFile(contents: string): TiledTileset {
+  if (isJson(contents)) {
+    return tilesetFromJson(JSON.parse(contents));
+  }
+  const tileset = parseXml(contents).documentElement;
+  if (tileset.tagName !== 'tileset') {
+    throw new Error('Not a Tiled tileset');
+  }
+  return tilesetFromXml(tileset);
+}
+
+// ---------------------------------------------------------------------------
+// TiledMap -> board
+
+function tilesetFromTiled(tileset: TiledTileset): TiledImportedTileset {
+  const { properties } = tileset;
+  const declaredType = getString(properties, 'tilesetType');
+  const tilesetType = isOneOf(TILESET_TYPES, declaredType) ? declaredType : 'single-tile';
+  const columns = Math.max(1, tileset.columns);
+  const tileAnimations = tileset.tiles
+    .filter((tile) => tile.animation.length > 0)
+    .map((tile) => ({
+      tileIndex: tile.id,
+      frames: tile.animation.map((frame) => ({ tileIndex: frame.tileid, duration: Math.max(1, frame.duration) })),
+    }));
+  const { tileProperties, tilePropertyValues } = tilePropertiesFromTiled(tileset);
+
+  // Maps exported before `tileImageUrls` carry per-tile images in a tag
+  return withTileImageUrls({
+    sourceId: getString(properties, 'sourceId'),
+    name: tileset.name,
+    tileSize: tileset.tilewidth,
+    spacing: tileset.spacing,
+    imageUrl: tileset.image,
+    columns,
+    rows: Math.max(1, Math.ceil(tileset.tilecount / columns)),
+    tilesetType,
+    multiTileConfig: getJson(properties, 'multiTileConfig') ?? null,
+    autoTileTemplate: getString(properties, 'autoTileTemplate') ?? null,
+    variantGridConfig: getJson(properties, 'variantGridConfig') ?? null,
+    tags: getJson<string[]>(properties, 'tags') ?? [],
+    tileAnimations: tileAnimations.length > 0 ? tileAnimations : null,
+    tileProperties: tileProperties.length > 0 ? tileProperties : null,
+    tilePropertyValues: Object.keys(tilePropertyValues).length > 0 ? tilePropertyValues : null,
+    tileImageUrls: getJson<string[]>(properties, 'tileImageUrls') ?? null,
+  });
+}
+
+/**
+ * Tile property schema and values of an imported tileset. Tilesets exported
+ * by GameDevBoard carry their schema; for other tilesets it's inferred from
+ * the properties their tiles set.
+ */
+function tilePropertiesFromTiled(tileset: TiledTileset) {
+  const tileProperties = getJson<TilePropertyDefinition[]>(tileset.properties, 'tileProperties') ?? [];
+  const byName = new Map(tileProperties.map((definition) => [definition.name, definition]));
+  const tilePropertyValues: TilePropertyData = {};
+
+  tileset.tiles.forEach((tile) => {
+    tile.properties.forEach((property) => {
+      let definition = byName.get(property.name);
+      if (!definition) {
+        const type = property.type === 'bool' ? 'boolean' : property.type === 'string' ? 'string' : 'number';
+        definition = { name: property.name, type, default: defaultValueForType(type) };
+        byName.set(property.name, definition);
+        tileProperties.push(definition);
+      }
+      tilePropertyValues[String(tile.id)] = {
+        ...tilePropertyValues[String(tile.id)],
+        [property.name]: coerceTilePropertyValue(definition, property.value),
+      };
+    });
+  });
+
+  return { tileProperties, tilePropertyValues };
+}
+
+const fromPointList = (points: Array<{ x: number; y: number }>) => points.flatMap((point) => [point.x, point.y]);
+
+function shapeFromTiled(object: TiledObject, offsetX: number, offsetY: number): Shape {
+  const { properties } = object;
+  // Objects drawn in Tiled have no class, so infer the shape from their geometry
+  const type: ShapeType = isOneOf(SHAPE_TYPES, object.type)
+    ? object.type
+    : object.ellipse
+      ? 'circle'
+      : object.polygon
+        ? 'polygon'
+        : object.polyline
+          ? 'line'
+          : object.text
+            ? 'text'
+            : 'rectangle';
+  const groupId = getString(properties, 'groupId');
+
+  return {
+    id: getString(properties, 'sourceId') ?? uuidv4(),
+    type,
+    transform: {
+      x: object.x + offsetX,
+      y: object.y + offsetY,
+      width: object.width,
+      height: object.height,
+      rotation: object.rotation,
+      scaleX: getNumber(properties, 'scaleX') ?? 1,
+      scaleY: getNumber(properties, 'scaleY') ?? 1,
+    },
+    style: {
+      fill: getString(properties, 'fill') ?? object.text?.color ?? '#3b82f6',
+      stroke: getString(properties, 'stroke') ?? '#1e40af',
+      strokeWidth: getNumber(properties, 'strokeWidth') ?? 2,
+      opacity: getNumber(properties, 'opacity') ?? 1,
+      fontSize: object.text?.pixelsize,
+      fontFamily: object.text?.fontfamily,
+      textAlign: object.text?.halign,
+    },
+    text: object.text?.text,
+    metadata: {
+      createdBy: getString(properties, 'createdBy') ?? 'tiled',
+      createdAt: Date.now(),
+      locked: getBool(properties, 'locked') ?? false,
+      layer: getNumber(properties, 'layer') ?? 0,
+      ...(groupId ? { groupId } : {}),
+    },
+    points: object.polygon
+      ? fromPointList(object.polygon)
+      : object.polyline
+        ? fromPointList(object.polyline)
+        : undefined,
+  };
+}
+
+function spriteFromTiled(object: TiledObject, offsetX: number, offsetY: number): SpriteInstance {
+  const { properties } = object;
+  const animation = getString(properties, 'animation');
+
+  return {
+    id: getString(properties, 'sourceId') ?? uuidv4(),
+    spriteId: getString(properties, 'spriteId') ?? object.name,
+    x: object.x + offsetX,
+    y: object.y + offsetY,
+    scale: getNumber(properties, 'scale') ?? 1,
+    rotation: object.rotation,
+    currentAnimation: isOneOf(ANIMATION_STATES, animation) ? animation : 'idle',
+    flipX: getBool(properties, 'flipX') ?? false,
+    flipY: getBool(properties, 'flipY') ?? false,
+    layer: getNumber(properties, 'layer') ?? 0,
+    metadata: {
+      createdBy: getString(properties, 'createdBy') ?? 'tiled',
+      createdAt: Date.now(),
+      locked: getBool(properties, 'locked') ?? false,
+    },
+  };
+}
+
+/**
+ * Read a Tiled map (TMJ or TMX) together with the external tileset files it
+ * references. `files` must contain exactly one map; TSX/TSJ files are matched
+ * to the map's tileset references by file name.
+ */
+export async function importTiledMap(files: TiledFile[], resolveTileset: TiledTilesetResolver): Promise<TiledImportResult> {
+  const mapFiles = files.filter((file) => /\.(tmj|tmx|json)$/i.test(file.name));
+  if (mapFiles.length !== 1) {
+    throw new Error(mapFiles.length === 0 ? 'Select a .tmj or .tmx map' : 'Select only one map at a time');
+  }
+  const mapFile = mapFiles[0];
+  const map = isJson(mapFile.contents) ? mapFromJson(JSON.parse(mapFile.contents)) : mapFromXml(mapFile.contents);
+
+  // Resolve tileset references to our tilesets, keyed by firstgid
+  const tilesetRanges: Array<{ firstgid: number; tileset: Tileset | null }> = [];
+  const tilesets: Tileset[] = [];
+  for (const ref of map.tilesets) {
+    let tiledTileset = ref.tileset;
+    if (ref.source) {
+      const fileName = fileBaseName(ref.source);
+      const file = files.find((candidate) => fileBaseName(candidate.name) === fileName);
+      if (!file) {
+        throw new Error(`Missing tileset file "${fileName}"; select it together with the map`);
+      }
+      tiledTileset = parseTilesetFile(file.contents);
+    }
+    const tileset = tiledTileset ? await resolveTileset(tilesetFromTiled(tiledTileset)) : null;
+    if (tileset && !tilesets.includes(tileset)) {
+      tilesets.push(tileset);
+    }
+    tilesetRanges.push({ firstgid: ref.firstgid, tileset });
+  }
+  tilesetRanges.sort((a, b) => b.firstgid - a.firstgid);
+
+  const originX = getNumber(map.properties, 'originX') ?? 0;
+  const originY = getNumber(map.properties, 'originY') ?? 0;
+  const gridSize = map.tilewidth || 16;
+
+  const tileLayers: TileLayerDefinition[] = [];
+  const tiles: Tile[] = [];
+  const shapes: Shape[] = [];
+  const sprites: SpriteInstance[] = [];
+  let skippedTiles = 0;
+
+  const placeTiles = (layerId: string, data: number[], x0: number, y0: number, width: number) => {
+    data.forEach((rawGid, i) => {
+      const gid = rawGid & ~GID_FLAGS_MASK;
+      if (gid === 0) return;
+      const range = tilesetRanges.find((candidate) => candidate.firstgid <= gid);
+      if (!range?.tileset) {
+        skippedTiles++;
+        return;
+      }
+      tiles.push({
+        x: originX + x0 + (i % width),
+        y: originY + y0 + Math.floor(i / width),
+        tilesetId: range.tileset.id,
+        tileIndex: gid - range.firstgid,
+        layer: layerId,
+        ...fromDiagonalFlags({
+          diagonal: (rawGid & GID_FLIPPED_DIAGONALLY) !== 0,
+          horizontal: (rawGid & GID_FLIPPED_HORIZONTALLY) !== 0,
+          vertical: (rawGid & GID_FLIPPED_VERTICALLY) !== 0,
+        }),
+      });
+    });
+  };
+
+  map.layers.forEach((layer) => {
+    if (layer.type === 'objectgroup') {
+      const offsetX = originX * gridSize;
+      const offsetY = originY * gridSize;
+      layer.objects.forEach((object) => {
+        // Tile objects reference tileset images, which have no board equivalent
+        if (object.gid !== undefined) return;
+        if (object.type === SPRITE_CLASS) {
+          sprites.push(spriteFromTiled(object, offsetX, offsetY));
+        } else if (!object.point) {
+          shapes.push(shapeFromTiled(object, offsetX, offsetY));
+        }
+      });
+      return;
+    }
+
+    const sourceId = getString(layer.properties, 'sourceId');
+    const id = sourceId && !tileLayers.some((l) => l.id === sourceId) ? sourceId : uuidv4();
+    tileLayers.push({
+      id,
+      name: layer.name.slice(0, 50) || `Layer ${tileLayers.length + 1}`,
+      order: tileLayers.length,
+      visible: layer.visible,
+      locked: layer.locked,
+      opacity: Math.min(1, Math.max(0, layer.opacity)),
+      parallax: { x: layer.parallaxx, y: layer.parallaxy },
+    });
+
+    if (layer.chunks) {
+      layer.chunks.forEach((chunk) => placeTiles(id, chunk.data, chunk.x, chunk.y, chunk.width));
+    } else if (layer.data) {
+      placeTiles(id, layer.data, layer.x, layer.y, layer.width);
+    }
+  });
+
+  return {
+    name: fileBaseName(mapFile.name).replace(/\.[^.]+$/, ''),
+    gridSize,
+    tileLayers,
+    tiles,
+    shapes,
+    sprites,
+    tilesets,
+    skippedTiles,
+  };
+}
@@ -14,15 +14,21 @@ import {
   executeSetPhysics,
   executePlatformerTerrain,
   executeAnimateSprite,
+  executeGenerateTerrain,
+  executeDungeonLevel,
   type ExecutionResult 
 } from './executor.js';
-import type { CanvasState, TileMap } from "@shared/schema";
+import { tileLayerDefinitionSchema, tileLayerIdSchema, toolTypeEnum, type CanvasState, type TerrainSetConfig, type TileMap } from "@shared/schema";
 import { storage } from "../storage";
 import {
   paintTerrainSchema,
   createShapesSchema,
+  analyzeCanvasSchema,
   clearCanvasSchema,
-  placeObjectSchema
+  placeObjectSchema,
+  generateTerrainSchema,
+  createDungeonLevelSchema,
+  createPlatformerLevelSchema
 } from "./validation";
 import { getEnvironment } from '../config/env.js';
 import { 
@@ -58,7 +64,7 @@ const chatMessageSchema = z.object({
     .min(1, 'Message content cannot be empty')
     .max(VALIDATION_LIMITS.CHAT_MESSAGE_MAX, `Message content cannot exceed ${VALIDATION_LIMITS.CHAT_MESSAGE_MAX} characters`)
     // Sanitize only for display/storage, but keep original for AI processing
-    .transform((val) => {
+    .transform((val): string => {
       // Only sanitize if content appears to contain HTML/script tags
       // This preserves normal text while still protecting against XSS
       if (/<[^>]+>/g.test(val)) {
@@ -73,7 +79,7 @@ const canvasStateSchema = z.object({
   shapes: z.array(z.any()).optional().default([]),
   selectedIds: z.array(z.string()).optional().default([]),
   sprites: z.array(z.any()).optional().default([]),
-  tool: z.string().optional(),
+  tool: toolTypeEnum.optional().default('select'),
   zoom: z.number().min(0.1).max(10).optional().default(1),
   pan: z.object({
     x: z.number(),
@@ -87,6 +93,7 @@ const canvasStateSchema = z.object({
 const tileMapSchema = z.object({
   gridSize: z.number().min(1).max(100).optional().default(32),
   tiles: z.array(z.any()).optional().default([]),
+  layers: z.array(tileLayerDefinitionSchema).optional(),
   spriteDefinitions: z.array(z.any()).optional().default([])
 });
 
@@ -96,6 +103,7 @@ const chatRequestSchema = z.object({
     .max(50, 'Too many messages in conversation'),
   canvasState: canvasStateSchema,
   tileMap: tileMapSchema,
+  activeTileLayerId: tileLayerIdSchema.optional(), // Layer generators paint on
   tilesets: z.array(z.object({}).passthrough()).optional()
 });
 
@@ -104,6 +112,246 @@ const functionExecutionSchema = z.object({
   arguments: z.string().min(1, 'Function arguments are required')
 });
 
+// Functions whose results depend on a seed and can be regenerated
+const SEEDED_FUNCTIONS = [
+  "paintTerrain",
+  "generateTerrain",
+  "createShapes",
+  "placeObject",
+  "placeSprites",
+  "createPlatformerLevel",
+  "createDungeonLevel"
+] as const;
+
+const regenerateRequestSchema = z.object({
+  calls: z.array(z.object({
+    functionName: z.enum(SEEDED_FUNCTIONS),
+    arguments: z.record(z.unknown())
+  }))
+    .min(1, 'At least one call is required')
+    .max(10, 'Too many calls to regenerate'),
+  canvasState: canvasStateSchema,
+  tileMap: tileMapSchema,
+  activeTileLayerId: tileLayerIdSchema.optional()
+});
+
+// Terrain priorities and transitions come from the tileset packs
+async function loadTerrainSets(): Promise<TerrainSetConfig[]> {
+  try {
+    const packs = await storage.getAllTilesetPacks();
+    return packs.flatMap((pack) => (pack.terrainSet ? [pack.terrainSet] : []));
+  } catch (packError: any) {
+    console.error('[AI_CHAT] Failed to fetch tileset packs:', packError);
+    logError(packError, 'FETCH_TILESET_PACKS');
+    return [];
+  }
+}
+
+interface CanvasFunctionContext {
+  canvasState: CanvasState;
+  tileMap: TileMap;
+  tilesets: any[];
+  terrainSets: TerrainSetConfig[];
+  activeTileLayerId?: string;
+}
+
+// Run one AI function call against the canvas
+function executeCanvasFunction(
+  functionName: string,
+  functionArgs: any,
+  { canvasState, tileMap, tilesets, terrainSets, activeTileLayerId }: CanvasFunctionContext
+): ExecutionResult {
+  let result: ExecutionResult;
+
+  switch (functionName) {
+    case "paintTerrain": {
+      const validation = paintTerrainSchema.safeParse(functionArgs);
+      if (!validation.success) {
+        result = {
+          success: false,
+          message: `Invalid paintTerrain arguments: ${fromZodError(validation.error).message}`
+        };
+      } else {
+        console.log(`[AI_CHAT] Calling executePaintTerrain with tilesets count: ${tilesets?.length || 0}`);
+        result = executePaintTerrain(validation.data, canvasState, tileMap, tilesets || [], terrainSets);
+      }
+      break;
+    }
+    case "generateTerrain": {
+      const validation = generateTerrainSchema.safeParse(functionArgs);
+      if (!validation.success) {
+        result = {
+          success: false,
+          message: `Invalid generateTerrain arguments: ${fromZodError(validation.error).message}`
+        };
+      } else {
+        result = executeGenerateTerrain(validation.data, canvasState, tileMap, tilesets || [], terrainSets);
+      }
+      break;
+    }
+    case "createDungeonLevel": {
+      const validation = createDungeonLevelSchema.safeParse(functionArgs);
+      if (!validation.success) {
+        result = {
+          success: false,
+          message: `Invalid createDungeonLevel arguments: ${fromZodError(validation.error).message}`
+        };
+      } else {
+        result = executeDungeonLevel(validation.data, canvasState, tileMap, tilesets || [], terrainSets, activeTileLayerId);
+      }
+      break;
+    }
+    case "createShapes": {
+      const validation = createShapesSchema.safeParse(functionArgs);
+      if (!validation.success) {
+        result = {
+          success: false,
+          message: `Invalid createShapes arguments: ${fromZodError(validation.error).message}`
+        };
+      } else {
+        result = executeCreateShapes(validation.data, canvasState);
+      }
+      break;
+    }
+    case "analyzeCanvas": {
+      const validation = analyzeCanvasSchema.safeParse(functionArgs);
+      if (!validation.success) {
+        result = {
+          success: false,
+          message: `Invalid analyzeCanvas arguments: ${fromZodError(validation.error).message}`
+        };
+      } else {
+        result = executeAnalyzeCanvas(canvasState, tileMap, tilesets || [], validation.data);
+      }
+      break;
+    }
+    case "placeObject": {
+      const validation = placeObjectSchema.safeParse(functionArgs);
+      if (!validation.success) {
+        result = {
+          success: false,
+          message: `Invalid placeObject arguments: ${fromZodError(validation.error).message}`
+        };
+      } else {
+        console.log(`[AI_CHAT] Calling executePlaceObject with tilesets count: ${tilesets?.length || 0}`);
+        result = executePlaceObject(validation.data, canvasState, tileMap, tilesets || []);
+      }
+      break;
+    }
+    case "clearCanvas": {
+      try {
+        const validation = clearCanvasSchema.safeParse(functionArgs);
+        if (!validation.success) {
+          result = {
+            success: false,
+            message: `Invalid clearCanvas arguments: ${fromZodError(validation.error).message}`
+          };
+        } else {
+          console.log(`[AI_CHAT] Calling executeClearCanvas with target: ${validation.data.target}`, {
+            canvasStateShapes: canvasState?.shapes?.length || 0,
+            tileMapTiles: tileMap?.tiles?.length || 0
+          });
+          // Ensure we have valid copies of state to avoid mutations
+          const safeCanvasState = {
+            ...canvasState,
+            shapes: canvasState?.shapes ? [...canvasState.shapes] : []
+          };
+          const safeTileMap = {
+            ...tileMap,
+            tiles: tileMap?.tiles ? [...tileMap.tiles] : []
+          };
+          result = executeClearCanvas(validation.data, safeCanvasState, safeTileMap);
+        }
+      } catch (execError: any) {
+        console.error('[AI_CHAT] Error executing clearCanvas:', {
+          errorType: execError.constructor?.name,
+          message: execError.message,
+          stack: execError.stack?.substring(0, 500)
+        });
+        logError(execError, 'EXECUTE_CLEAR_CANVAS');
+        result = {
+          success: false,
+          message: `Failed to execute clearCanvas: ${execError.message || 'Unknown error'}`
+        };
+      }
+      break;
+    }
+    case "placeSprites":
+      try {
+        result = executePlaceSprites(functionArgs, canvasState);
+      } catch (execError: any) {
+        logError(execError, 'EXECUTE_PLACE_SPRITES');
+        result = {
+          success: false,
+          message: `Failed to execute placeSprites: ${execError.message}`
+        };
+      }
+      break;
+    case "createSprite":
+      try {
+        result = executeCreateSprite(functionArgs, canvasState);
+      } catch (execError: any) {
+        logError(execError, 'EXECUTE_CREATE_SPRITE');
+        result = {
+          success: false,
+          message: `Failed to execute createSprite: ${execError.message}`
+        };
+      }
+      break;
+    case "setPlatformPhysics":
+      try {
+        result = executeSetPhysics(functionArgs, canvasState, tileMap);
+      } catch (execError: any) {
+        logError(execError, 'EXECUTE_SET_PHYSICS');
+        result = {
+          success: false,
+          message: `Failed to execute setPlatformPhysics: ${execError.message}`
+        };
+      }
+      break;
+    case "createPlatformerLevel": {
+      const validation = createPlatformerLevelSchema.safeParse(functionArgs);
+      if (!validation.success) {
+        result = {
+          success: false,
+          message: `Invalid createPlatformerLevel arguments: ${fromZodError(validation.error).message}`
+        };
+        break;
+      }
+      try {
+        console.log(`[AI_CHAT] Calling executePlatformerTerrain with tilesets count: ${tilesets?.length || 0}`);
+        result = executePlatformerTerrain(validation.data, canvasState, tileMap, tilesets || [], terrainSets);
+      } catch (execError: any) {
+        logError(execError, 'EXECUTE_PLATFORMER_TERRAIN');
+        result = {
+          success: false,
+          message: `Failed to execute createPlatformerLevel: ${execError.message}`
+        };
+      }
+      break;
+    }
+    case "animateSprite":
+      try {
+        result = executeAnimateSprite(functionArgs, canvasState);
+      } catch (execError: any) {
+        logError(execError, 'EXECUTE_ANIMATE_SPRITE');
+        result = {
+          success: false,
+          message: `Failed to execute animateSprite: ${execError.message}`
+        };
+      }
+      break;
+    default:
+      result = {
+        success: false,
+        message: `Unknown function: ${functionName}`
+      };
+      logError(new Error(`Unknown function called: ${functionName}`), 'UNKNOWN_FUNCTION');
+  }
+
+  return result;
+}
+
 export const handleAiChat = asyncHandler(async (req: Request, res: Response) => {
   // Ensure request body is properly parsed
   // This is defensive - express.json() should already handle this, but check anyway
@@ -136,6 +384,7 @@ export const handleAiChat = asyncHandler(async (req: Request, res: Response) =>
   let canvasState: CanvasState;
   let tileMap: TileMap;
   let tilesets: any[] | undefined;
+  let activeTileLayerId: string | undefined;
 
   try {
     const requestData = validateParams(chatRequestSchema, req.body);
@@ -143,6 +392,7 @@ export const handleAiChat = asyncHandler(async (req: Request, res: Response) =>
     canvasState = requestData.canvasState;
     tileMap = requestData.tileMap;
     tilesets = requestData.tilesets;
+    activeTileLayerId = requestData.activeTileLayerId;
     
     console.log('[AI_CHAT] Validation passed:', {
       messageCount: messages.length,
@@ -211,7 +461,7 @@ export const handleAiChat = asyncHandler(async (req: Request, res: Response) =>
       try {
         const allTilesets = await storage.getAllTilesets();
         // Pass full tileset objects for functions that need tilesetType and multiTileConfig
-        tilesets = allTilesets as any;
+        tilesets = allTilesets;
         console.log('[AI_CHAT] Fetched tilesets from storage:', {
           count: tilesets.length,
           names: tilesets.map((t: any) => t.name).slice(0, 10)
@@ -224,6 +474,8 @@ export const handleAiChat = asyncHandler(async (req: Request, res: Response) =>
       }
     }
     
+    const terrainSets = await loadTerrainSets();
+    
     // Ensure tilesets is always an array (never undefined)
     if (!tilesets) {
       console.warn('[AI_CHAT] Tilesets is undefined, defaulting to empty array');
@@ -278,6 +530,7 @@ ENHANCED CAPABILITIES:
    - Themes: forest, cave, castle, sky
    - Sizes: small (30x20), medium (50x30), large (80x40), massive (120x60)
    - Features: moving-platforms, hazards, secrets, checkpoints
+   - For top-down boards, use createDungeonLevel() for dungeons of rooms, corridors and doors with start, boss and treasure spawn points
 
 4. **BOARD TYPE RECOMMENDATIONS**:
    When users mention:
@@ -288,6 +541,7 @@ ENHANCED CAPABILITIES:
 
 5. **SPATIAL LANGUAGE INTERPRETATION**:
    - "field" / "area" / "background" → use 'fill' pattern with large area
+   - "island" / "landscape" / "natural terrain" / "random map" → use generateTerrain() over the area
    - "river" / "winding river" / "stream" / "lake" / "pond" / "water" → use 'winding_path' pattern with high aspect ratio, use "Lake" or "Water Terrain" tileset (they are equivalent)
    - "path" / "road" / "trail" / "dirt path" / "walkway" → use "DirtPath" tileset with appropriate path patterns based on direction
    - "platform" / "ledge" → create elevated terrain with platform physics
@@ -508,149 +762,10 @@ Always consider the complete game experience and suggest enhancements that impro
             tilesets = [];
           }
 
-          // Execute function based on name
-          switch (functionName) {
-            case "paintTerrain": {
-              const validation = paintTerrainSchema.safeParse(functionArgs);
-              if (!validation.success) {
-                result = {
-                  success: false,
-                  message: `Invalid paintTerrain arguments: ${fromZodError(validation.error).message}`
-                };
-              } else {
-                console.log(`[AI_CHAT] Calling executePaintTerrain with tilesets count: ${tilesets?.length || 0}`);
-                result = executePaintTerrain(validation.data, canvasState, tileMap, tilesets || []);
-              }
-              break;
-            }
-            case "createShapes": {
-              const validation = createShapesSchema.safeParse(functionArgs);
-              if (!validation.success) {
-                result = {
-                  success: false,
-                  message: `Invalid createShapes arguments: ${fromZodError(validation.error).message}`
-                };
-              } else {
-                result = executeCreateShapes(validation.data, canvasState);
-              }
-              break;
-            }
-            case "analyzeCanvas":
-              result = executeAnalyzeCanvas(canvasState, tileMap);
-              break;
-            case "placeObject": {
-              const validation = placeObjectSchema.safeParse(functionArgs);
-              if (!validation.success) {
-                result = {
-                  success: false,
-                  message: `Invalid placeObject arguments: ${fromZodError(validation.error).message}`
-                };
-              } else {
-                console.log(`[AI_CHAT] Calling executePlaceObject with tilesets count: ${tilesets?.length || 0}`);
-                result = executePlaceObject(validation.data, canvasState, tileMap, tilesets || []);
-              }
-              break;
-            }
-            case "clearCanvas": {
-              try {
-                const validation = clearCanvasSchema.safeParse(functionArgs);
-                if (!validation.success) {
-                  result = {
-                    success: false,
-                    message: `Invalid clearCanvas arguments: ${fromZodError(validation.error).message}`
-                  };
-                } else {
-                  console.log(`[AI_CHAT] Calling executeClearCanvas with target: ${validation.data.target}`, {
-                    canvasStateShapes: canvasState?.shapes?.length || 0,
-                    tileMapTiles: tileMap?.tiles?.length || 0
-                  });
-                  // Ensure we have valid copies of state to avoid mutations
-                  const safeCanvasState = {
-                    ...canvasState,
-                    shapes: canvasState?.shapes ? [...canvasState.shapes] : []
-                  };
-                  const safeTileMap = {
-                    ...tileMap,
-                    tiles: tileMap?.tiles ? [...tileMap.tiles] : []
-                  };
-                  result = executeClearCanvas(validation.data, safeCanvasState, safeTileMap);
-                }
-              } catch (execError: any) {
-                console.error('[AI_CHAT] Error executing clearCanvas:', {
-                  errorType: execError.constructor?.name,
-                  message: execError.message,
-                  stack: execError.stack?.substring(0, 500)
-                });
-                logError(execError, 'EXECUTE_CLEAR_CANVAS');
-                result = {
-                  success: false,
-                  message: `Failed to execute clearCanvas: ${execError.message || 'Unknown error'}`
-                };
-              }
-              break;
-            }
-            case "placeSprites":
-              try {
-                result = executePlaceSprites(functionArgs, canvasState);
-              } catch (execError: any) {
-                logError(execError, 'EXECUTE_PLACE_SPRITES');
-                result = {
-                  success: false,
-                  message: `Failed to execute placeSprites: ${execError.message}`
-                };
-              }
-              break;
-            case "createSprite":
-              try {
-                result = executeCreateSprite(functionArgs, canvasState);
-              } catch (execError: any) {
-                logError(execError, 'EXECUTE_CREATE_SPRITE');
-                result = {
-                  success: false,
-                  message: `Failed to execute createSprite: ${execError.message}`
-                };
-              }
-              break;
-            case "setPlatformPhysics":
-              try {
-                result = executeSetPhysics(functionArgs, canvasState, tileMap);
-              } catch (execError: any) {
-                logError(execError, 'EXECUTE_SET_PHYSICS');
-                result = {
-                  success: false,
-                  message: `Failed to execute setPlatformPhysics: ${execError.message}`
-                };
-              }
-              break;
-            case "createPlatformerLevel":
-              try {
-                console.log(`[AI_CHAT] Calling executePlatformerTerrain with tilesets count: ${tilesets?.length || 0}`);
-                result = executePlatformerTerrain(functionArgs, canvasState, tileMap, tilesets || []);
-              } catch (execError: any) {
-                logError(execError, 'EXECUTE_PLATFORMER_TERRAIN');
-                result = {
-                  success: false,
-                  message: `Failed to execute createPlatformerLevel: ${execError.message}`
-                };
-              }
-              break;
-            case "animateSprite":
-              try {
-                result = executeAnimateSprite(functionArgs, canvasState);
-              } catch (execError: any) {
-                logError(execError, 'EXECUTE_ANIMATE_SPRITE');
-                result = {
-                  success: false,
-                  message: `Failed to execute animateSprite: ${execError.message}`
-                };
-              }
-              break;
-            default:
-              result = {
-                success: false,
-                message: `Unknown function: ${functionName}`
-              };
-              logError(new Error(`Unknown function called: ${functionName}`), 'UNKNOWN_FUNCTION');
+          result = executeCanvasFunction(functionName, functionArgs, { canvasState, tileMap, tilesets, terrainSets, activeTileLayerId });
+          // Seeded results remember their call so the client can regenerate them
+          if (result.seed !== undefined) {
+            result.call = { functionName, arguments: { ...functionArgs, seed: result.seed } };
           }
         } catch (functionError: any) {
           console.error(`[AI_CHAT] Error in function execution wrapper for ${functionName}:`, {
@@ -872,3 +987,46 @@ Always consider the complete game experience and suggest enhancements that impro
     }
   }
 });
+
+/**
+ * Runs earlier AI function calls again without asking the model. A call that
+ * keeps the seed in its arguments reproduces its result; one without a seed
+ * gets a new one. The client sends the canvas as it was before the result.
+ */
+export const handleAiRegenerate = asyncHandler(async (req: Request, res: Response) => {
+  const { calls, canvasState, tileMap, activeTileLayerId }: z.infer<typeof regenerateRequestSchema> =
+    validateParams(regenerateRequestSchema, req.body);
+
+  let tilesets: any[] = [];
+  try {
+    tilesets = await storage.getAllTilesets();
+  } catch (tilesetError: any) {
+    logError(tilesetError, 'FETCH_TILESETS');
+  }
+  const terrainSets = await loadTerrainSets();
+
+  const results = calls.map(({ functionName, arguments: functionArgs }) => {
+    let result: ExecutionResult;
+    try {
+      result = executeCanvasFunction(functionName, functionArgs, {
+        canvasState: canvasState as CanvasState,
+        tileMap,
+        tilesets,
+        terrainSets,
+        activeTileLayerId
+      });
+    } catch (execError: any) {
+      logError(execError, 'AI_REGENERATE');
+      result = {
+        success: false,
+        message: `Failed to regenerate ${functionName}: ${execError.message || 'Unknown error'}`
+      };
+    }
+    if (result.seed !== undefined) {
+      result.call = { functionName, arguments: { ...functionArgs, seed: result.seed } };
+    }
+    return result;
+  });
+
+  res.json({ results });
+});
@@ -1,6 +1,13 @@
-import type { CanvasState, TileMap, Shape, Tile } from "@shared/schema";
+import type { CanvasState, TileMap, Shape, Tile, TerrainSetConfig, Tileset, TilesetType, TilePropertyValue } from "@shared/schema";
 import { v4 as uuidv4 } from "uuid";
-import { applyAutoTiling } from "./autoTiling";
+import { TileGrid, tileKey } from "@shared/tileGrid";
+import { getTilePropertyValues } from "@shared/tileProperties";
+import { DEFAULT_TILE_LAYERS, layerAbove } from "@shared/tileLayers";
+import { applyAutoTiling } from "@shared/autoTiling";
+import { createSeededRandom, MAX_SEED, randomInt, randomSeed, type RandomSource } from "@shared/seededRandom";
+import { BIOMES, generateTerrain, matchBiomeTilesets, type Biome, type BiomeThresholds } from "@shared/terrainGeneration";
+import { caveGround, caveTiles, generateCave, MAX_CAVE_SIZE, type CaveRules } from "@shared/caveGeneration";
+import { DEFAULT_MIN_ROOM_SIZE, dungeonTiles, generateDungeon, spawnSprites } from "@shared/dungeonGeneration";
 
 // AI function execution results
 export interface ExecutionResult {
@@ -13,12 +20,15 @@ export interface ExecutionResult {
     tiles?: Tile[];
     sprites?: any[];
   };
+  seed?: number; // Set by generators that use randomness, so the result can be reproduced
+  call?: { functionName: string; arguments: Record<string, unknown> }; // The call that made the result, for regenerating it
 }
 
 // Helper: Generate points for a curved path (Catmull-Rom spline)
 function generateCurvedPath(
   start: { x: number; y: number },
   end: { x: number; y: number },
+  random: RandomSource,
   curvePoints: number = 3,
   curvature: number = 0.3
 ): Array<{ x: number; y: number }> {
@@ -38,8 +48,8 @@ function generateCurvedPath(
     const perpX = -dy / length;
     const perpY = dx / length;
     
-    // Alternate curve direction for winding effect
-    const offset = (i % 2 === 0 ? 1 : -1) * curvature * length;
+    // Alternate curve direction for winding effect, varying how far each bend reaches
+    const offset = (i % 2 === 0 ? 1 : -1) * curvature * length * (0.5 + random());
     
     controlPoints.push({
       x: Math.round(baseX + perpX * offset),
@@ -129,10 +139,12 @@ export function executePaintTerrain(
     pattern: string;
     pathWidth?: number;
     curveIntensity?: number;
+    seed?: number;
   },
   canvasState: CanvasState,
   tileMap: TileMap,
-  tilesets: Array<{ id: string; name: string }>
+  tilesets: Array<{ id: string; name: string }>,
+  terrainSets: TerrainSetConfig[] = []
 ): ExecutionResult {
   // Guard against undefined or null tilesets
   if (!tilesets || !Array.isArray(tilesets)) {
@@ -158,6 +170,7 @@ export function executePaintTerrain(
 
   const newTiles: Tile[] = [];
   const { x, y, width, height } = params.area;
+  const seed = params.seed ?? randomSeed();
 
   if (params.pattern === "fill") {
     // Fill entire area
@@ -245,7 +258,7 @@ export function executePaintTerrain(
     
     // Generate curved path with 3-5 curve points for natural winding
     const curvePoints = Math.max(3, Math.floor(Math.max(width, height) / 10));
-    const pathCurve = generateCurvedPath(start, end, curvePoints, curveIntensity);
+    const pathCurve = generateCurvedPath(start, end, createSeededRandom(seed), curvePoints, curveIntensity);
     
     // Generate tiles along the curved path
     newTiles.push(...generatePathTiles(pathCurve, pathWidth, tileset.id));
@@ -268,12 +281,79 @@ export function executePaintTerrain(
 
   // Apply auto-tiling to all tiles (new + existing)
   // This calculates correct edge/corner pieces based on neighbors
-  const autoTiledTiles = applyAutoTiling(newTiles, tileMap.tiles, tileset.id);
+  const autoTiledTiles = applyAutoTiling(newTiles, TileGrid.fromTiles(tileMap.tiles), tilesets, terrainSets);
 
   return {
     success: true,
     message: `Painted ${autoTiledTiles.length} ${params.tilesetName} tiles in ${params.pattern} pattern with auto-tiling`,
-    canvasUpdates: { tiles: autoTiledTiles }
+    canvasUpdates: { tiles: autoTiledTiles },
+    seed
+  };
+}
+
+// Generate natural terrain from seeded height and moisture noise, one tileset per biome
+export function executeGenerateTerrain(
+  params: {
+    area: { x: number; y: number; width: number; height: number };
+    scale?: number;
+    thresholds?: Partial<BiomeThresholds>;
+    biomes?: Partial<Record<Biome, string>>;
+    seed?: number;
+  },
+  canvasState: CanvasState,
+  tileMap: TileMap,
+  tilesets: Array<{ id: string; name: string; tilesetType?: TilesetType }>,
+  terrainSets: TerrainSetConfig[] = []
+): ExecutionResult {
+  // Guard against undefined or null tilesets
+  if (!tilesets || !Array.isArray(tilesets)) {
+    return {
+      success: false,
+      message: 'Tilesets not available. Please ensure tilesets are loaded.'
+    };
+  }
+
+  // Named tilesets override the ones matched by name
+  const matched = matchBiomeTilesets(tilesets);
+  const biomeTilesets: Partial<Record<Biome, string>> = {};
+  for (const biome of BIOMES) {
+    const name = params.biomes?.[biome];
+    const tileset = name ? tilesets.find(t => t.name === name) : matched[biome];
+    if (name && !tileset) {
+      return {
+        success: false,
+        message: `Tileset "${name}" for ${biome} not found`
+      };
+    }
+    if (tileset) biomeTilesets[biome] = tileset.id;
+  }
+
+  if (Object.keys(biomeTilesets).length === 0) {
+    return {
+      success: false,
+      message: 'No terrain tilesets found for water, sand, grass, dirt or stone'
+    };
+  }
+
+  const seed = params.seed ?? randomSeed();
+  const { tiles, counts } = generateTerrain({
+    area: params.area,
+    seed,
+    scale: params.scale,
+    thresholds: params.thresholds,
+    biomeTilesets
+  });
+  const autoTiledTiles = applyAutoTiling(tiles, TileGrid.fromTiles(tileMap.tiles), tilesets, terrainSets);
+
+  const summary = BIOMES
+    .filter(biome => counts[biome] > 0)
+    .map(biome => `${counts[biome]} ${biome}${biomeTilesets[biome] ? '' : ' (no tileset, left empty)'}`)
+    .join(', ');
+  return {
+    success: true,
+    message: `Generated ${params.area.width}x${params.area.height} terrain: ${summary}, with auto-tiling`,
+    canvasUpdates: { tiles: autoTiledTiles },
+    seed
   };
 }
 
@@ -285,10 +365,13 @@ export function executeCreateShapes(
     layout: string;
     area?: { x: number; y: number; width: number; height: number };
     style?: { fill?: string; stroke?: string; size?: number };
+    seed?: number;
   },
   canvasState: CanvasState
 ): ExecutionResult {
   const newShapes: Shape[] = [];
+  const seed = params.seed ?? randomSeed();
+  const random = createSeededRandom(seed);
   
   // Default area if not specified (center of canvas)
   const area = params.area || { x: 200, y: 200, width: 400, height: 400 };
@@ -306,8 +389,8 @@ export function executeCreateShapes(
       x = area.x + (col * (area.width / cols)) + (area.width / cols / 2);
       y = area.y + (row * (area.height / cols)) + (area.height / cols / 2);
     } else if (params.layout === "random") {
-      x = area.x + Math.random() * area.width;
-      y = area.y + Math.random() * area.height;
+      x = area.x + random() * area.width;
+      y = area.y + random() * area.height;
     } else if (params.layout === "circle") {
       const angle = (i / params.count) * Math.PI * 2;
       const radius = Math.min(area.width, area.height) / 3;
@@ -350,17 +433,23 @@ export function executeCreateShapes(
   return {
     success: true,
     message: `Created ${params.count} ${params.shapeType}(s) in ${params.layout} layout`,
-    canvasUpdates: { shapes: newShapes }
+    canvasUpdates: { shapes: newShapes },
+    seed
   };
 }
 
-// Analyze the canvas
+const MAX_LISTED_TILES = 20;
+
+// Analyze the canvas, optionally finding the tiles whose custom property has a value
 export function executeAnalyzeCanvas(
   canvasState: CanvasState,
-  tileMap: TileMap
+  tileMap: TileMap,
+  tilesets: Tileset[] = [],
+  query: { propertyName?: string; propertyValue?: TilePropertyValue } = {}
 ): ExecutionResult {
+  const tileGrid = TileGrid.fromTiles(tileMap.tiles);
   const shapeCount = canvasState.shapes.length;
-  const tileCount = tileMap.tiles.length;
+  const tileCount = tileGrid.size;
   
   // Count shape types
   const shapeCounts: Record<string, number> = {};
@@ -370,15 +459,35 @@ export function executeAnalyzeCanvas(
 
   // Count tile types
   const tileCounts: Record<string, number> = {};
-  tileMap.tiles.forEach(tile => {
+  tileGrid.forEach(tile => {
     tileCounts[tile.tilesetId] = (tileCounts[tile.tilesetId] || 0) + 1;
   });
 
+  // Count custom tile property values, and collect the tiles matching the query
+  const tilesetsById = new Map(tilesets.map(tileset => [tileset.id, tileset]));
+  const propertyCounts: Record<string, Record<string, number>> = {};
+  const matches: Array<{ x: number; y: number }> = [];
+  tileGrid.forEach(tile => {
+    const values = getTilePropertyValues(tilesetsById.get(tile.tilesetId), tile.tileIndex);
+    Object.entries(values).forEach(([name, value]) => {
+      propertyCounts[name] = propertyCounts[name] || {};
+      propertyCounts[name][String(value)] = (propertyCounts[name][String(value)] || 0) + 1;
+    });
+    if (
+      query.propertyName &&
+      query.propertyName in values &&
+      (query.propertyValue === undefined || values[query.propertyName] === query.propertyValue)
+    ) {
+      matches.push({ x: tile.x, y: tile.y });
+    }
+  });
+
   const analysis = {
     totalShapes: shapeCount,
     totalTiles: tileCount,
     shapeBreakdown: shapeCounts,
     tileBreakdown: tileCounts,
+    propertyBreakdown: propertyCounts,
     canvasInfo: {
       zoom: canvasState.zoom,
       gridSize: canvasState.gridSize,
@@ -402,9 +511,26 @@ export function executeAnalyzeCanvas(
     }
   }
 
+  const propertyLines = Object.entries(propertyCounts).map(([name, counts]) =>
+    `- ${name}: ${Object.entries(counts).map(([value, count]) => `${value} (${count})`).join(', ')}`
+  );
+  const propertySection = propertyLines.length > 0 ? `\n\nTile properties:\n${propertyLines.join('\n')}` : '';
+
+  let querySection = '';
+  if (query.propertyName) {
+    const condition = query.propertyValue === undefined
+      ? `the "${query.propertyName}" property`
+      : `${query.propertyName} = ${query.propertyValue}`;
+    const listed = matches.slice(0, MAX_LISTED_TILES).map(pos => `(${pos.x}, ${pos.y})`).join(', ');
+    const more = matches.length > MAX_LISTED_TILES ? ` and ${matches.length - MAX_LISTED_TILES} more` : '';
+    querySection = matches.length > 0
+      ? `\n\n${matches.length} tiles have ${condition}: ${listed}${more}`
+      : `\n\nNo placed tiles have ${condition}`;
+  }
+
   return {
     success: true,
-    message: `Canvas Analysis:\n- ${shapeCount} shapes\n- ${tileCount} tiles\n\nSuggestions:\n${suggestions.join('\n')}`
+    message: `Canvas Analysis:\n- ${shapeCount} shapes\n- ${tileCount} tiles${propertySection}${querySection}\n\nSuggestions:\n${suggestions.join('\n')}`
   };
 }
 
@@ -420,6 +546,7 @@ export function executePlaceObject(
       height?: number;
       count?: number;
     };
+    seed?: number;
   },
   canvasState: CanvasState,
   tileMap: TileMap,
@@ -452,6 +579,8 @@ export function executePlaceObject(
 
   const newTiles: Tile[] = [];
   const positions: Array<{ x: number; y: number }> = [];
+  const seed = params.seed ?? randomSeed();
+  const random = createSeededRandom(seed);
 
   // Determine positions based on placement mode
   if (params.placement.mode === 'single') {
@@ -467,8 +596,8 @@ export function executePlaceObject(
       // Random positions within area
       for (let i = 0; i < count; i++) {
         positions.push({
-          x: startX + Math.floor(Math.random() * width),
-          y: startY + Math.floor(Math.random() * height)
+          x: startX + randomInt(random, 0, width),
+          y: startY + randomInt(random, 0, height)
         });
       }
     } else if (params.placement.mode === 'grid') {
@@ -516,7 +645,8 @@ export function executePlaceObject(
   return {
     success: true,
     message: `Placed ${positions.length} ${params.objectName}(s) in ${params.placement.mode} mode`,
-    canvasUpdates: { tiles: newTiles }
+    canvasUpdates: { tiles: newTiles },
+    seed
   };
 }
 
@@ -589,10 +719,13 @@ export function executePlaceSprites(
     animation?: string;
     scale?: number;
     rotation?: number;
+    seed?: number;
   },
   canvasState: CanvasState
 ): ExecutionResult {
   const newSprites: any[] = [];
+  const seed = params.seed ?? randomSeed();
+  const random = createSeededRandom(seed);
   
   // Default area if not specified (center of canvas)
   const area = params.area || { x: 200, y: 200, width: 400, height: 400 };
@@ -610,8 +743,8 @@ export function executePlaceSprites(
       x = area.x + (col * (area.width / cols)) + (area.width / cols / 2);
       y = area.y + (row * (area.height / cols)) + (area.height / cols / 2);
     } else if (params.layout === "random") {
-      x = area.x + Math.random() * area.width;
-      y = area.y + Math.random() * area.height;
+      x = area.x + random() * area.width;
+      y = area.y + random() * area.height;
     } else if (params.layout === "circle") {
       const angle = (i / params.count) * Math.PI * 2;
       const radius = Math.min(area.width, area.height) / 3;
@@ -660,7 +793,8 @@ export function executePlaceSprites(
   return {
     success: true,
     message: `Placed ${params.count} ${params.spriteType} sprite(s) in ${params.layout} layout with ${animation} animation`,
-    canvasUpdates: { sprites: newSprites }
+    canvasUpdates: { sprites: newSprites },
+    seed
   };
 }
 
@@ -794,14 +928,19 @@ export function executePlatformerTerrain(
     size: string;
     features?: string[];
     enemyDensity?: number;
+    cave?: Partial<CaveRules> & { wallTileset?: string; floorTileset?: string };
+    seed?: number;
   },
   canvasState: CanvasState,
   tileMap: TileMap,
-  tilesets: Array<{ id: string; name: string }>
+  tilesets: Array<{ id: string; name: string; tilesetType?: TilesetType }>,
+  terrainSets: TerrainSetConfig[] = []
 ): ExecutionResult {
   const newTiles: Tile[] = [];
   const newSprites: any[] = [];
   const physicsEntities: any[] = [];
+  const seed = params.seed ?? randomSeed();
+  const random = createSeededRandom(seed);
   
   // Size configurations
   const sizeConfigs = {
@@ -839,20 +978,50 @@ export function executePlatformerTerrain(
 
   // Generate base terrain (ground level)
   const groundLevel = Math.floor(height * 0.7); // Ground at 70% down
-  
-  // Create ground
-  for (let x = 0; x < width; x++) {
-    for (let y = groundLevel; y < height; y++) {
-      newTiles.push({
-        x,
-        y,
-        tilesetId: terrainTileset.id,
-        tileIndex: 4,
-        layer: 'terrain'
-      });
-      
-      // Add physics to ground tiles
-      if (y === groundLevel) {
+  // Row of the solid tile under a column's standing spot, or undefined where there is nowhere to stand
+  let surfaceAt: (x: number) => number | undefined = () => groundLevel;
+  let caveSummary = '';
+
+  if (params.theme === "cave") {
+    // Caves are carved by cellular automata instead of built from ground and platforms
+    if (width > MAX_CAVE_SIZE || height > MAX_CAVE_SIZE) {
+      return {
+        success: false,
+        message: `Caves can be at most ${MAX_CAVE_SIZE} tiles per side`
+      };
+    }
+    const rules = params.cave ?? {};
+    const wallTileset = rules.wallTileset ? tilesets.find(t => t.name === rules.wallTileset) : terrainTileset;
+    const floorTileset = rules.floorTileset ? tilesets.find(t => t.name === rules.floorTileset) : undefined;
+    if (!wallTileset || (rules.floorTileset && !floorTileset)) {
+      return {
+        success: false,
+        message: `Tileset "${!wallTileset ? rules.wallTileset : rules.floorTileset}" not found`
+      };
+    }
+
+    const cave = generateCave({
+      area: { x: 0, y: 0, width, height },
+      seed: Math.floor(random() * MAX_SEED),
+      fillRatio: rules.fillRatio,
+      birthLimit: rules.birthLimit,
+      deathLimit: rules.deathLimit,
+      iterations: rules.iterations
+    });
+    if (cave.floorCount === 0) {
+      return {
+        success: false,
+        message: 'The cave rules left no open space. Try a lower fill ratio or birth limit'
+      };
+    }
+    newTiles.push(...caveTiles(cave, { wall: wallTileset.id, floor: floorTileset?.id }));
+    caveSummary = ` in a ${cave.floorCount}-tile cavern (${cave.removedPockets} isolated pockets filled)`;
+
+    // Walls facing the cavern are the ones a player can touch
+    const isWall = (x: number, y: number) => x < 0 || y < 0 || x >= width || y >= height || cave.walls[x + y * width];
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        if (!isWall(x, y) || [[x - 1, y], [x + 1, y], [x, y - 1], [x, y + 1]].every(([nx, ny]) => isWall(nx, ny))) continue;
         physicsEntities.push({
           id: uuidv4(),
           tileX: x,
@@ -865,42 +1034,76 @@ export function executePlatformerTerrain(
         });
       }
     }
-  }
 
-  // Generate platforms based on difficulty
-  const platformCount = {
-    easy: Math.floor(width / 8),
-    medium: Math.floor(width / 6),
-    hard: Math.floor(width / 4),
-    expert: Math.floor(width / 3)
-  }[params.difficulty] || 5;
+    const surfaces = new Map<number, number[]>();
+    caveGround(cave).forEach(cell => surfaces.set(cell.x, [...(surfaces.get(cell.x) ?? []), cell.y + 1]));
+    surfaceAt = (x) => {
+      const rows = surfaces.get(x);
+      return rows ? rows[randomInt(random, 0, rows.length)] : undefined;
+    };
+  } else {
+    // Create ground
+    for (let x = 0; x < width; x++) {
+      for (let y = groundLevel; y < height; y++) {
+        newTiles.push({
+          x,
+          y,
+          tilesetId: terrainTileset.id,
+          tileIndex: 4,
+          layer: 'terrain'
+        });
+      
+        // Add physics to ground tiles
+        if (y === groundLevel) {
+          physicsEntities.push({
+            id: uuidv4(),
+            tileX: x,
+            tileY: y,
+            materialType: 'solid',
+            collisionType: 'solid',
+            friction: 0.7,
+            restitution: 0.0,
+            metadata: { createdBy: "ai-agent", createdAt: Date.now() }
+          });
+        }
+      }
+    }
 
-  for (let i = 0; i < platformCount; i++) {
-    const platformX = Math.floor((i + 1) * (width / (platformCount + 1)));
-    const platformY = Math.floor(groundLevel - Math.random() * (groundLevel / 2) - 3);
-    const platformWidth = Math.floor(3 + Math.random() * 4); // 3-6 tiles wide
+    // Generate platforms based on difficulty
+    const platformCount = {
+      easy: Math.floor(width / 8),
+      medium: Math.floor(width / 6),
+      hard: Math.floor(width / 4),
+      expert: Math.floor(width / 3)
+    }[params.difficulty] || 5;
 
-    for (let x = platformX; x < platformX + platformWidth && x < width; x++) {
-      newTiles.push({
-        x,
-        y: platformY,
-        tilesetId: terrainTileset.id,
-        tileIndex: 4,
-        layer: 'terrain'
-      });
+    for (let i = 0; i < platformCount; i++) {
+      const platformX = Math.floor((i + 1) * (width / (platformCount + 1)));
+      const platformY = Math.floor(groundLevel - random() * (groundLevel / 2) - 3);
+      const platformWidth = randomInt(random, 3, 7); // 3-6 tiles wide
 
-      // Add platform physics (one-way collision)
-      physicsEntities.push({
-        id: uuidv4(),
-        tileX: x,
-        tileY: platformY,
-        materialType: 'platform',
-        collisionType: 'platform',
-        friction: 0.6,
-        restitution: 0.0,
-        isOneWay: true,
-        metadata: { createdBy: "ai-agent", createdAt: Date.now() }
-      });
+      for (let x = platformX; x < platformX + platformWidth && x < width; x++) {
+        newTiles.push({
+          x,
+          y: platformY,
+          tilesetId: terrainTileset.id,
+          tileIndex: 4,
+          layer: 'terrain'
+        });
+
+        // Add platform physics (one-way collision)
+        physicsEntities.push({
+          id: uuidv4(),
+          tileX: x,
+          tileY: platformY,
+          materialType: 'platform',
+          collisionType: 'platform',
+          friction: 0.6,
+          restitution: 0.0,
+          isOneWay: true,
+          metadata: { createdBy: "ai-agent", createdAt: Date.now() }
+        });
+      }
     }
   }
 
@@ -914,8 +1117,10 @@ export function executePlatformerTerrain(
     }[params.difficulty] || 3;
 
     for (let i = 0; i < hazardCount; i++) {
-      const hazardX = Math.floor(Math.random() * (width - 2)) + 1;
-      const hazardY = groundLevel - 1;
+      const hazardX = randomInt(random, 1, width - 1);
+      const surface = surfaceAt(hazardX);
+      if (surface === undefined) continue;
+      const hazardY = surface - 1;
 
       // Create hazard tile (using different tile index for visual distinction)
       newTiles.push({
@@ -946,8 +1151,10 @@ export function executePlatformerTerrain(
   const enemyCount = Math.floor(width * enemyDensity / 10);
   
   for (let i = 0; i < enemyCount; i++) {
-    const enemyX = Math.floor(Math.random() * (width - 4)) + 2;
-    const enemyY = groundLevel - 2; // Place above ground
+    const enemyX = randomInt(random, 2, width - 2);
+    const surface = surfaceAt(enemyX);
+    if (surface === undefined) continue;
+    const enemyY = surface - 1; // The open cell standing on the ground
 
     newSprites.push({
       id: uuidv4(),
@@ -984,17 +1191,114 @@ export function executePlatformerTerrain(
     });
   }
 
-  // Apply auto-tiling to terrain
-  const autoTiledTiles = applyAutoTiling(newTiles, tileMap.tiles, terrainTileset.id);
+  // Apply auto-tiling to terrain; a hazard replaces the cave floor tile it sits on
+  const uniqueTiles = Array.from(new Map(newTiles.map(tile => [tileKey(tile.x, tile.y, tile.layer), tile])).values());
+  const autoTiledTiles = applyAutoTiling(uniqueTiles, TileGrid.fromTiles(tileMap.tiles), tilesets, terrainSets);
 
   return {
     success: true,
-    message: `Generated ${params.difficulty} ${params.theme} platformer level (${params.size}) with ${autoTiledTiles.length} terrain tiles, ${physicsEntities.length} physics entities, and ${newSprites.length} enemies`,
+    message: `Generated ${params.difficulty} ${params.theme} platformer level (${params.size})${caveSummary} with ${autoTiledTiles.length} terrain tiles, ${physicsEntities.length} physics entities, and ${newSprites.length} enemies`,
     canvasUpdates: { 
       tiles: autoTiledTiles,
       sprites: newSprites,
       physicsEntities
+    },
+    seed
+  };
+}
+
+// Generate a top-down dungeon of BSP rooms, corridors and doors, with spawn points in the tagged rooms
+export function executeDungeonLevel(
+  params: {
+    area: { x: number; y: number; width: number; height: number };
+    roomCount?: number;
+    minRoomSize?: number;
+    maxRoomSize?: number;
+    loops?: number;
+    floorTileset?: string;
+    wallTileset?: string;
+    doorTileset?: string;
+    seed?: number;
+  },
+  canvasState: CanvasState,
+  tileMap: TileMap,
+  tilesets: Array<{ id: string; name: string; tilesetType?: TilesetType }>,
+  terrainSets: TerrainSetConfig[] = [],
+  activeTileLayerId?: string
+): ExecutionResult {
+  // Guard against undefined or null tilesets
+  if (!tilesets || !Array.isArray(tilesets)) {
+    return {
+      success: false,
+      message: 'Tilesets not available. Please ensure tilesets are loaded.'
+    };
+  }
+
+  // Walls and floor go on the active layer (the bottom one when none is given), doors on the layer above it
+  const layers = tileMap.layers ?? DEFAULT_TILE_LAYERS;
+  const layer = activeTileLayerId
+    ? layers.find(l => l.id === activeTileLayerId)
+    : [...layers].sort((a, b) => a.order - b.order)[0];
+  if (!layer) {
+    return {
+      success: false,
+      message: activeTileLayerId
+        ? `Tile layer "${activeTileLayerId}" not found on this board`
+        : 'The board has no tile layers to generate the dungeon on'
+    };
+  }
+
+  // Named tilesets override dirt floors and stone walls
+  const matched = matchBiomeTilesets(tilesets);
+  const findTileset = (name: string | undefined, fallback?: { id: string }) =>
+    name ? tilesets.find(t => t.name === name) : fallback;
+  const floor = findTileset(params.floorTileset, matched.dirt);
+  const wall = findTileset(params.wallTileset, matched.stone);
+  const door = findTileset(params.doorTileset);
+  if (!floor) {
+    return {
+      success: false,
+      message: params.floorTileset ? `Floor tileset "${params.floorTileset}" not found` : 'No dirt terrain tileset found for the floor'
+    };
+  }
+  for (const [name, tileset] of [[params.wallTileset, wall], [params.doorTileset, door]] as const) {
+    if (name && !tileset) {
+      return {
+        success: false,
+        message: `Tileset "${name}" not found`
+      };
     }
+  }
+
+  const seed = params.seed ?? randomSeed();
+  const dungeon = generateDungeon({
+    area: params.area,
+    seed,
+    roomCount: params.roomCount,
+    minRoomSize: params.minRoomSize,
+    maxRoomSize: params.maxRoomSize,
+    loops: params.loops
+  });
+  if (dungeon.rooms.length === 0) {
+    return {
+      success: false,
+      message: `The ${params.area.width}x${params.area.height} area is too small for rooms of at least ${params.minRoomSize ?? DEFAULT_MIN_ROOM_SIZE} tiles`
+    };
+  }
+
+  const tiles = dungeonTiles(dungeon, { floor: floor.id, wall: wall?.id, door: door?.id }, layer.id, layerAbove(layers, layer.id));
+  const autoTiledTiles = applyAutoTiling(tiles, TileGrid.fromTiles(tileMap.tiles), tilesets, terrainSets);
+  const sprites = spawnSprites(dungeon, tileMap.gridSize, uuidv4, "ai-agent");
+
+  const tagged = dungeon.rooms
+    .filter(room => room.tag)
+    .map(room => `${room.tag} at (${room.x}, ${room.y})`)
+    .join(', ');
+  return {
+    success: true,
+    message: `Generated a ${params.area.width}x${params.area.height} dungeon with ${dungeon.rooms.length} rooms, ${dungeon.corridors} corridors and ${dungeon.doors.length} doors; spawn points: ${tagged}`,
+    canvasUpdates: { tiles: autoTiledTiles, sprites },
+    seed
   };
 }
 
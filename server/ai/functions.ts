@@ -1,5 +1,13 @@
 import type { ChatCompletionTool } from "openai/resources/chat/completions";
 
+// Shared by every function that places things randomly; omitted means a new seed
+const seedParameter = {
+  type: "integer",
+  minimum: 0,
+  maximum: 4294967295,
+  description: "Random seed (optional). Only pass one when the user asks to reproduce a previous result or gives a seed"
+};
+
 // Define AI function schemas for canvas operations
 export const canvasFunctions: ChatCompletionTool[] = [
   {
@@ -57,12 +65,71 @@ Use this when users ask to add terrain, paint backgrounds, create rivers, roads,
             description: "How much the path curves (default: 0.3). Use 0.1-0.2 for gentle curves, 0.3-0.4 for moderate winding, 0.5+ for very winding/meandering",
             minimum: 0.1,
             maximum: 0.8
-          }
+          },
+          seed: seedParameter
         },
         required: ["tilesetName", "area", "pattern"]
       }
     }
   },
+  {
+    type: "function",
+    function: {
+      name: "generateTerrain",
+      description: `Generate natural terrain over an area from seeded noise: height and moisture maps are turned into water, sand, grass, dirt and stone biomes, painted with the board's terrain tilesets and auto-tiled.
+
+Use this for islands, coastlines, landscapes, "natural" or "random" terrain and whole maps. Use paintTerrain instead for a single tileset in a fixed pattern.
+
+THRESHOLDS (0-1, optional): cells lower than 'water' are water, then sand up to 'sand'; cells higher than 'stone' are stone; land in between is grass where moisture is above 'moisture', dirt elsewhere.
+- More water / islands → raise water (0.45-0.5) and sand together
+- Mountains → lower stone (0.55)
+- Dry land → raise moisture (0.6+)`,
+      parameters: {
+        type: "object",
+        properties: {
+          area: {
+            type: "object",
+            properties: {
+              x: { type: "number", description: "Starting X tile coordinate" },
+              y: { type: "number", description: "Starting Y tile coordinate" },
+              width: { type: "number", description: "Width in tiles (max 200)" },
+              height: { type: "number", description: "Height in tiles (max 200)" }
+            },
+            required: ["x", "y", "width", "height"]
+          },
+          scale: {
+            type: "number",
+            description: "Size of terrain features in tiles (default: 16). Smaller values give many small patches, larger values give big continents",
+            minimum: 2,
+            maximum: 64
+          },
+          thresholds: {
+            type: "object",
+            properties: {
+              water: { type: "number", description: "Height below which cells are water (default: 0.4)" },
+              sand: { type: "number", description: "Height below which land is sand (default: 0.45)" },
+              stone: { type: "number", description: "Height above which cells are stone (default: 0.62)" },
+              moisture: { type: "number", description: "Moisture above which land is grass rather than dirt (default: 0.5)" }
+            },
+            description: "Biome thresholds (optional)"
+          },
+          biomes: {
+            type: "object",
+            properties: {
+              water: { type: "string", description: "Tileset name for water" },
+              sand: { type: "string", description: "Tileset name for sand" },
+              grass: { type: "string", description: "Tileset name for grass" },
+              dirt: { type: "string", description: "Tileset name for dirt" },
+              stone: { type: "string", description: "Tileset name for stone" }
+            },
+            description: "Tileset per biome (optional). Biomes not given use the matching terrain tileset by name"
+          },
+          seed: seedParameter
+        },
+        required: ["area"]
+      }
+    }
+  },
   {
     type: "function",
     function: {
@@ -105,7 +172,8 @@ Use this when users ask to add terrain, paint backgrounds, create rivers, roads,
               size: { type: "number", description: "Size of each shape in pixels" }
             },
             description: "Visual styling for the shapes (optional)"
-          }
+          },
+          seed: seedParameter
         },
         required: ["shapeType", "count", "layout"]
       }
@@ -171,7 +239,8 @@ Use this when users ask to add objects, props, decorations, or natural elements
             },
             required: ["mode", "x", "y"],
             description: "Placement configuration - must include x,y always. For scatter/grid, also include width, height, count"
-          }
+          },
+          seed: seedParameter
         },
         required: ["objectName", "placement"]
       }
@@ -181,11 +250,20 @@ Use this when users ask to add objects, props, decorations, or natural elements
     type: "function",
     function: {
       name: "analyzeCanvas",
-      description: "Analyze the current canvas state and provide insights, statistics, and suggestions. Use this when the user asks about their canvas, wants feedback, or needs suggestions.",
+      description: "Analyze the current canvas state and provide insights, statistics, and suggestions. Also reports the custom tile properties (e.g. walkable, damage) of placed tiles, and can find the tiles with a given property value. Use this when the user asks about their canvas, wants feedback, or needs suggestions.",
       parameters: {
         type: "object",
-        properties: {},
-        description: "No parameters needed - analyzes current canvas state"
+        properties: {
+          propertyName: {
+            type: "string",
+            description: "Optional custom tile property to query, e.g. 'walkable'. Lists the placed tiles that have it"
+          },
+          propertyValue: {
+            type: ["boolean", "number", "string"],
+            description: "Optional value the property must have, e.g. false. Only used with propertyName"
+          }
+        },
+        description: "No parameters needed for a general analysis; pass propertyName (and propertyValue) to find tiles by custom property"
       }
     }
   },
@@ -257,7 +335,8 @@ Use this when users ask to add objects, props, decorations, or natural elements
             description: "Rotation angle in degrees (default: 0, range: 0-360)",
             minimum: 0,
             maximum: 360
-          }
+          },
+          seed: seedParameter
         },
         required: ["spriteType", "count", "layout"]
       }
@@ -417,7 +496,7 @@ DIFFICULTY LEVELS:
 
 THEMES:
 - "forest" - Natural environment with trees, grass, wooden platforms
-- "cave" - Underground setting with stone, crystals, dark atmosphere
+- "cave" - Underground caverns carved by a seeded cellular automaton; the 'cave' options tune its shape
 - "castle" - Medieval setting with stone blocks, towers, flags
 - "sky" - Floating platforms, clouds, aerial environment
 
@@ -465,12 +544,66 @@ Use this when users want to generate complete levels or need inspiration for pla
             minimum: 0.0,
             maximum: 1.0,
             description: "Enemy placement density (0.0 = no enemies, 1.0 = maximum enemies)"
-          }
+          },
+          cave: {
+            type: "object",
+            properties: {
+              fillRatio: { type: "number", minimum: 0, maximum: 1, description: "Share of cells that start as wall, 0-1 (default: 0.45). Higher gives tighter tunnels" },
+              birthLimit: { type: "number", minimum: 0, maximum: 8, description: "Open cells with at least this many of 8 wall neighbours become wall (default: 5)" },
+              deathLimit: { type: "number", minimum: 0, maximum: 8, description: "Walls with fewer wall neighbours than this open up (default: 4)" },
+              iterations: { type: "number", minimum: 0, maximum: 10, description: "Smoothing passes (default: 4). More gives rounder caverns" },
+              wallTileset: { type: "string", description: "Tileset name for cave walls (default: the theme's tileset)" },
+              floorTileset: { type: "string", description: "Tileset name for the open cavern behind the player (optional; left empty without one)" }
+            },
+            description: "Cave generation options, used with the cave theme only. Isolated pockets are always filled in so the cavern is one connected space"
+          },
+          seed: seedParameter
         },
         required: ["difficulty", "theme", "size"]
       }
     }
   },
+  {
+    type: "function",
+    function: {
+      name: "createDungeonLevel",
+      description: `Generate a top-down dungeon: the area is split into rooms with binary space partitioning, rooms are joined by corridors, and doors are placed where corridors open into rooms. Floor and walls are auto-tiled on the user's active tile layer; doors go on the layer above it.
+
+The rooms at either end of the longest route are tagged start and boss, and a dead-end room is tagged treasure. Each tagged room gets a spawn-point sprite (spawn-start, spawn-boss, spawn-treasure) at its centre.
+
+Use this for dungeons, caves with rooms, castles, roguelike levels and other top-down boards. Use createPlatformerLevel for side-scrolling levels.`,
+      parameters: {
+        type: "object",
+        properties: {
+          area: {
+            type: "object",
+            properties: {
+              x: { type: "number", description: "Starting X tile coordinate" },
+              y: { type: "number", description: "Starting Y tile coordinate" },
+              width: { type: "number", description: "Width in tiles (8-200)" },
+              height: { type: "number", description: "Height in tiles (8-200)" }
+            },
+            required: ["x", "y", "width", "height"]
+          },
+          roomCount: {
+            type: "number",
+            description: "Number of rooms to aim for (default: 8). Fewer are made when the area is too small"
+          },
+          minRoomSize: { type: "number", description: "Smallest room side in tiles (default: 4)" },
+          maxRoomSize: { type: "number", description: "Largest room side in tiles (default: 8)" },
+          loops: {
+            type: "number",
+            description: "Extra corridors between nearby rooms, so there is more than one way round (default: 1). 0 gives a tree with no loops"
+          },
+          floorTileset: { type: "string", description: "Tileset name for room and corridor floors (default: the dirt terrain tileset)" },
+          wallTileset: { type: "string", description: "Tileset name for walls (default: the stone terrain tileset)" },
+          doorTileset: { type: "string", description: "Tileset name for doors, placed on the props layer (optional; doorways stay open without one)" },
+          seed: seedParameter
+        },
+        required: ["area"]
+      }
+    }
+  },
   {
     type: "function",
     function: {
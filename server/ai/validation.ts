@@ -1,4 +1,7 @@
 import { z } from "zod";
+import { MAX_SEED } from "@shared/seededRandom";
+
+const seedSchema = z.number().int().min(0).max(MAX_SEED).optional();
 
 // Validation schemas for AI function arguments
 export const paintTerrainSchema = z.object({
@@ -20,7 +23,8 @@ export const paintTerrainSchema = z.object({
     "curved_path"
   ]),
   pathWidth: z.number().min(1).max(20).optional(),
-  curveIntensity: z.number().min(0.1).max(0.8).optional()
+  curveIntensity: z.number().min(0.1).max(0.8).optional(),
+  seed: seedSchema
 });
 
 export const createShapesSchema = z.object({
@@ -37,7 +41,13 @@ export const createShapesSchema = z.object({
     fill: z.string().optional(),
     stroke: z.string().optional(),
     size: z.number().positive().optional()
-  }).optional()
+  }).optional(),
+  seed: seedSchema
+});
+
+export const analyzeCanvasSchema = z.object({
+  propertyName: z.string().min(1).optional(),
+  propertyValue: z.union([z.boolean(), z.number(), z.string()]).optional()
 });
 
 export const clearCanvasSchema = z.object({
@@ -53,10 +63,77 @@ export const placeObjectSchema = z.object({
     width: z.number().positive().optional(),
     height: z.number().positive().optional(),
     count: z.number().min(1).max(50).optional()
-  })
+  }),
+  seed: seedSchema
+});
+
+const thresholdSchema = z.number().min(0).max(1).optional();
+
+export const generateTerrainSchema = z.object({
+  area: z.object({
+    x: z.number().int(),
+    y: z.number().int(),
+    width: z.number().int().positive().max(200),
+    height: z.number().int().positive().max(200)
+  }),
+  scale: z.number().min(2).max(64).optional(),
+  thresholds: z.object({
+    water: thresholdSchema,
+    sand: thresholdSchema,
+    stone: thresholdSchema,
+    moisture: thresholdSchema
+  }).optional(),
+  biomes: z.object({
+    water: z.string().optional(),
+    sand: z.string().optional(),
+    grass: z.string().optional(),
+    dirt: z.string().optional(),
+    stone: z.string().optional()
+  }).optional(),
+  seed: seedSchema
+});
+
+export const createDungeonLevelSchema = z.object({
+  area: z.object({
+    x: z.number().int(),
+    y: z.number().int(),
+    width: z.number().int().min(8).max(200),
+    height: z.number().int().min(8).max(200)
+  }),
+  roomCount: z.number().int().min(1).max(50).optional(),
+  minRoomSize: z.number().int().min(2).max(30).optional(),
+  maxRoomSize: z.number().int().min(2).max(30).optional(),
+  loops: z.number().int().min(0).max(20).optional(),
+  floorTileset: z.string().optional(),
+  wallTileset: z.string().optional(),
+  doorTileset: z.string().optional(),
+  seed: seedSchema
+});
+
+const caveLimitSchema = z.number().int().min(0).max(8).optional();
+
+export const createPlatformerLevelSchema = z.object({
+  difficulty: z.enum(["easy", "medium", "hard", "expert"]),
+  theme: z.enum(["forest", "cave", "castle", "sky"]),
+  size: z.enum(["small", "medium", "large", "massive"]),
+  features: z.array(z.enum(["moving-platforms", "hazards", "secrets", "checkpoints"])).optional(),
+  enemyDensity: z.number().min(0).max(1).optional(),
+  cave: z.object({
+    fillRatio: z.number().min(0).max(1).optional(),
+    birthLimit: caveLimitSchema,
+    deathLimit: caveLimitSchema,
+    iterations: z.number().int().min(0).max(10).optional(),
+    wallTileset: z.string().optional(),
+    floorTileset: z.string().optional()
+  }).optional(),
+  seed: seedSchema
 });
 
 export type PaintTerrainArgs = z.infer<typeof paintTerrainSchema>;
 export type CreateShapesArgs = z.infer<typeof createShapesSchema>;
+export type AnalyzeCanvasArgs = z.infer<typeof analyzeCanvasSchema>;
 export type ClearCanvasArgs = z.infer<typeof clearCanvasSchema>;
 export type PlaceObjectArgs = z.infer<typeof placeObjectSchema>;
+export type GenerateTerrainArgs = z.infer<typeof generateTerrainSchema>;
+export type CreateDungeonLevelArgs = z.infer<typeof createDungeonLevelSchema>;
+export type CreatePlatformerLevelArgs = z.infer<typeof createPlatformerLevelSchema>;
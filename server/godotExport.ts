@@ -0,0 +1,438 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import type {
+  MaterialConfig,
+  SpriteDefinition,
+  SpriteInstance,
+  Tile,
+  TileAnimation,
+  TileLayerDefinition,
+  TilePropertyType,
+  TilePropertyValue,
+  Tileset,
+} from "@shared/schema";
+import { findTileAnimation } from "@shared/tileAnimations";
+import { getTilePropertyValues } from "@shared/tileProperties";
+import { toDiagonalFlags } from "@shared/tileTransforms";
+import type { ZipEntry } from "./zip";
+
+/**
+ * Godot 4 scene export.
+ *
+ * Produces a folder with:
+ * - `<board>_tileset.tres`: a TileSet with one atlas source per tileset. Every
+ *   material assigned to a tileset becomes a physics layer whose collision
+ *   layer bit comes from the material's collision type, and the tileset's
+ *   tiles get a full-cell collision polygon on it (one-way for platforms).
+ *   Animated tiles keep their frames where Godot's atlas layout allows, and
+ *   custom tile properties become custom data layers
+ * - `<board>.tscn`: a Node2D with one TileMapLayer per tile layer (bottom
+ *   first) and a "Sprites" node holding an AnimatedSprite2D per sprite, with
+ *   SpriteFrames built from the sprite definition's animations
+ * - `assets/`: tileset and sprite images this server hosts itself
+ *
+ * TileMapLayer needs Godot 4.3 or newer.
+ */
+
+export interface GodotExportInput {
+  name: string;
+  gridSize: number;
+  tiles: Tile[];
+  tileLayers: TileLayerDefinition[];
+  sprites: SpriteInstance[];
+  spriteDefinitions: SpriteDefinition[];
+  tilesets: Tileset[];
+  materials: MaterialConfig[];
+  tilesetMaterials: Record<string, string>; // Tileset id -> MaterialConfig.materialId
+}
+
+// Godot collision layer bit (1-based) for each collision type
+const COLLISION_LAYER_BITS: Record<MaterialConfig["collisionType"], number> = {
+  solid: 1,
+  platform: 2,
+  trigger: 3,
+  hazard: 4,
+};
+
+// Static directories served by server/index.ts, keyed by URL prefix
+const LOCAL_ASSET_DIRS: Record<string, string> = {
+  "/attached_assets/": "attached_assets",
+  "/sprites/": path.join("public", "sprites"),
+};
+
+// TileMapLayer.tile_map_data stores int16 cell coordinates
+const CELL_MIN = -32768;
+const CELL_MAX = 32767;
+
+const slugify = (name: string, fallback: string) =>
+  name.trim().replace(/[^A-Za-z0-9_-]+/g, "_").replace(/^_+|_+$/g, "") || fallback;
+
+const gdString = (value: string) => `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+
+const gdFloat = (value: number) => (Number.isInteger(value) ? `${value}.0` : `${value}`);
+
+const uniqueName = (used: Set<string>, name: string) => {
+  const base = name.replace(/[.:@/"%]/g, "_") || "Node";
+  let unique = base;
+  for (let i = 2; used.has(unique); i++) {
+    unique = `${base}${i}`;
+  }
+  used.add(unique);
+  return unique;
+};
+
+/** Read an image this server hosts from disk; null for remote or uploaded images */
+async function readLocalAsset(url: string): Promise<Buffer | null> {
+  const prefix = Object.keys(LOCAL_ASSET_DIRS).find((candidate) => url.startsWith(candidate));
+  if (!prefix) return null;
+
+  const root = path.resolve(process.cwd(), LOCAL_ASSET_DIRS[prefix]);
+  const filePath = path.resolve(root, decodeURIComponent(url.slice(prefix.length).split("?")[0]));
+  if (!filePath.startsWith(root + path.sep)) return null;
+
+  try {
+    return await fs.readFile(filePath);
+  } catch {
+    return null;
+  }
+}
+
+/** Collects the images referenced by the export and gives each a res:// path */
+class AssetCollector {
+  private paths = new Map<string, string>();
+  private fileNames = new Set<string>();
+
+  constructor(private folder: string) {}
+
+  resPath(url: string): string {
+    let resPath = this.paths.get(url);
+    if (!resPath) {
+      const baseName = path.posix.basename(url.split("?")[0]) || "image.png";
+      let fileName = baseName;
+      for (let i = 2; this.fileNames.has(fileName); i++) {
+        fileName = `${i}_${baseName}`;
+      }
+      this.fileNames.add(fileName);
+      resPath = `res://${this.folder}/assets/${fileName}`;
+      this.paths.set(url, resPath);
+    }
+    return resPath;
+  }
+
+  async entries(): Promise<ZipEntry[]> {
+    const entries: ZipEntry[] = [];
+    for (const [url, resPath] of Array.from(this.paths.entries())) {
+      const data = await readLocalAsset(url);
+      if (data) {
+        entries.push({ name: resPath.replace("res://", ""), data });
+      }
+    }
+    return entries;
+  }
+}
+
+/** Resource sections of a Godot text resource/scene, numbered in order of use */
+class ResourceWriter {
+  private ext: string[] = [];
+  private sub: string[] = [];
+  private nextExt = 1;
+  private nextSub = 1;
+
+  addExt(type: string, resPath: string): string {
+    const id = `${this.nextExt++}_${type.toLowerCase()}`;
+    this.ext.push(`[ext_resource type=${gdString(type)} path=${gdString(resPath)} id=${gdString(id)}]`);
+    return id;
+  }
+
+  addSub(type: string, properties: string[]): string {
+    const id = `${type}_${this.nextSub++}`;
+    this.sub.push([`[sub_resource type=${gdString(type)} id=${gdString(id)}]`, ...properties].join("\n"));
+    return id;
+  }
+
+  get loadSteps(): number {
+    return this.ext.length + this.sub.length + 1;
+  }
+
+  sections(): string[] {
+    return [...(this.ext.length > 0 ? [this.ext.join("\n")] : []), ...this.sub];
+  }
+}
+
+// Variant.Type of a custom data layer; enum values are exported as their string
+const VARIANT_BOOL = 1;
+const VARIANT_FLOAT = 3;
+const VARIANT_STRING = 4;
+const VARIANT_TYPES: Record<TilePropertyType, number> = {
+  boolean: VARIANT_BOOL,
+  number: VARIANT_FLOAT,
+  string: VARIANT_STRING,
+  enum: VARIANT_STRING,
+};
+
+const gdVariant = (type: number, value: TilePropertyValue) =>
+  type === VARIANT_BOOL ? String(value === true) : type === VARIANT_FLOAT ? gdFloat(Number(value)) : gdString(String(value));
+
+/**
+ * One custom data layer per property name across the exported tilesets.
+ * Tilesets that give a name different types share a string layer.
+ */
+function customDataLayers(tilesets: Tileset[]): Map<string, { index: number; type: number }> {
+  const layers = new Map<string, { index: number; type: number }>();
+  tilesets.forEach((tileset) =>
+    (tileset.tileProperties ?? []).forEach((definition) => {
+      const type = VARIANT_TYPES[definition.type];
+      const layer = layers.get(definition.name);
+      if (!layer) {
+        layers.set(definition.name, { index: layers.size, type });
+      } else if (layer.type !== type) {
+        layer.type = VARIANT_STRING;
+      }
+    })
+  );
+  return layers;
+}
+
+/**
+ * Godot plays an atlas tile's animation from the cells to its right, so only
+ * animations laid out that way (frame i is the tile i cells on, in the same
+ * row) carry over. Others export as their first tile, without animation.
+ */
+function godotAnimationStrip(tileset: Tileset, tileIndex: number): TileAnimation | undefined {
+  const animation = findTileAnimation(tileset, tileIndex);
+  if (!animation || animation.frames.length < 2) return undefined;
+  const laidOut = animation.frames.every((frame, i) => frame.tileIndex === tileIndex + i);
+  const fitsRow = (tileIndex % tileset.columns) + animation.frames.length <= tileset.columns;
+  return laidOut && fitsRow ? animation : undefined;
+}
+
+function buildTileSet(input: GodotExportInput, usedTilesets: Tileset[], assets: AssetCollector): string {
+  const writer = new ResourceWriter();
+  const resource: string[] = [`tile_size = Vector2i(${input.gridSize}, ${input.gridSize})`];
+
+  // One physics layer per material actually assigned to an exported tileset
+  const physicsLayers = new Map<string, number>();
+  usedTilesets.forEach((tileset) => {
+    const material = input.materials.find((m) => m.materialId === input.tilesetMaterials[tileset.id]);
+    if (!material || physicsLayers.has(material.materialId)) return;
+
+    const index = physicsLayers.size;
+    physicsLayers.set(material.materialId, index);
+    const physicsMaterial = writer.addSub("PhysicsMaterial", [
+      `resource_name = ${gdString(material.name)}`,
+      `friction = ${gdFloat(material.friction)}`,
+      `bounce = ${gdFloat(material.restitution)}`,
+    ]);
+    const bit = 1 << (COLLISION_LAYER_BITS[material.collisionType] - 1);
+    resource.push(
+      `physics_layer_${index}/collision_layer = ${bit}`,
+      `physics_layer_${index}/collision_mask = ${bit}`,
+      `physics_layer_${index}/physics_material = SubResource(${gdString(physicsMaterial)})`
+    );
+  });
+
+  const dataLayers = customDataLayers(usedTilesets);
+  dataLayers.forEach((layer, name) => {
+    resource.push(`custom_data_layer_${layer.index}/name = ${gdString(name)}`, `custom_data_layer_${layer.index}/type = ${layer.type}`);
+  });
+
+  usedTilesets.forEach((tileset, sourceId) => {
+    const texture = writer.addExt("Texture2D", assets.resPath(tileset.imageUrl));
+    const materialId = input.tilesetMaterials[tileset.id];
+    const physicsLayer = materialId !== undefined ? physicsLayers.get(materialId) : undefined;
+    const material = input.materials.find((m) => m.materialId === materialId);
+    const half = tileset.tileSize / 2;
+
+    const properties = [
+      `resource_name = ${gdString(tileset.name)}`,
+      `texture = ExtResource(${gdString(texture)})`,
+      `separation = Vector2i(${tileset.spacing}, ${tileset.spacing})`,
+      `texture_region_size = Vector2i(${tileset.tileSize}, ${tileset.tileSize})`,
+    ];
+    // Cells holding the later frames of an animation belong to its first tile
+    const frameCells = new Set<number>();
+    for (let index = 0; index < tileset.rows * tileset.columns; index++) {
+      godotAnimationStrip(tileset, index)?.frames.slice(1).forEach((frame) => frameCells.add(frame.tileIndex));
+    }
+
+    for (let y = 0; y < tileset.rows; y++) {
+      for (let x = 0; x < tileset.columns; x++) {
+        const index = y * tileset.columns + x;
+        if (frameCells.has(index)) continue;
+        properties.push(`${x}:${y}/0 = 0`);
+
+        const animation = godotAnimationStrip(tileset, index);
+        if (animation) {
+          properties.push(`${x}:${y}/animation_frames_count = ${animation.frames.length}`);
+          animation.frames.forEach((frame, i) => {
+            properties.push(`${x}:${y}/animation_frame_${i}/duration = ${gdFloat(frame.duration / 1000)}`);
+          });
+        }
+        Object.entries(getTilePropertyValues(tileset, index)).forEach(([name, value]) => {
+          const layer = dataLayers.get(name)!;
+          properties.push(`${x}:${y}/0/custom_data_${layer.index} = ${gdVariant(layer.type, value)}`);
+        });
+        if (physicsLayer === undefined) continue;
+
+        const polygon = `${x}:${y}/0/physics_layer_${physicsLayer}/polygon_0`;
+        properties.push(`${polygon}/points = PackedVector2Array(${-half}, ${-half}, ${half}, ${-half}, ${half}, ${half}, ${-half}, ${half})`);
+        if (material?.collisionType === "platform") {
+          properties.push(`${polygon}/one_way = true`);
+        }
+      }
+    }
+
+    const source = writer.addSub("TileSetAtlasSource", properties);
+    resource.push(`sources/${sourceId} = SubResource(${gdString(source)})`);
+  });
+
+  return [
+    `[gd_resource type="TileSet" load_steps=${writer.loadSteps} format=3]`,
+    ...writer.sections(),
+    ["[resource]", ...resource].join("\n"),
+  ].join("\n\n") + "\n";
+}
+
+// TileSetAtlasSource.TRANSFORM_FLIP_H / FLIP_V / TRANSPOSE, set on the alternative tile id
+const TRANSFORM_FLIP_H = 1 << 12;
+const TRANSFORM_FLIP_V = 1 << 13;
+const TRANSFORM_TRANSPOSE = 1 << 14;
+
+function alternativeTileFlags(tile: Tile): number {
+  const flags = toDiagonalFlags(tile);
+  return (
+    (flags.horizontal ? TRANSFORM_FLIP_H : 0) |
+    (flags.vertical ? TRANSFORM_FLIP_V : 0) |
+    (flags.diagonal ? TRANSFORM_TRANSPOSE : 0)
+  );
+}
+
+function encodeTileMapData(tiles: Tile[], sourceIds: Map<string, number>, tilesets: Map<string, Tileset>): string {
+  const cells = tiles.filter(
+    (tile) =>
+      sourceIds.has(tile.tilesetId) &&
+      tile.x >= CELL_MIN && tile.x <= CELL_MAX &&
+      tile.y >= CELL_MIN && tile.y <= CELL_MAX
+  );
+
+  // Format 0: a uint16 version, then per cell int16 x/y and uint16 source id, atlas x/y, alternative
+  const data = Buffer.alloc(2 + cells.length * 12);
+  data.writeUInt16LE(0, 0);
+  cells.forEach((tile, i) => {
+    const offset = 2 + i * 12;
+    const columns = Math.max(1, tilesets.get(tile.tilesetId)!.columns);
+    data.writeInt16LE(tile.x, offset);
+    data.writeInt16LE(tile.y, offset + 2);
+    data.writeUInt16LE(sourceIds.get(tile.tilesetId)!, offset + 4);
+    data.writeUInt16LE(tile.tileIndex % columns, offset + 6);
+    data.writeUInt16LE(Math.floor(tile.tileIndex / columns), offset + 8);
+    data.writeUInt16LE(alternativeTileFlags(tile), offset + 10);
+  });
+  return data.toString("base64");
+}
+
+function buildSpriteFrames(definition: SpriteDefinition, writer: ResourceWriter, assets: AssetCollector): string {
+  const texture = writer.addExt("Texture2D", assets.resPath(definition.imageUrl));
+  // Without parsed spritesheet data, frames are assumed to be laid out in a single row
+  const columns = definition.spritesheetData?.columns || Number.MAX_SAFE_INTEGER;
+
+  const animations = Object.entries(definition.animations).flatMap(([name, animation]) => {
+    if (!animation) return [];
+    const frames = animation.frames.map((frameIndex) => {
+      const region = writer.addSub("AtlasTexture", [
+        `atlas = ExtResource(${gdString(texture)})`,
+        `region = Rect2(${(frameIndex % columns) * definition.frameWidth}, ${Math.floor(frameIndex / columns) * definition.frameHeight}, ${definition.frameWidth}, ${definition.frameHeight})`,
+      ]);
+      return `{\n"duration": 1.0,\n"texture": SubResource(${gdString(region)})\n}`;
+    });
+    return [`{\n"frames": [${frames.join(", ")}],\n"loop": ${animation.loop},\n"name": &${gdString(name)},\n"speed": ${gdFloat(animation.fps)}\n}`];
+  });
+
+  return writer.addSub("SpriteFrames", [
+    `resource_name = ${gdString(definition.name)}`,
+    `animations = [${animations.join(", ")}]`,
+  ]);
+}
+
+function buildScene(input: GodotExportInput, usedTilesets: Tileset[], tileSetPath: string, assets: AssetCollector): string {
+  const writer = new ResourceWriter();
+  const tileSet = writer.addExt("TileSet", tileSetPath);
+  const sourceIds = new Map(usedTilesets.map((tileset, index) => [tileset.id, index]));
+  const tilesetsById = new Map(usedTilesets.map((tileset) => [tileset.id, tileset]));
+  const rootName = uniqueName(new Set(), slugify(input.name, "Board"));
+  const nodes: string[] = [`[node name=${gdString(rootName)} type="Node2D"]`];
+
+  // Later siblings draw on top, so layers are emitted bottom first
+  const layerNames = new Set<string>();
+  [...input.tileLayers]
+    .sort((a, b) => a.order - b.order)
+    .forEach((layer) => {
+      const tiles = input.tiles.filter((tile) => tile.layer === layer.id);
+      nodes.push(
+        [
+          `[node name=${gdString(uniqueName(layerNames, layer.name))} type="TileMapLayer" parent="."]`,
+          ...(layer.visible ? [] : ["visible = false"]),
+          ...(layer.opacity < 1 ? [`modulate = Color(1, 1, 1, ${layer.opacity})`] : []),
+          `tile_map_data = PackedByteArray(${gdString(encodeTileMapData(tiles, sourceIds, tilesetsById))})`,
+          `tile_set = ExtResource(${gdString(tileSet)})`,
+        ].join("\n")
+      );
+    });
+
+  if (input.sprites.length > 0) {
+    nodes.push(`[node name="Sprites" type="Node2D" parent="."]`);
+    const spriteFrames = new Map<string, string>();
+    const spriteNames = new Set<string>();
+
+    [...input.sprites]
+      .sort((a, b) => a.layer - b.layer)
+      .forEach((sprite) => {
+        const definition = input.spriteDefinitions.find((def) => def.id === sprite.spriteId);
+        if (definition && !spriteFrames.has(definition.id)) {
+          spriteFrames.set(definition.id, buildSpriteFrames(definition, writer, assets));
+        }
+        const frames = definition ? spriteFrames.get(definition.id) : undefined;
+        const hasAnimation = !!definition?.animations[sprite.currentAnimation];
+
+        nodes.push(
+          [
+            `[node name=${gdString(uniqueName(spriteNames, definition?.name ?? sprite.spriteId))} type="AnimatedSprite2D" parent="Sprites"]`,
+            `z_index = ${sprite.layer}`,
+            `position = Vector2(${sprite.x}, ${sprite.y})`,
+            ...(sprite.rotation ? [`rotation = ${(sprite.rotation * Math.PI) / 180}`] : []),
+            ...(sprite.scale !== 1 ? [`scale = Vector2(${sprite.scale}, ${sprite.scale})`] : []),
+            ...(frames ? [`sprite_frames = SubResource(${gdString(frames)})`] : []),
+            ...(hasAnimation ? [`animation = &${gdString(sprite.currentAnimation)}`, `autoplay = ${gdString(sprite.currentAnimation)}`] : []),
+            "centered = false",
+            ...(sprite.flipX ? ["flip_h = true"] : []),
+            ...(sprite.flipY ? ["flip_v = true"] : []),
+          ].join("\n")
+        );
+      });
+  }
+
+  return [
+    `[gd_scene load_steps=${writer.loadSteps} format=3]`,
+    ...writer.sections(),
+    ...nodes,
+  ].join("\n\n") + "\n";
+}
+
+/** Build the files of a Godot export, ready to be zipped */
+export async function buildGodotExport(input: GodotExportInput): Promise<ZipEntry[]> {
+  const folder = slugify(input.name, "board");
+  const assets = new AssetCollector(folder);
+
+  const usedIds = new Set(input.tiles.map((tile) => tile.tilesetId));
+  const usedTilesets = input.tilesets.filter((tileset) => usedIds.has(tileset.id));
+  const tileSetFile = `${folder}_tileset.tres`;
+
+  const tileSet = buildTileSet(input, usedTilesets, assets);
+  const scene = buildScene(input, usedTilesets, `res://${folder}/${tileSetFile}`, assets);
+
+  return [
+    { name: `${folder}/${folder}.tscn`, data: scene },
+    { name: `${folder}/${tileSetFile}`, data: tileSet },
+    ...(await assets.entries()),
+  ];
+}
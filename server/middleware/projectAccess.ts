@@ -0,0 +1,77 @@
+import type { Request, Response, NextFunction } from 'express';
+import type { Project, ProjectRole } from '@shared/schema';
+import { hasProjectRole } from '@shared/projectRoles';
+import { storage } from '../storage';
+import { asyncHandler, ApiError, ErrorCode } from '../utils/errorHandler';
+
+type RequestWithUser = Request & {
+  user?: { id: string };
+  projectRole?: ProjectRole;
+};
+
+/**
+ * Resolve a user's role in a project. The project's creator is always its
+ * owner; everyone else needs a project_members row. Returns null when the
+ * user has no access (or the project doesn't exist).
+ */
+export async function getProjectRole(projectId: string, userId: string): Promise<ProjectRole | null> {
+  const project = await storage.getProject(projectId);
+  return project ? resolveProjectRole(project, userId) : null;
+}
+
+async function resolveProjectRole(project: Project, userId: string): Promise<ProjectRole | null> {
+  if (project.userId === userId) return 'owner';
+
+  const member = await storage.getProjectMember(project.id, userId);
+  return member?.role ?? null;
+}
+
+async function assertProjectRole(req: RequestWithUser, projectId: string, minimum: ProjectRole) {
+  const userId = req.user?.id;
+  if (!userId) {
+    throw new ApiError('Authentication required', 401, ErrorCode.AUTHENTICATION_ERROR);
+  }
+
+  const project = await storage.getProject(projectId);
+  if (!project) {
+    throw new ApiError('Project not found', 404, ErrorCode.NOT_FOUND);
+  }
+
+  const role = await resolveProjectRole(project, userId);
+  if (!role) {
+    // Don't reveal that the project exists to users outside it
+    throw new ApiError('Project not found', 404, ErrorCode.NOT_FOUND);
+  }
+  if (!hasProjectRole(role, minimum)) {
+    throw new ApiError(`This action requires the ${minimum} role`, 403, ErrorCode.AUTHORIZATION_ERROR);
+  }
+
+  req.projectRole = role;
+}
+
+/**
+ * Require at least `minimum` on the project named by the `:projectId` (or `:id`)
+ * route parameter. Must run after authenticateToken.
+ */
+export function requireProjectRole(minimum: ProjectRole) {
+  return asyncHandler(async (req: RequestWithUser, _res: Response, next: NextFunction) => {
+    const projectId = req.params.projectId ?? req.params.id;
+    await assertProjectRole(req, projectId, minimum);
+    next();
+  });
+}
+
+/**
+ * Require at least `minimum` on the project that owns the board named by the
+ * `:boardId` route parameter, for routes that address a board directly.
+ */
+export function requireBoardRole(minimum: ProjectRole) {
+  return asyncHandler(async (req: RequestWithUser, _res: Response, next: NextFunction) => {
+    const board = await storage.getBoard(req.params.boardId);
+    if (!board) {
+      throw new ApiError('Board not found', 404, ErrorCode.NOT_FOUND);
+    }
+    await assertProjectRole(req, board.projectId, minimum);
+    next();
+  });
+}
@@ -0,0 +1,15 @@
+import type { TilesetPack } from '@shared/schema';
+import { storage } from '../storage';
+import { ApiError, ErrorCode } from '../utils/errorHandler';
+
+/**
+ * Load a tileset pack for the user about to edit or delete it. Other users'
+ * and shared packs are reported as missing rather than forbidden.
+ */
+export async function getOwnTilesetPack(id: string, userId: string): Promise<TilesetPack> {
+  const pack = await storage.getTilesetPack(id);
+  if (!pack || pack.userId !== userId) {
+    throw new ApiError('Tileset pack not found', 404, ErrorCode.NOT_FOUND);
+  }
+  return pack;
+}
@@ -0,0 +1,166 @@
+import * as Y from "yjs";
+import type { Shape, SpriteInstance, Tile, TileLayerDefinition } from "@shared/schema";
+import { storage } from "./storage";
+
+// How long a document has to be idle before its compacted state is written
+const PERSIST_DEBOUNCE_MS = 2000;
+
+/** A board's content as stored in its document's maps (see the client's CollaborationService) */
+export interface BoardDocumentContent {
+  shapes: Shape[];
+  tiles: Tile[];
+  tileLayers: TileLayerDefinition[];
+  sprites: SpriteInstance[];
+}
+
+interface RoomDocument {
+  doc: Y.Doc;
+  persistTimer: NodeJS.Timeout | null;
+}
+
+/**
+ * Authoritative Yjs documents for collaboration rooms.
+ *
+ * The server keeps one Y.Doc per board edited in a room and applies every
+ * client update to it, so a late joiner syncs against the server (sync step
+ * 1/2) instead of whatever peers happen to be online. Document state is
+ * compacted into a single update and persisted through `storage`, which lets
+ * a board be restored after the last client has left.
+ */
+export class RoomDocumentManager {
+  private documents = new Map<string, RoomDocument>();
+  private loading = new Map<string, Promise<RoomDocument>>();
+  // Saves still in flight, so a reload never reads state older than the last unload
+  private saving = new Map<string, Promise<void>>();
+
+  static documentName(roomId: string, boardId: string): string {
+    return `${roomId}/${boardId}`;
+  }
+
+  async getDocument(roomId: string, boardId: string): Promise<Y.Doc> {
+    const { doc } = await this.load(RoomDocumentManager.documentName(roomId, boardId));
+    return doc;
+  }
+
+  /**
+   * Answer a client's sync step 1. Returns the update the client is missing
+   * (sync step 2) and the server's state vector, so the client can reply with
+   * whatever the server is missing.
+   */
+  async handleSyncStep1(
+    roomId: string,
+    boardId: string,
+    stateVector: Uint8Array
+  ): Promise<{ update: Uint8Array; stateVector: Uint8Array }> {
+    const doc = await this.getDocument(roomId, boardId);
+    return {
+      update: Y.encodeStateAsUpdate(doc, stateVector),
+      stateVector: Y.encodeStateVector(doc),
+    };
+  }
+
+  /** Apply a client update (sync step 2 or an incremental edit). Throws if the update is malformed. */
+  async applyUpdate(roomId: string, boardId: string, update: Uint8Array, origin: unknown): Promise<void> {
+    const doc = await this.getDocument(roomId, boardId);
+    Y.applyUpdate(doc, update, origin);
+  }
+
+  /**
+   * Read a board's content without keeping its document loaded: the live
+   * document if its room is active, otherwise the persisted state. Null when
+   * the board has never been edited collaboratively.
+   */
+  async getBoardContent(roomId: string, boardId: string): Promise<BoardDocumentContent | null> {
+    const name = RoomDocumentManager.documentName(roomId, boardId);
+    let doc = (this.documents.get(name) ?? (await this.loading.get(name)))?.doc;
+    if (!doc) {
+      await this.saving.get(name)?.catch(() => undefined);
+      const state = await storage.getDocumentState(name);
+      if (!state) return null;
+      doc = new Y.Doc();
+      Y.applyUpdate(doc, state);
+    }
+
+    const values = <T>(mapName: string) => Object.values(doc!.getMap(mapName).toJSON()) as T[];
+    return {
+      shapes: values<Shape>("shapes"),
+      tiles: values<Tile>("tiles"),
+      tileLayers: values<TileLayerDefinition>("tileLayers"),
+      sprites: values<SpriteInstance>("sprites"),
+    };
+  }
+
+  /** Persist and unload every document of a room once its last client has left */
+  async releaseRoom(roomId: string): Promise<void> {
+    const prefix = `${roomId}/`;
+    const names = Array.from(this.documents.keys()).filter((name) => name.startsWith(prefix));
+
+    await Promise.all(
+      names.map(async (name) => {
+        const entry = this.documents.get(name)!;
+        this.documents.delete(name);
+        if (entry.persistTimer) {
+          clearTimeout(entry.persistTimer);
+        }
+        await this.persist(name, entry.doc);
+        entry.doc.destroy();
+      })
+    );
+  }
+
+  private load(name: string): Promise<RoomDocument> {
+    const existing = this.documents.get(name);
+    if (existing) return Promise.resolve(existing);
+
+    let pending = this.loading.get(name);
+    if (!pending) {
+      pending = (async () => {
+        await this.saving.get(name)?.catch(() => undefined);
+
+        const doc = new Y.Doc();
+        const state = await storage.getDocumentState(name);
+        if (state) {
+          Y.applyUpdate(doc, state);
+        }
+
+        const entry: RoomDocument = { doc, persistTimer: null };
+        doc.on("update", () => this.schedulePersist(name, entry));
+        this.documents.set(name, entry);
+        return entry;
+      })().finally(() => {
+        this.loading.delete(name);
+      });
+      this.loading.set(name, pending);
+    }
+    return pending;
+  }
+
+  private schedulePersist(name: string, entry: RoomDocument) {
+    if (entry.persistTimer) {
+      clearTimeout(entry.persistTimer);
+    }
+    entry.persistTimer = setTimeout(() => {
+      entry.persistTimer = null;
+      this.persist(name, entry.doc).catch((error) => {
+        console.error(`Failed to persist document ${name}:`, error);
+      });
+    }, PERSIST_DEBOUNCE_MS);
+  }
+
+  private persist(name: string, doc: Y.Doc): Promise<void> {
+    // A single merged update replaces the history of incremental ones
+    const state = Y.encodeStateAsUpdate(doc);
+    const previous = this.saving.get(name)?.catch(() => undefined) ?? Promise.resolve();
+    const save = previous
+      .then(() => storage.saveDocumentState(name, state))
+      .finally(() => {
+        if (this.saving.get(name) === save) {
+          this.saving.delete(name);
+        }
+      });
+    this.saving.set(name, save);
+    return save;
+  }
+}
+
+export const roomDocuments = new RoomDocumentManager();
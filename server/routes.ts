@@ -4,10 +4,15 @@ import { WebSocketServer, WebSocket } from "ws";
 import { storage } from "./storage";
 import express from "express";
 import * as Y from "yjs";
-import { insertProjectSchema, insertTilesetSchema } from "@shared/schema";
+import { insertProjectSchema, insertTilesetSchema, createTilesetPackSchema, updateTilesetPackSchema, createTileBrushSchema, updateTileBrushSchema, projectRoleEnum, type Tile } from "@shared/schema";
+import { boardRoomId, canEditBoard, parseBoardRoomId } from "@shared/projectRoles";
+import { DEFAULT_TILE_LAYERS } from "@shared/tileLayers";
 import { fromZodError } from "zod-validation-error";
 import { ObjectStorageService, ObjectNotFoundError } from "./objectStorage";
-import { handleAiChat } from "./ai/chat";
+import { handleAiChat, handleAiRegenerate } from "./ai/chat";
+import { roomDocuments } from "./roomDocuments";
+import { buildGodotExport } from "./godotExport";
+import { createZip } from "./zip";
 import spritesRouter from "./routes/sprites";
 import boardsRouter from "./routes/boards";
 import physicsRouter from "./routes/physics";
@@ -29,12 +34,9 @@ import * as path from 'path';
 import { 
   createProjectSchema,
   updateProjectSchema,
-  projectIdSchema,
   createBoardSchema,
   updateBoardSchema,
-  boardIdSchema,
   updateTilesetSchema,
-  tilesetIdSchema,
   imageUploadSchema,
   paginationSchema,
   searchSchema
@@ -51,11 +53,11 @@ import {
   rateLimitMonitoring
 } from './middleware/rateLimiter.js';
 import { authenticateToken } from './middleware/auth.js';
+import { getProjectRole, requireBoardRole, requireProjectRole } from './middleware/projectAccess.js';
+import { getOwnTilesetPack } from './middleware/tilesetPackAccess.js';
 import { 
   authenticateWebSocket, 
-  checkRoomAccess, 
   generateConnectionId,
-  validateRoomId,
   extractTokenFromRequest,
   sendWebSocketError,
   sendAuthSuccess,
@@ -63,6 +65,10 @@ import {
 } from './middleware/websocketAuth.js';
 
 // Parameter validation schemas
+const projectIdSchema = z.string().min(1, 'Project ID is required');
+const boardIdSchema = z.string().min(1, 'Board ID is required');
+const tilesetIdSchema = z.string().min(1, 'Tileset ID is required');
+
 const projectParamsSchema = z.object({
   id: projectIdSchema
 });
@@ -75,11 +81,43 @@ const tilesetParamsSchema = z.object({
   id: tilesetIdSchema
 });
 
+const tilesetPackParamsSchema = z.object({
+  id: z.string().min(1, 'Tileset pack ID is required')
+});
+
+const tileBrushParamsSchema = z.object({
+  id: z.string().min(1, 'Tile brush ID is required')
+});
+
 const projectBoardParamsSchema = z.object({
   projectId: projectIdSchema,
   boardId: boardIdSchema
 });
 
+const projectMemberParamsSchema = z.object({
+  id: projectIdSchema,
+  userId: z.string().min(1, 'User ID is required')
+});
+
+// Ownership comes from creating the project, so it can't be granted through membership
+const projectMemberRoleSchema = z.object({
+  role: projectRoleEnum.exclude(['owner'])
+});
+
+const godotExportSchema = z.object({
+  materials: z.array(z.object({
+    id: z.string(),
+    name: z.string(),
+    materialId: z.string().min(1),
+    friction: z.number().min(0).max(2),
+    restitution: z.number().min(0).max(1),
+    density: z.number(),
+    collisionType: z.enum(['solid', 'platform', 'trigger', 'hazard']),
+  })).default([]),
+  // Tileset id -> materialId of the material its tiles collide with
+  tilesetMaterials: z.record(z.string(), z.string()).default({}),
+});
+
 const imageUrlSchema = z.object({
   imageURL: z.string().min(1, 'Image URL is required').refine(
     (url) => {
@@ -98,6 +136,22 @@ const imageUrlSchema = z.object({
 });
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Collaboration connections per room; document state itself lives in roomDocuments
+  const rooms = new Map<string, Set<AuthenticatedWebSocket>>();
+
+  // A socket's role is resolved when it connects, so after a membership change the
+  // member's sockets in the project are closed and reconnect with their new role
+  const disconnectProjectMember = (projectId: string, userId: string) => {
+    rooms.forEach((clients, roomId) => {
+      if (parseBoardRoomId(roomId)?.projectId !== projectId) return;
+      clients.forEach((client) => {
+        if (client.userId === userId) {
+          client.close(4000, 'Project role changed');
+        }
+      });
+    });
+  };
+
   // Auth API (must be first to avoid middleware conflicts)
   app.use("/api/auth", authRouter);
 
@@ -107,7 +161,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Validate query parameters
       const query = validateParams(paginationSchema.merge(searchSchema), req.query);
       
-      const projects = await storage.getAllProjects();
+      // Only list projects the user owns or is a member of
+      const userId = (req as any).user?.id;
+      const [allProjects, memberships] = await Promise.all([
+        storage.getAllProjects(),
+        storage.getProjectMembersByUser(userId),
+      ]);
+      const memberOf = new Set(memberships.map((member) => member.projectId));
+      const projects = allProjects.filter((project) => project.userId === userId || memberOf.has(project.id));
       
       // Migration: Ensure projects have boards array
       const migratedProjects = projects.map((project: any) => {
@@ -140,6 +201,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           tileMap: project.tileMap || { 
             gridSize: 32,
             tiles: [],
+            layers: DEFAULT_TILE_LAYERS,
             spriteDefinitions: []
           },
           createdAt: Date.now(),
@@ -166,6 +228,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
               return tile;
             });
           }
+          // Migration: Boards saved before user-defined layers get the default layer set
+          if (board.tileMap && !board.tileMap.layers) {
+            board.tileMap.layers = DEFAULT_TILE_LAYERS;
+          }
           return board;
         });
         
@@ -179,7 +245,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   }));
 
-  app.get("/api/projects/:id", authenticateToken, asyncHandler(async (req, res) => {
+  app.get("/api/projects/:id", authenticateToken, requireProjectRole('viewer'), asyncHandler(async (req, res) => {
     const { id } = validateParams(projectParamsSchema, req.params);
     
     try {
@@ -216,6 +282,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
             return tile;
           });
         }
+        // Migration: Boards saved before user-defined layers get the default layer set
+        if (board.tileMap && !board.tileMap.layers) {
+          board.tileMap.layers = DEFAULT_TILE_LAYERS;
+        }
         return board;
       });
       
@@ -230,7 +300,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/projects", authenticateToken, express.json(), asyncHandler(async (req, res) => {
     try {
       const validatedData = validateParams(createProjectSchema, req.body);
-      const project = await storage.createProject(validatedData);
+      // The creator owns the project
+      const project = await storage.createProject({ ...validatedData, userId: (req as any).user.id });
       res.status(201).json(project);
     } catch (error) {
       if (error instanceof ApiError) throw error;
@@ -239,7 +310,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   }));
 
-  app.patch("/api/projects/:id", authenticateToken, express.json(), asyncHandler(async (req, res) => {
+  app.patch("/api/projects/:id", authenticateToken, requireProjectRole('owner'), express.json(), asyncHandler(async (req, res) => {
     const { id } = validateParams(projectParamsSchema, req.params);
     
     try {
@@ -256,7 +327,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   }));
 
-  app.delete("/api/projects/:id", authenticateToken, asyncHandler(async (req, res) => {
+  app.delete("/api/projects/:id", authenticateToken, requireProjectRole('owner'), asyncHandler(async (req, res) => {
     const { id } = validateParams(projectParamsSchema, req.params);
     
     try {
@@ -272,8 +343,65 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   }));
 
+  // Project members API
+  app.get("/api/projects/:id/members", authenticateToken, requireProjectRole('viewer'), asyncHandler(async (req, res) => {
+    const { id } = validateParams(projectParamsSchema, req.params);
+    
+    try {
+      const project = await storage.getProject(id);
+      const members = await storage.getProjectMembers(id);
+      res.json([
+        { projectId: id, userId: project!.userId, role: 'owner' },
+        ...members.filter((member) => member.userId !== project!.userId),
+      ]);
+    } catch (error) {
+      logError(error, 'GET_PROJECT_MEMBERS');
+      throw handleDatabaseError(error);
+    }
+  }));
+
+  app.put("/api/projects/:id/members/:userId", authenticateToken, requireProjectRole('owner'), express.json(), asyncHandler(async (req, res) => {
+    const { id, userId } = validateParams(projectMemberParamsSchema, req.params);
+    
+    try {
+      const { role } = validateParams(projectMemberRoleSchema, req.body);
+      const project = await storage.getProject(id);
+      if (project!.userId === userId) {
+        throw new ApiError('The project owner\'s role cannot be changed', 400, ErrorCode.VALIDATION_ERROR);
+      }
+      const user = await storage.getUser(userId);
+      if (!user) {
+        throw new ApiError('User not found', 404, ErrorCode.NOT_FOUND);
+      }
+      const member = await storage.setProjectMember({ projectId: id, userId, role });
+      disconnectProjectMember(id, userId);
+      res.json(member);
+    } catch (error) {
+      if (error instanceof ApiError) throw error;
+      logError(error, 'SET_PROJECT_MEMBER');
+      throw handleDatabaseError(error);
+    }
+  }));
+
+  app.delete("/api/projects/:id/members/:userId", authenticateToken, requireProjectRole('owner'), asyncHandler(async (req, res) => {
+    const { id, userId } = validateParams(projectMemberParamsSchema, req.params);
+    
+    try {
+      const removed = await storage.removeProjectMember(id, userId);
+      if (!removed) {
+        throw new ApiError('Member not found', 404, ErrorCode.NOT_FOUND);
+      }
+      disconnectProjectMember(id, userId);
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof ApiError) throw error;
+      logError(error, 'REMOVE_PROJECT_MEMBER');
+      throw handleDatabaseError(error);
+    }
+  }));
+
   // Board-specific API endpoints
-  app.get("/api/projects/:projectId/boards", authenticateToken, asyncHandler(async (req, res) => {
+  app.get("/api/projects/:projectId/boards", authenticateToken, requireProjectRole('viewer'), asyncHandler(async (req, res) => {
     const { projectId } = req.params;
     
     try {
@@ -289,7 +417,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   }));
 
-  app.get("/api/projects/:projectId/boards/:boardId", authenticateToken, asyncHandler(async (req, res) => {
+  app.get("/api/projects/:projectId/boards/:boardId", authenticateToken, requireProjectRole('viewer'), asyncHandler(async (req, res) => {
     const { projectId, boardId } = req.params;
     
     try {
@@ -309,7 +437,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   }));
 
-  app.post("/api/projects/:projectId/boards", authenticateToken, express.json(), asyncHandler(async (req, res) => {
+  app.post("/api/projects/:projectId/boards", authenticateToken, requireProjectRole('editor'), express.json(), asyncHandler(async (req, res) => {
     const { projectId } = validateParams(z.object({ projectId: projectIdSchema }), req.params);
     
     try {
@@ -354,6 +482,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         tileMap: { 
           gridSize: validatedData.tileSize,
           tiles: [],
+          layers: DEFAULT_TILE_LAYERS,
           spriteDefinitions: []
         },
         createdAt: Date.now(),
@@ -374,7 +503,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   }));
 
-  app.patch("/api/projects/:projectId/boards/:boardId", authenticateToken, express.json(), asyncHandler(async (req, res) => {
+  app.patch("/api/projects/:projectId/boards/:boardId", authenticateToken, requireProjectRole('editor'), express.json(), asyncHandler(async (req, res) => {
     const { projectId, boardId } = validateParams(projectBoardParamsSchema, req.params);
     
     try {
@@ -409,7 +538,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   }));
 
-  app.delete("/api/projects/:projectId/boards/:boardId", authenticateToken, asyncHandler(async (req, res) => {
+  app.delete("/api/projects/:projectId/boards/:boardId", authenticateToken, requireProjectRole('editor'), asyncHandler(async (req, res) => {
     const { projectId, boardId } = validateParams(projectBoardParamsSchema, req.params);
     
     try {
@@ -439,7 +568,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   }));
 
   // Direct board API endpoints (for auto-save functionality)
-  app.patch("/api/boards/:boardId", authenticateToken, express.json(), asyncHandler(async (req, res) => {
+  app.patch("/api/boards/:boardId", authenticateToken, requireBoardRole('editor'), express.json(), asyncHandler(async (req, res) => {
     const { boardId } = validateParams(boardParamsSchema, req.params);
     
     try {
@@ -456,6 +585,50 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   }));
 
+  // Godot 4 scene export (.tscn + TileSet .tres, zipped)
+  app.post("/api/boards/:boardId/export/godot", authenticateToken, requireBoardRole('viewer'), express.json(), asyncHandler(async (req, res) => {
+    const { boardId } = validateParams(boardParamsSchema, req.params);
+    const { materials, tilesetMaterials } = validateParams(godotExportSchema, req.body ?? {});
+
+    try {
+      const board = await storage.getBoard(boardId);
+      if (!board) {
+        throw new ApiError('Board not found', 404, ErrorCode.NOT_FOUND);
+      }
+
+      // The collaborative document is newer than the saved board whenever it exists
+      const live = await roomDocuments.getBoardContent(boardRoomId(board.projectId, boardId), boardId);
+      const tiles: Tile[] = live ? live.tiles : board.tileMap?.tiles ?? [];
+      const tileLayers = live && live.tileLayers.length > 0 ? live.tileLayers : board.tileMap?.layers ?? DEFAULT_TILE_LAYERS;
+      const sprites = live ? live.sprites : board.canvasState?.sprites ?? [];
+
+      const tilesetIds = Array.from(new Set(tiles.map((tile) => tile.tilesetId)));
+      const tilesets = (await Promise.all(tilesetIds.map((id) => storage.getTileset(id))))
+        .filter((tileset): tileset is NonNullable<typeof tileset> => !!tileset);
+
+      const files = await buildGodotExport({
+        name: board.name,
+        gridSize: board.canvasState?.gridSize || board.tileMap?.gridSize || 16,
+        tiles,
+        tileLayers,
+        sprites,
+        spriteDefinitions: board.tileMap?.spriteDefinitions ?? [],
+        tilesets,
+        materials,
+        tilesetMaterials,
+      });
+
+      const fileName = `${board.name.replace(/[^A-Za-z0-9_-]+/g, '_') || 'board'}-godot.zip`;
+      res.setHeader('Content-Type', 'application/zip');
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+      res.send(createZip(files));
+    } catch (error) {
+      if (error instanceof ApiError) throw error;
+      logError(error, 'EXPORT_BOARD_GODOT');
+      throw handleDatabaseError(error);
+    }
+  }));
+
   // Tilesets API
   app.get("/api/tilesets", asyncHandler(async (req, res) => {
     try {
@@ -564,6 +737,125 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   }));
 
+  // Tileset packs API (packs also carry the terrain set used by autotiling)
+  app.get("/api/tileset-packs", authenticateToken, asyncHandler(async (req, res) => {
+    try {
+      const packs = await storage.getAllTilesetPacks();
+      res.json(packs);
+    } catch (error) {
+      logError(error, 'GET_ALL_TILESET_PACKS');
+      throw handleDatabaseError(error);
+    }
+  }));
+
+  app.post("/api/tileset-packs", authenticateToken, express.json(), asyncHandler(async (req, res) => {
+    try {
+      const validatedData = validateParams(createTilesetPackSchema, req.body);
+      const pack = await storage.createTilesetPack({ ...validatedData, userId: (req as any).user.id });
+      res.status(201).json(pack);
+    } catch (error) {
+      if (error instanceof ApiError) throw error;
+      logError(error, 'CREATE_TILESET_PACK');
+      throw handleDatabaseError(error);
+    }
+  }));
+
+  app.patch("/api/tileset-packs/:id", authenticateToken, express.json(), asyncHandler(async (req, res) => {
+    const { id } = validateParams(tilesetPackParamsSchema, req.params);
+
+    try {
+      await getOwnTilesetPack(id, (req as any).user.id);
+      const validatedData = validateParams(updateTilesetPackSchema, req.body);
+      const pack = await storage.updateTilesetPack(id, validatedData);
+      if (!pack) {
+        throw new ApiError('Tileset pack not found', 404, ErrorCode.NOT_FOUND);
+      }
+      res.json(pack);
+    } catch (error) {
+      if (error instanceof ApiError) throw error;
+      logError(error, 'UPDATE_TILESET_PACK');
+      throw handleDatabaseError(error);
+    }
+  }));
+
+  app.delete("/api/tileset-packs/:id", authenticateToken, asyncHandler(async (req, res) => {
+    const { id } = validateParams(tilesetPackParamsSchema, req.params);
+
+    try {
+      await getOwnTilesetPack(id, (req as any).user.id);
+      await storage.deleteTilesetPack(id);
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof ApiError) throw error;
+      logError(error, 'DELETE_TILESET_PACK');
+      throw handleDatabaseError(error);
+    }
+  }));
+
+  // Tile brushes API (random and pattern brushes, private to the user who saved them)
+  const getOwnTileBrush = async (id: string, userId: string) => {
+    const brush = await storage.getTileBrush(id);
+    // Other users' brushes are reported as missing rather than forbidden
+    if (!brush || brush.userId !== userId) {
+      throw new ApiError('Tile brush not found', 404, ErrorCode.NOT_FOUND);
+    }
+    return brush;
+  };
+
+  app.get("/api/tile-brushes", authenticateToken, asyncHandler(async (req, res) => {
+    try {
+      const brushes = await storage.getTileBrushesByUser((req as any).user.id);
+      res.json(brushes);
+    } catch (error) {
+      logError(error, 'GET_TILE_BRUSHES');
+      throw handleDatabaseError(error);
+    }
+  }));
+
+  app.post("/api/tile-brushes", authenticateToken, express.json(), asyncHandler(async (req, res) => {
+    try {
+      const validatedData = validateParams(createTileBrushSchema, req.body);
+      const brush = await storage.createTileBrush({ ...validatedData, userId: (req as any).user.id });
+      res.status(201).json(brush);
+    } catch (error) {
+      if (error instanceof ApiError) throw error;
+      logError(error, 'CREATE_TILE_BRUSH');
+      throw handleDatabaseError(error);
+    }
+  }));
+
+  app.patch("/api/tile-brushes/:id", authenticateToken, express.json(), asyncHandler(async (req, res) => {
+    const { id } = validateParams(tileBrushParamsSchema, req.params);
+
+    try {
+      await getOwnTileBrush(id, (req as any).user.id);
+      const validatedData = validateParams(updateTileBrushSchema, req.body);
+      const brush = await storage.updateTileBrush(id, validatedData);
+      if (!brush) {
+        throw new ApiError('Tile brush not found', 404, ErrorCode.NOT_FOUND);
+      }
+      res.json(brush);
+    } catch (error) {
+      if (error instanceof ApiError) throw error;
+      logError(error, 'UPDATE_TILE_BRUSH');
+      throw handleDatabaseError(error);
+    }
+  }));
+
+  app.delete("/api/tile-brushes/:id", authenticateToken, asyncHandler(async (req, res) => {
+    const { id } = validateParams(tileBrushParamsSchema, req.params);
+
+    try {
+      await getOwnTileBrush(id, (req as any).user.id);
+      await storage.deleteTileBrush(id);
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof ApiError) throw error;
+      logError(error, 'DELETE_TILE_BRUSH');
+      throw handleDatabaseError(error);
+    }
+  }));
+
   // Get upload URL for tileset images with validation
   app.post("/api/tilesets/:id/upload-url", authenticateToken, express.json(), asyncHandler(async (req, res) => {
     const { id } = validateParams(tilesetParamsSchema, req.params);
@@ -767,6 +1059,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Note: express.json() is already applied globally in server/index.ts
   // Only add it here if we need different options for this specific route
   app.post("/api/ai/chat", authenticateToken, handleAiChat);
+  app.post("/api/ai/regenerate", authenticateToken, handleAiRegenerate);
 
   // Create HTTP server
   const httpServer = createServer(app);
@@ -774,8 +1067,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Set up WebSocket server for Y.js collaboration on a distinct path
   const wss = new WebSocketServer({ server: httpServer, path: '/ws' });
 
-  // Store connections per room for simple broadcasting
-  const rooms = new Map<string, Set<AuthenticatedWebSocket>>();
+  const broadcastToRoom = (roomId: string, message: string | Buffer, except?: AuthenticatedWebSocket) => {
+    rooms.get(roomId)?.forEach((client) => {
+      if (client !== except && client.readyState === WebSocket.OPEN && client.isAuthenticated) {
+        client.send(message);
+      }
+    });
+  };
+
+  const sendJson = (conn: AuthenticatedWebSocket, payload: Record<string, unknown>) => {
+    if (conn.readyState === WebSocket.OPEN) {
+      conn.send(JSON.stringify(payload));
+    }
+  };
 
   wss.on('connection', async (conn: AuthenticatedWebSocket, req) => {
     // Extract room ID and token from query params
@@ -790,8 +1094,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     conn.roomId = roomId;
     conn.lastHeartbeat = Date.now();
 
-    // Validate room ID format
-    if (!validateRoomId(roomId)) {
+    // Rooms are named after the board they sync: `${projectId}:${boardId}`
+    const room = parseBoardRoomId(roomId);
+    if (!room) {
       console.log(`Invalid room ID format: ${roomId}`);
       sendWebSocketError(conn, 'Invalid room ID format', 'INVALID_ROOM_ID');
       conn.close(1008, 'Invalid room ID');
@@ -814,15 +1119,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
       return;
     }
 
-    // Check room access permissions
-    const hasAccess = await checkRoomAccess(authResult.user.id, roomId);
-    if (!hasAccess) {
+    // Check room access permissions against the project membership
+    const role = await getProjectRole(room.projectId, authResult.user.id);
+    if (!role) {
       console.log(`User ${authResult.user.id} denied access to room ${roomId}`);
       sendWebSocketError(conn, 'Access denied to room', 'ACCESS_DENIED');
       conn.close(1008, 'Access denied');
       return;
     }
 
+    // The role only covers boards of that project
+    const board = await storage.getBoard(room.boardId);
+    if (!board || board.projectId !== room.projectId) {
+      console.log(`Board ${room.boardId} is not part of project ${room.projectId}`);
+      sendWebSocketError(conn, 'Access denied to room', 'ACCESS_DENIED');
+      conn.close(1008, 'Access denied');
+      return;
+    }
+    const canEdit = canEditBoard(role);
+
     // Set authenticated connection properties
     conn.user = authResult.user;
     conn.userId = authResult.user.id;
@@ -832,6 +1147,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
     // Send authentication success message
     sendAuthSuccess(conn, authResult.user, roomId);
+    sendJson(conn, { type: 'room_access', roomId, role, readOnly: !canEdit });
 
     // Add connection to room
     if (!rooms.has(roomId)) {
@@ -839,39 +1155,65 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
     rooms.get(roomId)!.add(conn);
 
-    // Broadcast incoming messages to all other clients in the same room
-    conn.on("message", (message: Buffer) => {
+    // Apply document messages to the room's server-side Y.Doc and relay the rest
+    conn.on("message", async (message: Buffer) => {
       // Update heartbeat on any message
       conn.lastHeartbeat = Date.now();
 
-      // Handle heartbeat messages
+      let parsedMessage: any = null;
       try {
-        const messageStr = message.toString();
-        const parsedMessage = JSON.parse(messageStr);
-        
-        if (parsedMessage.type === 'ping') {
-          // Respond to ping with pong
-          if (conn.readyState === WebSocket.OPEN) {
-            conn.send(JSON.stringify({
-              type: 'pong',
-              timestamp: Date.now()
-            }));
-          }
-          return;
-        }
+        parsedMessage = JSON.parse(message.toString());
       } catch (error) {
-        // Not a JSON message, treat as binary Y.js update
+        // Not a JSON message, treat as binary awareness update
       }
 
-      // Broadcast to other clients in the room
-      const roomClients = rooms.get(roomId);
-      if (roomClients) {
-        roomClients.forEach((client) => {
-          if (client !== conn && client.readyState === WebSocket.OPEN && client.isAuthenticated) {
-            client.send(message);
+      if (parsedMessage?.type === 'ping') {
+        // Respond to ping with pong
+        sendJson(conn, { type: 'pong', timestamp: Date.now() });
+        return;
+      }
+
+      const boardId = parsedMessage?.boardId;
+      if (typeof boardId === 'string' && boardId.length > 0) {
+        // A room only ever syncs its own board
+        if (boardId !== room.boardId) {
+          console.log(`Dropping update for board ${boardId} sent to room ${roomId}`);
+          return;
+        }
+        try {
+          if (parsedMessage.type === 'yjs-sync' && Array.isArray(parsedMessage.stateVector)) {
+            // Sync step 1: send what the client is missing, then ask for what we are missing
+            const { update, stateVector } = await roomDocuments.handleSyncStep1(
+              roomId,
+              boardId,
+              new Uint8Array(parsedMessage.stateVector)
+            );
+            sendJson(conn, { type: 'yjs-sync-step2', boardId, data: Array.from(update) });
+            sendJson(conn, { type: 'yjs-sync', boardId, stateVector: Array.from(stateVector) });
+          } else if (Array.isArray(parsedMessage.update)) {
+            // Read-only members still receive updates, but their own are dropped
+            if (!canEdit) {
+              console.log(`Dropping document update from read-only user ${conn.userId} (${role}) in room ${roomId}`);
+              return;
+            }
+            // Sync step 2 replies and incremental edits are applied before anyone else sees them
+            const update = new Uint8Array(parsedMessage.update);
+            await roomDocuments.applyUpdate(roomId, boardId, update, conn);
+            broadcastToRoom(
+              roomId,
+              JSON.stringify({ type: 'yjs-update', boardId, data: parsedMessage.update }),
+              conn
+            );
           }
-        });
+        } catch (error) {
+          logError(error, 'YJS_UPDATE_ERROR');
+          sendWebSocketError(conn, 'Failed to apply document update', 'YJS_UPDATE_ERROR');
+        }
+        return;
       }
+
+      // Awareness (presence) updates are not persisted, just forwarded
+      broadcastToRoom(roomId, message, conn);
     });
 
     // Clean up on disconnect
@@ -882,6 +1224,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         roomClients.delete(conn);
         if (roomClients.size === 0) {
           rooms.delete(roomId);
+          // Nobody is left to hold the state, so write it out and free the documents
+          roomDocuments.releaseRoom(roomId).catch((error) => {
+            logError(error, 'YJS_PERSIST_ERROR');
+          });
         }
       }
     });
@@ -4,11 +4,17 @@ import {
   type Project,
   type ProjectWithBoards,
   type InsertProject,
+  type ProjectMember,
+  type InsertProjectMember,
   type BoardData,
   type InsertBoard,
   type TilesetData,
   type InsertTileset,
   type TilesetType,
+  type TilesetPack,
+  type InsertTilesetPack,
+  type TileBrush,
+  type InsertTileBrush,
   type CanvasState,
   type TileMap,
 } from "@shared/schema";
@@ -29,6 +35,13 @@ export interface IStorage {
   updateProject(id: string, updates: Partial<InsertProject>): Promise<Project | undefined>;
   deleteProject(id: string): Promise<boolean>;
 
+  // Project members
+  getProjectMember(projectId: string, userId: string): Promise<ProjectMember | undefined>;
+  getProjectMembers(projectId: string): Promise<ProjectMember[]>;
+  getProjectMembersByUser(userId: string): Promise<ProjectMember[]>;
+  setProjectMember(member: InsertProjectMember): Promise<ProjectMember>;
+  removeProjectMember(projectId: string, userId: string): Promise<boolean>;
+
   // Boards
   getBoard(id: string): Promise<BoardData | undefined>;
   getBoardsByProject(projectId: string): Promise<BoardData[]>;
@@ -43,6 +56,24 @@ export interface IStorage {
   createTileset(tileset: InsertTileset): Promise<TilesetData>;
   updateTileset(id: string, updates: Partial<InsertTileset>): Promise<TilesetData | undefined>;
   deleteTileset(id: string): Promise<boolean>;
+
+  // Tileset packs
+  getTilesetPack(id: string): Promise<TilesetPack | undefined>;
+  getAllTilesetPacks(): Promise<TilesetPack[]>;
+  createTilesetPack(pack: InsertTilesetPack): Promise<TilesetPack>;
+  updateTilesetPack(id: string, updates: Partial<InsertTilesetPack>): Promise<TilesetPack | undefined>;
+  deleteTilesetPack(id: string): Promise<boolean>;
+
+  // Tile brushes (saved per user)
+  getTileBrush(id: string): Promise<TileBrush | undefined>;
+  getTileBrushesByUser(userId: string): Promise<TileBrush[]>;
+  createTileBrush(brush: InsertTileBrush): Promise<TileBrush>;
+  updateTileBrush(id: string, updates: Partial<InsertTileBrush>): Promise<TileBrush | undefined>;
+  deleteTileBrush(id: string): Promise<boolean>;
+
+  // Collaborative documents (compacted Yjs state)
+  getDocumentState(name: string): Promise<Uint8Array | undefined>;
+  saveDocumentState(name: string, state: Uint8Array): Promise<void>;
 }
 
 export class MemStorage implements IStorage {
@@ -50,12 +81,20 @@ export class MemStorage implements IStorage {
   private projects: Map<string, Project>;
   private boards: Map<string, BoardData>;
   private tilesets: Map<string, TilesetData>;
+  private tilesetPacks: Map<string, TilesetPack>;
+  private tileBrushes: Map<string, TileBrush>;
+  private documents: Map<string, Uint8Array>;
+  private projectMembers: Map<string, ProjectMember>;
 
   constructor() {
     this.users = new Map();
     this.projects = new Map();
+    this.projectMembers = new Map();
     this.boards = new Map();
     this.tilesets = new Map();
+    this.tilesetPacks = new Map();
+    this.tileBrushes = new Map();
+    this.documents = new Map();
 
     // Add some demo tilesets for testing
     this.initializeDemoData();
@@ -199,10 +238,55 @@ export class MemStorage implements IStorage {
       board => board.projectId === id
     );
     projectBoards.forEach(board => this.boards.delete(board.id));
+
+    // And its memberships
+    Array.from(this.projectMembers.entries())
+      .filter(([, member]) => member.projectId === id)
+      .forEach(([key]) => this.projectMembers.delete(key));
     
     return this.projects.delete(id);
   }
 
+  // Project member methods
+  private projectMemberKey(projectId: string, userId: string): string {
+    return `${projectId}:${userId}`;
+  }
+
+  async getProjectMember(projectId: string, userId: string): Promise<ProjectMember | undefined> {
+    return this.projectMembers.get(this.projectMemberKey(projectId, userId));
+  }
+
+  async getProjectMembers(projectId: string): Promise<ProjectMember[]> {
+    return Array.from(this.projectMembers.values()).filter(
+      member => member.projectId === projectId
+    );
+  }
+
+  async getProjectMembersByUser(userId: string): Promise<ProjectMember[]> {
+    return Array.from(this.projectMembers.values()).filter(
+      member => member.userId === userId
+    );
+  }
+
+  async setProjectMember(insertMember: InsertProjectMember): Promise<ProjectMember> {
+    const key = this.projectMemberKey(insertMember.projectId, insertMember.userId);
+    const existing = this.projectMembers.get(key);
+    const now = new Date();
+    const member = {
+      id: existing?.id ?? randomUUID(),
+      ...insertMember,
+      role: insertMember.role ?? 'viewer',
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    } as ProjectMember;
+    this.projectMembers.set(key, member);
+    return member;
+  }
+
+  async removeProjectMember(projectId: string, userId: string): Promise<boolean> {
+    return this.projectMembers.delete(this.projectMemberKey(projectId, userId));
+  }
+
   // Board methods
   async getBoard(id: string): Promise<BoardData | undefined> {
     return this.boards.get(id);
@@ -301,6 +385,95 @@ export class MemStorage implements IStorage {
     return this.tilesets.delete(id);
   }
 
+  // Tileset pack methods
+  async getTilesetPack(id: string): Promise<TilesetPack | undefined> {
+    return this.tilesetPacks.get(id);
+  }
+
+  async getAllTilesetPacks(): Promise<TilesetPack[]> {
+    return Array.from(this.tilesetPacks.values());
+  }
+
+  async createTilesetPack(insertPack: InsertTilesetPack): Promise<TilesetPack> {
+    const id = randomUUID();
+    const pack: TilesetPack = {
+      id,
+      userId: insertPack.userId ?? null,
+      name: insertPack.name,
+      description: insertPack.description ?? null,
+      tags: insertPack.tags ?? [],
+      terrainSet: insertPack.terrainSet ?? null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.tilesetPacks.set(id, pack);
+    return pack;
+  }
+
+  async updateTilesetPack(id: string, updates: Partial<InsertTilesetPack>): Promise<TilesetPack | undefined> {
+    const pack = this.tilesetPacks.get(id);
+    if (!pack) return undefined;
+
+    const updatedPack: TilesetPack = {
+      ...pack,
+      ...updates,
+      updatedAt: new Date(),
+    };
+    this.tilesetPacks.set(id, updatedPack);
+    return updatedPack;
+  }
+
+  async deleteTilesetPack(id: string): Promise<boolean> {
+    return this.tilesetPacks.delete(id);
+  }
+
+  // Tile brush methods
+  async getTileBrush(id: string): Promise<TileBrush | undefined> {
+    return this.tileBrushes.get(id);
+  }
+
+  async getTileBrushesByUser(userId: string): Promise<TileBrush[]> {
+    return Array.from(this.tileBrushes.values()).filter(brush => brush.userId === userId);
+  }
+
+  async createTileBrush(insertBrush: InsertTileBrush): Promise<TileBrush> {
+    const id = randomUUID();
+    const brush: TileBrush = {
+      ...insertBrush,
+      id,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.tileBrushes.set(id, brush);
+    return brush;
+  }
+
+  async updateTileBrush(id: string, updates: Partial<InsertTileBrush>): Promise<TileBrush | undefined> {
+    const brush = this.tileBrushes.get(id);
+    if (!brush) return undefined;
+
+    const updatedBrush: TileBrush = {
+      ...brush,
+      ...updates,
+      updatedAt: new Date(),
+    };
+    this.tileBrushes.set(id, updatedBrush);
+    return updatedBrush;
+  }
+
+  async deleteTileBrush(id: string): Promise<boolean> {
+    return this.tileBrushes.delete(id);
+  }
+
+  // Collaborative document methods
+  async getDocumentState(name: string): Promise<Uint8Array | undefined> {
+    return this.documents.get(name);
+  }
+
+  async saveDocumentState(name: string, state: Uint8Array): Promise<void> {
+    this.documents.set(name, state);
+  }
+
   // Fix existing tileset URLs that contain Windows backslashes
   fixExistingTilesetUrls(): void {
     console.log('Fixing existing tileset URLs with Windows backslashes...');
@@ -321,8 +494,8 @@ export class MemStorage implements IStorage {
   }
 }
 
-import { db, users as usersTable, projects as projectsTable, boards as boardsTable, tilesets as tilesetsTable } from "./db";
-import { eq } from "drizzle-orm";
+import { db, users as usersTable, projects as projectsTable, projectMembers as projectMembersTable, boards as boardsTable, tilesets as tilesetsTable, tilesetPacks as tilesetPacksTable, tileBrushes as tileBrushesTable, yjsDocuments as yjsDocumentsTable } from "./db";
+import { and, eq } from "drizzle-orm";
 
 export class DbStorage implements IStorage {
   constructor() {
@@ -400,6 +573,42 @@ export class DbStorage implements IStorage {
     return result.rowCount !== null && result.rowCount > 0;
   }
 
+  // Project member methods
+  async getProjectMember(projectId: string, userId: string): Promise<ProjectMember | undefined> {
+    const [member] = await db
+      .select()
+      .from(projectMembersTable)
+      .where(and(eq(projectMembersTable.projectId, projectId), eq(projectMembersTable.userId, userId)));
+    return member;
+  }
+
+  async getProjectMembers(projectId: string): Promise<ProjectMember[]> {
+    return await db.select().from(projectMembersTable).where(eq(projectMembersTable.projectId, projectId));
+  }
+
+  async getProjectMembersByUser(userId: string): Promise<ProjectMember[]> {
+    return await db.select().from(projectMembersTable).where(eq(projectMembersTable.userId, userId));
+  }
+
+  async setProjectMember(insertMember: InsertProjectMember): Promise<ProjectMember> {
+    const [member] = await db
+      .insert(projectMembersTable)
+      .values(insertMember)
+      .onConflictDoUpdate({
+        target: [projectMembersTable.projectId, projectMembersTable.userId],
+        set: { role: insertMember.role, updatedAt: new Date() },
+      })
+      .returning();
+    return member;
+  }
+
+  async removeProjectMember(projectId: string, userId: string): Promise<boolean> {
+    const result = await db
+      .delete(projectMembersTable)
+      .where(and(eq(projectMembersTable.projectId, projectId), eq(projectMembersTable.userId, userId)));
+    return result.rowCount !== null && result.rowCount > 0;
+  }
+
   // Board methods
   async getBoard(id: string): Promise<BoardData | undefined> {
     const [board] = await db.select().from(boardsTable).where(eq(boardsTable.id, id));
@@ -529,6 +738,81 @@ export class DbStorage implements IStorage {
     const result = await db.delete(tilesetsTable).where(eq(tilesetsTable.id, id));
     return result.rowCount !== null && result.rowCount > 0;
   }
+
+  // Tileset pack methods
+  async getTilesetPack(id: string): Promise<TilesetPack | undefined> {
+    const [pack] = await db.select().from(tilesetPacksTable).where(eq(tilesetPacksTable.id, id));
+    return pack || undefined;
+  }
+
+  async getAllTilesetPacks(): Promise<TilesetPack[]> {
+    return await db.select().from(tilesetPacksTable);
+  }
+
+  async createTilesetPack(insertPack: InsertTilesetPack): Promise<TilesetPack> {
+    const [pack] = await db.insert(tilesetPacksTable).values(insertPack).returning();
+    return pack;
+  }
+
+  async updateTilesetPack(id: string, updates: Partial<InsertTilesetPack>): Promise<TilesetPack | undefined> {
+    const [pack] = await db
+      .update(tilesetPacksTable)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(tilesetPacksTable.id, id))
+      .returning();
+    return pack;
+  }
+
+  async deleteTilesetPack(id: string): Promise<boolean> {
+    const result = await db.delete(tilesetPacksTable).where(eq(tilesetPacksTable.id, id));
+    return result.rowCount !== null && result.rowCount > 0;
+  }
+
+  // Tile brush methods
+  async getTileBrush(id: string): Promise<TileBrush | undefined> {
+    const [brush] = await db.select().from(tileBrushesTable).where(eq(tileBrushesTable.id, id));
+    return brush || undefined;
+  }
+
+  async getTileBrushesByUser(userId: string): Promise<TileBrush[]> {
+    return await db.select().from(tileBrushesTable).where(eq(tileBrushesTable.userId, userId));
+  }
+
+  async createTileBrush(insertBrush: InsertTileBrush): Promise<TileBrush> {
+    const [brush] = await db.insert(tileBrushesTable).values(insertBrush).returning();
+    return brush;
+  }
+
+  async updateTileBrush(id: string, updates: Partial<InsertTileBrush>): Promise<TileBrush | undefined> {
+    const [brush] = await db
+      .update(tileBrushesTable)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(tileBrushesTable.id, id))
+      .returning();
+    return brush;
+  }
+
+  async deleteTileBrush(id: string): Promise<boolean> {
+    const result = await db.delete(tileBrushesTable).where(eq(tileBrushesTable.id, id));
+    return result.rowCount !== null && result.rowCount > 0;
+  }
+
+  // Collaborative document methods
+  async getDocumentState(name: string): Promise<Uint8Array | undefined> {
+    const [document] = await db.select().from(yjsDocumentsTable).where(eq(yjsDocumentsTable.name, name));
+    return document ? new Uint8Array(Buffer.from(document.state, 'base64')) : undefined;
+  }
+
+  async saveDocumentState(name: string, state: Uint8Array): Promise<void> {
+    const encoded = Buffer.from(state).toString('base64');
+    await db
+      .insert(yjsDocumentsTable)
+      .values({ name, state: encoded, updatedAt: new Date() })
+      .onConflictDoUpdate({
+        target: yjsDocumentsTable.name,
+        set: { state: encoded, updatedAt: new Date() },
+      });
+  }
 }
 
 // Use database storage (set USE_MEMORY_STORAGE=true in .env to use in-memory storage for testing)
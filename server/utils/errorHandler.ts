@@ -0,0 +1,96 @@
+import type { Request, Response, NextFunction, RequestHandler } from 'express';
+import { z } from 'zod';
+import { fromZodError } from 'zod-validation-error';
+
+export enum ErrorCode {
+  VALIDATION_ERROR = 'VALIDATION_ERROR',
+  AUTHENTICATION_ERROR = 'AUTHENTICATION_ERROR',
+  AUTHORIZATION_ERROR = 'AUTHORIZATION_ERROR',
+  NOT_FOUND = 'NOT_FOUND',
+  CONFLICT = 'CONFLICT',
+  RATE_LIMITED = 'RATE_LIMITED',
+  CONFIGURATION_ERROR = 'CONFIGURATION_ERROR',
+  EXTERNAL_SERVICE_ERROR = 'EXTERNAL_SERVICE_ERROR',
+  DATABASE_ERROR = 'DATABASE_ERROR',
+  INTERNAL_ERROR = 'INTERNAL_ERROR',
+}
+
+/** An error with the status and code the API responds with */
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    public statusCode = 500,
+    public code: ErrorCode = ErrorCode.INTERNAL_ERROR,
+    public details?: any
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+/** Forward errors from async route handlers to the error middleware */
+export function asyncHandler<Req extends Request = Request>(
+  handler: (req: Req, res: Response, next: NextFunction) => Promise<unknown>
+): RequestHandler {
+  return (req, res, next) => {
+    handler(req as Req, res, next).catch(next);
+  };
+}
+
+/** Parse request data, turning a schema mismatch into a 400 */
+export function validateParams<T extends z.ZodTypeAny>(schema: T, data: unknown): z.infer<T> {
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    throw new ApiError(fromZodError(result.error).message, 400, ErrorCode.VALIDATION_ERROR, {
+      issues: result.error.issues,
+    });
+  }
+  return result.data;
+}
+
+export function logError(error: unknown, context: string) {
+  const message = error instanceof Error ? error.stack ?? error.message : String(error);
+  console.error(`[${context}] ${message}`);
+}
+
+// Postgres error codes, see https://www.postgresql.org/docs/current/errcodes-appendix.html
+const UNIQUE_VIOLATION = '23505';
+const FOREIGN_KEY_VIOLATION = '23503';
+
+/** Map a storage error to an ApiError; ApiErrors pass through unchanged */
+export function handleDatabaseError(error: unknown): ApiError {
+  if (error instanceof ApiError) return error;
+
+  const code = (error as { code?: string } | null)?.code;
+  if (code === UNIQUE_VIOLATION) {
+    return new ApiError('Resource already exists', 409, ErrorCode.CONFLICT);
+  }
+  if (code === FOREIGN_KEY_VIOLATION) {
+    return new ApiError('Referenced resource not found', 400, ErrorCode.VALIDATION_ERROR);
+  }
+  return new ApiError('Database operation failed', 500, ErrorCode.DATABASE_ERROR);
+}
+
+export function notFoundHandler(req: Request, _res: Response, next: NextFunction) {
+  next(new ApiError(`Route ${req.method} ${req.path} not found`, 404, ErrorCode.NOT_FOUND));
+}
+
+export function errorHandler(error: unknown, _req: Request, res: Response, next: NextFunction) {
+  if (res.headersSent) {
+    return next(error);
+  }
+
+  const apiError = error instanceof ApiError
+    ? error
+    : new ApiError(error instanceof Error ? error.message : 'Internal server error');
+  if (apiError.statusCode >= 500) {
+    logError(error, 'UNHANDLED_ERROR');
+  }
+
+  res.status(apiError.statusCode).json({
+    error: apiError.message,
+    code: apiError.code,
+    details: apiError.details,
+    timestamp: new Date().toISOString(),
+  });
+}
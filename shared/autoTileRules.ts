@@ -0,0 +1,96 @@
+import type { AutoTileRule, AutoTileRuleOutput, TileLayer } from "./schema";
+import type { TileGrid } from "./tileGrid";
+import type { AutoTileNeighbors } from "./autoTileTemplates";
+
+/**
+ * Rule-based autotiling, authored per tileset in the rule editor.
+ *
+ * A rule lists conditions on some of the 8 neighbors:
+ * - match: the neighbor is painted with the given terrain (the rule's own
+ *   tileset when none is given)
+ * - not-match: the neighbor is empty or another terrain
+ * - any: ignored, same as leaving the direction out
+ *
+ * Rules are checked in order and the first one that matches picks one of its
+ * outputs by weight. The pick is rolled per cell, so a tile keeps its variant
+ * when its neighbors are repainted. When no rule matches, the tileset's
+ * bitmask table applies as usual (see shared/autoTiling.ts).
+ */
+
+export type RuleDirection = keyof AutoTileNeighbors;
+
+export const RULE_DIRECTION_OFFSETS: Record<RuleDirection, [number, number]> = {
+  top: [0, -1],
+  topRight: [1, -1],
+  right: [1, 0],
+  bottomRight: [1, 1],
+  bottom: [0, 1],
+  bottomLeft: [-1, 1],
+  left: [-1, 0],
+  topLeft: [-1, -1],
+};
+
+export interface RuleTileset {
+  id: string;
+  autoTileRules?: AutoTileRule[] | null;
+}
+
+/** Whether every neighbor condition of the rule holds for a tile of `tilesetId` at (x, y) */
+export function matchesAutoTileRule(
+  rule: AutoTileRule,
+  tilesetId: string,
+  x: number,
+  y: number,
+  tiles: TileGrid,
+  layer: TileLayer,
+  terrainOf: (tilesetId: string) => string = (id) => id
+): boolean {
+  return (Object.keys(RULE_DIRECTION_OFFSETS) as RuleDirection[]).every((direction) => {
+    const condition = rule.neighbors[direction];
+    if (!condition || condition.match === "any") return true;
+
+    const [dx, dy] = RULE_DIRECTION_OFFSETS[direction];
+    const neighbor = tiles.get(x + dx, y + dy, layer);
+    const isTerrain = !!neighbor && terrainOf(neighbor.tilesetId) === (condition.tilesetId || tilesetId);
+    return condition.match === "match" ? isTerrain : !isTerrain;
+  });
+}
+
+/** Stable roll in [0, 1) for a cell, salted with e.g. the rule id (FNV-1a) */
+export function cellRandom(x: number, y: number, salt: string): number {
+  let hash = 0x811c9dc5;
+  const input = `${x},${y},${salt}`;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) / 0x100000000;
+}
+
+/** One of the rule's outputs, picked by weight for the cell at (x, y) */
+export function pickRuleOutput(rule: AutoTileRule, x: number, y: number): AutoTileRuleOutput {
+  const total = rule.outputs.reduce((sum, output) => sum + output.weight, 0);
+  let roll = cellRandom(x, y, rule.id) * total;
+  for (const output of rule.outputs) {
+    roll -= output.weight;
+    if (roll < 0) return output;
+  }
+  return rule.outputs[rule.outputs.length - 1];
+}
+
+/** Output of the first of the tileset's rules that matches at (x, y), or null */
+export function resolveAutoTileRules(
+  tileset: RuleTileset,
+  x: number,
+  y: number,
+  tiles: TileGrid,
+  layer: TileLayer,
+  terrainOf?: (tilesetId: string) => string
+): AutoTileRuleOutput | null {
+  for (const rule of tileset.autoTileRules ?? []) {
+    if (rule.outputs.length > 0 && matchesAutoTileRule(rule, tileset.id, x, y, tiles, layer, terrainOf)) {
+      return pickRuleOutput(rule, x, y);
+    }
+  }
+  return null;
+}
@@ -0,0 +1,151 @@
+import type { Tileset, TilesetType } from "./schema";
+
+/**
+ * Sheet layouts for the 8-neighbor autotile modes.
+ *
+ * - blob-47: 47-tile "blob" sets. Masks use 8 bits, N=1, NE=2, E=4, SE=8,
+ *   S=16, SW=32, W=64, NW=128. A diagonal only counts when both edges next
+ *   to it are filled, which leaves 47 distinct masks (inner corners included).
+ * - wang-corner: 16-tile corner Wang sets. Masks use 4 bits, NE=1, SE=2,
+ *   SW=4, NW=8. Corners are grid vertices (dual-grid): a painted cell is the
+ *   vertex at its own tile's NW corner, and the other corners are the cells
+ *   to the right, below-right and below. The terrain is drawn half a tile
+ *   right and down of the painted cells, so a single cell or a 1-wide path
+ *   still shows up.
+ *
+ * A template lists the mask each cell of the sheet stands for, so a tileset
+ * can follow whichever layout its artist used. The 3x3 'auto-tiling' type
+ * keeps its 4-neighbor table in the autotilers.
+ */
+
+export interface AutoTileNeighbors {
+  top: boolean;
+  bottom: boolean;
+  left: boolean;
+  right: boolean;
+  topLeft: boolean;
+  topRight: boolean;
+  bottomLeft: boolean;
+  bottomRight: boolean;
+}
+
+export type TemplateTilesetType = Extract<TilesetType, "blob-47" | "wang-corner">;
+
+export interface AutoTileTemplate {
+  id: string;
+  name: string;
+  tilesetType: TemplateTilesetType;
+  columns: number;
+  rows: number;
+  masks: number[]; // Mask of each sheet cell, row by row; -1 for unused cells
+}
+
+export function isAutoTilingType(type: TilesetType | undefined): boolean {
+  return type === "auto-tiling" || type === "blob-47" || type === "wang-corner";
+}
+
+export function isTemplateTilesetType(type: TilesetType | undefined): type is TemplateTilesetType {
+  return type === "blob-47" || type === "wang-corner";
+}
+
+export function blobMask(n: AutoTileNeighbors): number {
+  return (
+    (n.top ? 1 : 0) |
+    (n.top && n.right && n.topRight ? 2 : 0) |
+    (n.right ? 4 : 0) |
+    (n.bottom && n.right && n.bottomRight ? 8 : 0) |
+    (n.bottom ? 16 : 0) |
+    (n.bottom && n.left && n.bottomLeft ? 32 : 0) |
+    (n.left ? 64 : 0) |
+    (n.top && n.left && n.topLeft ? 128 : 0)
+  );
+}
+
+// Masks are only computed for painted cells, which fill their own NW corner
+export function wangCornerMask(n: AutoTileNeighbors): number {
+  return (n.right ? 1 : 0) | (n.bottomRight ? 2 : 0) | (n.bottom ? 4 : 0) | 8;
+}
+
+// The 47 reachable blob masks in ascending order
+const BLOB_MASKS: number[] = Array.from({ length: 256 }, (_, mask) => mask).filter((mask) => {
+  const edge = (bit: number) => (mask & bit) !== 0;
+  return (
+    (!edge(2) || (edge(1) && edge(4))) &&
+    (!edge(8) || (edge(4) && edge(16))) &&
+    (!edge(32) || (edge(16) && edge(64))) &&
+    (!edge(128) || (edge(64) && edge(1)))
+  );
+});
+
+// Marching squares case index: bottom-left=1, bottom-right=2, top-right=4, top-left=8
+const MARCHING_SQUARES_MASKS: number[] = Array.from({ length: 16 }, (_, c) =>
+  (c & 4 ? 1 : 0) | (c & 2 ? 2 : 0) | (c & 1 ? 4 : 0) | (c & 8 ? 8 : 0)
+);
+
+export const AUTO_TILE_TEMPLATES: AutoTileTemplate[] = [
+  {
+    id: "blob-47-mask-order",
+    name: "Blob 47, mask order (8×6)",
+    tilesetType: "blob-47",
+    columns: 8,
+    rows: 6,
+    masks: [...BLOB_MASKS, -1],
+  },
+  {
+    id: "wang-corner-index",
+    name: "Wang corners, index order (4×4)",
+    tilesetType: "wang-corner",
+    columns: 4,
+    rows: 4,
+    masks: Array.from({ length: 16 }, (_, mask) => mask),
+  },
+  {
+    id: "wang-corner-marching-squares",
+    name: "Marching squares cases (4×4)",
+    tilesetType: "wang-corner",
+    columns: 4,
+    rows: 4,
+    masks: MARCHING_SQUARES_MASKS,
+  },
+];
+
+export function getTemplatesForType(type: TilesetType): AutoTileTemplate[] {
+  return AUTO_TILE_TEMPLATES.filter((template) => template.tilesetType === type);
+}
+
+/** The tileset's chosen template, or the first one for its type */
+export function getAutoTileTemplate(
+  tileset: Pick<Tileset, "tilesetType" | "autoTileTemplate">
+): AutoTileTemplate | undefined {
+  const templates = getTemplatesForType(tileset.tilesetType);
+  return templates.find((template) => template.id === tileset.autoTileTemplate) ?? templates[0];
+}
+
+const maskIndexCache = new Map<string, Map<number, number>>();
+
+function templateIndexOf(template: AutoTileTemplate, mask: number): number {
+  let lookup = maskIndexCache.get(template.id);
+  if (!lookup) {
+    lookup = new Map();
+    template.masks.forEach((m, index) => {
+      if (m >= 0 && !lookup!.has(m)) lookup!.set(m, index);
+    });
+    maskIndexCache.set(template.id, lookup);
+  }
+  return lookup.get(mask) ?? 0;
+}
+
+/**
+ * Sheet index for a blob-47 or wang-corner tile with the given neighbors.
+ * Returns null for other tileset types.
+ */
+export function calculateTemplateTileIndex(
+  tileset: Pick<Tileset, "tilesetType" | "autoTileTemplate">,
+  neighbors: AutoTileNeighbors
+): number | null {
+  const template = getAutoTileTemplate(tileset);
+  if (!template) return null;
+
+  const mask = template.tilesetType === "blob-47" ? blobMask(neighbors) : wangCornerMask(neighbors);
+  return templateIndexOf(template, mask);
+}
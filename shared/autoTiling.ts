@@ -0,0 +1,451 @@
+import type { AutoTileRule, TerrainSetConfig, Tile, TileLayer, TilesetType } from "./schema";
+import type { TileGrid } from "./tileGrid";
+import { calculateTemplateTileIndex, isAutoTilingType, isTemplateTilesetType, type AutoTileNeighbors } from "./autoTileTemplates";
+import { resolveAutoTileRules } from "./autoTileRules";
+
+/**
+ * Auto-tiling engine shared by the canvas paint tools and the AI tools, so
+ * hand-painted and generated terrain pick the same tiles.
+ *
+ * 3x3 auto-tiling uses a 4-neighbor bitmask algorithm
+ * 
+ * Tileset layout (indices):
+ * 0 1 2
+ * 3 4 5
+ * 6 7 8
+ * 
+ * Bitmask bits:
+ * - North (top) = 1
+ * - East (right) = 2
+ * - South (bottom) = 4
+ * - West (left) = 8
+ * 
+ * Bitmask value (0-15) maps to tile index (0-8)
+ *
+ * Blob (47-tile) and corner Wang (16-tile) tilesets also look at the
+ * diagonal neighbors and map them through their sheet template
+ * (see shared/autoTileTemplates.ts).
+ *
+ * On terrain layers, tileset packs can rank their terrains (TerrainSetConfig):
+ * a tile treats higher-priority neighbors as its own terrain, so it continues
+ * underneath them while they draw their edges over it. Where all of a tile's
+ * open edges meet one lower terrain, the pack's transition sheet for that pair
+ * is used instead of the tile's own sheet.
+ *
+ * Tilesets with authored rules (see shared/autoTileRules.ts) check those
+ * first and only fall back to the tables above when no rule matches.
+ */
+
+export type NeighborConfig = AutoTileNeighbors;
+
+// Tileset fields autotiling needs; the AI tools may only pass id and name
+export interface AutoTilingTileset {
+  id: string;
+  tilesetType?: TilesetType;
+  autoTileTemplate?: string | null;
+  autoTileRules?: AutoTileRule[] | null;
+}
+
+export interface AutoTileUpdate {
+  x: number;
+  y: number;
+  tileIndex: number;
+  tilesetId: string;
+  flipX?: boolean;
+  flipY?: boolean;
+}
+
+type ResolvedTile = Omit<AutoTileUpdate, "x" | "y">;
+
+export interface TerrainRules {
+  /** The terrain a tileset paints: transition sheets belong to their top terrain */
+  terrainOf(tilesetId: string): string;
+  /** Whether `top` draws its edges over `under` */
+  covers(top: string, under: string): boolean;
+  /** Transition sheet for `top`'s edges over `under`, if the pack has one */
+  transitionFor(top: string, under: string): string | undefined;
+}
+
+/** Combine the terrain sets of several tileset packs; priorities only compare within a set */
+export function buildTerrainRules(terrainSets: Array<TerrainSetConfig | null | undefined>): TerrainRules {
+  const ranks = new Map<string, Array<{ set: number; rank: number }>>();
+  const terrainOf = new Map<string, string>();
+  const transitions = new Map<string, string>();
+
+  terrainSets.forEach((terrainSet, set) => {
+    if (!terrainSet) return;
+    terrainSet.priorities.forEach((tilesetId, index) => {
+      const entries = ranks.get(tilesetId) ?? [];
+      entries.push({ set, rank: terrainSet.priorities.length - index });
+      ranks.set(tilesetId, entries);
+    });
+    terrainSet.transitions.forEach((transition) => {
+      terrainOf.set(transition.tilesetId, transition.terrainId);
+      transitions.set(`${transition.terrainId}>${transition.underId}`, transition.tilesetId);
+    });
+  });
+
+  return {
+    terrainOf: (tilesetId) => terrainOf.get(tilesetId) ?? tilesetId,
+    covers: (top, under) => {
+      const underRanks = ranks.get(under) ?? [];
+      return (ranks.get(top) ?? []).some((topRank) =>
+        underRanks.some((underRank) => underRank.set === topRank.set && underRank.rank < topRank.rank)
+      );
+    },
+    transitionFor: (top, under) => transitions.get(`${top}>${under}`),
+  };
+}
+
+const NO_TERRAIN_RULES = buildTerrainRules([]);
+
+/**
+ * Bitmask to tile index lookup table
+ * Maps 4-neighbor bitmask (0-15) to 3x3 tile index (0-8)
+ */
+export const BITMASK_TO_TILE: number[] = [
+  4,  // 0000 (no neighbors) → center/isolated
+  7,  // 0001 (N) → bottom edge
+  3,  // 0010 (E) → left edge
+  6,  // 0011 (N+E) → bottom-left corner
+  1,  // 0100 (S) → top edge
+  4,  // 0101 (N+S) → center (vertical)
+  0,  // 0110 (E+S) → top-left corner
+  3,  // 0111 (N+E+S) → left edge
+  5,  // 1000 (W) → right edge
+  8,  // 1001 (N+W) → bottom-right corner
+  4,  // 1010 (E+W) → center (horizontal)
+  7,  // 1011 (N+E+W) → bottom edge
+  2,  // 1100 (S+W) → top-right corner
+  5,  // 1101 (N+S+W) → right edge
+  1,  // 1110 (E+S+W) → top edge
+  4,  // 1111 (all) → center
+];
+
+/**
+ * Calculate the correct tile index based on neighbor configuration using bitmask
+ */
+export function calculateAutoTileIndex(neighbors: NeighborConfig): number {
+  // Calculate bitmask: N=1, E=2, S=4, W=8
+  const bitmask =
+    (neighbors.top ? 1 : 0) |
+    (neighbors.right ? 2 : 0) |
+    (neighbors.bottom ? 4 : 0) |
+    (neighbors.left ? 8 : 0);
+
+  return BITMASK_TO_TILE[bitmask];
+}
+
+/**
+ * Resolve the layer autotiling runs on. Use the explicit layer if provided,
+ * otherwise the layer of the tile found at the position.
+ * Returns null for props (and unknown) tiles, which keep the same-tileset-on-any-layer behavior.
+ */
+function resolveAutoTileLayer(
+  x: number,
+  y: number,
+  tilesetId: string,
+  tiles: TileGrid,
+  layer?: TileLayer
+): TileLayer | null {
+  const resolved = layer ?? tiles.getAt(x, y).find(t => t.tilesetId === tilesetId)?.layer;
+  return resolved === undefined || resolved === "props" ? null : resolved;
+}
+
+/**
+ * Get the neighbor configuration for a tile at the given position
+ * For terrain-style layers (any layer but props), considers ONLY tiles from the same
+ * tileset on the same layer as neighbors
+ * (different terrain types are treated as empty, producing edges as intended)
+ * For props-layer tiles, only considers tiles from the same tileset
+ */
+export function getNeighborConfig(
+  x: number,
+  y: number,
+  tilesetId: string,
+  tiles: TileGrid,
+  layer?: TileLayer,
+  rules: TerrainRules = NO_TERRAIN_RULES
+): NeighborConfig {
+  const terrainLayer = resolveAutoTileLayer(x, y, tilesetId, tiles, layer);
+  const terrain = rules.terrainOf(tilesetId);
+
+  const hasTileAt = (tx: number, ty: number) => {
+    if (terrainLayer) {
+      // For terrain tiles: neighbors must be the SAME terrain to create edges at boundaries,
+      // unless a higher-priority terrain covers this one there
+      const neighbor = tiles.get(tx, ty, terrainLayer);
+      if (!neighbor) return false;
+      const neighborTerrain = rules.terrainOf(neighbor.tilesetId);
+      return neighborTerrain === terrain || rules.covers(neighborTerrain, terrain);
+    } else {
+      // For props tiles: only consider tiles from the same tileset
+      return tiles.getAt(tx, ty).some((t) => t.tilesetId === tilesetId);
+    }
+  };
+
+  return {
+    top: hasTileAt(x, y - 1),
+    bottom: hasTileAt(x, y + 1),
+    left: hasTileAt(x - 1, y),
+    right: hasTileAt(x + 1, y),
+    topLeft: hasTileAt(x - 1, y - 1),
+    topRight: hasTileAt(x + 1, y - 1),
+    bottomLeft: hasTileAt(x - 1, y + 1),
+    bottomRight: hasTileAt(x + 1, y + 1),
+  };
+}
+
+/**
+ * Index for a tile with the given neighbors: blob and Wang tilesets go
+ * through their template, everything else uses the 3x3 table
+ */
+export function calculateTilesetTileIndex(neighbors: NeighborConfig, tileset?: AutoTilingTileset): number {
+  if (tileset && isTemplateTilesetType(tileset.tilesetType)) {
+    const index = calculateTemplateTileIndex(
+      { tilesetType: tileset.tilesetType, autoTileTemplate: tileset.autoTileTemplate },
+      neighbors
+    );
+    if (index !== null) return index;
+  }
+  return calculateAutoTileIndex(neighbors);
+}
+
+/**
+ * Tileset and index for a tile at a position, with the tileset's authored
+ * rules checked first, the ledge bottom-row rule applied to 3x3 tiles and
+ * terrain transitions picked on terrain-style layers
+ */
+function resolveTile(
+  pos: { x: number; y: number },
+  tilesetId: string,
+  tiles: TileGrid,
+  layer: TileLayer | null,
+  tilesets: AutoTilingTileset[],
+  rules: TerrainRules
+): ResolvedTile {
+  const ruleTilesetId = layer ? rules.terrainOf(tilesetId) : tilesetId;
+  const ruleTileset = tilesets.find((t) => t.id === ruleTilesetId);
+  const output = ruleTileset && resolveAutoTileRules(ruleTileset, pos.x, pos.y, tiles, layer ?? "props", rules.terrainOf);
+  if (output) {
+    return {
+      tilesetId: ruleTilesetId,
+      tileIndex: output.tileIndex,
+      ...(output.flipX && { flipX: true }),
+      ...(output.flipY && { flipY: true }),
+    };
+  }
+
+  if (!layer) {
+    const neighbors = getNeighborConfig(pos.x, pos.y, tilesetId, tiles, "props");
+    return { tilesetId, tileIndex: calculateTilesetTileIndex(neighbors, tilesets.find((t) => t.id === tilesetId)) };
+  }
+
+  const terrain = rules.terrainOf(tilesetId);
+  const neighbors = getNeighborConfig(pos.x, pos.y, terrain, tiles, layer, rules);
+  const terrainTileset = tilesets.find((t) => t.id === terrain);
+  const outputId = pickTransition(pos, terrain, terrainTileset, neighbors, tiles, layer, rules) ?? terrain;
+  const tileset = tilesets.find((t) => t.id === outputId) ?? terrainTileset;
+
+  if (tileset && isTemplateTilesetType(tileset.tilesetType)) {
+    return { tilesetId: outputId, tileIndex: calculateTilesetTileIndex(neighbors, tileset) };
+  }
+
+  // Apply ledge bottom-row rule: only same-type neighbors trigger bottom tiles
+  const candidateIndex = calculateAutoTileIndex(neighbors);
+  const adjusted = applyLedgeBottomRowRule(pos, terrain, tiles, layer, neighbors, candidateIndex, rules);
+  return { tilesetId: outputId, tileIndex: calculateAutoTileIndex(adjusted) };
+}
+
+/**
+ * Transition sheet for a terrain tile whose open edges all meet the same
+ * lower terrain. Diagonals only count for blob and Wang tilesets.
+ */
+function pickTransition(
+  pos: { x: number; y: number },
+  terrain: string,
+  tileset: AutoTilingTileset | undefined,
+  neighbors: NeighborConfig,
+  tiles: TileGrid,
+  layer: TileLayer,
+  rules: TerrainRules
+): string | undefined {
+  const offsets: Array<[keyof NeighborConfig, number, number]> = [
+    ["top", 0, -1],
+    ["bottom", 0, 1],
+    ["left", -1, 0],
+    ["right", 1, 0],
+  ];
+  if (tileset && isTemplateTilesetType(tileset.tilesetType)) {
+    offsets.push(["topLeft", -1, -1], ["topRight", 1, -1], ["bottomLeft", -1, 1], ["bottomRight", 1, 1]);
+  }
+
+  let under: string | undefined;
+  for (const [direction, dx, dy] of offsets) {
+    if (neighbors[direction]) continue;
+    const neighbor = tiles.get(pos.x + dx, pos.y + dy, layer);
+    // An edge facing empty space keeps the terrain's own sheet
+    if (!neighbor) return undefined;
+    const neighborTerrain = rules.terrainOf(neighbor.tilesetId);
+    if (under !== undefined && under !== neighborTerrain) return undefined;
+    under = neighborTerrain;
+  }
+
+  return under !== undefined && rules.covers(terrain, under) ? rules.transitionFor(terrain, under) : undefined;
+}
+
+/**
+ * Get all tiles that need to be updated when a tile is added/removed
+ * For terrain tiles, this also updates neighboring tiles of different terrain types
+ * to create proper edges (e.g., water edges when grass is painted next to water)
+ */
+export function getTilesToUpdate(
+  x: number,
+  y: number,
+  tilesetId: string,
+  tiles: TileGrid,
+  includeSelf: boolean = true,
+  layer?: TileLayer,
+  tilesets: AutoTilingTileset[] = [],
+  terrainSets: Array<TerrainSetConfig | null | undefined> = []
+): AutoTileUpdate[] {
+  return collectTileUpdates(x, y, tilesetId, tiles, includeSelf, layer, tilesets, buildTerrainRules(terrainSets));
+}
+
+function collectTileUpdates(
+  x: number,
+  y: number,
+  tilesetId: string,
+  tiles: TileGrid,
+  includeSelf: boolean,
+  layer: TileLayer | undefined,
+  tilesets: AutoTilingTileset[],
+  rules: TerrainRules
+): AutoTileUpdate[] {
+  const updates: AutoTileUpdate[] = [];
+  // Plain tiles (doors, decorations, ...) keep the index they were placed with
+  const isAutoTiled = (id: string) => isAutoTilingType(tilesets.find((t) => t.id === id)?.tilesetType);
+
+  // Determine if this is a terrain-style or props tile
+  const terrainLayer = resolveAutoTileLayer(x, y, tilesetId, tiles, layer);
+
+  // Update surrounding tiles; diagonals matter to blob and Wang tilesets
+  const positions = [
+    { x, y: y - 1 }, // Top
+    { x, y: y + 1 }, // Bottom
+    { x: x - 1, y }, // Left
+    { x: x + 1, y }, // Right
+    { x: x - 1, y: y - 1 }, // Top-left
+    { x: x + 1, y: y - 1 }, // Top-right
+    { x: x - 1, y: y + 1 }, // Bottom-left
+    { x: x + 1, y: y + 1 }, // Bottom-right
+  ];
+
+  if (includeSelf) {
+    positions.push({ x, y }); // Center
+  }
+
+  for (const pos of positions) {
+    if (terrainLayer) {
+      // For terrain tiles: update ALL tiles on the layer at neighboring positions (cross-tileset)
+      const terrainTile = tiles.get(pos.x, pos.y, terrainLayer);
+
+      if (terrainTile) {
+        if (isAutoTiled(terrainTile.tilesetId)) {
+          updates.push({ x: pos.x, y: pos.y, ...resolveTile(pos, terrainTile.tilesetId, tiles, terrainLayer, tilesets, rules) });
+        }
+      } else if (pos.x === x && pos.y === y && includeSelf && isAutoTiled(tilesetId)) {
+        // If no tile at position but includeSelf and it's the center, add it
+        updates.push({ x: pos.x, y: pos.y, ...resolveTile(pos, tilesetId, tiles, terrainLayer, tilesets, rules) });
+      }
+    } else if (isAutoTiled(tilesetId)) {
+      // For props tiles: only update tiles from the same tileset (original behavior)
+      const existingTile = tiles.getAt(pos.x, pos.y).find((t) => t.tilesetId === tilesetId);
+
+      if (existingTile || (pos.x === x && pos.y === y && includeSelf)) {
+        updates.push({ x: pos.x, y: pos.y, ...resolveTile(pos, tilesetId, tiles, null, tilesets, rules) });
+      }
+    }
+  }
+
+  return updates;
+}
+
+/**
+ * Place new tiles and auto-tile them together with their neighbors.
+ * All new tiles are placed before any index is calculated, so the result only
+ * depends on which cells end up filled, not on the order they were painted in.
+ * Only tiles of auto-tiling tilesets (see isAutoTilingType) are recalculated;
+ * other new tiles are returned as given and still count as neighbors.
+ * Returns every tile that needs to be added or updated.
+ */
+export function applyAutoTiling(
+  newTiles: Tile[],
+  existingTiles: TileGrid,
+  tilesets: AutoTilingTileset[] = [],
+  terrainSets: Array<TerrainSetConfig | null | undefined> = []
+): Tile[] {
+  const rules = buildTerrainRules(terrainSets);
+
+  // Combine existing and new tiles without mutating the caller's grid
+  const allTiles = existingTiles.clone();
+  newTiles.forEach((tile) => allTiles.set(tile));
+
+  const tilesToUpdate = new Map<string, Tile>();
+  newTiles.forEach((newTile) => {
+    tilesToUpdate.set(`${newTile.x},${newTile.y},${newTile.layer}`, newTile);
+  });
+  newTiles.forEach((newTile) => {
+    const updates = collectTileUpdates(newTile.x, newTile.y, newTile.tilesetId, allTiles, true, newTile.layer, tilesets, rules);
+    updates.forEach((update) => {
+      const key = `${update.x},${update.y},${newTile.layer}`;
+      tilesToUpdate.set(key, { ...update, layer: newTile.layer });
+    });
+  });
+
+  return Array.from(tilesToUpdate.values());
+}
+
+/**
+ * Helper: identify tilesets that follow the ledge bottom-row restriction.
+ */
+function isLedgeTileset(tilesetId: string): boolean {
+  return tilesetId.toLowerCase().startsWith("ledge");
+}
+
+/**
+ * Adjust neighbors for ledge tiles so that bottom-row outputs (indices 6,7,8)
+ * only occur when the influencing neighbors are of the same tileset.
+ * - Index 7 (bottom edge) requires the NORTH neighbor to be same tileset
+ * - Index 6 (bottom-left corner) requires NORTH and EAST to be same tileset
+ * - Index 8 (bottom-right corner) requires NORTH and WEST to be same tileset
+ */
+function applyLedgeBottomRowRule(
+  pos: { x: number; y: number },
+  tilesetId: string,
+  tiles: TileGrid,
+  layer: TileLayer,
+  neighborsAny: NeighborConfig,
+  candidateIndex: number,
+  rules: TerrainRules
+): NeighborConfig {
+  if (!isLedgeTileset(tilesetId) || (candidateIndex !== 6 && candidateIndex !== 7 && candidateIndex !== 8)) {
+    return neighborsAny;
+  }
+
+  const sameTileAt = (tx: number, ty: number) => {
+    const tile = tiles.get(tx, ty, layer);
+    return !!tile && rules.terrainOf(tile.tilesetId) === tilesetId;
+  };
+
+  const adjusted: NeighborConfig = { ...neighborsAny };
+  adjusted.top = sameTileAt(pos.x, pos.y - 1);
+
+  if (candidateIndex === 6) {
+    adjusted.right = sameTileAt(pos.x + 1, pos.y);
+  } else if (candidateIndex === 8) {
+    adjusted.left = sameTileAt(pos.x - 1, pos.y);
+  }
+
+  return adjusted;
+}
@@ -0,0 +1,161 @@
+import type { Tile, TileLayer } from "./schema";
+import { createSeededRandom } from "./seededRandom";
+
+/**
+ * Caves from cellular automata. The area starts as random noise of walls
+ * and floor; each iteration a floor cell surrounded by enough walls becomes
+ * wall and a wall with too few wall neighbours crumbles to floor, which
+ * smooths the noise into caverns. Afterwards every floor pocket that isn't
+ * part of the largest cavern is filled in, so the floor is one connected
+ * region.
+ */
+
+export interface CaveRules {
+  fillRatio: number; // Share of cells that start as wall
+  birthLimit: number; // A floor cell with at least this many of its 8 neighbours walls becomes wall
+  deathLimit: number; // A wall with fewer wall neighbours than this becomes floor
+  iterations: number;
+}
+
+export const DEFAULT_CAVE_RULES: CaveRules = {
+  fillRatio: 0.45,
+  birthLimit: 5,
+  deathLimit: 4,
+  iterations: 4,
+};
+
+export const MAX_CAVE_SIZE = 200; // tiles per side
+
+export interface CaveOptions extends Partial<CaveRules> {
+  area: { x: number; y: number; width: number; height: number };
+  seed: number;
+}
+
+export interface Cave {
+  x: number; // Board cell of the area's top-left corner
+  y: number;
+  width: number;
+  height: number;
+  walls: boolean[]; // Row by row over the area; the border is always wall
+  floorCount: number;
+  removedPockets: number; // Floor regions filled in because they weren't connected to the main cavern
+}
+
+export interface CaveTilesets {
+  wall: string;
+  floor?: string; // Floor stays empty without one, e.g. open air in a platformer
+}
+
+const TERRAIN_TILE_INDEX = 4; // Centre tile; autotiling picks the edges
+
+export function generateCave(options: CaveOptions): Cave {
+  const { area, seed } = options;
+  const rules: CaveRules = {
+    fillRatio: options.fillRatio ?? DEFAULT_CAVE_RULES.fillRatio,
+    birthLimit: options.birthLimit ?? DEFAULT_CAVE_RULES.birthLimit,
+    deathLimit: options.deathLimit ?? DEFAULT_CAVE_RULES.deathLimit,
+    iterations: options.iterations ?? DEFAULT_CAVE_RULES.iterations,
+  };
+  const { width, height } = area;
+  const random = createSeededRandom(seed);
+
+  const isBorder = (x: number, y: number) => x === 0 || y === 0 || x === width - 1 || y === height - 1;
+  let walls = Array.from({ length: width * height }, (_, i) =>
+    isBorder(i % width, Math.floor(i / width)) || random() < rules.fillRatio
+  );
+
+  // Cells outside the area count as wall, so caverns close off at the edges
+  const wallNeighbours = (cells: boolean[], x: number, y: number) => {
+    let count = 0;
+    for (let dy = -1; dy <= 1; dy++) {
+      for (let dx = -1; dx <= 1; dx++) {
+        if (dx === 0 && dy === 0) continue;
+        const nx = x + dx;
+        const ny = y + dy;
+        if (nx < 0 || ny < 0 || nx >= width || ny >= height || cells[nx + ny * width]) count++;
+      }
+    }
+    return count;
+  };
+
+  for (let iteration = 0; iteration < rules.iterations; iteration++) {
+    const previous = walls;
+    walls = previous.map((wall, i) => {
+      const x = i % width;
+      const y = Math.floor(i / width);
+      if (isBorder(x, y)) return true;
+      const neighbours = wallNeighbours(previous, x, y);
+      return wall ? neighbours >= rules.deathLimit : neighbours >= rules.birthLimit;
+    });
+  }
+
+  // Label the floor regions, then fill in all but the largest
+  const region = new Int32Array(width * height).fill(-1);
+  const sizes: number[] = [];
+  for (let start = 0; start < walls.length; start++) {
+    if (walls[start] || region[start] >= 0) continue;
+    const id = sizes.length;
+    let size = 0;
+    const stack = [start];
+    region[start] = id;
+    while (stack.length > 0) {
+      const i = stack.pop()!;
+      size++;
+      const x = i % width;
+      const y = Math.floor(i / width);
+      for (const [nx, ny] of [[x - 1, y], [x + 1, y], [x, y - 1], [x, y + 1]]) {
+        if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+        const j = nx + ny * width;
+        if (!walls[j] && region[j] < 0) {
+          region[j] = id;
+          stack.push(j);
+        }
+      }
+    }
+    sizes.push(size);
+  }
+
+  const largest = sizes.reduce((best, size, id) => (best < 0 || size > sizes[best] ? id : best), -1);
+  walls = walls.map((wall, i) => wall || region[i] !== largest);
+
+  return {
+    x: area.x,
+    y: area.y,
+    width,
+    height,
+    walls,
+    floorCount: largest < 0 ? 0 : sizes[largest],
+    removedPockets: Math.max(0, sizes.length - 1),
+  };
+}
+
+/** Wall and floor tiles for a cave, not autotiled yet */
+export function caveTiles(cave: Cave, tilesets: CaveTilesets, layer: TileLayer = "terrain"): Tile[] {
+  const tiles: Tile[] = [];
+  cave.walls.forEach((wall, i) => {
+    const tilesetId = wall ? tilesets.wall : tilesets.floor;
+    if (!tilesetId) return;
+    tiles.push({
+      x: cave.x + (i % cave.width),
+      y: cave.y + Math.floor(i / cave.width),
+      tilesetId,
+      tileIndex: TERRAIN_TILE_INDEX,
+      layer,
+    });
+  });
+  return tiles;
+}
+
+/** Floor cells with wall right below them, where something can stand */
+export function caveGround(cave: Cave): Array<{ x: number; y: number }> {
+  const ground: Array<{ x: number; y: number }> = [];
+  for (let y = 0; y < cave.height - 1; y++) {
+    for (let x = 0; x < cave.width; x++) {
+      if (!cave.walls[x + y * cave.width] && cave.walls[x + (y + 1) * cave.width]) {
+        ground.push({ x: cave.x + x, y: cave.y + y });
+      }
+    }
+  }
+  return ground;
+}
+
@@ -0,0 +1,332 @@
+import type { SpriteInstance, Tile, TileLayer } from "./schema";
+import { createSeededRandom, randomInt, type RandomSource } from "./seededRandom";
+
+/**
+ * Top-down dungeons from binary space partitioning. The area is split into
+ * leaves until there is one per room, each leaf gets a room, and sibling
+ * subtrees are joined by L-shaped corridors so every room is reachable.
+ * Extra corridors between nearby rooms add loops. Doors go where a corridor
+ * opens into a room, and the rooms at the ends of the longest route are
+ * tagged as the start and the boss room.
+ */
+
+export type RoomTag = "start" | "boss" | "treasure";
+
+export const ROOM_TAGS: RoomTag[] = ["start", "boss", "treasure"];
+
+export interface DungeonRoom {
+  x: number; // Board cell of the top-left floor tile
+  y: number;
+  width: number;
+  height: number;
+  tag?: RoomTag;
+}
+
+export interface DungeonOptions {
+  area: { x: number; y: number; width: number; height: number };
+  seed: number;
+  roomCount?: number;
+  minRoomSize?: number;
+  maxRoomSize?: number;
+  loops?: number; // Corridors added beyond the ones that connect every room
+}
+
+export type DungeonCell = "empty" | "room" | "corridor" | "wall";
+
+export interface Dungeon {
+  x: number; // Board cell of the area's top-left corner
+  y: number;
+  width: number;
+  height: number;
+  cells: DungeonCell[]; // Row by row over the area
+  rooms: DungeonRoom[]; // Fewer than asked for when the area has no space for more
+  doors: Array<{ x: number; y: number }>; // Board cells
+  spawns: Array<{ tag: RoomTag; x: number; y: number }>; // Board cell at the centre of each tagged room
+  corridors: number;
+}
+
+export interface DungeonTilesets {
+  floor: string;
+  wall?: string; // Walls are left empty without one
+  door?: string; // Doors go over the floor, on the props layer by default
+}
+
+export const DEFAULT_ROOM_COUNT = 8;
+export const DEFAULT_MIN_ROOM_SIZE = 4;
+export const DEFAULT_MAX_ROOM_SIZE = 8;
+export const DEFAULT_DUNGEON_LOOPS = 1;
+export const MAX_DUNGEON_SIZE = 200; // tiles per side
+
+const TERRAIN_TILE_INDEX = 4; // Centre tile; autotiling picks the edges
+const SPLIT_RATIO = 1.25; // Leaves longer than this in one direction are always cut across it
+
+// Sprite definitions that mark where each tagged room's spawn point is
+export const SPAWN_SPRITE_IDS: Record<RoomTag, string> = {
+  start: "spawn-start",
+  boss: "spawn-boss",
+  treasure: "spawn-treasure",
+};
+
+export const SPAWN_SPRITE_SIZE = 16; // px per side of the spawn-point images
+
+interface Leaf {
+  x: number; // Area-relative
+  y: number;
+  width: number;
+  height: number;
+  children?: [Leaf, Leaf];
+  room?: number; // Index into the room list
+}
+
+const centre = (room: DungeonRoom) => ({
+  x: room.x + Math.floor(room.width / 2),
+  y: room.y + Math.floor(room.height / 2),
+});
+
+const distance = (a: DungeonRoom, b: DungeonRoom) => {
+  const ca = centre(a);
+  const cb = centre(b);
+  return Math.abs(ca.x - cb.x) + Math.abs(ca.y - cb.y);
+};
+
+// Split the largest leaf that can still hold a room on both sides, until there are enough leaves
+function partition(root: Leaf, roomCount: number, minLeaf: number, random: RandomSource): Leaf[] {
+  let leaves = [root];
+  while (leaves.length < roomCount) {
+    const splittable = leaves
+      .filter((leaf) => leaf.width >= minLeaf * 2 || leaf.height >= minLeaf * 2)
+      .sort((a, b) => b.width * b.height - a.width * a.height);
+    const leaf = splittable[0];
+    if (!leaf) break;
+
+    const canCutX = leaf.width >= minLeaf * 2;
+    const canCutY = leaf.height >= minLeaf * 2;
+    let cutX = canCutX && (!canCutY || random() < 0.5);
+    if (canCutX && canCutY) {
+      if (leaf.width / leaf.height >= SPLIT_RATIO) cutX = true;
+      else if (leaf.height / leaf.width >= SPLIT_RATIO) cutX = false;
+    }
+
+    if (cutX) {
+      const cut = randomInt(random, minLeaf, leaf.width - minLeaf + 1);
+      leaf.children = [
+        { x: leaf.x, y: leaf.y, width: cut, height: leaf.height },
+        { x: leaf.x + cut, y: leaf.y, width: leaf.width - cut, height: leaf.height },
+      ];
+    } else {
+      const cut = randomInt(random, minLeaf, leaf.height - minLeaf + 1);
+      leaf.children = [
+        { x: leaf.x, y: leaf.y, width: leaf.width, height: cut },
+        { x: leaf.x, y: leaf.y + cut, width: leaf.width, height: leaf.height - cut },
+      ];
+    }
+    leaves = leaves.flatMap((l) => (l === leaf ? leaf.children! : [l]));
+  }
+  return leaves;
+}
+
+const roomsUnder = (leaf: Leaf): number[] =>
+  leaf.children ? [...roomsUnder(leaf.children[0]), ...roomsUnder(leaf.children[1])] : leaf.room !== undefined ? [leaf.room] : [];
+
+/** Rooms hop-counted along the corridors from one room */
+function roomDistances(from: number, roomCount: number, links: Array<[number, number]>): number[] {
+  const distances = new Array<number>(roomCount).fill(Infinity);
+  distances[from] = 0;
+  const queue = [from];
+  while (queue.length > 0) {
+    const room = queue.shift()!;
+    for (const [a, b] of links) {
+      const next = a === room ? b : b === room ? a : -1;
+      if (next >= 0 && distances[next] === Infinity) {
+        distances[next] = distances[room] + 1;
+        queue.push(next);
+      }
+    }
+  }
+  return distances;
+}
+
+const farthest = (distances: number[], exclude: number[] = []) =>
+  distances.reduce(
+    (best, d, i) => (!exclude.includes(i) && d !== Infinity && (best < 0 || d > distances[best]) ? i : best),
+    -1
+  );
+
+export function generateDungeon(options: DungeonOptions): Dungeon {
+  const { area, seed } = options;
+  const roomCount = Math.max(1, options.roomCount ?? DEFAULT_ROOM_COUNT);
+  const minRoomSize = Math.max(2, options.minRoomSize ?? DEFAULT_MIN_ROOM_SIZE);
+  const maxRoomSize = Math.max(minRoomSize, options.maxRoomSize ?? DEFAULT_MAX_ROOM_SIZE);
+  const loops = Math.max(0, options.loops ?? DEFAULT_DUNGEON_LOOPS);
+  const random = createSeededRandom(seed);
+  const { width, height } = area;
+
+  const cells = new Array<DungeonCell>(width * height).fill("empty");
+  const index = (x: number, y: number) => x - area.x + (y - area.y) * width;
+  const inArea = (x: number, y: number) => x >= area.x && y >= area.y && x < area.x + width && y < area.y + height;
+  const isFloor = (x: number, y: number) => inArea(x, y) && cells[index(x, y)] !== "empty" && cells[index(x, y)] !== "wall";
+
+  // A one-tile margin inside every leaf keeps walls between neighbouring rooms
+  const root: Leaf = { x: 0, y: 0, width, height };
+  const leaves = partition(root, roomCount, minRoomSize + 2, random);
+  const rooms: DungeonRoom[] = [];
+  for (const leaf of leaves) {
+    if (leaf.width < minRoomSize + 2 || leaf.height < minRoomSize + 2) continue;
+    const roomWidth = randomInt(random, minRoomSize, Math.min(maxRoomSize, leaf.width - 2) + 1);
+    const roomHeight = randomInt(random, minRoomSize, Math.min(maxRoomSize, leaf.height - 2) + 1);
+    leaf.room = rooms.length;
+    rooms.push({
+      x: area.x + randomInt(random, leaf.x + 1, leaf.x + leaf.width - roomWidth),
+      y: area.y + randomInt(random, leaf.y + 1, leaf.y + leaf.height - roomHeight),
+      width: roomWidth,
+      height: roomHeight,
+    });
+  }
+  for (const room of rooms) {
+    for (let y = room.y; y < room.y + room.height; y++) {
+      for (let x = room.x; x < room.x + room.width; x++) cells[index(x, y)] = "room";
+    }
+  }
+
+  const links: Array<[number, number]> = [];
+  const carve = (a: number, b: number) => {
+    links.push([a, b]);
+    const from = centre(rooms[a]);
+    const to = centre(rooms[b]);
+    const corner = random() < 0.5 ? { x: to.x, y: from.y } : { x: from.x, y: to.y };
+    for (const [start, end] of [[from, corner], [corner, to]]) {
+      const stepX = Math.sign(end.x - start.x);
+      const stepY = Math.sign(end.y - start.y);
+      for (let x = start.x, y = start.y; ; x += stepX, y += stepY) {
+        if (cells[index(x, y)] === "empty") cells[index(x, y)] = "corridor";
+        if (x === end.x && y === end.y) break;
+      }
+    }
+  };
+
+  // Join the closest pair of rooms across each split, bottom-up, so every room is connected
+  const connect = (leaf: Leaf) => {
+    if (!leaf.children) return;
+    leaf.children.forEach(connect);
+    const left = roomsUnder(leaf.children[0]);
+    const right = roomsUnder(leaf.children[1]);
+    let best: [number, number] | null = null;
+    for (const a of left) {
+      for (const b of right) {
+        if (!best || distance(rooms[a], rooms[b]) < distance(rooms[best[0]], rooms[best[1]])) best = [a, b];
+      }
+    }
+    if (best) carve(best[0], best[1]);
+  };
+  connect(root);
+
+  // Loops join the nearest rooms that aren't linked yet
+  const linked = (a: number, b: number) => links.some(([p, q]) => (p === a && q === b) || (p === b && q === a));
+  const candidates: Array<[number, number]> = [];
+  rooms.forEach((_, a) => rooms.forEach((_, b) => a < b && !linked(a, b) && candidates.push([a, b])));
+  candidates
+    .sort((p, q) => distance(rooms[p[0]], rooms[p[1]]) - distance(rooms[q[0]], rooms[q[1]]))
+    .slice(0, loops)
+    .forEach(([a, b]) => carve(a, b));
+
+  // A door is a corridor cell that opens into a room through a one-tile gap
+  const doors: Array<{ x: number; y: number }> = [];
+  for (let y = area.y; y < area.y + height; y++) {
+    for (let x = area.x; x < area.x + width; x++) {
+      if (cells[index(x, y)] !== "corridor") continue;
+      const opensX = [x - 1, x + 1].some((nx) => inArea(nx, y) && cells[index(nx, y)] === "room");
+      const opensY = [y - 1, y + 1].some((ny) => inArea(x, ny) && cells[index(x, ny)] === "room");
+      if ((opensX && !isFloor(x, y - 1) && !isFloor(x, y + 1)) || (opensY && !isFloor(x - 1, y) && !isFloor(x + 1, y))) {
+        doors.push({ x, y });
+      }
+    }
+  }
+
+  // Walls surround the floor, diagonals included, so corners are closed
+  for (let y = area.y; y < area.y + height; y++) {
+    for (let x = area.x; x < area.x + width; x++) {
+      if (cells[index(x, y)] !== "empty") continue;
+      let touchesFloor = false;
+      for (let dy = -1; dy <= 1 && !touchesFloor; dy++) {
+        for (let dx = -1; dx <= 1 && !touchesFloor; dx++) touchesFloor = isFloor(x + dx, y + dy);
+      }
+      if (touchesFloor) cells[index(x, y)] = "wall";
+    }
+  }
+
+  // Start and boss are the two ends of the longest route; treasure prefers a dead end off the way
+  if (rooms.length > 0) {
+    const start = farthest(roomDistances(0, rooms.length, links));
+    const fromStart = roomDistances(start, rooms.length, links);
+    rooms[start].tag = "start";
+    if (rooms.length > 1) {
+      const boss = farthest(fromStart, [start]);
+      rooms[boss].tag = "boss";
+      const fromBoss = roomDistances(boss, rooms.length, links);
+      const others = rooms.map((_, i) => i).filter((i) => i !== start && i !== boss);
+      const degree = (i: number) => links.filter(([a, b]) => a === i || b === i).length;
+      const treasure = others.sort(
+        (a, b) =>
+          Number(degree(a) === 1) - Number(degree(b) === 1) ||
+          Math.min(fromStart[a], fromBoss[a]) - Math.min(fromStart[b], fromBoss[b])
+      ).pop();
+      if (treasure !== undefined) rooms[treasure].tag = "treasure";
+    }
+  }
+
+  const spawns = ROOM_TAGS.flatMap((tag) => {
+    const room = rooms.find((r) => r.tag === tag);
+    return room ? [{ tag, ...centre(room) }] : [];
+  });
+
+  return { x: area.x, y: area.y, width, height, cells, rooms, doors, spawns, corridors: links.length };
+}
+
+/**
+ * Floor, wall and door tiles for a dungeon; floor and walls aren't autotiled
+ * yet. Doors go over the floor on their own layer, or take the floor's place
+ * when both share one.
+ */
+export function dungeonTiles(
+  dungeon: Dungeon,
+  tilesets: DungeonTilesets,
+  layer: TileLayer = "terrain",
+  doorLayer: TileLayer = "props"
+): Tile[] {
+  const tiles: Tile[] = [];
+  const doorCells = new Set(
+    tilesets.door && doorLayer === layer ? dungeon.doors.map((door) => `${door.x},${door.y}`) : []
+  );
+  dungeon.cells.forEach((cell, i) => {
+    const x = dungeon.x + (i % dungeon.width);
+    const y = dungeon.y + Math.floor(i / dungeon.width);
+    if ((cell === "room" || cell === "corridor") && !doorCells.has(`${x},${y}`)) {
+      tiles.push({ x, y, tilesetId: tilesets.floor, tileIndex: TERRAIN_TILE_INDEX, layer });
+    } else if (cell === "wall" && tilesets.wall) {
+      tiles.push({ x, y, tilesetId: tilesets.wall, tileIndex: TERRAIN_TILE_INDEX, layer });
+    }
+  });
+  if (tilesets.door) {
+    for (const door of dungeon.doors) {
+      tiles.push({ ...door, tilesetId: tilesets.door, tileIndex: 0, layer: doorLayer });
+    }
+  }
+  return tiles;
+}
+
+/** Spawn-point sprites for the tagged rooms, one tile in size */
+export function spawnSprites(dungeon: Dungeon, tileSize: number, createId: () => string, createdBy: string): SpriteInstance[] {
+  return dungeon.spawns.map((spawn) => ({
+    id: createId(),
+    spriteId: SPAWN_SPRITE_IDS[spawn.tag],
+    x: spawn.x * tileSize,
+    y: spawn.y * tileSize,
+    scale: tileSize / SPAWN_SPRITE_SIZE,
+    rotation: 0,
+    currentAnimation: "idle",
+    flipX: false,
+    flipY: false,
+    layer: 1,
+    metadata: { createdBy, createdAt: Date.now(), locked: false },
+  }));
+}
@@ -0,0 +1,36 @@
+import type { ProjectRole } from "./schema";
+
+/**
+ * Project roles from least to most privileged. Each role includes every
+ * permission of the roles below it.
+ *
+ * - viewer: read the project and receive live board updates
+ * - commenter: viewer access (comments are not part of the board document)
+ * - editor: edit boards, tiles, shapes and sprites
+ * - owner: manage the project and its members
+ */
+const ROLE_RANK: Record<ProjectRole, number> = {
+  viewer: 0,
+  commenter: 1,
+  editor: 2,
+  owner: 3,
+};
+
+export function hasProjectRole(role: ProjectRole | null | undefined, minimum: ProjectRole): boolean {
+  return !!role && ROLE_RANK[role] >= ROLE_RANK[minimum];
+}
+
+/** Whether a role may change board content (REST saves and collaborative document updates) */
+export function canEditBoard(role: ProjectRole | null | undefined): boolean {
+  return hasProjectRole(role, "editor");
+}
+
+/** Collaboration rooms are scoped to a single board of a project */
+export function boardRoomId(projectId: string, boardId: string): string {
+  return `${projectId}:${boardId}`;
+}
+
+export function parseBoardRoomId(roomId: string): { projectId: string; boardId: string } | null {
+  const match = /^([A-Za-z0-9_-]{1,128}):([A-Za-z0-9_-]{1,128})$/.exec(roomId);
+  return match ? { projectId: match[1], boardId: match[2] } : null;
+}
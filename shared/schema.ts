@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, jsonb, integer, boolean, timestamp, index } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, jsonb, integer, boolean, timestamp, index, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -7,7 +7,11 @@ import { z } from "zod";
 export const shapeTypeEnum = z.enum(['rectangle', 'circle', 'polygon', 'star', 'line', 'text']);
 export type ShapeType = z.infer<typeof shapeTypeEnum>;
 
-export const toolTypeEnum = z.enum(['select', 'rectangle', 'circle', 'polygon', 'star', 'line', 'text', 'pan', 'tile-paint', 'tile-erase', 'sprite']);
+export const toolTypeEnum = z.enum([
+  'select', 'rectangle', 'circle', 'polygon', 'star', 'line', 'text', 'pan',
+  'tile-paint', 'auto-tile-paint', 'tile-erase', 'tile-fill', 'tile-rect', 'tile-line', 'tile-select', 'tile-stamp',
+  'sprite',
+]);
 export type ToolType = z.infer<typeof toolTypeEnum>;
 
 // Sprite animation state enum
@@ -163,9 +167,21 @@ export interface Shape {
   points?: number[]; // For polygon, star, line
 }
 
-// Tile layer enum
-export const tileLayerEnum = z.enum(['terrain', 'props']);
-export type TileLayer = z.infer<typeof tileLayerEnum>;
+// Tile layer id - layers are user-defined per board (see TileLayerDefinition)
+export const tileLayerIdSchema = z.string().min(1).max(64);
+export type TileLayer = z.infer<typeof tileLayerIdSchema>;
+
+// User-defined tile layer, persisted in TileMap.layers
+export const tileLayerDefinitionSchema = z.object({
+  id: tileLayerIdSchema,
+  name: z.string().min(1).max(50),
+  order: z.number().int(), // Render order, lowest is drawn first
+  visible: z.boolean(),
+  locked: z.boolean(),
+  opacity: z.number().min(0).max(1),
+  parallax: z.object({ x: z.number(), y: z.number() }), // 1 = moves with the camera
+});
+export type TileLayerDefinition = z.infer<typeof tileLayerDefinitionSchema>;
 
 // Tile interface
 export interface Tile {
@@ -173,7 +189,10 @@ export interface Tile {
   y: number;
   tilesetId: string;
   tileIndex: number;
-  layer: TileLayer; // 'terrain' for grass/dirt/water, 'props' for trees/flowers
+  layer: TileLayer; // Id of a TileLayerDefinition, e.g. 'terrain' for grass/dirt/water, 'props' for trees/flowers
+  flipX?: boolean; // Mirrored horizontally when drawn, e.g. by an autotile rule output
+  flipY?: boolean;
+  rotate90?: boolean; // Turned 90° clockwise before the flips (see shared/tileTransforms.ts)
 }
 
 // Sprite instance on canvas
@@ -234,6 +253,7 @@ export interface SpriteDefinition {
 export interface TileMap {
   gridSize: number;
   tiles: Tile[];
+  layers?: TileLayerDefinition[]; // Missing on legacy boards, which use DEFAULT_TILE_LAYERS (shared/tileLayers)
   spriteDefinitions: SpriteDefinition[];
 }
 
@@ -379,7 +399,7 @@ export interface PhysicsMetrics {
 }
 
 // Tileset type enum
-export const tilesetTypeEnum = z.enum(['auto-tiling', 'multi-tile', 'single-tile', 'variant_grid']);
+export const tilesetTypeEnum = z.enum(['auto-tiling', 'blob-47', 'wang-corner', 'multi-tile', 'single-tile', 'variant_grid']);
 export type TilesetType = z.infer<typeof tilesetTypeEnum>;
 
 // Multi-tile configuration for objects like trees
@@ -408,6 +428,98 @@ export interface TerrainGenerationMetadata {
   generationTime: number; // milliseconds
 }
 
+// Autotile rules: neighbor patterns mapped to weighted outputs (see shared/autoTileRules.ts)
+export const autoTileRuleMatchEnum = z.enum(['any', 'match', 'not-match']);
+export type AutoTileRuleMatch = z.infer<typeof autoTileRuleMatchEnum>;
+
+export const autoTileRuleConditionSchema = z.object({
+  match: autoTileRuleMatchEnum,
+  tilesetId: z.string().nullable().optional(), // Terrain the neighbor is compared to; the rule's own tileset when unset
+});
+export type AutoTileRuleCondition = z.infer<typeof autoTileRuleConditionSchema>;
+
+export const autoTileRuleOutputSchema = z.object({
+  tileIndex: z.number().int().min(0),
+  weight: z.number().positive().default(1),
+  flipX: z.boolean().optional(),
+  flipY: z.boolean().optional(),
+});
+export type AutoTileRuleOutput = z.infer<typeof autoTileRuleOutputSchema>;
+
+export const autoTileRuleSchema = z.object({
+  id: z.string(),
+  name: z.string().optional(),
+  neighbors: z.object({
+    top: autoTileRuleConditionSchema,
+    topRight: autoTileRuleConditionSchema,
+    right: autoTileRuleConditionSchema,
+    bottomRight: autoTileRuleConditionSchema,
+    bottom: autoTileRuleConditionSchema,
+    bottomLeft: autoTileRuleConditionSchema,
+    left: autoTileRuleConditionSchema,
+    topLeft: autoTileRuleConditionSchema,
+  }).partial(), // Missing directions match anything
+  outputs: z.array(autoTileRuleOutputSchema).min(1),
+});
+export type AutoTileRule = z.infer<typeof autoTileRuleSchema>;
+
+// Animated tiles: a placed tile cycles through frames of its tileset (see shared/tileAnimations.ts)
+export const tileAnimationFrameSchema = z.object({
+  tileIndex: z.number().int().min(0),
+  duration: z.number().int().positive(), // milliseconds
+});
+export type TileAnimationFrame = z.infer<typeof tileAnimationFrameSchema>;
+
+export const tileAnimationSchema = z.object({
+  tileIndex: z.number().int().min(0), // Tile that plays the animation wherever it's placed
+  frames: z.array(tileAnimationFrameSchema).min(1),
+});
+export type TileAnimation = z.infer<typeof tileAnimationSchema>;
+
+// Custom per-tile properties: a typed schema per tileset, values per tile index (see shared/tileProperties.ts)
+export const tilePropertyTypeEnum = z.enum(['boolean', 'number', 'string', 'enum']);
+export type TilePropertyType = z.infer<typeof tilePropertyTypeEnum>;
+
+export const tilePropertyValueSchema = z.union([z.boolean(), z.number(), z.string()]);
+export type TilePropertyValue = z.infer<typeof tilePropertyValueSchema>;
+
+export const tilePropertyDefinitionSchema = z.object({
+  name: z.string().min(1), // e.g. 'walkable', 'damage', 'footstepSound', 'collision'
+  type: tilePropertyTypeEnum,
+  default: tilePropertyValueSchema, // Value of tiles that don't set their own
+  options: z.array(z.string()).optional(), // Choices of 'enum' properties
+});
+export type TilePropertyDefinition = z.infer<typeof tilePropertyDefinitionSchema>;
+
+// Values set per tile, keyed by tile index and then property name
+export const tilePropertyDataSchema = z.record(z.string(), z.record(z.string(), tilePropertyValueSchema));
+export type TilePropertyData = z.infer<typeof tilePropertyDataSchema>;
+
+// Painting brushes beyond the single selected tile (see shared/tileBrushes.ts)
+export const weightedTileSchema = z.object({
+  tileIndex: z.number().int().min(0),
+  weight: z.number().positive(),
+});
+export type WeightedTile = z.infer<typeof weightedTileSchema>;
+
+export const tileBrushConfigSchema = z.union([
+  // Every painted cell picks one of the tiles, in proportion to its weight
+  z.object({
+    type: z.literal('random'),
+    tiles: z.array(weightedTileSchema).min(1),
+  }),
+  // A width x height block of tile indices (row-major), repeated aligned to world cells
+  z.object({
+    type: z.literal('pattern'),
+    width: z.number().int().positive(),
+    height: z.number().int().positive(),
+    tiles: z.array(z.number().int().min(0)).min(1),
+  }).refine((pattern) => pattern.tiles.length === pattern.width * pattern.height, {
+    message: 'A pattern needs one tile per cell',
+  }),
+]);
+export type TileBrushConfig = z.infer<typeof tileBrushConfigSchema>;
+
 // Tileset interface
 export interface Tileset {
   id: string;
@@ -417,8 +529,14 @@ export interface Tileset {
   imageUrl: string;
   columns: number;
   rows: number;
-  tilesetType: TilesetType; // 'auto-tiling' for 3x3 grids with neighbor-based tiling, 'multi-tile' for objects like trees, 'variant_grid' for manual tile variant selection
+  tilesetType: TilesetType; // 'auto-tiling' for 3x3 grids with neighbor-based tiling, 'blob-47' / 'wang-corner' for 8-neighbor autotile sheets, 'multi-tile' for objects like trees, 'variant_grid' for manual tile variant selection
   multiTileConfig: MultiTileConfig | null; // Only used for multi-tile objects
+  autoTileTemplate?: string | null; // Sheet layout of blob-47 / wang-corner tilesets (see shared/autoTileTemplates.ts)
+  autoTileRules?: AutoTileRule[] | null; // Checked in order before the bitmask tables of auto-tiling types
+  tileAnimations?: TileAnimation[] | null; // At most one per tile index
+  tileProperties?: TilePropertyDefinition[] | null;
+  tilePropertyValues?: TilePropertyData | null;
+  tileImageUrls?: string[] | null; // One image per tile index, for tilesets built from separate images
   tags?: string[]; // Tags for categorization and metadata storage
   // Optional config for variant grid tilesets (manual variant selection grids)
   variantGridConfig?: { width: number; height: number } | null;
@@ -507,22 +625,74 @@ export const insertProjectSchema = createInsertSchema(projects).omit({
 export type InsertProject = z.infer<typeof insertProjectSchema>;
 export type Project = typeof projects.$inferSelect;
 
+// Project membership: the project's creator (projects.userId) is always its owner
+export const projectRoleEnum = z.enum(['owner', 'editor', 'commenter', 'viewer']);
+export type ProjectRole = z.infer<typeof projectRoleEnum>;
+
+export const projectMembers = pgTable("project_members", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  projectId: varchar("project_id").notNull().references(() => projects.id, { onDelete: 'cascade' }),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  role: text("role").notNull().default('viewer').$type<ProjectRole>(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  projectUserIdx: uniqueIndex("project_members_project_user_idx").on(table.projectId, table.userId),
+  userIdIdx: index("project_members_user_id_idx").on(table.userId),
+}));
+
+export const insertProjectMemberSchema = createInsertSchema(projectMembers, {
+  role: projectRoleEnum,
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertProjectMember = z.infer<typeof insertProjectMemberSchema>;
+export type ProjectMember = typeof projectMembers.$inferSelect;
+
+// Terrain set of a tileset pack: how its terrains overlap on terrain layers.
+// A higher-priority terrain draws its edges over a lower one, which continues underneath;
+// a transition sheet replaces the top terrain's edge tiles where it meets a given lower terrain.
+export const terrainTransitionSchema = z.object({
+  terrainId: z.string().min(1), // Tileset drawn on top
+  underId: z.string().min(1), // Lower-priority tileset it meets
+  tilesetId: z.string().min(1), // Sheet with terrainId's edges drawn over underId (same layout as terrainId)
+});
+export type TerrainTransition = z.infer<typeof terrainTransitionSchema>;
+
+export const terrainSetConfigSchema = z.object({
+  priorities: z.array(z.string().min(1)), // Tileset ids, highest priority first
+  transitions: z.array(terrainTransitionSchema).default([]),
+});
+export type TerrainSetConfig = z.infer<typeof terrainSetConfigSchema>;
+
 // Tileset Pack schema
 export const tilesetPacks = pgTable("tileset_packs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id, { onDelete: 'set null' }), // Shared packs have no owner and can't be edited
   name: text("name").notNull(),
   description: text("description"),
   tags: jsonb("tags").$type<string[]>().default(sql`'[]'::jsonb`),
+  terrainSet: jsonb("terrain_set").$type<TerrainSetConfig | null>(),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
 
-export const insertTilesetPackSchema = createInsertSchema(tilesetPacks).omit({
+export const insertTilesetPackSchema = createInsertSchema(tilesetPacks, {
+  tags: z.array(z.string()).nullable().optional(),
+  terrainSet: terrainSetConfigSchema.nullable().optional(),
+}).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
 });
 
+// Create and update schemas for API input; the owner is set from auth and never changes
+export const createTilesetPackSchema = insertTilesetPackSchema.omit({ userId: true });
+export const updateTilesetPackSchema = insertTilesetPackSchema.partial().omit({ userId: true });
+
 export type InsertTilesetPack = z.infer<typeof insertTilesetPackSchema>;
 export type TilesetPack = typeof tilesetPacks.$inferSelect;
 
@@ -538,10 +708,29 @@ export const tilesets = pgTable("tilesets", {
   rows: integer("rows").notNull(),
   tilesetType: text("tileset_type").notNull().default('auto-tiling').$type<TilesetType>(),
   multiTileConfig: jsonb("multi_tile_config").$type<MultiTileConfig | null>(),
+  autoTileTemplate: text("auto_tile_template"),
+  autoTileRules: jsonb("auto_tile_rules").$type<AutoTileRule[] | null>(),
+  tileAnimations: jsonb("tile_animations").$type<TileAnimation[] | null>(),
+  tileProperties: jsonb("tile_properties").$type<TilePropertyDefinition[] | null>(),
+  tilePropertyValues: jsonb("tile_property_values").$type<TilePropertyData | null>(),
+  tileImageUrls: jsonb("tile_image_urls").$type<string[] | null>(),
   packId: varchar("pack_id"), // Optional reference to tileset pack
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
+// Brushes users saved, each painting from one tileset
+export const tileBrushes = pgTable("tile_brushes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  tilesetId: varchar("tileset_id").notNull().references(() => tilesets.id, { onDelete: 'cascade' }),
+  name: text("name").notNull(),
+  config: jsonb("config").$type<TileBrushConfig>().notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  userIdIdx: index("tile_brushes_user_id_idx").on(table.userId),
+}));
+
 // Physics entities table
 export const physicsEntities = pgTable("physics_entities", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -558,6 +747,13 @@ export const physicsEntities = pgTable("physics_entities", {
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
 
+// Persisted collaborative documents, one compacted Yjs state per room document
+export const yjsDocuments = pgTable("yjs_documents", {
+  name: varchar("name").primaryKey(), // `${roomId}/${boardId}`
+  state: text("state").notNull(), // Base64 encoded Y.encodeStateAsUpdate output
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
 // Zod schemas for validation
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
@@ -629,7 +825,12 @@ export const insertTilesetSchema = createInsertSchema(tilesets, {
     } catch {
       return false;
     }
-  }, 'Must be a valid URL or relative path starting with /')
+  }, 'Must be a valid URL or relative path starting with /'),
+  autoTileRules: z.array(autoTileRuleSchema).nullable().optional(),
+  tileAnimations: z.array(tileAnimationSchema).nullable().optional(),
+  tileProperties: z.array(tilePropertyDefinitionSchema).nullable().optional(),
+  tilePropertyValues: tilePropertyDataSchema.nullable().optional(),
+  tileImageUrls: z.array(z.string()).nullable().optional(),
 }).omit({
   id: true,
   createdAt: true,
@@ -641,6 +842,21 @@ export const createTilesetSchema = insertTilesetSchema.omit({ userId: true });
 // Update tileset schema for partial updates
 export const updateTilesetSchema = insertTilesetSchema.partial().omit({ userId: true });
 
+export const insertTileBrushSchema = createInsertSchema(tileBrushes, {
+  name: z.string().trim().min(1, 'Brush name is required'),
+  config: tileBrushConfigSchema,
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// Create tile brush schema for API input (without userId - will be set from auth)
+export const createTileBrushSchema = insertTileBrushSchema.omit({ userId: true });
+
+// Update tile brush schema; a brush keeps its owner and tileset
+export const updateTileBrushSchema = insertTileBrushSchema.partial().omit({ userId: true, tilesetId: true });
+
 export const insertPhysicsConfigSchema = createInsertSchema(physicsConfigs).omit({
   id: true,
   createdAt: true,
@@ -717,6 +933,9 @@ export type BoardData = typeof boards.$inferSelect;
 export type InsertTileset = z.infer<typeof insertTilesetSchema>;
 export type TilesetData = typeof tilesets.$inferSelect;
 
+export type InsertTileBrush = z.infer<typeof insertTileBrushSchema>;
+export type TileBrush = typeof tileBrushes.$inferSelect;
+
 export type InsertPhysicsConfig = z.infer<typeof insertPhysicsConfigSchema>;
 export type PhysicsConfigData = typeof physicsConfigs.$inferSelect;
 
@@ -725,3 +944,5 @@ export type MaterialConfigData = typeof materialConfigs.$inferSelect;
 
 export type InsertPhysicsEntity = z.infer<typeof insertPhysicsEntitySchema>;
 export type PhysicsEntityData = typeof physicsEntities.$inferSelect;
+
+export type YjsDocumentData = typeof yjsDocuments.$inferSelect;
@@ -0,0 +1,32 @@
+/**
+ * Seeded random numbers for procedural generation. Generators take a seed
+ * instead of calling `Math.random()`, so the same seed and parameters always
+ * produce the same output and a result can be regenerated exactly.
+ */
+
+/** Returns numbers in [0, 1), like `Math.random` */
+export type RandomSource = () => number;
+
+export const MAX_SEED = 0xffffffff;
+
+/** A fresh seed for callers that don't pass one */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * MAX_SEED);
+}
+
+/** Mulberry32: small, fast and good enough for level generation */
+export function createSeededRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** An integer in [min, max) */
+export function randomInt(random: RandomSource, min: number, max: number): number {
+  return min + Math.floor(random() * (max - min));
+}
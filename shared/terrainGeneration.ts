@@ -0,0 +1,154 @@
+import type { Tile, TileLayer, TilesetType } from "./schema";
+import { isAutoTilingType } from "./autoTileTemplates";
+import { createSeededRandom } from "./seededRandom";
+
+/**
+ * Noise-based terrain: seeded fractal value noise gives every cell a height
+ * and a moisture, and thresholds on the two pick its biome. Noise is sampled
+ * in board coordinates, so areas generated next to each other with the same
+ * seed line up.
+ */
+
+export type Biome = "water" | "sand" | "grass" | "dirt" | "stone";
+
+export const BIOMES: Biome[] = ["water", "sand", "grass", "dirt", "stone"];
+
+export interface BiomeThresholds {
+  water: number; // Cells lower than this are water
+  sand: number; // ...then sand up to this height
+  stone: number; // Cells higher than this are stone
+  moisture: number; // Land in between is grass where wetter than this, dirt where drier
+}
+
+export const DEFAULT_BIOME_THRESHOLDS: BiomeThresholds = {
+  water: 0.4,
+  sand: 0.45,
+  stone: 0.62,
+  moisture: 0.5,
+};
+
+export const DEFAULT_NOISE_SCALE = 16; // Tiles across a typical hill or lake
+const DEFAULT_OCTAVES = 4;
+const TERRAIN_TILE_INDEX = 4; // Centre tile; autotiling picks the edges
+
+export interface TerrainGenerationOptions {
+  area: { x: number; y: number; width: number; height: number };
+  seed: number;
+  scale?: number;
+  octaves?: number;
+  thresholds?: Partial<BiomeThresholds>;
+  biomeTilesets: Partial<Record<Biome, string>>; // Tileset id per biome; biomes without one stay empty
+  layer?: TileLayer;
+}
+
+export interface GeneratedTerrain {
+  biomes: Biome[]; // Row by row over the area
+  tiles: Tile[]; // Not autotiled yet
+  counts: Record<Biome, number>;
+}
+
+type Noise2D = (x: number, y: number) => number;
+
+const smooth = (t: number) => t * t * (3 - 2 * t);
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+/** 2D value noise in [0, 1), smoothly interpolated between random lattice values */
+export function createValueNoise(seed: number): Noise2D {
+  const random = createSeededRandom(seed);
+  const values = Array.from({ length: 256 }, () => random());
+  const permutation = Array.from({ length: 256 }, (_, i) => i);
+  for (let i = permutation.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [permutation[i], permutation[j]] = [permutation[j], permutation[i]];
+  }
+  const lattice = (x: number, y: number) => values[permutation[(permutation[y & 255] + x) & 255]];
+
+  return (x, y) => {
+    const x0 = Math.floor(x);
+    const y0 = Math.floor(y);
+    const sx = smooth(x - x0);
+    const sy = smooth(y - y0);
+    const top = lerp(lattice(x0, y0), lattice(x0 + 1, y0), sx);
+    const bottom = lerp(lattice(x0, y0 + 1), lattice(x0 + 1, y0 + 1), sx);
+    return lerp(top, bottom, sy);
+  };
+}
+
+/** Octaves of the noise, each twice as detailed and half as strong, normalised back to [0, 1) */
+export function fractalNoise(noise: Noise2D, x: number, y: number, octaves: number = DEFAULT_OCTAVES): number {
+  let total = 0;
+  let amplitude = 1;
+  let frequency = 1;
+  let range = 0;
+  for (let octave = 0; octave < octaves; octave++) {
+    // Offset each octave so their lattice points don't line up
+    total += noise(x * frequency + octave * 31.7, y * frequency + octave * 17.3) * amplitude;
+    range += amplitude;
+    amplitude /= 2;
+    frequency *= 2;
+  }
+  return total / range;
+}
+
+export function biomeAt(height: number, moisture: number, thresholds: BiomeThresholds): Biome {
+  if (height < thresholds.water) return "water";
+  if (height < thresholds.sand) return "sand";
+  if (height > thresholds.stone) return "stone";
+  return moisture > thresholds.moisture ? "grass" : "dirt";
+}
+
+export function generateTerrain(options: TerrainGenerationOptions): GeneratedTerrain {
+  const { area, seed, biomeTilesets } = options;
+  const scale = Math.max(1, options.scale ?? DEFAULT_NOISE_SCALE);
+  const octaves = options.octaves ?? DEFAULT_OCTAVES;
+  const thresholds = { ...DEFAULT_BIOME_THRESHOLDS, ...options.thresholds };
+  const layer = options.layer ?? "terrain";
+
+  const height = createValueNoise(seed);
+  const moisture = createValueNoise((seed ^ 0x5bd1e995) >>> 0);
+
+  const biomes: Biome[] = [];
+  const tiles: Tile[] = [];
+  const counts = { water: 0, sand: 0, grass: 0, dirt: 0, stone: 0 };
+  for (let y = area.y; y < area.y + area.height; y++) {
+    for (let x = area.x; x < area.x + area.width; x++) {
+      const biome = biomeAt(
+        fractalNoise(height, x / scale, y / scale, octaves),
+        fractalNoise(moisture, x / scale, y / scale, octaves),
+        thresholds
+      );
+      biomes.push(biome);
+      counts[biome]++;
+
+      const tilesetId = biomeTilesets[biome];
+      if (tilesetId) tiles.push({ x, y, tilesetId, tileIndex: TERRAIN_TILE_INDEX, layer });
+    }
+  }
+
+  return { biomes, tiles, counts };
+}
+
+// Name patterns of the terrain tilesets that suit each biome
+const BIOME_NAME_PATTERNS: Record<Biome, RegExp> = {
+  water: /water|lake|ocean|sea/i,
+  sand: /sand|beach/i,
+  grass: /grass/i,
+  dirt: /^(?!.*path).*(dirt|soil|mud)/i,
+  stone: /stone|rock/i,
+};
+
+/** A terrain tileset for each biome, picked by name; auto-tiling tilesets win over plain ones */
+export function matchBiomeTilesets<T extends { id: string; name: string; tilesetType?: TilesetType }>(
+  tilesets: T[]
+): Partial<Record<Biome, T>> {
+  const terrains = tilesets
+    .filter((tileset) => tileset.tilesetType !== "multi-tile")
+    .sort((a, b) => Number(isAutoTilingType(b.tilesetType)) - Number(isAutoTilingType(a.tilesetType)));
+
+  const matched: Partial<Record<Biome, T>> = {};
+  BIOMES.forEach((biome) => {
+    const tileset = terrains.find((t) => BIOME_NAME_PATTERNS[biome].test(t.name));
+    if (tileset) matched[biome] = tileset;
+  });
+  return matched;
+}
@@ -0,0 +1,59 @@
+import type { TileAnimation, Tileset } from "./schema";
+
+/**
+ * Animated tiles. A tileset can give any of its tiles a frame list, and every
+ * placement of that tile plays it. Playback runs on one shared clock (the
+ * wall clock, in ms) instead of per placement, so all copies of a tile show
+ * the same frame, on every client, without any state being synced.
+ */
+
+type AnimatedTileset = Pick<Tileset, "id" | "tileAnimations">;
+
+export function animationDuration(animation: TileAnimation): number {
+  return animation.frames.reduce((total, frame) => total + frame.duration, 0);
+}
+
+export function findTileAnimation(tileset: AnimatedTileset | undefined, tileIndex: number): TileAnimation | undefined {
+  return tileset?.tileAnimations?.find((animation) => animation.tileIndex === tileIndex);
+}
+
+/** Tile index the animation shows at `time` */
+export function animationFrameAt(animation: TileAnimation, time: number): number {
+  const duration = animationDuration(animation);
+  if (duration <= 0) return animation.frames[0].tileIndex;
+
+  let elapsed = ((time % duration) + duration) % duration;
+  for (const frame of animation.frames) {
+    if (elapsed < frame.duration) return frame.tileIndex;
+    elapsed -= frame.duration;
+  }
+  return animation.frames[animation.frames.length - 1].tileIndex;
+}
+
+/** Tile index to draw for a placed tile at `time`: its current frame, or the tile itself */
+export function animatedTileIndex(tileset: AnimatedTileset | undefined, tileIndex: number, time: number): number {
+  const animation = findTileAnimation(tileset, tileIndex);
+  return animation ? animationFrameAt(animation, time) : tileIndex;
+}
+
+/** Milliseconds until any of the tilesets' animations next changes frame, or null when nothing animates */
+export function msUntilNextFrame(tilesets: AnimatedTileset[], time: number): number | null {
+  let next: number | null = null;
+  tilesets.forEach((tileset) => {
+    tileset.tileAnimations?.forEach((animation) => {
+      const duration = animationDuration(animation);
+      if (animation.frames.length < 2 || duration <= 0) return;
+
+      let elapsed = ((time % duration) + duration) % duration;
+      for (const frame of animation.frames) {
+        if (elapsed < frame.duration) {
+          const remaining = frame.duration - elapsed;
+          if (next === null || remaining < next) next = remaining;
+          return;
+        }
+        elapsed -= frame.duration;
+      }
+    });
+  });
+  return next;
+}
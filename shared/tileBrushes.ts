@@ -0,0 +1,50 @@
+import type { TileBrushConfig, WeightedTile } from "./schema";
+import { cellRandom } from "./autoTileRules";
+
+/**
+ * Brushes that paint more than the selected tile:
+ * - random: each cell picks one of a weighted set of tiles. The pick is
+ *   rolled per cell and brush seed, so dragging over a cell again doesn't
+ *   reshuffle it; a new seed rerolls every cell
+ * - pattern: a block of tiles repeated aligned to world cells, so strokes
+ *   painted separately line up. Variant grid tilesets paint their grid as a
+ *   pattern brush (see variantGridBrush)
+ */
+
+export type RandomBrush = Extract<TileBrushConfig, { type: "random" }>;
+export type PatternBrush = Extract<TileBrushConfig, { type: "pattern" }>;
+
+const wrap = (value: number, size: number) => ((value % size) + size) % size;
+
+/** The tile a roll in [0, 1) lands on, in proportion to the weights */
+export function pickWeightedTile(tiles: WeightedTile[], roll: number): number {
+  const total = tiles.reduce((sum, tile) => sum + tile.weight, 0);
+  let remaining = roll * total;
+  for (const tile of tiles) {
+    remaining -= tile.weight;
+    if (remaining < 0) return tile.tileIndex;
+  }
+  return tiles[tiles.length - 1].tileIndex;
+}
+
+/** Tile index the pattern puts on world cell (x, y) */
+export function patternTileIndex(pattern: PatternBrush, x: number, y: number): number {
+  return pattern.tiles[wrap(y, pattern.height) * pattern.width + wrap(x, pattern.width)];
+}
+
+/** Tile index the brush paints on world cell (x, y) */
+export function brushTileIndex(brush: TileBrushConfig, x: number, y: number, seed = 0): number {
+  return brush.type === "random"
+    ? pickWeightedTile(brush.tiles, cellRandom(x, y, `brush-${seed}`))
+    : patternTileIndex(brush, x, y);
+}
+
+/** Pattern brush of a variant grid starting at `firstTileIndex` (variants are consecutive tiles) */
+export function variantGridBrush(config: { width: number; height: number }, firstTileIndex: number): PatternBrush {
+  return {
+    type: "pattern",
+    width: config.width,
+    height: config.height,
+    tiles: Array.from({ length: config.width * config.height }, (_, i) => firstTileIndex + i),
+  };
+}
@@ -0,0 +1,263 @@
+import type { Tile } from "./schema";
+
+/**
+ * Chunked tile storage shared by the client store, the autotilers and the AI executor.
+ *
+ * Tiles are bucketed per layer into fixed-size square chunks keyed by chunk
+ * coordinate, so looking up a single cell is O(1) regardless of map size.
+ * A `Tile[]` is only used as the serialization format for `TileMap.tiles`
+ * (see `fromTiles` / `toTiles`).
+ *
+ * Grids are copy-on-write: `clone()` shares every chunk with the source grid
+ * and a chunk is only copied the first time the clone writes to it. Callers
+ * that publish a grid (e.g. to the zustand store) must treat it as immutable
+ * and clone before editing.
+ */
+
+export const TILE_CHUNK_SIZE = 32;
+
+type LayerKey = Tile["layer"];
+
+/** A single cell edit; `before`/`after` are undefined when the cell was empty */
+export interface TileChange {
+  x: number;
+  y: number;
+  layer: LayerKey;
+  before?: Tile;
+  after?: Tile;
+}
+
+interface TileChunk {
+  cx: number;
+  cy: number;
+  cells: Array<Tile | undefined>;
+  count: number;
+}
+
+/** Stable key for a cell on a layer, used to address tiles in the Yjs tiles map */
+export const tileKey = (x: number, y: number, layer: LayerKey) => `${x}-${y}-${layer}`;
+
+const chunkKey = (cx: number, cy: number) => `${cx},${cy}`;
+
+const toChunkCoord = (n: number) => Math.floor(n / TILE_CHUNK_SIZE);
+
+const toCellIndex = (x: number, y: number) => {
+  const lx = x - toChunkCoord(x) * TILE_CHUNK_SIZE;
+  const ly = y - toChunkCoord(y) * TILE_CHUNK_SIZE;
+  return ly * TILE_CHUNK_SIZE + lx;
+};
+
+export class TileGrid {
+  private layers = new Map<LayerKey, Map<string, TileChunk>>();
+  // Chunks (and layer maps) created or copied by this instance, safe to mutate in place
+  private ownedChunks = new Set<TileChunk>();
+  private ownedLayers = new Set<Map<string, TileChunk>>();
+  private tileCount = 0;
+
+  static fromTiles(tiles: Tile[] | undefined | null): TileGrid {
+    const grid = new TileGrid();
+    tiles?.forEach((tile) => grid.set(tile));
+    return grid;
+  }
+
+  /** Number of tiles across all layers */
+  get size(): number {
+    return this.tileCount;
+  }
+
+  /** Shallow, copy-on-write copy of this grid */
+  clone(): TileGrid {
+    const copy = new TileGrid();
+    this.layers.forEach((chunks, layer) => {
+      copy.layers.set(layer, chunks);
+    });
+    copy.tileCount = this.tileCount;
+    // Both grids now share every chunk, so neither may write to one without copying it first
+    this.ownedChunks.clear();
+    this.ownedLayers.clear();
+    return copy;
+  }
+
+  get(x: number, y: number, layer: LayerKey): Tile | undefined {
+    const chunk = this.layers.get(layer)?.get(chunkKey(toChunkCoord(x), toChunkCoord(y)));
+    return chunk?.cells[toCellIndex(x, y)];
+  }
+
+  /** All tiles at a cell, one per layer */
+  getAt(x: number, y: number): Tile[] {
+    const result: Tile[] = [];
+    this.layers.forEach((_, layer) => {
+      const tile = this.get(x, y, layer);
+      if (tile) result.push(tile);
+    });
+    return result;
+  }
+
+  has(x: number, y: number, layer?: LayerKey): boolean {
+    return layer ? this.get(x, y, layer) !== undefined : this.getAt(x, y).length > 0;
+  }
+
+  /** Place a tile, replacing any tile on the same cell and layer. Returns the replaced tile. */
+  set(tile: Tile): Tile | undefined {
+    const chunk = this.getWritableChunk(tile.x, tile.y, tile.layer, true)!;
+    const index = toCellIndex(tile.x, tile.y);
+    const previous = chunk.cells[index];
+    chunk.cells[index] = tile;
+    if (!previous) {
+      chunk.count++;
+      this.tileCount++;
+    }
+    return previous;
+  }
+
+  /**
+   * Remove the tile at a cell. Without a layer every layer at that cell is cleared.
+   * Returns the removed tiles.
+   */
+  delete(x: number, y: number, layer?: LayerKey): Tile[] {
+    const layers = layer ? [layer] : Array.from(this.layers.keys());
+    const removed: Tile[] = [];
+
+    for (const key of layers) {
+      if (!this.get(x, y, key)) continue;
+      const chunk = this.getWritableChunk(x, y, key, false)!;
+      const index = toCellIndex(x, y);
+      removed.push(chunk.cells[index]!);
+      chunk.cells[index] = undefined;
+      chunk.count--;
+      this.tileCount--;
+      if (chunk.count === 0) {
+        this.layers.get(key)!.delete(chunkKey(chunk.cx, chunk.cy));
+      }
+    }
+
+    return removed;
+  }
+
+  clearLayer(layer: LayerKey): void {
+    const chunks = this.layers.get(layer);
+    if (!chunks) return;
+    chunks.forEach((chunk) => {
+      this.tileCount -= chunk.count;
+    });
+    this.layers.delete(layer);
+  }
+
+  getLayers(): LayerKey[] {
+    return Array.from(this.layers.keys()).filter((layer) => this.layers.get(layer)!.size > 0);
+  }
+
+  countLayer(layer: LayerKey): number {
+    let count = 0;
+    this.layers.get(layer)?.forEach((chunk) => {
+      count += chunk.count;
+    });
+    return count;
+  }
+
+  forEach(callback: (tile: Tile) => void, layer?: LayerKey): void {
+    this.layers.forEach((chunks, key) => {
+      if (layer && key !== layer) return;
+      chunks.forEach((chunk) => {
+        for (const tile of chunk.cells) {
+          if (tile) callback(tile);
+        }
+      });
+    });
+  }
+
+  /** Tiles whose cell lies inside the inclusive rectangle, e.g. the visible viewport */
+  queryRect(minX: number, minY: number, maxX: number, maxY: number, layer?: LayerKey): Tile[] {
+    const result: Tile[] = [];
+    const minCx = toChunkCoord(minX);
+    const maxCx = toChunkCoord(maxX);
+    const minCy = toChunkCoord(minY);
+    const maxCy = toChunkCoord(maxY);
+
+    this.layers.forEach((chunks, key) => {
+      if (layer && key !== layer) return;
+      chunks.forEach((chunk) => {
+        if (chunk.cx < minCx || chunk.cx > maxCx || chunk.cy < minCy || chunk.cy > maxCy) return;
+        for (const tile of chunk.cells) {
+          if (tile && tile.x >= minX && tile.x <= maxX && tile.y >= minY && tile.y <= maxY) {
+            result.push(tile);
+          }
+        }
+      });
+    });
+
+    return result;
+  }
+
+  /**
+   * Cells that differ between `previous` and this grid. Chunks still shared
+   * between the two grids are skipped, so diffing a clone after a small edit
+   * only visits the chunks that edit copied.
+   */
+  diff(previous: TileGrid): TileChange[] {
+    const changes: TileChange[] = [];
+    const layers = new Set([...Array.from(previous.layers.keys()), ...Array.from(this.layers.keys())]);
+
+    layers.forEach((layer) => {
+      const before = previous.layers.get(layer);
+      const after = this.layers.get(layer);
+      if (before === after) return;
+
+      const keys = new Set([...Array.from(before?.keys() ?? []), ...Array.from(after?.keys() ?? [])]);
+      keys.forEach((key) => {
+        const beforeChunk = before?.get(key);
+        const afterChunk = after?.get(key);
+        if (beforeChunk === afterChunk) return;
+
+        for (let i = 0; i < TILE_CHUNK_SIZE * TILE_CHUNK_SIZE; i++) {
+          const beforeTile = beforeChunk?.cells[i];
+          const afterTile = afterChunk?.cells[i];
+          if (beforeTile === afterTile) continue;
+          const { x, y } = (afterTile ?? beforeTile)!;
+          changes.push({ x, y, layer, before: beforeTile, after: afterTile });
+        }
+      });
+    });
+
+    return changes;
+  }
+
+  /** Serialize to the flat `TileMap.tiles` format */
+  toTiles(): Tile[] {
+    const tiles: Tile[] = [];
+    this.forEach((tile) => tiles.push(tile));
+    return tiles;
+  }
+
+  private getWritableChunk(x: number, y: number, layer: LayerKey, create: boolean): TileChunk | undefined {
+    let chunks = this.layers.get(layer);
+    if (!chunks) {
+      if (!create) return undefined;
+      chunks = new Map();
+      this.layers.set(layer, chunks);
+      this.ownedLayers.add(chunks);
+    } else if (!this.ownedLayers.has(chunks)) {
+      chunks = new Map(chunks);
+      this.layers.set(layer, chunks);
+      this.ownedLayers.add(chunks);
+    }
+
+    const cx = toChunkCoord(x);
+    const cy = toChunkCoord(y);
+    const key = chunkKey(cx, cy);
+    let chunk = chunks.get(key);
+
+    if (!chunk) {
+      if (!create) return undefined;
+      chunk = { cx, cy, cells: new Array(TILE_CHUNK_SIZE * TILE_CHUNK_SIZE), count: 0 };
+      chunks.set(key, chunk);
+      this.ownedChunks.add(chunk);
+    } else if (!this.ownedChunks.has(chunk)) {
+      chunk = { ...chunk, cells: chunk.cells.slice() };
+      chunks.set(key, chunk);
+      this.ownedChunks.add(chunk);
+    }
+
+    return chunk;
+  }
+}
@@ -0,0 +1,14 @@
+import type { TileLayerDefinition } from "./schema";
+
+// Layers every board starts with; 'terrain' and 'props' are also used by the AI tools
+export const DEFAULT_TILE_LAYERS: TileLayerDefinition[] = [
+  { id: "terrain", name: "Terrain", order: 0, visible: true, locked: false, opacity: 1, parallax: { x: 1, y: 1 } },
+  { id: "props", name: "Props", order: 1, visible: true, locked: false, opacity: 1, parallax: { x: 1, y: 1 } },
+];
+
+/** Id of the layer drawn right above `layerId`, or `layerId` itself when it's the top one */
+export function layerAbove(layers: TileLayerDefinition[], layerId: string): string {
+  const ordered = [...layers].sort((a, b) => a.order - b.order);
+  const index = ordered.findIndex((layer) => layer.id === layerId);
+  return (index >= 0 && ordered[index + 1]?.id) || layerId;
+}
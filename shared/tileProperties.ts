@@ -0,0 +1,142 @@
+import type {
+  TilePropertyData,
+  TilePropertyDefinition,
+  TilePropertyType,
+  TilePropertyValue,
+  Tileset,
+} from "./schema";
+
+/**
+ * Custom per-tile properties. A tileset declares typed properties
+ * (`tileProperties`), each with a default, and stores the values individual
+ * tiles override in `tilePropertyValues`, keyed by tile index. Readers go
+ * through `getTilePropertyValues`, which fills in defaults and drops values
+ * the schema no longer declares.
+ */
+
+type PropertyTileset = Pick<Tileset, "tileProperties" | "tilePropertyValues">;
+
+// Older tilesets kept their per-tile images as JSON in a tag
+const LEGACY_TILE_URLS_TAG = "tile-urls:";
+
+/** Per-tile image URLs of a tileset, empty for tilesets cut from a single sheet */
+export function getTileImageUrls(tileset: Pick<Tileset, "tileImageUrls">): string[] {
+  return tileset.tileImageUrls ?? [];
+}
+
+/**
+ * Move the per-tile images of a legacy `tile-urls:` tag into `tileImageUrls`,
+ * dropping the tag. Tilesets without the tag are returned as they are.
+ */
+export function withTileImageUrls<T extends Pick<Tileset, "tileImageUrls" | "tags">>(
+  tileset: T
+): T & Pick<Tileset, "tileImageUrls"> {
+  const tag = tileset.tags?.find((t) => t.startsWith(LEGACY_TILE_URLS_TAG));
+  if (!tag) return tileset;
+
+  const tags = tileset.tags!.filter((t) => t !== tag);
+  let urls: unknown;
+  try {
+    urls = JSON.parse(tag.slice(LEGACY_TILE_URLS_TAG.length));
+  } catch {
+    urls = null;
+  }
+  return {
+    ...tileset,
+    tags,
+    tileImageUrls: tileset.tileImageUrls ?? (Array.isArray(urls) ? urls.map(String) : null),
+  };
+}
+
+export function defaultValueForType(type: TilePropertyType, options: string[] = []): TilePropertyValue {
+  switch (type) {
+    case "boolean":
+      return false;
+    case "number":
+      return 0;
+    case "string":
+      return "";
+    case "enum":
+      return options[0] ?? "";
+  }
+}
+
+/** The value converted to the property's type; values an enum doesn't list fall back to the default */
+export function coerceTilePropertyValue(definition: TilePropertyDefinition, value: unknown): TilePropertyValue {
+  switch (definition.type) {
+    case "boolean":
+      return value === true || value === "true";
+    case "number": {
+      const number = typeof value === "number" ? value : Number(value);
+      return Number.isFinite(number) ? number : 0;
+    }
+    case "string":
+      return value === undefined || value === null ? "" : String(value);
+    case "enum": {
+      const options = definition.options ?? [];
+      const choice = String(value);
+      if (options.includes(choice)) return choice;
+      return options.includes(String(definition.default)) ? String(definition.default) : options[0] ?? "";
+    }
+  }
+}
+
+/** Every declared property of the tile, with the tileset default where the tile sets none */
+export function getTilePropertyValues(tileset: PropertyTileset | undefined, tileIndex: number): Record<string, TilePropertyValue> {
+  const values: Record<string, TilePropertyValue> = {};
+  const own = tileset?.tilePropertyValues?.[String(tileIndex)] ?? {};
+  (tileset?.tileProperties ?? []).forEach((definition) => {
+    values[definition.name] = coerceTilePropertyValue(
+      definition,
+      definition.name in own ? own[definition.name] : definition.default
+    );
+  });
+  return values;
+}
+
+/** Set (or with `undefined`, reset to the default) one property of one tile */
+export function setTilePropertyValue(
+  data: TilePropertyData | null | undefined,
+  tileIndex: number,
+  name: string,
+  value: TilePropertyValue | undefined
+): TilePropertyData {
+  const key = String(tileIndex);
+  const tileValues = { ...(data?.[key] ?? {}) };
+  if (value === undefined) {
+    delete tileValues[name];
+  } else {
+    tileValues[name] = value;
+  }
+
+  const next = { ...(data ?? {}) };
+  if (Object.keys(tileValues).length > 0) {
+    next[key] = tileValues;
+  } else {
+    delete next[key];
+  }
+  return next;
+}
+
+/**
+ * Values kept after the schema changes: values of removed properties are
+ * dropped and the rest are converted to their property's current type.
+ * `renamed` maps old property names to new ones.
+ */
+export function migrateTilePropertyValues(
+  data: TilePropertyData | null | undefined,
+  definitions: TilePropertyDefinition[],
+  renamed: Record<string, string> = {}
+): TilePropertyData {
+  const byName = new Map(definitions.map((definition) => [definition.name, definition]));
+  const next: TilePropertyData = {};
+  Object.entries(data ?? {}).forEach(([tileIndex, values]) => {
+    const kept: Record<string, TilePropertyValue> = {};
+    Object.entries(values).forEach(([name, value]) => {
+      const definition = byName.get(renamed[name] ?? name);
+      if (definition) kept[definition.name] = coerceTilePropertyValue(definition, value);
+    });
+    if (Object.keys(kept).length > 0) next[tileIndex] = kept;
+  });
+  return next;
+}
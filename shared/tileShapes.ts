@@ -0,0 +1,95 @@
+/**
+ * Cell sets for the tile line, rectangle and bucket fill tools, in grid
+ * coordinates. Callers turn the cells into tiles with the current brush.
+ */
+
+export interface GridCell {
+  x: number;
+  y: number;
+}
+
+export interface GridBounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+/** Cells on the Bresenham line from `from` to `to`, both ends included */
+export function lineCells(from: GridCell, to: GridCell): GridCell[] {
+  const cells: GridCell[] = [];
+  const dx = Math.abs(to.x - from.x);
+  const dy = -Math.abs(to.y - from.y);
+  const sx = from.x < to.x ? 1 : -1;
+  const sy = from.y < to.y ? 1 : -1;
+  let error = dx + dy;
+  let { x, y } = from;
+
+  while (true) {
+    cells.push({ x, y });
+    if (x === to.x && y === to.y) break;
+    const doubled = 2 * error;
+    if (doubled >= dy) {
+      error += dy;
+      x += sx;
+    }
+    if (doubled <= dx) {
+      error += dx;
+      y += sy;
+    }
+  }
+  return cells;
+}
+
+/** Cells of the filled rectangle spanned by two corners */
+export function rectCells(a: GridCell, b: GridCell): GridCell[] {
+  const cells: GridCell[] = [];
+  for (let y = Math.min(a.y, b.y); y <= Math.max(a.y, b.y); y++) {
+    for (let x = Math.min(a.x, b.x); x <= Math.max(a.x, b.x); x++) {
+      cells.push({ x, y });
+    }
+  }
+  return cells;
+}
+
+/**
+ * Cells a bucket fill from `start` replaces: the 4-connected region of cells
+ * that `isTarget` accepts, or every accepted cell within the bounds when not
+ * contiguous. Empty regions are open-ended, so the search stops at `bounds`.
+ */
+export function floodFillCells(
+  start: GridCell,
+  bounds: GridBounds,
+  isTarget: (x: number, y: number) => boolean,
+  contiguous = true
+): GridCell[] {
+  const inBounds = (x: number, y: number) =>
+    x >= bounds.minX && x <= bounds.maxX && y >= bounds.minY && y <= bounds.maxY;
+  if (!inBounds(start.x, start.y) || !isTarget(start.x, start.y)) return [];
+
+  const cells: GridCell[] = [];
+  if (!contiguous) {
+    for (let y = bounds.minY; y <= bounds.maxY; y++) {
+      for (let x = bounds.minX; x <= bounds.maxX; x++) {
+        if (isTarget(x, y)) cells.push({ x, y });
+      }
+    }
+    return cells;
+  }
+
+  const visited = new Set<string>([`${start.x},${start.y}`]);
+  const queue: GridCell[] = [start];
+  while (queue.length > 0) {
+    const cell = queue.pop()!;
+    cells.push(cell);
+    for (const [dx, dy] of [[1, 0], [-1, 0], [0, 1], [0, -1]]) {
+      const x = cell.x + dx;
+      const y = cell.y + dy;
+      const key = `${x},${y}`;
+      if (visited.has(key) || !inBounds(x, y)) continue;
+      visited.add(key);
+      if (isTarget(x, y)) queue.push({ x, y });
+    }
+  }
+  return cells;
+}
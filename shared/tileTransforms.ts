@@ -0,0 +1,98 @@
+import type { Tile } from "./schema";
+
+/**
+ * Orientation of a placed tile. The art is first turned 90° clockwise when
+ * `rotate90` is set, then mirrored by the flips, which together cover all
+ * eight orientations of a square tile. Unset flags are left out of tiles
+ * rather than stored as false, so plain tiles stay plain in Yjs and exports.
+ */
+export type TileTransform = Pick<Tile, "flipX" | "flipY" | "rotate90">;
+
+// Drops false flags so transformed tiles keep the same shape as plain ones
+function withFlags<T extends TileTransform>(tile: T, flags: Required<TileTransform>): T {
+  const next = { ...tile };
+  delete next.flipX;
+  delete next.flipY;
+  delete next.rotate90;
+  if (flags.flipX) next.flipX = true;
+  if (flags.flipY) next.flipY = true;
+  if (flags.rotate90) next.rotate90 = true;
+  return next;
+}
+
+export function hasTileTransform(transform: TileTransform): boolean {
+  return !!(transform.flipX || transform.flipY || transform.rotate90);
+}
+
+/** Mirror the tile's art on top of its current orientation */
+export function flipTileTransform<T extends TileTransform>(tile: T, axis: "x" | "y"): T {
+  return withFlags(tile, {
+    flipX: !!tile.flipX !== (axis === "x"),
+    flipY: !!tile.flipY !== (axis === "y"),
+    rotate90: !!tile.rotate90,
+  });
+}
+
+/**
+ * Turn the tile's art a further 90°. Turning after a flip swaps which axis
+ * the flip mirrors, and two turns are the same as flipping both axes.
+ */
+export function rotateTileTransform<T extends TileTransform>(tile: T, clockwise = true): T {
+  if (!clockwise) {
+    return rotateTileTransform(rotateTileTransform(rotateTileTransform(tile)));
+  }
+  return tile.rotate90
+    ? withFlags(tile, { flipX: !tile.flipY, flipY: !tile.flipX, rotate90: false })
+    : withFlags(tile, { flipX: !!tile.flipY, flipY: !!tile.flipX, rotate90: true });
+}
+
+/** Copy the orientation of `transform` onto the tile, replacing its own */
+export function applyTileTransform<T extends TileTransform>(tile: T, transform: TileTransform): T {
+  return withFlags(tile, {
+    flipX: !!transform.flipX,
+    flipY: !!transform.flipY,
+    rotate90: !!transform.rotate90,
+  });
+}
+
+/**
+ * Flags in the diagonal-flip form Tiled gids and Godot alternative tiles use:
+ * the art is transposed first, then flipped. A clockwise turn is a transpose
+ * followed by a horizontal flip.
+ */
+export function toDiagonalFlags(transform: TileTransform) {
+  return {
+    diagonal: !!transform.rotate90,
+    horizontal: !!transform.flipX !== !!transform.rotate90,
+    vertical: !!transform.flipY,
+  };
+}
+
+export function fromDiagonalFlags(flags: { diagonal: boolean; horizontal: boolean; vertical: boolean }): TileTransform {
+  return withFlags({} as TileTransform, {
+    flipX: flags.horizontal !== flags.diagonal,
+    flipY: flags.vertical,
+    rotate90: flags.diagonal,
+  });
+}
+
+/**
+ * Konva node props that draw a tile of `size` with its orientation. The node
+ * pivots on its center, so place it at the center of the tile's cell.
+ * Konva scales before it rotates, so a turned tile flips on swapped axes.
+ */
+export function konvaTileTransform(transform: TileTransform, size: number) {
+  const scaleX = (transform.rotate90 ? transform.flipY : transform.flipX) ? -1 : 1;
+  const scaleY = (transform.rotate90 ? transform.flipX : transform.flipY) ? -1 : 1;
+  return {
+    offset: { x: size / 2, y: size / 2 },
+    rotation: transform.rotate90 ? 90 : 0,
+    scaleX,
+    scaleY,
+  };
+}
+
+/** CSS `transform` value for a tile thumbnail, rotating about its center */
+export function cssTileTransform(transform: TileTransform): string {
+  return `scale(${transform.flipX ? -1 : 1}, ${transform.flipY ? -1 : 1}) rotate(${transform.rotate90 ? 90 : 0}deg)`;
+}
@@ -0,0 +1,319 @@
+import type { Tile, TileLayer } from "./schema";
+import type { TileGrid } from "./tileGrid";
+import { createSeededRandom, MAX_SEED, type RandomSource } from "./seededRandom";
+
+/**
+ * Overlapping-model Wave Function Collapse. Every N×N window of a sample
+ * region is a pattern, and the target is filled so that each of its N×N
+ * windows is one of those patterns, in roughly the proportions the sample
+ * has them. Tiles already in the target stay and constrain what grows
+ * around them.
+ */
+
+export interface TileRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface WfcOptions {
+  grid: TileGrid;
+  layer: TileLayer;
+  sample: TileRegion;
+  target: TileRegion;
+  seed: number;
+  patternSize?: number;
+  maxAttempts?: number;
+}
+
+export interface WfcAttempt {
+  seed: number;
+  contradiction?: { x: number; y: number }; // Board cell no pattern fitted, when the attempt failed
+}
+
+export interface WfcResult {
+  success: boolean;
+  tiles: Tile[]; // New tiles for the target's empty cells; none unless an attempt succeeded
+  attempts: WfcAttempt[];
+  error?: string; // Why generation couldn't start at all
+}
+
+export const MAX_WFC_TARGET_SIZE = 64; // tiles per side
+export const DEFAULT_WFC_PATTERN_SIZE = 2;
+export const DEFAULT_WFC_ATTEMPTS = 10;
+
+const EMPTY = 0; // Value of cells without a tile
+const DX = [-1, 0, 1, 0];
+const DY = [0, 1, 0, -1];
+const OPPOSITE = [2, 3, 0, 1];
+
+type TileValue = Omit<Tile, "x" | "y" | "layer">;
+
+const tileValueKey = (tile: TileValue) =>
+  `${tile.tilesetId}:${tile.tileIndex}:${tile.flipX ? 1 : 0}${tile.flipY ? 1 : 0}${tile.rotate90 ? 1 : 0}`;
+
+function tileValue({ tilesetId, tileIndex, flipX, flipY, rotate90 }: Tile): TileValue {
+  const value: TileValue = { tilesetId, tileIndex };
+  if (flipX) value.flipX = true;
+  if (flipY) value.flipY = true;
+  if (rotate90) value.rotate90 = true;
+  return value;
+}
+
+interface PatternSet {
+  patterns: number[][]; // Values row by row, N×N each
+  weights: number[]; // How often each pattern appears in the sample
+  values: TileValue[]; // Tile of each value id; index 0 is EMPTY
+  valueIds: Map<string, number>;
+}
+
+function extractPatterns(grid: TileGrid, layer: TileLayer, sample: TileRegion, n: number): PatternSet {
+  const values: TileValue[] = [{ tilesetId: "", tileIndex: -1 }];
+  const valueIds = new Map<string, number>();
+  const cellValue = (x: number, y: number) => {
+    const tile = grid.get(x, y, layer);
+    if (!tile) return EMPTY;
+    const key = tileValueKey(tile);
+    let id = valueIds.get(key);
+    if (id === undefined) {
+      id = values.length;
+      values.push(tileValue(tile));
+      valueIds.set(key, id);
+    }
+    return id;
+  };
+
+  const indexByKey = new Map<string, number>();
+  const patterns: number[][] = [];
+  const weights: number[] = [];
+  for (let y = sample.y; y <= sample.y + sample.height - n; y++) {
+    for (let x = sample.x; x <= sample.x + sample.width - n; x++) {
+      const pattern: number[] = [];
+      for (let dy = 0; dy < n; dy++) {
+        for (let dx = 0; dx < n; dx++) pattern.push(cellValue(x + dx, y + dy));
+      }
+      const key = pattern.join(",");
+      const index = indexByKey.get(key);
+      if (index === undefined) {
+        indexByKey.set(key, patterns.length);
+        patterns.push(pattern);
+        weights.push(1);
+      } else {
+        weights[index]++;
+      }
+    }
+  }
+  return { patterns, weights, values, valueIds };
+}
+
+// Whether q, shifted by (dx, dy) from p, has the same values where the two overlap
+function agrees(p: number[], q: number[], dx: number, dy: number, n: number): boolean {
+  const xmin = Math.max(0, dx);
+  const xmax = dx < 0 ? dx + n : n;
+  const ymin = Math.max(0, dy);
+  const ymax = dy < 0 ? dy + n : n;
+  for (let y = ymin; y < ymax; y++) {
+    for (let x = xmin; x < xmax; x++) {
+      if (p[x + n * y] !== q[x - dx + n * (y - dy)]) return false;
+    }
+  }
+  return true;
+}
+
+interface Model {
+  width: number; // Wave size: one position per N×N window of the target
+  height: number;
+  weights: number[];
+  propagator: number[][][]; // [direction][pattern] → patterns allowed next to it that way
+  allowed: Uint8Array; // Patterns the target's existing tiles leave possible at each position
+}
+
+// Observe and propagate until every position has one pattern; returns the chosen pattern per position
+function runAttempt(model: Model, random: RandomSource): { observed: Int32Array } | { contradiction: number } {
+  const { width, height, weights, propagator } = model;
+  const count = weights.length;
+  const cells = width * height;
+
+  const wave = new Uint8Array(cells * count).fill(1);
+  const compatible = new Int32Array(cells * count * 4);
+  const sumOfOnes = new Int32Array(cells).fill(count);
+  const sumOfWeights = new Float64Array(cells);
+  const sumOfWeightLogWeights = new Float64Array(cells);
+  const weightLogWeights = weights.map((w) => w * Math.log(w));
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+  const totalWeightLogWeight = weightLogWeights.reduce((sum, w) => sum + w, 0);
+  sumOfWeights.fill(totalWeight);
+  sumOfWeightLogWeights.fill(totalWeightLogWeight);
+  for (let i = 0; i < cells; i++) {
+    for (let p = 0; p < count; p++) {
+      for (let d = 0; d < 4; d++) compatible[(i * count + p) * 4 + d] = propagator[OPPOSITE[d]][p].length;
+    }
+  }
+
+  const stack: number[] = [];
+  let contradiction = -1;
+
+  const ban = (i: number, p: number) => {
+    wave[i * count + p] = 0;
+    for (let d = 0; d < 4; d++) compatible[(i * count + p) * 4 + d] = 0;
+    stack.push(i, p);
+    sumOfOnes[i]--;
+    sumOfWeights[i] -= weights[p];
+    sumOfWeightLogWeights[i] -= weightLogWeights[p];
+    if (sumOfOnes[i] === 0 && contradiction < 0) contradiction = i;
+  };
+
+  const propagate = () => {
+    while (stack.length > 0 && contradiction < 0) {
+      const p1 = stack.pop()!;
+      const i1 = stack.pop()!;
+      const x1 = i1 % width;
+      const y1 = Math.floor(i1 / width);
+      for (let d = 0; d < 4; d++) {
+        const x2 = x1 + DX[d];
+        const y2 = y1 + DY[d];
+        if (x2 < 0 || y2 < 0 || x2 >= width || y2 >= height) continue;
+        const i2 = x2 + y2 * width;
+        for (const p2 of propagator[d][p1]) {
+          const index = (i2 * count + p2) * 4 + d;
+          if (compatible[index] === 0) continue;
+          compatible[index]--;
+          if (compatible[index] === 0) ban(i2, p2);
+        }
+      }
+    }
+  };
+
+  for (let i = 0; i < cells; i++) {
+    for (let p = 0; p < count; p++) {
+      if (!model.allowed[i * count + p] && wave[i * count + p]) ban(i, p);
+    }
+  }
+  propagate();
+
+  while (contradiction < 0) {
+    // The undecided position with the fewest likely patterns, ties broken randomly
+    let next = -1;
+    let minEntropy = Infinity;
+    for (let i = 0; i < cells; i++) {
+      if (sumOfOnes[i] <= 1) continue;
+      const entropy =
+        Math.log(sumOfWeights[i]) - sumOfWeightLogWeights[i] / sumOfWeights[i] + 1e-6 * random();
+      if (entropy < minEntropy) {
+        minEntropy = entropy;
+        next = i;
+      }
+    }
+    if (next < 0) break;
+
+    let r = random() * sumOfWeights[next];
+    let chosen = -1;
+    for (let p = 0; p < count; p++) {
+      if (!wave[next * count + p]) continue;
+      chosen = p;
+      r -= weights[p];
+      if (r <= 0) break;
+    }
+    for (let p = 0; p < count; p++) {
+      if (p !== chosen && wave[next * count + p]) ban(next, p);
+    }
+    propagate();
+  }
+
+  if (contradiction >= 0) return { contradiction };
+
+  const observed = new Int32Array(cells);
+  for (let i = 0; i < cells; i++) {
+    for (let p = 0; p < count; p++) {
+      if (wave[i * count + p]) observed[i] = p;
+    }
+  }
+  return { observed };
+}
+
+/**
+ * Fill the target from the sample's patterns on one layer. Failed attempts
+ * are retried with new seeds drawn from the first one, so a run is
+ * reproducible from its seed.
+ */
+export function growFromSample(options: WfcOptions): WfcResult {
+  const { grid, layer, sample, target, seed } = options;
+  const n = options.patternSize ?? DEFAULT_WFC_PATTERN_SIZE;
+  const maxAttempts = options.maxAttempts ?? DEFAULT_WFC_ATTEMPTS;
+  const fail = (error: string): WfcResult => ({ success: false, tiles: [], attempts: [], error });
+
+  if (sample.width < n || sample.height < n) return fail(`The sample must be at least ${n}×${n} tiles`);
+  if (target.width < n || target.height < n) return fail(`The target must be at least ${n}×${n} tiles`);
+  if (target.width > MAX_WFC_TARGET_SIZE || target.height > MAX_WFC_TARGET_SIZE) {
+    return fail(`The target can be at most ${MAX_WFC_TARGET_SIZE}×${MAX_WFC_TARGET_SIZE} tiles`);
+  }
+
+  const { patterns, weights, values, valueIds } = extractPatterns(grid, layer, sample, n);
+  if (patterns.every((pattern) => pattern.every((value) => value === EMPTY))) {
+    return fail("The sample has no tiles on this layer");
+  }
+
+  const propagator = DX.map((dx, d) =>
+    patterns.map((p) => patterns.flatMap((q, index) => (agrees(p, q, dx, DY[d], n) ? [index] : [])))
+  );
+
+  // Existing target tiles as the value each cell must keep; -1 where the cell is free
+  const fixed = new Int32Array(target.width * target.height).fill(-1);
+  for (let y = 0; y < target.height; y++) {
+    for (let x = 0; x < target.width; x++) {
+      const tile = grid.get(target.x + x, target.y + y, layer);
+      if (!tile) continue;
+      const id = valueIds.get(tileValueKey(tile));
+      if (id === undefined) {
+        return fail(`The tile at (${target.x + x}, ${target.y + y}) doesn't appear in the sample`);
+      }
+      fixed[x + y * target.width] = id;
+    }
+  }
+
+  const width = target.width - n + 1;
+  const height = target.height - n + 1;
+  const allowed = new Uint8Array(width * height * patterns.length);
+  for (let wy = 0; wy < height; wy++) {
+    for (let wx = 0; wx < width; wx++) {
+      patterns.forEach((pattern, p) => {
+        const fits = pattern.every((value, k) => {
+          const required = fixed[wx + (k % n) + (wy + Math.floor(k / n)) * target.width];
+          return required < 0 || required === value;
+        });
+        if (fits) allowed[(wx + wy * width) * patterns.length + p] = 1;
+      });
+    }
+  }
+
+  const model: Model = { width, height, weights, propagator, allowed };
+  const nextSeed = createSeededRandom(seed);
+  const attempts: WfcAttempt[] = [];
+  for (let attempt = 0; attempt < maxAttempts; attempt++) {
+    const attemptSeed = attempt === 0 ? seed : Math.floor(nextSeed() * MAX_SEED);
+    const outcome = runAttempt(model, createSeededRandom(attemptSeed));
+
+    if ("contradiction" in outcome) {
+      const i = outcome.contradiction;
+      attempts.push({ seed: attemptSeed, contradiction: { x: target.x + (i % width), y: target.y + Math.floor(i / width) } });
+      continue;
+    }
+    attempts.push({ seed: attemptSeed });
+
+    // Each cell takes its value from the window that starts there, or the last window covering it
+    const tiles: Tile[] = [];
+    for (let y = 0; y < target.height; y++) {
+      for (let x = 0; x < target.width; x++) {
+        if (fixed[x + y * target.width] >= 0) continue;
+        const wx = Math.min(x, width - 1);
+        const wy = Math.min(y, height - 1);
+        const value = patterns[outcome.observed[wx + wy * width]][x - wx + (y - wy) * n];
+        if (value !== EMPTY) tiles.push({ ...values[value], x: target.x + x, y: target.y + y, layer });
+      }
+    }
+    return { success: true, tiles, attempts };
+  }
+
+  return { success: false, tiles: [], attempts };
+}
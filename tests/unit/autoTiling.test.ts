@@ -0,0 +1,258 @@
+/**
+ * Golden-output tests for the shared autotiling engine (shared/autoTiling.ts).
+ *
+ * Every case paints a map twice:
+ * - server: through the AI tool (executePaintTerrain), which auto-tiles the
+ *   whole pattern in one batch
+ * - client: the way the canvas paint tool does it, one 1x1 brush stroke per
+ *   cell on top of the previous result
+ *
+ * Both results must match each other and the golden map. Golden maps list one
+ * token per cell: a tileset key followed by the tile index and `h` / `v` for
+ * horizontal / vertical flips (e.g. `g4`, `s13h`), or `.` for an empty cell.
+ */
+import { describe, expect, it } from 'vitest';
+import type { CanvasState, TerrainSetConfig, Tile, TileMap, TilesetType } from '@shared/schema';
+import { TileGrid } from '@shared/tileGrid';
+import { applyAutoTiling, type AutoTilingTileset } from '@shared/autoTiling';
+import { executePaintTerrain } from '../../server/ai/executor';
+
+type TestTileset = AutoTilingTileset & { name: string; key: string; tilesetType: TilesetType };
+
+const TILESETS: TestTileset[] = [
+  { id: 'grass', name: 'Grass', key: 'g', tilesetType: 'auto-tiling' },
+  { id: 'ledge-stone', name: 'Stone Ledge', key: 'l', tilesetType: 'auto-tiling' },
+  { id: 'blob-grass', name: 'Blob Grass', key: 'b', tilesetType: 'blob-47', autoTileTemplate: 'blob-47-mask-order' },
+  { id: 'wang-sand', name: 'Wang Sand', key: 'w', tilesetType: 'wang-corner', autoTileTemplate: 'wang-corner-index' },
+  { id: 'dirt', name: 'Dirt', key: 'd', tilesetType: 'auto-tiling' },
+  { id: 'grass-dirt', name: 'Grass on Dirt', key: 't', tilesetType: 'auto-tiling' },
+  {
+    id: 'shore',
+    name: 'Shore',
+    key: 's',
+    tilesetType: 'auto-tiling',
+    autoTileRules: [
+      {
+        id: 'shore-top',
+        neighbors: { top: { match: 'not-match' } },
+        outputs: [{ tileIndex: 12, weight: 1 }, { tileIndex: 13, weight: 1, flipX: true }],
+      },
+      {
+        id: 'shore-over-grass',
+        neighbors: { bottom: { match: 'match', tilesetId: 'grass' } },
+        outputs: [{ tileIndex: 20, weight: 1 }],
+      },
+    ],
+  },
+];
+
+// Grass ranks above dirt and draws its edges over it with the transition sheet
+const TERRAIN_SETS: TerrainSetConfig[] = [
+  { priorities: ['grass', 'dirt'], transitions: [{ terrainId: 'grass', underId: 'dirt', tilesetId: 'grass-dirt' }] },
+];
+
+interface GoldenCase {
+  name: string;
+  before?: string[]; // Map painted before the case, in the golden format (indices are recalculated)
+  paint: Parameters<typeof executePaintTerrain>[0];
+  golden: string[];
+}
+
+const CASES: GoldenCase[] = [
+  {
+    name: '3x3 fill',
+    paint: { tilesetName: 'Grass', area: { x: 0, y: 0, width: 4, height: 3 }, pattern: 'fill' },
+    golden: [
+      'g0 g1 g1 g2',
+      'g3 g4 g4 g5',
+      'g6 g7 g7 g8',
+    ],
+  },
+  {
+    name: '3x3 border',
+    paint: { tilesetName: 'Grass', area: { x: 0, y: 0, width: 4, height: 4 }, pattern: 'border' },
+    golden: [
+      'g0 g4 g4 g2',
+      'g4 .  .  g4',
+      'g4 .  .  g4',
+      'g6 g4 g4 g8',
+    ],
+  },
+  {
+    name: 'ledge path',
+    paint: { tilesetName: 'Stone Ledge', area: { x: 0, y: 0, width: 4, height: 3 }, pattern: 'horizontal_path', pathWidth: 3 },
+    golden: [
+      'l0 l1 l1 l2',
+      'l3 l4 l4 l5',
+      'l6 l7 l7 l8',
+    ],
+  },
+  {
+    name: 'blob ring with inner corners',
+    paint: { tilesetName: 'Blob Grass', area: { x: 0, y: 0, width: 4, height: 4 }, pattern: 'border' },
+    golden: [
+      'b7 b15 b15 b18',
+      'b6 .   .   b6',
+      'b6 .   .   b6',
+      'b3 b15 b15 b14',
+    ],
+  },
+  {
+    name: 'wang fill',
+    paint: { tilesetName: 'Wang Sand', area: { x: 0, y: 0, width: 4, height: 3 }, pattern: 'fill' },
+    golden: [
+      'w15 w15 w15 w12',
+      'w15 w15 w15 w12',
+      'w9  w9  w9  w8',
+    ],
+  },
+  {
+    name: 'wang single cell',
+    paint: { tilesetName: 'Wang Sand', area: { x: 0, y: 0, width: 1, height: 1 }, pattern: 'fill' },
+    golden: ['w8'],
+  },
+  {
+    name: 'wang 1-wide path',
+    paint: { tilesetName: 'Wang Sand', area: { x: 0, y: 0, width: 4, height: 1 }, pattern: 'fill' },
+    golden: ['w9 w9 w9 w8'],
+  },
+  {
+    name: 'grass painted over blob',
+    before: [
+      'b0 b0 b0 b0',
+      'b0 b0 b0 b0',
+      'b0 b0 b0 b0',
+    ],
+    paint: { tilesetName: 'Grass', area: { x: 2, y: 0, width: 2, height: 3 }, pattern: 'fill' },
+    golden: [
+      'b10 b26 g0 g2',
+      'b12 b42 g3 g5',
+      'b4  b34 g6 g8',
+    ],
+  },
+  {
+    name: 'grass over dirt with transitions',
+    before: [
+      'd0 d0 d0 d0 d0',
+      'd0 d0 d0 d0 d0',
+      'd0 d0 d0 d0 d0',
+      'd0 d0 d0 d0 d0',
+    ],
+    paint: { tilesetName: 'Grass', area: { x: 1, y: 1, width: 3, height: 3 }, pattern: 'fill' },
+    golden: [
+      'd0 d1 d1 d1 d2',
+      'd3 t0 t1 t2 d5',
+      'd3 t3 g4 t5 d5',
+      'd6 g6 g7 g8 d8',
+    ],
+  },
+  {
+    name: 'shore rules with weighted flipped variants',
+    before: [
+      '.  .  .  .',
+      '.  .  .  .',
+      'g0 g0 g0 g0',
+    ],
+    paint: { tilesetName: 'Shore', area: { x: 0, y: 0, width: 4, height: 2 }, pattern: 'fill' },
+    golden: [
+      's13h s13h s12 s13h',
+      's20 s20 s20 s20',
+      'g3 g4 g4 g5',
+    ],
+  },
+];
+
+const tilesetByKey = new Map(TILESETS.map((tileset) => [tileset.key, tileset]));
+const tilesetById = new Map(TILESETS.map((tileset) => [tileset.id, tileset]));
+
+function parseMap(rows: string[]): Tile[] {
+  const tiles: Tile[] = [];
+  rows.forEach((row, y) => {
+    row.trim().split(/\s+/).forEach((token, x) => {
+      if (token === '.') return;
+      const [, key, index, flipX, flipY] = token.match(/^([a-z])(\d+)(h?)(v?)$/) ?? [];
+      const tileset = tilesetByKey.get(key);
+      if (!tileset) throw new Error(`Unknown tileset key in "${token}"`);
+      tiles.push({
+        x,
+        y,
+        tilesetId: tileset.id,
+        tileIndex: Number(index),
+        layer: 'terrain',
+        ...(flipX && { flipX: true }),
+        ...(flipY && { flipY: true }),
+      });
+    });
+  });
+  return tiles;
+}
+
+function formatMap(grid: TileGrid, width: number, height: number): string[] {
+  const rows: string[] = [];
+  for (let y = 0; y < height; y++) {
+    const cells: string[] = [];
+    for (let x = 0; x < width; x++) {
+      const tile = grid.get(x, y, 'terrain');
+      cells.push(
+        tile
+          ? `${tilesetById.get(tile.tilesetId)!.key}${tile.tileIndex}${tile.flipX ? 'h' : ''}${tile.flipY ? 'v' : ''}`
+          : '.'
+      );
+    }
+    rows.push(cells.join(' '));
+  }
+  return rows;
+}
+
+const normalize = (rows: string[]) => rows.map((row) => row.trim().split(/\s+/).join(' '));
+
+// The map a case starts from, auto-tiled like any other painted map
+function initialGrid(testCase: GoldenCase): TileGrid {
+  const before = testCase.before ? parseMap(testCase.before) : [];
+  const grid = new TileGrid();
+  applyAutoTiling(before, grid, TILESETS, TERRAIN_SETS).forEach((tile) => grid.set(tile));
+  return grid;
+}
+
+function paintOnServer(testCase: GoldenCase): TileGrid {
+  const grid = initialGrid(testCase);
+  const tileMap = { gridSize: 32, tiles: grid.toTiles(), layers: [], spriteDefinitions: [] } as unknown as TileMap;
+  const result = executePaintTerrain(testCase.paint, {} as CanvasState, tileMap, TILESETS, TERRAIN_SETS);
+  if (!result.success) throw new Error(result.message);
+  result.canvasUpdates?.tiles?.forEach((tile) => grid.set(tile));
+  return grid;
+}
+
+// Mirrors Canvas.paintTilesAtPosition with the auto-tile brush, one cell per stroke
+function paintOnClient(testCase: GoldenCase, cells: Tile[]): TileGrid {
+  const grid = initialGrid(testCase);
+  cells.forEach((cell) => {
+    const brushTile: Tile = { ...cell, tileIndex: 4 };
+    applyAutoTiling([brushTile], grid, TILESETS, TERRAIN_SETS).forEach((tile) => grid.set(tile));
+  });
+  return grid;
+}
+
+describe('autotiling golden maps', () => {
+  describe.each(CASES)('$name', (testCase) => {
+    const golden = normalize(testCase.golden);
+    const height = golden.length;
+    const width = Math.max(...golden.map((row) => row.split(' ').length));
+
+    // The client paints every cell the golden map has that wasn't there before (or changed tileset)
+    const beforeGrid = initialGrid(testCase);
+    const painted = parseMap(golden).filter((tile) => beforeGrid.get(tile.x, tile.y, 'terrain')?.tilesetId !== tile.tilesetId);
+
+    it('matches when painted by the AI tool', () => {
+      expect(formatMap(paintOnServer(testCase), width, height)).toEqual(golden);
+    });
+
+    it('matches when painted one brush stroke at a time', () => {
+      expect(formatMap(paintOnClient(testCase, painted), width, height)).toEqual(golden);
+    });
+
+    it('matches when painted in reverse stroke order', () => {
+      expect(formatMap(paintOnClient(testCase, [...painted].reverse()), width, height)).toEqual(golden);
+    });
+  });
+});
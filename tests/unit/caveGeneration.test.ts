@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import { applyAutoTiling } from '@shared/autoTiling';
+import { caveGround, caveTiles, generateCave, type Cave } from '@shared/caveGeneration';
+import type { CanvasState, TileMap } from '@shared/schema';
+import { TileGrid } from '@shared/tileGrid';
+import { executePlatformerTerrain } from '../../server/ai/executor';
+
+const options = { area: { x: -4, y: 10, width: 40, height: 30 }, seed: 77 };
+
+const isWall = (cave: Cave, x: number, y: number) => cave.walls[x - cave.x + (y - cave.y) * cave.width];
+
+// Size of the 4-connected floor region around the first floor cell
+function connectedFloor(cave: Cave): number {
+  const start = cave.walls.indexOf(false);
+  const seen = new Set([start]);
+  const stack = [start];
+  while (stack.length > 0) {
+    const i = stack.pop()!;
+    const x = i % cave.width;
+    const y = Math.floor(i / cave.width);
+    for (const [nx, ny] of [[x - 1, y], [x + 1, y], [x, y - 1], [x, y + 1]]) {
+      if (nx < 0 || ny < 0 || nx >= cave.width || ny >= cave.height) continue;
+      const j = nx + ny * cave.width;
+      if (!cave.walls[j] && !seen.has(j)) {
+        seen.add(j);
+        stack.push(j);
+      }
+    }
+  }
+  return seen.size;
+}
+
+describe('generateCave', () => {
+  it('gives the same cave for the same seed', () => {
+    expect(generateCave(options)).toEqual(generateCave(options));
+  });
+
+  it('gives a different cave for a different seed', () => {
+    expect(generateCave({ ...options, seed: 78 }).walls).not.toEqual(generateCave(options).walls);
+  });
+
+  it('walls in the border', () => {
+    const cave = generateCave(options);
+    expect(cave.walls).toHaveLength(cave.width * cave.height);
+    for (let x = cave.x; x < cave.x + cave.width; x++) {
+      expect(isWall(cave, x, cave.y)).toBe(true);
+      expect(isWall(cave, x, cave.y + cave.height - 1)).toBe(true);
+    }
+    for (let y = cave.y; y < cave.y + cave.height; y++) {
+      expect(isWall(cave, cave.x, y)).toBe(true);
+      expect(isWall(cave, cave.x + cave.width - 1, y)).toBe(true);
+    }
+  });
+
+  it('leaves one connected floor region and counts it', () => {
+    const cave = generateCave(options);
+    const floor = cave.walls.filter((wall) => !wall).length;
+    expect(floor).toBeGreaterThan(0);
+    expect(cave.floorCount).toBe(floor);
+    expect(connectedFloor(cave)).toBe(floor);
+  });
+
+  it('is all wall when everything starts as wall', () => {
+    const cave = generateCave({ ...options, fillRatio: 1, iterations: 0 });
+    expect(cave.walls.every(Boolean)).toBe(true);
+    expect(cave.floorCount).toBe(0);
+    expect(cave.removedPockets).toBe(0);
+  });
+});
+
+describe('caveTiles', () => {
+  const cave = generateCave(options);
+
+  it('places walls and floor on the given layer', () => {
+    const tiles = caveTiles(cave, { wall: 'rock', floor: 'dirt' }, 'ground');
+    expect(tiles).toHaveLength(cave.walls.length);
+    expect(tiles.every((tile) => tile.layer === 'ground')).toBe(true);
+    expect(tiles.filter((tile) => tile.tilesetId === 'dirt')).toHaveLength(cave.floorCount);
+  });
+
+  it('keeps a plain wall tileset as placed when auto-tiling the floor', () => {
+    const tilesets = [
+      { id: 'rock', tilesetType: 'single-tile' as const },
+      { id: 'dirt', tilesetType: 'auto-tiling' as const },
+    ];
+    const placed = caveTiles(cave, { wall: 'rock', floor: 'dirt' });
+    const tiles = applyAutoTiling(placed, new TileGrid(), tilesets);
+    const walls = (tile: { tilesetId: string }) => tile.tilesetId === 'rock';
+
+    expect(tiles.filter(walls)).toEqual(placed.filter(walls));
+    expect(tiles.some((tile) => tile.tilesetId === 'dirt' && tile.tileIndex !== 4)).toBe(true);
+  });
+
+  it('leaves the floor empty without a floor tileset', () => {
+    const tiles = caveTiles(cave, { wall: 'rock' });
+    expect(tiles).toHaveLength(cave.walls.length - cave.floorCount);
+    tiles.forEach((tile) => expect(isWall(cave, tile.x, tile.y)).toBe(true));
+  });
+});
+
+describe('caveGround', () => {
+  it('returns floor cells standing on a wall', () => {
+    const cave = generateCave(options);
+    const ground = caveGround(cave);
+    expect(ground.length).toBeGreaterThan(0);
+    ground.forEach(({ x, y }) => {
+      expect(isWall(cave, x, y)).toBe(false);
+      expect(isWall(cave, x, y + 1)).toBe(true);
+    });
+  });
+});
+
+describe('executePlatformerTerrain caves', () => {
+  it('only auto-tiles cave tilesets that are auto-tiling ones', () => {
+    const tilesets = [
+      { id: 'dirt', name: 'Dirt Terrain', tilesetType: 'auto-tiling' as const },
+      { id: 'rock', name: 'Rock', tilesetType: 'single-tile' as const },
+    ];
+    const result = executePlatformerTerrain(
+      { difficulty: 'easy', theme: 'cave', size: 'small', features: [], cave: { wallTileset: 'Rock', floorTileset: 'Dirt Terrain' }, seed: 4 },
+      {} as CanvasState,
+      { gridSize: 32, tiles: [], spriteDefinitions: [] } as TileMap,
+      tilesets
+    );
+    const tiles = result.canvasUpdates?.tiles ?? [];
+
+    expect(result.success).toBe(true);
+    expect(tiles.filter((tile) => tile.tilesetId === 'rock').every((tile) => tile.tileIndex === 4)).toBe(true);
+    expect(tiles.some((tile) => tile.tilesetId === 'dirt' && tile.tileIndex !== 4)).toBe(true);
+  });
+});
@@ -0,0 +1,181 @@
+import { describe, expect, it } from 'vitest';
+import { applyAutoTiling } from '@shared/autoTiling';
+import { TileGrid } from '@shared/tileGrid';
+import { dungeonTiles, generateDungeon, spawnSprites, type Dungeon } from '@shared/dungeonGeneration';
+import type { CanvasState, TileLayerDefinition, TileMap } from '@shared/schema';
+import { executeDungeonLevel } from '../../server/ai/executor';
+
+const options = { area: { x: 5, y: -3, width: 48, height: 36 }, seed: 2024 };
+
+const cellAt = (dungeon: Dungeon, x: number, y: number) =>
+  dungeon.cells[x - dungeon.x + (y - dungeon.y) * dungeon.width];
+
+const isFloor = (dungeon: Dungeon, x: number, y: number) => {
+  const cell = cellAt(dungeon, x, y);
+  return cell === 'room' || cell === 'corridor';
+};
+
+// Floor cells reachable from the first one, 4-connected
+function reachableFloor(dungeon: Dungeon): number {
+  const start = dungeon.cells.findIndex((cell) => cell === 'room' || cell === 'corridor');
+  const seen = new Set([start]);
+  const stack = [start];
+  while (stack.length > 0) {
+    const i = stack.pop()!;
+    const x = i % dungeon.width;
+    const y = Math.floor(i / dungeon.width);
+    for (const [nx, ny] of [[x - 1, y], [x + 1, y], [x, y - 1], [x, y + 1]]) {
+      if (nx < 0 || ny < 0 || nx >= dungeon.width || ny >= dungeon.height) continue;
+      const j = nx + ny * dungeon.width;
+      if (!seen.has(j) && isFloor(dungeon, dungeon.x + nx, dungeon.y + ny)) {
+        seen.add(j);
+        stack.push(j);
+      }
+    }
+  }
+  return seen.size;
+}
+
+describe('generateDungeon', () => {
+  it('gives the same dungeon for the same seed', () => {
+    expect(generateDungeon(options)).toEqual(generateDungeon(options));
+  });
+
+  it('gives a different dungeon for a different seed', () => {
+    expect(generateDungeon({ ...options, seed: 7 }).cells).not.toEqual(generateDungeon(options).cells);
+  });
+
+  it('keeps non-overlapping rooms inside the area', () => {
+    const { rooms } = generateDungeon(options);
+    expect(rooms.length).toBeGreaterThan(1);
+    rooms.forEach((room, i) => {
+      expect(room.x).toBeGreaterThanOrEqual(options.area.x);
+      expect(room.y).toBeGreaterThanOrEqual(options.area.y);
+      expect(room.x + room.width).toBeLessThanOrEqual(options.area.x + options.area.width);
+      expect(room.y + room.height).toBeLessThanOrEqual(options.area.y + options.area.height);
+      rooms.slice(i + 1).forEach((other) => {
+        const apart =
+          room.x + room.width <= other.x ||
+          other.x + other.width <= room.x ||
+          room.y + room.height <= other.y ||
+          other.y + other.height <= room.y;
+        expect(apart).toBe(true);
+      });
+    });
+  });
+
+  it('connects every room and corridor', () => {
+    const dungeon = generateDungeon(options);
+    const floor = dungeon.cells.filter((cell) => cell === 'room' || cell === 'corridor').length;
+    expect(reachableFloor(dungeon)).toBe(floor);
+  });
+
+  it('puts doors on the floor and spawns in their tagged rooms', () => {
+    const dungeon = generateDungeon(options);
+    dungeon.doors.forEach((door) => expect(isFloor(dungeon, door.x, door.y)).toBe(true));
+
+    const tags = dungeon.spawns.map((spawn) => spawn.tag);
+    expect(new Set(tags).size).toBe(tags.length);
+    dungeon.spawns.forEach((spawn) => {
+      const room = dungeon.rooms.find((r) => r.tag === spawn.tag)!;
+      expect(spawn.x).toBeGreaterThanOrEqual(room.x);
+      expect(spawn.x).toBeLessThan(room.x + room.width);
+      expect(spawn.y).toBeGreaterThanOrEqual(room.y);
+      expect(spawn.y).toBeLessThan(room.y + room.height);
+    });
+  });
+
+  it('has no rooms when the area is too small for one', () => {
+    const dungeon = generateDungeon({ area: { x: 0, y: 0, width: 4, height: 4 }, seed: 1, minRoomSize: 6 });
+    expect(dungeon.rooms).toEqual([]);
+  });
+});
+
+describe('dungeonTiles', () => {
+  const dungeon = generateDungeon(options);
+  const tilesets = { floor: 'floor', wall: 'wall', door: 'door' };
+
+  it('places floor and walls on the given layer and doors on the door layer', () => {
+    const tiles = dungeonTiles(dungeon, tilesets, 'ground', 'decor');
+    const doors = tiles.filter((tile) => tile.tilesetId === 'door');
+    expect(doors).toHaveLength(dungeon.doors.length);
+    expect(doors.every((tile) => tile.layer === 'decor')).toBe(true);
+    expect(tiles.filter((tile) => tile.tilesetId !== 'door').every((tile) => tile.layer === 'ground')).toBe(true);
+  });
+
+  it('defaults to the terrain and props layers', () => {
+    const layers = new Set(dungeonTiles(dungeon, tilesets).map((tile) => tile.layer));
+    expect(layers).toEqual(new Set(['terrain', 'props']));
+  });
+
+  it('keeps plain door tiles as placed when auto-tiling the walls and floor', () => {
+    const autoTilesets = [
+      { id: 'floor', tilesetType: 'auto-tiling' as const },
+      { id: 'wall', tilesetType: 'auto-tiling' as const },
+      { id: 'door', tilesetType: 'single-tile' as const },
+    ];
+    for (const doorLayer of ['props', 'terrain']) {
+      const tiles = applyAutoTiling(dungeonTiles(dungeon, tilesets, 'terrain', doorLayer), new TileGrid(), autoTilesets);
+      const doors = tiles.filter((tile) => tile.tilesetId === 'door');
+      expect(doors).toHaveLength(dungeon.doors.length);
+      doors.forEach((door) => expect(door.tileIndex).toBe(0));
+    }
+  });
+
+  it('lets doors replace the floor when both share a layer', () => {
+    const tiles = dungeonTiles(dungeon, tilesets, 'ground', 'ground');
+    expect(new Set(tiles.map((tile) => `${tile.x},${tile.y}`)).size).toBe(tiles.length);
+  });
+});
+
+describe('spawnSprites', () => {
+  it('places one sprite per spawn, in pixels', () => {
+    const dungeon = generateDungeon(options);
+    let next = 0;
+    const sprites = spawnSprites(dungeon, 32, () => `sprite-${next++}`, 'tester');
+    expect(sprites.map((sprite) => [sprite.x, sprite.y])).toEqual(dungeon.spawns.map((spawn) => [spawn.x * 32, spawn.y * 32]));
+    expect(sprites.map((sprite) => sprite.id)).toEqual(dungeon.spawns.map((_, i) => `sprite-${i}`));
+  });
+});
+
+describe('executeDungeonLevel', () => {
+  const layer = (id: string, order: number): TileLayerDefinition => ({
+    id,
+    name: id,
+    order,
+    visible: true,
+    locked: false,
+    opacity: 1,
+    parallax: { x: 1, y: 1 },
+  });
+  const tileMap = { gridSize: 32, tiles: [], layers: [layer('decor', 5), layer('ground', 0)], spriteDefinitions: [] } as TileMap;
+  const tilesets = [
+    { id: 'dirt', name: 'Dirt', tilesetType: 'auto-tiling' as const },
+    { id: 'door', name: 'Door', tilesetType: 'single-tile' as const },
+  ];
+  const run = (activeTileLayerId?: string, map = tileMap) =>
+    executeDungeonLevel({ ...options, doorTileset: 'Door' }, {} as CanvasState, map, tilesets, [], activeTileLayerId);
+  const layersOf = (result: ReturnType<typeof run>, tilesetId: string) =>
+    new Set(result.canvasUpdates?.tiles?.filter((tile) => tile.tilesetId === tilesetId).map((tile) => tile.layer));
+
+  it('paints on the active layer and puts doors on the layer above it', () => {
+    const result = run('ground');
+    expect(result.success).toBe(true);
+    expect(layersOf(result, 'dirt')).toEqual(new Set(['ground']));
+    expect(layersOf(result, 'door')).toEqual(new Set(['decor']));
+  });
+
+  it('uses the bottom layer without an active one', () => {
+    expect(layersOf(run(), 'dirt')).toEqual(new Set(['ground']));
+  });
+
+  it('keeps doors on the active layer when it is the top one', () => {
+    expect(layersOf(run('decor'), 'door')).toEqual(new Set(['decor']));
+  });
+
+  it('fails for a layer the board does not have', () => {
+    const result = run('terrain');
+    expect(result.success).toBe(false);
+    expect(result.message).toMatch(/Tile layer "terrain" not found/);
+  });
+});
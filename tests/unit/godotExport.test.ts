@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest';
+import type { MaterialConfig, SpriteDefinition, SpriteInstance, Tile, TileLayerDefinition, Tileset } from '@shared/schema';
+import { buildGodotExport, type GodotExportInput } from '../../server/godotExport';
+
+const tileset = (id: string, name: string): Tileset => ({
+  id,
+  name,
+  tileSize: 16,
+  spacing: 1,
+  imageUrl: `https://example.com/${id}.png`,
+  columns: 3,
+  rows: 3,
+  tilesetType: 'single-tile',
+  multiTileConfig: null,
+});
+
+const layers: TileLayerDefinition[] = [
+  { id: 'decor', name: 'Decor', order: 1, visible: false, locked: false, opacity: 0.5, parallax: { x: 1, y: 1 } },
+  { id: 'ground', name: 'Ground', order: 0, visible: true, locked: false, opacity: 1, parallax: { x: 1, y: 1 } },
+];
+
+const tiles: Tile[] = [
+  { x: -2, y: 5, tilesetId: 'stone', tileIndex: 4, layer: 'ground' },
+  { x: 3, y: -1, tilesetId: 'ledge', tileIndex: 7, layer: 'ground' },
+  { x: 0, y: 0, tilesetId: 'ledge', tileIndex: 0, layer: 'decor' },
+];
+
+const platform: MaterialConfig = {
+  id: 'm1',
+  name: 'Wood',
+  materialId: 'wood',
+  friction: 0.5,
+  restitution: 0,
+  density: 1,
+  collisionType: 'platform',
+};
+
+const slime = {
+  id: 'slime',
+  name: 'Slime',
+  imageUrl: 'https://example.com/slime.png',
+  frameWidth: 32,
+  frameHeight: 32,
+  animations: { idle: { frames: [0, 1], fps: 4, loop: true } },
+} as unknown as SpriteDefinition;
+
+const sprite = {
+  id: 'sprite-1',
+  spriteId: 'slime',
+  x: 40,
+  y: 64,
+  scale: 1,
+  rotation: 0,
+  currentAnimation: 'idle',
+  flipX: true,
+  flipY: false,
+  layer: 2,
+} as SpriteInstance;
+
+const input: GodotExportInput = {
+  name: 'Forest level',
+  gridSize: 16,
+  tiles,
+  tileLayers: layers,
+  sprites: [sprite],
+  spriteDefinitions: [slime],
+  tilesets: [tileset('stone', 'Stone'), tileset('ledge', 'Ledge'), tileset('unused', 'Unused')],
+  materials: [platform],
+  tilesetMaterials: { ledge: 'wood' },
+};
+
+async function exportFiles() {
+  const entries = await buildGodotExport(input);
+  return Object.fromEntries(entries.map((entry) => [entry.name, String(entry.data)]));
+}
+
+// Cells of a TileMapLayer's tile_map_data: x, y, source id and atlas coordinates
+function decodeCells(node: string) {
+  const base64 = /tile_map_data = PackedByteArray\("([^"]*)"\)/.exec(node)![1];
+  const data = Buffer.from(base64, 'base64');
+  const cells = [];
+  for (let offset = 2; offset < data.length; offset += 12) {
+    cells.push({
+      x: data.readInt16LE(offset),
+      y: data.readInt16LE(offset + 2),
+      source: data.readUInt16LE(offset + 4),
+      atlas: [data.readUInt16LE(offset + 6), data.readUInt16LE(offset + 8)],
+    });
+  }
+  return cells;
+}
+
+describe('buildGodotExport', () => {
+  it('writes a scene and a tileset into a folder named after the board', async () => {
+    expect(Object.keys(await exportFiles())).toEqual(['Forest_level/Forest_level.tscn', 'Forest_level/Forest_level_tileset.tres']);
+  });
+
+  it('gives every used tileset an atlas source and collides with its material', async () => {
+    const tres = (await exportFiles())['Forest_level/Forest_level_tileset.tres'];
+    expect(tres.match(/type="TileSetAtlasSource"/g)).toHaveLength(2);
+    expect(tres).not.toContain('"Unused"');
+    expect(tres).toContain('physics_layer_0/collision_layer = 2');
+    expect(tres).toContain('friction = 0.5');
+
+    // Only the ledge tileset has the material, and platforms are one-way
+    const [stone, ledge] = tres.split('[sub_resource type="TileSetAtlasSource"').slice(1);
+    expect(stone).not.toContain('physics_layer_0');
+    expect(ledge.match(/one_way = true/g)).toHaveLength(9);
+  });
+
+  it('adds one TileMapLayer per layer, bottom first, with the tiles in atlas coordinates', async () => {
+    const tscn = (await exportFiles())['Forest_level/Forest_level.tscn'];
+    const nodes = tscn.split('\n\n').filter((section) => section.includes('type="TileMapLayer"'));
+    expect(nodes.map((node) => /name="([^"]+)"/.exec(node)![1])).toEqual(['Ground', 'Decor']);
+
+    expect(decodeCells(nodes[0])).toEqual([
+      { x: -2, y: 5, source: 0, atlas: [1, 1] },
+      { x: 3, y: -1, source: 1, atlas: [1, 2] },
+    ]);
+    expect(nodes[1]).toContain('visible = false');
+    expect(nodes[1]).toContain('modulate = Color(1, 1, 1, 0.5)');
+  });
+
+  it('places sprites playing their current animation', async () => {
+    const tscn = (await exportFiles())['Forest_level/Forest_level.tscn'];
+    const node = tscn.split('\n\n').find((section) => section.includes('type="AnimatedSprite2D"'))!;
+    expect(node).toContain('[node name="Slime" type="AnimatedSprite2D" parent="Sprites"]');
+    expect(node).toContain('position = Vector2(40, 64)');
+    expect(node).toContain('z_index = 2');
+    expect(node).toContain('autoplay = "idle"');
+    expect(node).toContain('flip_h = true');
+    expect(tscn).toContain('"speed": 4.0');
+  });
+});
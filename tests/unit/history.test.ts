@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import type { Shape, SpriteInstance, Tile } from '@shared/schema';
+import { TileGrid } from '@shared/tileGrid';
+import { DEFAULT_TILE_LAYERS } from '@shared/tileLayers';
+import { applyHistoryPatch, createHistoryPatch, type HistoryDocument } from '@/store/history';
+
+const shape = (id: string, x = 0) => ({ id, type: 'rectangle', x, y: 0 }) as unknown as Shape;
+const sprite = (id: string, x = 0) => ({ id, spriteDefId: 'hero', x, y: 0 }) as unknown as SpriteInstance;
+const tile = (x: number, y: number, tilesetId = 'grass'): Tile => ({ x, y, tilesetId, tileIndex: 4, layer: 'terrain' });
+
+const doc = (overrides: Partial<HistoryDocument> = {}): HistoryDocument => ({
+  shapes: [],
+  sprites: [],
+  tileGrid: new TileGrid(),
+  tileLayers: DEFAULT_TILE_LAYERS,
+  ...overrides,
+});
+
+// Compare documents by content; tile grids by their tiles
+const contents = ({ tileGrid, ...rest }: HistoryDocument) => ({ ...rest, tiles: tileGrid.toTiles() });
+
+describe('history patches', () => {
+  it('is null when nothing recorded changed', () => {
+    const before = doc();
+    expect(createHistoryPatch(before, { ...before })).toBeNull();
+    expect(createHistoryPatch(before, { ...before, shapes: [] })).toBeNull();
+  });
+
+  it('only records what changed', () => {
+    const kept = shape('kept');
+    const before = doc({ shapes: [kept, shape('moved')] });
+    const after = { ...before, shapes: [kept, shape('moved', 10)] };
+
+    const patch = createHistoryPatch(before, after)!;
+    expect(Object.keys(patch)).toEqual(['shapes']);
+    expect(patch.shapes!.changes).toEqual([{ id: 'moved', before: shape('moved'), after: shape('moved', 10) }]);
+  });
+
+  it('reverts and reapplies shape, sprite, tile and layer edits', () => {
+    const grid = TileGrid.fromTiles([tile(0, 0), tile(1, 0)]);
+    const before = doc({ shapes: [shape('a'), shape('b')], sprites: [sprite('s')], tileGrid: grid });
+
+    const edited = grid.clone();
+    edited.set(tile(0, 0, 'sand'));
+    edited.delete(1, 0);
+    edited.set(tile(5, 5));
+    const after = doc({
+      shapes: [shape('b', 3), shape('c')],
+      sprites: [],
+      tileGrid: edited,
+      tileLayers: [...DEFAULT_TILE_LAYERS].reverse(),
+    });
+
+    const patch = createHistoryPatch(before, after)!;
+    const undone = applyHistoryPatch(after, patch, 'undo');
+    expect(contents(undone)).toEqual(contents(before));
+    expect(undone.tileGrid.toTiles().sort((a, b) => a.x - b.x)).toEqual([tile(0, 0), tile(1, 0)]);
+
+    const redone = applyHistoryPatch(undone, patch, 'redo');
+    expect(contents(redone)).toEqual(contents(after));
+  });
+
+  it('restores the order of reordered items', () => {
+    const before = doc({ shapes: [shape('a'), shape('b'), shape('c')] });
+    const after = { ...before, shapes: [shape('c'), shape('a'), shape('b')] };
+
+    const patch = createHistoryPatch(before, after)!;
+    expect(applyHistoryPatch(after, patch, 'undo').shapes.map((s) => s.id)).toEqual(['a', 'b', 'c']);
+    expect(applyHistoryPatch(before, patch, 'redo').shapes.map((s) => s.id)).toEqual(['c', 'a', 'b']);
+  });
+
+  it('keeps items the patch does not know about', () => {
+    const before = doc({ shapes: [shape('a')] });
+    const after = { ...before, shapes: [shape('a', 5)] };
+    const patch = createHistoryPatch(before, after)!;
+
+    // A collaborator added 'remote' after the edit was recorded
+    const current = { ...after, shapes: [...after.shapes, shape('remote')] };
+    expect(applyHistoryPatch(current, patch, 'undo').shapes).toEqual([shape('a'), shape('remote')]);
+  });
+
+  it('does not modify the document it is applied to', () => {
+    const before = doc({ tileGrid: TileGrid.fromTiles([tile(0, 0)]) });
+    const edited = before.tileGrid.clone();
+    edited.delete(0, 0);
+    const after = { ...before, tileGrid: edited };
+
+    const patch = createHistoryPatch(before, after)!;
+    applyHistoryPatch(after, patch, 'undo');
+    expect(after.tileGrid.size).toBe(0);
+  });
+});
@@ -0,0 +1,203 @@
+import { describe, expect, it } from 'vitest';
+import { BITMASK_TO_TILE } from '@shared/autoTiling';
+import type { SpriteInstance, Tile, Tileset } from '@shared/schema';
+import { exportLdtkProject, type LdtkExportBoard } from '@/utils/ldtk';
+
+// The parts of the LDtk project format read back by these tests
+interface LdtkTile {
+  px: [number, number];
+  src: [number, number];
+  f: number;
+  t: number;
+  d: number[];
+}
+
+interface LdtkLayerInstance {
+  __identifier: string;
+  __type: string;
+  __tilesetDefUid: number | null;
+  visible: boolean;
+  intGridCsv: number[];
+  gridTiles: LdtkTile[];
+  autoLayerTiles: LdtkTile[];
+  entityInstances: Array<{
+    __identifier: string;
+    px: [number, number];
+    fieldInstances: Array<{ __identifier: string; __value: unknown }>;
+  }>;
+}
+
+interface LdtkProject {
+  defaultGridSize: number;
+  defs: {
+    layers: Array<{ uid: number; identifier: string; __type: string; autoRuleGroups: Array<{ rules: Array<{ uid: number; tileRectsIds: number[][] }> }> }>;
+    tilesets: Array<{ uid: number; identifier: string; relPath: string; customData: Array<{ tileId: number; data: string }> }>;
+  };
+  levels: Array<{ identifier: string; worldX: number; pxWid: number; pxHei: number; layerInstances: LdtkLayerInstance[] }>;
+}
+
+const GRID = 16;
+
+const tileset = (id: string, tilesetType: Tileset['tilesetType'], extra: Partial<Tileset> = {}): Tileset => ({
+  id,
+  name: id,
+  tileSize: GRID,
+  spacing: 2,
+  imageUrl: `/tilesets/${id}.png`,
+  columns: 3,
+  rows: 3,
+  tilesetType,
+  multiTileConfig: null,
+  ...extra,
+});
+
+const grass = tileset('grass', 'auto-tiling', {
+  tileAnimations: [{ tileIndex: 7, frames: [{ tileIndex: 7, duration: 300 }, { tileIndex: 8, duration: 100 }] }],
+});
+const rocks = tileset('rocks', 'single-tile', {
+  tileProperties: [{ name: 'solid', type: 'boolean', default: false }],
+  tilePropertyValues: { 2: { solid: true } },
+});
+
+// A 3×2 block of grass autotiled as painted, and two rocks on top
+const grassTiles: Tile[] = [
+  [0, 1, 2],
+  [6, 7, 8],
+].flatMap((row, y) => row.map((tileIndex, x) => ({ x: 10 + x, y: -4 + y, tilesetId: 'grass', tileIndex, layer: 'terrain' })));
+const rockTiles: Tile[] = [
+  { x: 12, y: -4, tilesetId: 'rocks', tileIndex: 2, layer: 'props', flipX: true },
+  { x: 13, y: -3, tilesetId: 'rocks', tileIndex: 5, layer: 'props', flipY: true, rotate90: true },
+];
+
+const sprite: SpriteInstance = {
+  id: 'sprite-1',
+  spriteId: 'slime',
+  x: 11 * GRID + 4,
+  y: -3 * GRID,
+  scale: 2,
+  rotation: 45,
+  currentAnimation: 'walk',
+  flipX: false,
+  flipY: true,
+  layer: 0,
+  metadata: { createdBy: 'alex', createdAt: 1, locked: false },
+};
+
+const board = (id: string, name: string, tiles: Tile[], sprites: SpriteInstance[] = []) =>
+  ({
+    id,
+    name,
+    canvasState: { gridSize: GRID, shapes: [], sprites },
+    tileMap: { gridSize: GRID, tiles, spriteDefinitions: [] },
+  }) as unknown as LdtkExportBoard;
+
+const boards = [
+  board('a', 'Cave entrance', [...grassTiles, ...rockTiles], [sprite]),
+  board('b', 'Cave entrance', [{ x: 0, y: 0, tilesetId: 'rocks', tileIndex: 0, layer: 'props' }]),
+];
+
+const exportProject = (): LdtkProject => JSON.parse(exportLdtkProject(boards, [grass, rocks]));
+
+// Tiles of a level back in board form, relative to the level's top-left cell.
+// Tilesets are matched by image, as LDtk knows nothing of our ids.
+function levelTiles(project: LdtkProject, level: LdtkProject['levels'][number]): Tile[] {
+  const tilesetIds = new Map(
+    project.defs.tilesets.map((def) => [def.uid, [grass, rocks].find((t) => t.imageUrl === def.relPath)!.id])
+  );
+  return level.layerInstances.flatMap((layer) =>
+    [...layer.gridTiles, ...layer.autoLayerTiles].map((tile) => ({
+      x: tile.px[0] / project.defaultGridSize,
+      y: tile.px[1] / project.defaultGridSize,
+      tilesetId: tilesetIds.get(layer.__tilesetDefUid!)!,
+      tileIndex: tile.t,
+      layer: layer.__identifier,
+      ...(tile.f & 1 ? { flipX: true } : {}),
+      ...(tile.f & 2 ? { flipY: true } : {}),
+    }))
+  );
+}
+
+const byPosition = (a: Tile, b: Tile) => a.y - b.y || a.x - b.x || a.layer.localeCompare(b.layer);
+
+describe('exportLdtkProject', () => {
+  it('lays out one level per board left to right', () => {
+    const { levels } = exportProject();
+    expect(levels.map((level) => level.identifier)).toEqual(['Cave_entrance', 'Cave_entrance_2']);
+    expect(levels[0]).toMatchObject({ worldX: 0, pxWid: 4 * GRID, pxHei: 2 * GRID });
+    expect(levels[1].worldX).toBe(levels[0].pxWid + 64);
+  });
+
+  it('round-trips tiles relative to the top-left cell, keeping flips but not rotations', () => {
+    const project = exportProject();
+    const layerNames: Record<string, string> = { terrain: 'Terrain_grass', props: 'Props_rocks' };
+    const expected = [...grassTiles, ...rockTiles].map(({ rotate90: _, ...tile }) => ({
+      ...tile,
+      x: tile.x - 10,
+      y: tile.y + 4,
+      layer: layerNames[tile.layer],
+    }));
+    expect(levelTiles(project, project.levels[0]).sort(byPosition)).toEqual(expected.sort(byPosition));
+    expect(levelTiles(project, project.levels[1])).toEqual([{ x: 0, y: 0, tilesetId: 'rocks', tileIndex: 0, layer: 'Props_rocks' }]);
+  });
+
+  it('points tile sources at the tileset image cell, spacing included', () => {
+    const project = exportProject();
+    const props = project.levels[0].layerInstances.find((layer) => layer.__identifier === 'Props_rocks')!;
+    expect(props.gridTiles.map((tile) => tile.src)).toEqual([
+      [2 * (GRID + 2), 0],
+      [2 * (GRID + 2), GRID + 2],
+    ]);
+  });
+
+  it('feeds auto-tiling layers from an IntGrid whose rules rebuild the painted tiles', () => {
+    const project = exportProject();
+    const level = project.levels[0];
+    const cells = level.layerInstances.find((layer) => layer.__identifier === 'Terrain_grass_Cells')!;
+    expect(cells).toMatchObject({ __type: 'IntGrid', visible: false });
+    expect(cells.intGridCsv).toEqual([1, 1, 1, 0, 1, 1, 1, 0]);
+
+    const rules = new Map(
+      project.defs.layers
+        .find((def) => def.identifier === 'Terrain_grass')!
+        .autoRuleGroups[0].rules.map((rule) => [rule.uid, rule.tileRectsIds[0][0]])
+    );
+    expect(rules.size).toBe(BITMASK_TO_TILE.length);
+    const auto = level.layerInstances.find((layer) => layer.__identifier === 'Terrain_grass')!;
+    auto.autoLayerTiles.forEach((tile) => expect(rules.get(tile.d[0])).toBe(tile.t));
+  });
+
+  it('stores custom tile properties as per-tile custom data', () => {
+    const { defs } = exportProject();
+    const { customData } = defs.tilesets.find((def) => def.identifier === 'Rocks')!;
+    expect(customData).toHaveLength(9);
+    expect(JSON.parse(customData[2].data)).toEqual({ solid: true });
+    expect(JSON.parse(customData[0].data)).toEqual({ solid: false });
+  });
+
+  it('stores the frames of animated tiles as per-tile custom data', () => {
+    const { defs } = exportProject();
+    const grassData = defs.tilesets.find((def) => def.identifier === 'Grass')!.customData;
+    expect(grassData.map((entry) => entry.tileId)).toEqual([7]);
+    expect(JSON.parse(grassData[0].data)).toEqual({
+      __animation: [
+        { tileId: 7, duration: 300 },
+        { tileId: 8, duration: 100 },
+      ],
+    });
+  });
+
+  it('round-trips sprites as entities with their fields', () => {
+    const { levels } = exportProject();
+    const entities = levels[0].layerInstances.find((layer) => layer.__type === 'Entities')!.entityInstances;
+    expect(entities).toHaveLength(1);
+    expect(entities[0].__identifier).toBe('Slime');
+    expect(entities[0].px).toEqual([sprite.x - 10 * GRID, sprite.y + 4 * GRID]);
+    expect(Object.fromEntries(entities[0].fieldInstances.map((field) => [field.__identifier, field.__value]))).toEqual({
+      scale: sprite.scale,
+      rotation: sprite.rotation,
+      animation: sprite.currentAnimation,
+      flipX: sprite.flipX,
+      flipY: sprite.flipY,
+    });
+  });
+});
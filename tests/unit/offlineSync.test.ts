@@ -0,0 +1,99 @@
+// @vitest-environment jsdom
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import * as Y from 'yjs';
+import type { Shape } from '@shared/schema';
+import { TileGrid } from '@shared/tileGrid';
+import { DEFAULT_TILE_LAYERS } from '@shared/tileLayers';
+import { CollaborationService } from '@/services/collaboration';
+import { useCanvasStore } from '@/store/useCanvasStore';
+
+// Stands in for the browser WebSocket, recording what the service sends
+class FakeSocket {
+  static OPEN = 1;
+  readyState = FakeSocket.OPEN;
+  binaryType = 'blob';
+  sent: string[] = [];
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+  onclose: (() => void) | null = null;
+  onerror: ((error: unknown) => void) | null = null;
+
+  constructor(public url: string) {
+    sockets.push(this);
+  }
+
+  send(data: string) {
+    this.sent.push(data);
+  }
+
+  close() {}
+
+  receive(message: Record<string, unknown>) {
+    this.onmessage?.({ data: JSON.stringify(message) });
+  }
+
+  messages(type: string) {
+    return this.sent.map((data) => JSON.parse(data)).filter((message) => message.type === type);
+  }
+}
+
+const sockets: FakeSocket[] = [];
+const shape = (id: string) => ({ id, type: 'rectangle', x: 0, y: 0 }) as unknown as Shape;
+const tick = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+let service: CollaborationService;
+const pendingChanges = () => service.getConnectionState().pendingChanges;
+
+beforeAll(async () => {
+  vi.useFakeTimers({ toFake: ['setInterval'] });
+  vi.stubGlobal('WebSocket', FakeSocket);
+  useCanvasStore.setState({ shapes: [], sprites: [], tileGrid: new TileGrid() });
+  useCanvasStore.getState().setTileLayers(DEFAULT_TILE_LAYERS);
+
+  service = new CollaborationService('project:board');
+  service.switchToBoard('board');
+  (window as any).__collaborationService = service;
+  await tick();
+});
+
+afterAll(() => {
+  (window as any).__collaborationService = null;
+  vi.unstubAllGlobals();
+  vi.useRealTimers();
+});
+
+describe('offline edits', () => {
+  it('are counted as pending while disconnected', () => {
+    // Seeding the board's layers into its document is already one
+    const seeded = pendingChanges()!;
+    useCanvasStore.getState().addShape(shape('a'));
+    useCanvasStore.getState().addShape(shape('b'));
+    expect(pendingChanges()).toBe(seeded + 2);
+  });
+
+  it('reach the server in the sync reply after connecting', async () => {
+    service.connect('token');
+    const socket = sockets[0];
+    socket.receive({ type: 'auth_success' });
+    await tick();
+    expect(socket.messages('yjs-sync')).toHaveLength(1);
+
+    // The server has nothing yet, so it asks for everything
+    socket.receive({ type: 'yjs-sync', boardId: 'board', stateVector: Array.from(Y.encodeStateVector(new Y.Doc())) });
+    const [reply] = socket.messages('yjs-sync-step2');
+    const server = new Y.Doc();
+    Y.applyUpdate(server, new Uint8Array(reply.update));
+    expect(Object.keys(server.getMap('shapes').toJSON()).sort()).toEqual(['a', 'b']);
+    expect(pendingChanges()).toBe(0);
+  });
+
+  it('are neither sent nor kept for read-only members', () => {
+    const socket = sockets[0];
+    socket.receive({ type: 'room_access', role: 'viewer', readOnly: true });
+    const sentBefore = socket.sent.length;
+
+    useCanvasStore.getState().addShape(shape('c'));
+    expect(socket.sent.slice(sentBefore).some((data) => JSON.parse(data).update)).toBe(false);
+    expect(pendingChanges()).toBe(0);
+  });
+});
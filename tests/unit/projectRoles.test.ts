@@ -0,0 +1,71 @@
+import { describe, expect, it, vi } from 'vitest';
+import { boardRoomId, canEditBoard, hasProjectRole, parseBoardRoomId } from '@shared/projectRoles';
+import type { ProjectRole } from '@shared/schema';
+import { getProjectRole } from '../../server/middleware/projectAccess';
+
+vi.mock('../../server/storage', () => {
+  const projects = [{ id: 'p1', userId: 'creator' }];
+  const members = [
+    { projectId: 'p1', userId: 'ed', role: 'editor' },
+    { projectId: 'p2', userId: 'viv', role: 'editor' },
+  ];
+  return {
+    storage: {
+      getProject: async (id: string) => projects.find((project) => project.id === id),
+      getProjectMember: async (projectId: string, userId: string) =>
+        members.find((member) => member.projectId === projectId && member.userId === userId),
+    },
+  };
+});
+
+const ROLES: ProjectRole[] = ['viewer', 'commenter', 'editor', 'owner'];
+
+describe('hasProjectRole', () => {
+  it('orders roles from viewer to owner', () => {
+    ROLES.forEach((role, i) => {
+      ROLES.forEach((minimum, j) => expect(hasProjectRole(role, minimum)).toBe(i >= j));
+    });
+  });
+
+  it('grants nothing without a role', () => {
+    expect(hasProjectRole(null, 'viewer')).toBe(false);
+    expect(hasProjectRole(undefined, 'viewer')).toBe(false);
+  });
+});
+
+describe('canEditBoard', () => {
+  it('lets editors and owners edit', () => {
+    expect(ROLES.filter((role) => canEditBoard(role))).toEqual(['editor', 'owner']);
+    expect(canEditBoard(null)).toBe(false);
+  });
+});
+
+describe('board room ids', () => {
+  it('round-trips the project and board', () => {
+    expect(parseBoardRoomId(boardRoomId('p1', 'board_2'))).toEqual({ projectId: 'p1', boardId: 'board_2' });
+  });
+
+  it('rejects room ids that do not name a board', () => {
+    expect(parseBoardRoomId('default')).toBeNull();
+    expect(parseBoardRoomId('p1:b1:extra')).toBeNull();
+    expect(parseBoardRoomId(':b1')).toBeNull();
+  });
+});
+
+describe('getProjectRole', () => {
+  it('makes the project creator its owner', async () => {
+    expect(await getProjectRole('p1', 'creator')).toBe('owner');
+  });
+
+  it('uses the membership role of other users', async () => {
+    expect(await getProjectRole('p1', 'ed')).toBe('editor');
+  });
+
+  it('gives no role to users outside the project', async () => {
+    expect(await getProjectRole('p1', 'viv')).toBeNull();
+  });
+
+  it('gives no role in a project that does not exist', async () => {
+    expect(await getProjectRole('p2', 'viv')).toBeNull();
+  });
+});
@@ -0,0 +1,76 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import * as Y from 'yjs';
+import type { Tile } from '@shared/schema';
+import { RoomDocumentManager } from '../../server/roomDocuments';
+
+const saved = vi.hoisted(() => new Map<string, Uint8Array>());
+
+vi.mock('../../server/storage', () => ({
+  storage: {
+    getDocumentState: async (name: string) => saved.get(name),
+    saveDocumentState: async (name: string, state: Uint8Array) => {
+      saved.set(name, state);
+    },
+  },
+}));
+
+const tile: Tile = { x: 1, y: 2, tilesetId: 'grass', tileIndex: 4, layer: 'terrain' };
+
+// An update from a client that placed `tile` on its copy of the board
+function clientUpdate(): Uint8Array {
+  const doc = new Y.Doc();
+  doc.getMap('tiles').set('1,2,terrain', tile);
+  return Y.encodeStateAsUpdate(doc);
+}
+
+let documents: RoomDocumentManager;
+
+beforeEach(() => {
+  saved.clear();
+  documents = new RoomDocumentManager();
+});
+
+describe('RoomDocumentManager', () => {
+  it('syncs a late joiner from the server document', async () => {
+    await documents.applyUpdate('room', 'board', clientUpdate(), 'client-a');
+
+    const joiner = new Y.Doc();
+    const { update, stateVector } = await documents.handleSyncStep1('room', 'board', Y.encodeStateVector(joiner));
+    Y.applyUpdate(joiner, update);
+    expect(joiner.getMap('tiles').toJSON()).toEqual({ '1,2,terrain': tile });
+
+    // The server is missing nothing the joiner has
+    expect(Y.encodeStateAsUpdate(joiner, stateVector)).toEqual(Y.encodeStateAsUpdate(new Y.Doc()));
+  });
+
+  it('keeps boards and rooms apart', async () => {
+    await documents.applyUpdate('room', 'board', clientUpdate(), null);
+    expect((await documents.getDocument('room', 'other')).getMap('tiles').size).toBe(0);
+    expect((await documents.getDocument('other', 'board')).getMap('tiles').size).toBe(0);
+  });
+
+  it('persists the room when it is released and restores it on the next load', async () => {
+    await documents.applyUpdate('room', 'board', clientUpdate(), null);
+    await documents.releaseRoom('room');
+    expect(saved.has(RoomDocumentManager.documentName('room', 'board'))).toBe(true);
+
+    const doc = await new RoomDocumentManager().getDocument('room', 'board');
+    expect(doc.getMap('tiles').get('1,2,terrain')).toEqual(tile);
+  });
+
+  it('writes an edited document out once it has been idle', async () => {
+    vi.useFakeTimers();
+    try {
+      await documents.applyUpdate('room', 'board', clientUpdate(), null);
+      expect(saved.size).toBe(0);
+      await vi.advanceTimersByTimeAsync(2000);
+      expect(saved.size).toBe(1);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('rejects malformed updates', async () => {
+    await expect(documents.applyUpdate('room', 'board', new Uint8Array([255, 255, 255]), null)).rejects.toThrow();
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_SEED, createSeededRandom, randomInt, randomSeed } from '@shared/seededRandom';
+
+const draw = (seed: number, count = 20) => {
+  const random = createSeededRandom(seed);
+  return Array.from({ length: count }, () => random());
+};
+
+describe('createSeededRandom', () => {
+  it('gives the same sequence for the same seed', () => {
+    expect(draw(42)).toEqual(draw(42));
+    expect(draw(MAX_SEED)).toEqual(draw(MAX_SEED));
+  });
+
+  it('gives different sequences for different seeds', () => {
+    expect(draw(1)).not.toEqual(draw(2));
+  });
+
+  it('returns numbers in [0, 1)', () => {
+    draw(7, 1000).forEach((value) => {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    });
+  });
+});
+
+describe('randomInt', () => {
+  it('stays within [min, max) and repeats for the same seed', () => {
+    const rolls = (seed: number) => {
+      const random = createSeededRandom(seed);
+      return Array.from({ length: 200 }, () => randomInt(random, -3, 4));
+    };
+    const values = rolls(9);
+    expect(values).toEqual(rolls(9));
+    expect(Math.min(...values)).toBe(-3);
+    expect(Math.max(...values)).toBe(3);
+  });
+});
+
+describe('randomSeed', () => {
+  it('returns an integer seed in range', () => {
+    const seed = randomSeed();
+    expect(Number.isInteger(seed)).toBe(true);
+    expect(seed).toBeGreaterThanOrEqual(0);
+    expect(seed).toBeLessThanOrEqual(MAX_SEED);
+  });
+});
@@ -0,0 +1,62 @@
+// @vitest-environment jsdom
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import type { Shape } from '@shared/schema';
+import { TileGrid } from '@shared/tileGrid';
+import { DEFAULT_TILE_LAYERS } from '@shared/tileLayers';
+import { CollaborationService } from '@/services/collaboration';
+import { useCanvasStore } from '@/store/useCanvasStore';
+
+const shape = (id: string) => ({ id, type: 'rectangle', x: 0, y: 0 }) as unknown as Shape;
+
+const store = () => useCanvasStore.getState();
+const shapeIds = () => store().shapes.map((s) => s.id);
+const historyLabel = () => store().history[store().historyIndex].label;
+
+beforeAll(async () => {
+  // The service's presence cleanup interval would keep running after the tests
+  vi.useFakeTimers({ toFake: ['setInterval'] });
+  useCanvasStore.setState({ shapes: [], sprites: [], tileGrid: new TileGrid() });
+  store().setTileLayers(DEFAULT_TILE_LAYERS);
+  store().resetHistory();
+
+  const service = new CollaborationService('project:board');
+  service.switchToBoard('board');
+  (window as any).__collaborationService = service;
+  // Let the board seed its shared document from the store
+  await new Promise((resolve) => setTimeout(resolve, 0));
+});
+
+afterAll(() => {
+  (window as any).__collaborationService = null;
+  vi.useRealTimers();
+});
+
+describe('undo in a shared board', () => {
+  it('moves the history to the entry each undo step was recorded as', () => {
+    store().addShape(shape('a'));
+    // Recorded in the history, but never reaches the shared document
+    store().setTileLayers([...store().tileLayers, { ...DEFAULT_TILE_LAYERS[0], id: 'decor', name: 'Decor', order: 2 }]);
+    store().pushHistory('Local layer');
+    store().addShape(shape('b'));
+    expect(store().history.map((entry) => entry.label).slice(1)).toEqual(['Add shape', 'Local layer', 'Add shape']);
+
+    store().undo();
+    expect(shapeIds()).toEqual(['a']);
+    expect(historyLabel()).toBe('Local layer');
+
+    // The local-only entry has no undo step, so the next undo reverts the first shape
+    store().undo();
+    expect(shapeIds()).toEqual([]);
+    expect(store().historyIndex).toBe(0);
+  });
+
+  it('redoes the steps back to their own entries', () => {
+    store().redo();
+    expect(shapeIds()).toEqual(['a']);
+    expect(store().historyIndex).toBe(1);
+
+    store().redo();
+    expect(shapeIds()).toEqual(['a', 'b']);
+    expect(store().historyIndex).toBe(3);
+  });
+});
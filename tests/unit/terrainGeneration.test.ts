@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { applyAutoTiling } from '@shared/autoTiling';
+import { TileGrid } from '@shared/tileGrid';
+import { BIOMES, createValueNoise, generateTerrain, matchBiomeTilesets } from '@shared/terrainGeneration';
+
+const options = {
+  area: { x: -8, y: 4, width: 24, height: 16 },
+  biomeTilesets: { water: 'water', sand: 'sand', grass: 'grass', dirt: 'dirt', stone: 'stone' },
+};
+
+describe('generateTerrain', () => {
+  it('gives the same terrain for the same seed', () => {
+    expect(generateTerrain({ ...options, seed: 123 })).toEqual(generateTerrain({ ...options, seed: 123 }));
+  });
+
+  it('gives different terrain for different seeds', () => {
+    expect(generateTerrain({ ...options, seed: 1 }).biomes).not.toEqual(generateTerrain({ ...options, seed: 2 }).biomes);
+  });
+
+  it('covers the area row by row and counts every biome', () => {
+    const { biomes, tiles, counts } = generateTerrain({ ...options, seed: 5 });
+    const { area } = options;
+    expect(biomes).toHaveLength(area.width * area.height);
+    expect(tiles[0]).toMatchObject({ x: area.x, y: area.y, layer: 'terrain' });
+    expect(tiles[tiles.length - 1]).toMatchObject({ x: area.x + area.width - 1, y: area.y + area.height - 1 });
+    expect(BIOMES.reduce((sum, biome) => sum + counts[biome], 0)).toBe(biomes.length);
+  });
+
+  it('leaves biomes without a tileset empty', () => {
+    const { tiles, counts } = generateTerrain({ ...options, seed: 5, biomeTilesets: { grass: 'grass' } });
+    expect(tiles).toHaveLength(counts.grass);
+    expect(tiles.every((tile) => tile.tilesetId === 'grass')).toBe(true);
+  });
+
+  it('auto-tiles only the biomes with an auto-tiling tileset', () => {
+    const { tiles } = generateTerrain({ ...options, seed: 5 });
+    const tilesets = [
+      { id: 'grass', tilesetType: 'auto-tiling' as const },
+      { id: 'sand', tilesetType: 'single-tile' as const },
+      { id: 'water', tilesetType: 'variant_grid' as const },
+    ];
+    const autoTiled = applyAutoTiling(tiles, new TileGrid(), tilesets);
+    const plain = (tile: { tilesetId: string }) => tile.tilesetId !== 'grass';
+
+    expect(autoTiled.filter(plain)).toEqual(tiles.filter(plain));
+    expect(autoTiled.some((tile) => tile.tilesetId === 'grass' && tile.tileIndex !== 4)).toBe(true);
+  });
+
+  it('depends on the cell, not the area, so neighbouring areas line up', () => {
+    const whole = generateTerrain({ ...options, seed: 8, area: { x: 0, y: 0, width: 8, height: 1 } });
+    const right = generateTerrain({ ...options, seed: 8, area: { x: 4, y: 0, width: 4, height: 1 } });
+    expect(right.biomes).toEqual(whole.biomes.slice(4));
+  });
+});
+
+describe('createValueNoise', () => {
+  it('is deterministic and stays in [0, 1)', () => {
+    const a = createValueNoise(99);
+    const b = createValueNoise(99);
+    for (let i = 0; i < 50; i++) {
+      const x = i * 0.37;
+      const y = i * -1.21;
+      expect(a(x, y)).toBe(b(x, y));
+      expect(a(x, y)).toBeGreaterThanOrEqual(0);
+      expect(a(x, y)).toBeLessThan(1);
+    }
+  });
+});
+
+describe('matchBiomeTilesets', () => {
+  it('picks tilesets by name and prefers auto-tiling ones', () => {
+    const matched = matchBiomeTilesets([
+      { id: 'plain-grass', name: 'Grass', tilesetType: 'single-tile' },
+      { id: 'auto-grass', name: 'Grass Terrain', tilesetType: 'auto-tiling' },
+      { id: 'path', name: 'DirtPath', tilesetType: 'auto-tiling' },
+      { id: 'lake', name: 'Lake', tilesetType: 'auto-tiling' },
+    ]);
+    expect(matched.grass?.id).toBe('auto-grass');
+    expect(matched.water?.id).toBe('lake');
+    expect(matched.dirt).toBeUndefined();
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import type { TileAnimation } from '@shared/schema';
+import { animatedTileIndex, animationFrameAt, msUntilNextFrame } from '@shared/tileAnimations';
+
+// Water ripples through tiles 4, 5 and 6 every 600ms
+const water: TileAnimation = {
+  tileIndex: 4,
+  frames: [
+    { tileIndex: 4, duration: 100 },
+    { tileIndex: 5, duration: 200 },
+    { tileIndex: 6, duration: 300 },
+  ],
+};
+const tileset = { id: 'water', tileAnimations: [water] };
+
+describe('animationFrameAt', () => {
+  it('shows each frame for its duration', () => {
+    expect([0, 99, 100, 299, 300, 599].map((time) => animationFrameAt(water, time))).toEqual([4, 4, 5, 5, 6, 6]);
+  });
+
+  it('loops, also for times before the clock started', () => {
+    expect(animationFrameAt(water, 600)).toBe(4);
+    expect(animationFrameAt(water, 1350)).toBe(5);
+    expect(animationFrameAt(water, -1)).toBe(6);
+  });
+
+  it('stays on the first frame when no frame lasts', () => {
+    expect(animationFrameAt({ tileIndex: 1, frames: [{ tileIndex: 2, duration: 0 }] }, 50)).toBe(2);
+  });
+});
+
+describe('animatedTileIndex', () => {
+  it('plays the animation of animated tiles and keeps other tiles', () => {
+    expect(animatedTileIndex(tileset, 4, 350)).toBe(6);
+    expect(animatedTileIndex(tileset, 5, 350)).toBe(5);
+    expect(animatedTileIndex(undefined, 4, 350)).toBe(4);
+  });
+});
+
+describe('msUntilNextFrame', () => {
+  it('counts down to the end of the current frame', () => {
+    expect(msUntilNextFrame([tileset], 0)).toBe(100);
+    expect(msUntilNextFrame([tileset], 250)).toBe(50);
+    expect(msUntilNextFrame([tileset], 650)).toBe(50);
+  });
+
+  it('takes the soonest change across tilesets', () => {
+    const torch = { id: 'torch', tileAnimations: [{ tileIndex: 0, frames: [{ tileIndex: 0, duration: 30 }, { tileIndex: 1, duration: 30 }] }] };
+    expect(msUntilNextFrame([tileset, torch], 250)).toBe(20);
+  });
+
+  it('is null when nothing changes frame', () => {
+    const still = { id: 'still', tileAnimations: [{ tileIndex: 0, frames: [{ tileIndex: 3, duration: 100 }] }] };
+    expect(msUntilNextFrame([still, { id: 'plain', tileAnimations: null }], 0)).toBeNull();
+  });
+});
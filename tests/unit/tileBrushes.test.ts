@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import type { WeightedTile } from '@shared/schema';
+import { brushTileIndex, pickWeightedTile, variantGridBrush, type PatternBrush, type RandomBrush } from '@shared/tileBrushes';
+
+const weighted: WeightedTile[] = [
+  { tileIndex: 3, weight: 1 },
+  { tileIndex: 5, weight: 3 },
+];
+
+describe('pickWeightedTile', () => {
+  it('splits rolls in proportion to the weights', () => {
+    expect(pickWeightedTile(weighted, 0)).toBe(3);
+    expect(pickWeightedTile(weighted, 0.24)).toBe(3);
+    expect(pickWeightedTile(weighted, 0.25)).toBe(5);
+    expect(pickWeightedTile(weighted, 0.99)).toBe(5);
+  });
+
+  it('never picks a tile with no weight', () => {
+    const tiles = [{ tileIndex: 1, weight: 0 }, ...weighted];
+    expect(pickWeightedTile(tiles, 0)).toBe(3);
+  });
+});
+
+describe('brushTileIndex', () => {
+  const random: RandomBrush = { type: 'random', tiles: weighted };
+
+  it('gives each cell the same random tile on every stroke', () => {
+    for (let x = -5; x < 5; x++) {
+      expect(brushTileIndex(random, x, 2, 7)).toBe(brushTileIndex(random, x, 2, 7));
+    }
+  });
+
+  it('uses every weighted tile, mostly the heavier one', () => {
+    const picks = Array.from({ length: 400 }, (_, i) => brushTileIndex(random, i % 20, Math.floor(i / 20)));
+    const fives = picks.filter((index) => index === 5).length;
+    expect(new Set(picks)).toEqual(new Set([3, 5]));
+    expect(fives).toBeGreaterThan(240);
+    expect(fives).toBeLessThan(360);
+  });
+
+  it('rerolls cells for a new seed', () => {
+    const cells = Array.from({ length: 50 }, (_, x) => x);
+    expect(cells.map((x) => brushTileIndex(random, x, 0, 1))).not.toEqual(cells.map((x) => brushTileIndex(random, x, 0, 2)));
+  });
+
+  it('repeats patterns aligned to world cells, including negative ones', () => {
+    const pattern: PatternBrush = { type: 'pattern', width: 2, height: 2, tiles: [10, 11, 12, 13] };
+    expect(brushTileIndex(pattern, 0, 0)).toBe(10);
+    expect(brushTileIndex(pattern, 3, 0)).toBe(11);
+    expect(brushTileIndex(pattern, 4, 5)).toBe(12);
+    expect(brushTileIndex(pattern, -1, -1)).toBe(13);
+  });
+});
+
+describe('variantGridBrush', () => {
+  it('lays out consecutive variants row by row', () => {
+    expect(variantGridBrush({ width: 3, height: 2 }, 8)).toEqual({
+      type: 'pattern',
+      width: 3,
+      height: 2,
+      tiles: [8, 9, 10, 11, 12, 13],
+    });
+  });
+});
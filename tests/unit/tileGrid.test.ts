@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import type { Tile } from '@shared/schema';
+import { TILE_CHUNK_SIZE, TileGrid } from '@shared/tileGrid';
+
+const tile = (x: number, y: number, tilesetId = 'grass', layer = 'terrain'): Tile => ({
+  x,
+  y,
+  tilesetId,
+  tileIndex: 4,
+  layer,
+});
+
+const byCell = (a: { x: number; y: number }, b: { x: number; y: number }) => a.y - b.y || a.x - b.x;
+
+describe('TileGrid', () => {
+  it('stores tiles per cell and layer across chunk boundaries', () => {
+    const edge = TILE_CHUNK_SIZE - 1;
+    const grid = TileGrid.fromTiles([tile(edge, 0), tile(edge + 1, 0), tile(-1, -1), tile(edge, 0, 'tree', 'props')]);
+
+    expect(grid.size).toBe(4);
+    expect(grid.get(edge + 1, 0, 'terrain')).toEqual(tile(edge + 1, 0));
+    expect(grid.get(-1, -1, 'terrain')).toEqual(tile(-1, -1));
+    expect(grid.getAt(edge, 0).map((t) => t.layer).sort()).toEqual(['props', 'terrain']);
+    expect(grid.queryRect(-1, -1, edge, 0, 'terrain').sort(byCell)).toEqual([tile(-1, -1), tile(edge, 0)]);
+  });
+
+  describe('clone', () => {
+    it('leaves the source untouched when the clone is edited', () => {
+      const source = TileGrid.fromTiles([tile(0, 0), tile(1, 0)]);
+      const copy = source.clone();
+
+      copy.set(tile(0, 0, 'sand'));
+      copy.delete(1, 0);
+      copy.set(tile(100, 100));
+
+      expect(source.get(0, 0, 'terrain')?.tilesetId).toBe('grass');
+      expect(source.get(1, 0, 'terrain')).toBeDefined();
+      expect(source.get(100, 100, 'terrain')).toBeUndefined();
+      expect(source.size).toBe(2);
+      expect(copy.size).toBe(2);
+    });
+
+    it('leaves the clone untouched when the source is edited afterwards', () => {
+      const source = TileGrid.fromTiles([tile(0, 0)]);
+      const copy = source.clone();
+
+      source.set(tile(0, 0, 'sand'));
+      source.set(tile(5, 5, 'sand', 'props'));
+      source.clearLayer('terrain');
+
+      expect(copy.get(0, 0, 'terrain')?.tilesetId).toBe('grass');
+      expect(copy.toTiles()).toEqual([tile(0, 0)]);
+    });
+  });
+
+  describe('diff', () => {
+    it('reports added, replaced and removed cells with their before and after tiles', () => {
+      const previous = TileGrid.fromTiles([tile(0, 0), tile(1, 0)]);
+      const next = previous.clone();
+      next.set(tile(0, 0, 'sand'));
+      next.delete(1, 0);
+      next.set(tile(2, 0, 'tree', 'props'));
+
+      expect(next.diff(previous).sort(byCell)).toEqual([
+        { x: 0, y: 0, layer: 'terrain', before: tile(0, 0), after: tile(0, 0, 'sand') },
+        { x: 1, y: 0, layer: 'terrain', before: tile(1, 0), after: undefined },
+        { x: 2, y: 0, layer: 'props', before: undefined, after: tile(2, 0, 'tree', 'props') },
+      ]);
+    });
+
+    it('is empty for an unedited clone and only covers the chunks an edit touched', () => {
+      const previous = TileGrid.fromTiles([tile(0, 0), tile(TILE_CHUNK_SIZE * 3, 0)]);
+      const next = previous.clone();
+      expect(next.diff(previous)).toEqual([]);
+
+      next.set(tile(1, 1));
+      expect(next.diff(previous)).toEqual([{ x: 1, y: 1, layer: 'terrain', before: undefined, after: tile(1, 1) }]);
+    });
+
+    it('reports every tile of a cleared layer', () => {
+      const previous = TileGrid.fromTiles([tile(0, 0), tile(40, 3)]);
+      const next = previous.clone();
+      next.clearLayer('terrain');
+
+      expect(next.diff(previous).sort(byCell)).toEqual([
+        { x: 0, y: 0, layer: 'terrain', before: tile(0, 0), after: undefined },
+        { x: 40, y: 3, layer: 'terrain', before: tile(40, 3), after: undefined },
+      ]);
+    });
+
+    it('compares tiles by identity, so equal tiles placed separately still count', () => {
+      const previous = TileGrid.fromTiles([tile(0, 0)]);
+      const next = TileGrid.fromTiles([tile(0, 0)]);
+      expect(next.diff(previous)).toHaveLength(1);
+    });
+  });
+});
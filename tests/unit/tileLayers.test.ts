@@ -0,0 +1,58 @@
+// @vitest-environment jsdom
+import { beforeEach, describe, expect, it } from 'vitest';
+import { TileGrid } from '@shared/tileGrid';
+import { DEFAULT_TILE_LAYERS } from '@shared/tileLayers';
+import { useCanvasStore } from '@/store/useCanvasStore';
+
+const store = () => useCanvasStore.getState();
+const layerIds = () => store().tileLayers.map((layer) => layer.id);
+const orders = () => store().tileLayers.map((layer) => layer.order);
+
+beforeEach(() => {
+  useCanvasStore.setState({ tileGrid: new TileGrid() });
+  store().setTileLayers(DEFAULT_TILE_LAYERS);
+});
+
+describe('tile layers in the canvas store', () => {
+  it('adds a layer on top and makes it active', () => {
+    const layer = store().addTileLayer('Decor');
+    expect(layerIds()).toEqual(['terrain', 'props', layer.id]);
+    expect(orders()).toEqual([0, 1, 2]);
+    expect(store().activeTileLayerId).toBe(layer.id);
+  });
+
+  it('moves a layer by swapping its order with its neighbour', () => {
+    store().moveTileLayer('terrain', 'up');
+    expect(layerIds()).toEqual(['props', 'terrain']);
+    expect(orders()).toEqual([0, 1]);
+  });
+
+  it('ignores moves past the top or bottom', () => {
+    store().moveTileLayer('props', 'up');
+    store().moveTileLayer('terrain', 'down');
+    expect(layerIds()).toEqual(['terrain', 'props']);
+  });
+
+  it('deletes a layer with its tiles and renumbers the rest', () => {
+    const decor = store().addTileLayer('Decor');
+    store().setActiveTileLayer('props');
+    useCanvasStore.setState({
+      tileGrid: TileGrid.fromTiles([
+        { x: 0, y: 0, tilesetId: 'grass', tileIndex: 4, layer: 'terrain' },
+        { x: 0, y: 0, tilesetId: 'rock', tileIndex: 0, layer: 'props' },
+      ]),
+    });
+
+    store().deleteTileLayer('props');
+    expect(layerIds()).toEqual(['terrain', decor.id]);
+    expect(orders()).toEqual([0, 1]);
+    expect(store().tileGrid.toTiles().map((tile) => tile.layer)).toEqual(['terrain']);
+    expect(store().activeTileLayerId).toBe(decor.id);
+  });
+
+  it('keeps the last layer', () => {
+    store().deleteTileLayer('props');
+    store().deleteTileLayer('terrain');
+    expect(layerIds()).toEqual(['terrain']);
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import type { TilePropertyDefinition } from '@shared/schema';
+import {
+  coerceTilePropertyValue,
+  getTileImageUrls,
+  getTilePropertyValues,
+  migrateTilePropertyValues,
+  setTilePropertyValue,
+  withTileImageUrls,
+} from '@shared/tileProperties';
+
+const solid: TilePropertyDefinition = { name: 'solid', type: 'boolean', default: false };
+const damage: TilePropertyDefinition = { name: 'damage', type: 'number', default: 0 };
+const surface: TilePropertyDefinition = { name: 'surface', type: 'enum', default: 'stone', options: ['grass', 'stone'] };
+
+describe('coerceTilePropertyValue', () => {
+  it('reads booleans and numbers from their string form', () => {
+    expect(coerceTilePropertyValue(solid, 'true')).toBe(true);
+    expect(coerceTilePropertyValue(solid, 'yes')).toBe(false);
+    expect(coerceTilePropertyValue(damage, '2.5')).toBe(2.5);
+    expect(coerceTilePropertyValue(damage, 'lots')).toBe(0);
+  });
+
+  it('falls back to the default for options an enum does not list', () => {
+    expect(coerceTilePropertyValue(surface, 'grass')).toBe('grass');
+    expect(coerceTilePropertyValue(surface, 'lava')).toBe('stone');
+    expect(coerceTilePropertyValue({ ...surface, default: 'lava' }, 'lava')).toBe('grass');
+  });
+});
+
+describe('getTilePropertyValues', () => {
+  const tileset = {
+    tileProperties: [solid, damage],
+    tilePropertyValues: { 3: { solid: true, removed: 'x' }, 4: { damage: '5' } },
+  };
+
+  it('fills in defaults for properties the tile does not set', () => {
+    expect(getTilePropertyValues(tileset, 3)).toEqual({ solid: true, damage: 0 });
+    expect(getTilePropertyValues(tileset, 0)).toEqual({ solid: false, damage: 0 });
+  });
+
+  it('converts stored values to the declared type', () => {
+    expect(getTilePropertyValues(tileset, 4)).toEqual({ solid: false, damage: 5 });
+  });
+
+  it('is empty without a tileset', () => {
+    expect(getTilePropertyValues(undefined, 3)).toEqual({});
+  });
+});
+
+describe('setTilePropertyValue', () => {
+  it('sets and resets one value, dropping tiles left with none', () => {
+    const set = setTilePropertyValue(null, 2, 'solid', true);
+    expect(set).toEqual({ 2: { solid: true } });
+    expect(setTilePropertyValue(set, 2, 'solid', undefined)).toEqual({});
+  });
+});
+
+describe('migrateTilePropertyValues', () => {
+  it('drops removed properties and follows renames and type changes', () => {
+    const data = { 1: { solid: true, hurt: '3' }, 2: { gone: 1 } };
+    expect(migrateTilePropertyValues(data, [solid, damage], { hurt: 'damage' })).toEqual({ 1: { solid: true, damage: 3 } });
+  });
+});
+
+describe('tile image urls', () => {
+  it('are empty for tilesets cut from one sheet', () => {
+    expect(getTileImageUrls({ tileImageUrls: null })).toEqual([]);
+  });
+
+  it('move from the legacy tag into the tileset field', () => {
+    const tileset = withTileImageUrls({ tags: ['outdoor', 'tile-urls:["/a.png","/b.png"]'] });
+    expect(tileset).toEqual({ tags: ['outdoor'], tileImageUrls: ['/a.png', '/b.png'] });
+    expect(getTileImageUrls(tileset)).toEqual(['/a.png', '/b.png']);
+  });
+
+  it('keep urls already in the field over the legacy tag', () => {
+    expect(withTileImageUrls({ tags: ['tile-urls:["/old.png"]'], tileImageUrls: ['/new.png'] })).toEqual({
+      tags: [],
+      tileImageUrls: ['/new.png'],
+    });
+  });
+
+  it('leave tilesets without the tag as they are', () => {
+    const tileset = { tags: ['outdoor'] };
+    expect(withTileImageUrls(tileset)).toBe(tileset);
+  });
+});
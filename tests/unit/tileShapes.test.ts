@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { floodFillCells, lineCells, rectCells, type GridCell } from '@shared/tileShapes';
+
+const sorted = (cells: GridCell[]) => [...cells].sort((a, b) => a.y - b.y || a.x - b.x);
+
+// Map rows with '#' for target cells, anything else for the rest
+const targetsOf = (rows: string[]) => (x: number, y: number) => rows[y]?.[x] === '#';
+
+describe('lineCells', () => {
+  it('includes both ends', () => {
+    expect(lineCells({ x: 2, y: 3 }, { x: 2, y: 3 })).toEqual([{ x: 2, y: 3 }]);
+    expect(lineCells({ x: 0, y: 0 }, { x: 3, y: 0 })).toEqual([
+      { x: 0, y: 0 },
+      { x: 1, y: 0 },
+      { x: 2, y: 0 },
+      { x: 3, y: 0 },
+    ]);
+  });
+
+  it('steps one cell at a time along the longer axis', () => {
+    const cells = lineCells({ x: 0, y: 0 }, { x: 6, y: -2 });
+    expect(cells).toHaveLength(7);
+    expect(cells[cells.length - 1]).toEqual({ x: 6, y: -2 });
+    cells.slice(1).forEach((cell, i) => {
+      expect(cell.x - cells[i].x).toBe(1);
+      expect(Math.abs(cell.y - cells[i].y)).toBeLessThanOrEqual(1);
+    });
+  });
+
+  it('covers the same cells in either direction for diagonals', () => {
+    const forward = lineCells({ x: -2, y: -2 }, { x: 2, y: 2 });
+    expect(forward).toHaveLength(5);
+    expect(sorted(lineCells({ x: 2, y: 2 }, { x: -2, y: -2 }))).toEqual(sorted(forward));
+  });
+});
+
+describe('rectCells', () => {
+  it('fills the rectangle spanned by any two opposite corners', () => {
+    const cells = rectCells({ x: 2, y: 1 }, { x: 0, y: 0 });
+    expect(sorted(cells)).toEqual([
+      { x: 0, y: 0 },
+      { x: 1, y: 0 },
+      { x: 2, y: 0 },
+      { x: 0, y: 1 },
+      { x: 1, y: 1 },
+      { x: 2, y: 1 },
+    ]);
+    expect(sorted(rectCells({ x: 0, y: 1 }, { x: 2, y: 0 }))).toEqual(sorted(cells));
+  });
+});
+
+describe('floodFillCells', () => {
+  const bounds = { minX: 0, minY: 0, maxX: 4, maxY: 3 };
+  const map = [
+    '##.##',
+    '#..#.',
+    '##.##',
+    '.....',
+  ];
+
+  it('fills the 4-connected region around the start', () => {
+    expect(sorted(floodFillCells({ x: 0, y: 0 }, bounds, targetsOf(map)))).toEqual([
+      { x: 0, y: 0 },
+      { x: 1, y: 0 },
+      { x: 0, y: 1 },
+      { x: 0, y: 2 },
+      { x: 1, y: 2 },
+    ]);
+  });
+
+  it('does not cross diagonals', () => {
+    expect(sorted(floodFillCells({ x: 3, y: 0 }, bounds, targetsOf(map)))).toEqual([
+      { x: 3, y: 0 },
+      { x: 4, y: 0 },
+      { x: 3, y: 1 },
+      { x: 3, y: 2 },
+      { x: 4, y: 2 },
+    ]);
+  });
+
+  it('takes every target cell in the bounds when not contiguous', () => {
+    const cells = floodFillCells({ x: 0, y: 0 }, bounds, targetsOf(map), false);
+    expect(cells).toHaveLength(10);
+  });
+
+  it('stops at the bounds for open-ended regions', () => {
+    const cells = floodFillCells({ x: 5, y: 5 }, { minX: 3, minY: 4, maxX: 6, maxY: 6 }, () => true);
+    expect(cells).toHaveLength(12);
+    cells.forEach(({ x, y }) => {
+      expect(x).toBeGreaterThanOrEqual(3);
+      expect(x).toBeLessThanOrEqual(6);
+      expect(y).toBeGreaterThanOrEqual(4);
+      expect(y).toBeLessThanOrEqual(6);
+    });
+  });
+
+  it('is empty when the start is not a target or outside the bounds', () => {
+    expect(floodFillCells({ x: 2, y: 0 }, bounds, targetsOf(map))).toEqual([]);
+    expect(floodFillCells({ x: 9, y: 0 }, bounds, () => true)).toEqual([]);
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import type { Tile } from '@shared/schema';
+import { TileGrid } from '@shared/tileGrid';
+import {
+  extractStamp,
+  isStampBorder,
+  placeStamp,
+  selectionFromCorners,
+  transformStamp,
+  type TileStamp,
+} from '@/utils/tileStamps';
+
+const tile = (x: number, y: number, tileIndex: number, layer = 'terrain'): Tile => ({
+  x,
+  y,
+  tilesetId: 'grass',
+  tileIndex,
+  layer,
+});
+
+// 3x2 stamp with the top-left and bottom-right cells filled
+const stamp: TileStamp = {
+  id: 'stamp-1',
+  name: 'Corner',
+  width: 3,
+  height: 2,
+  tiles: [tile(0, 0, 1), tile(2, 1, 2)],
+};
+
+const cells = (tiles: Tile[]) => tiles.map(({ x, y, tileIndex }) => [x, y, tileIndex]);
+
+describe('selectionFromCorners', () => {
+  it('spans both corners in either order', () => {
+    expect(selectionFromCorners({ x: 4, y: -1 }, { x: 2, y: 3 }, ['terrain'])).toEqual({
+      x: 2,
+      y: -1,
+      width: 3,
+      height: 5,
+      layers: ['terrain'],
+    });
+  });
+});
+
+describe('extractStamp', () => {
+  it('copies the selected layers relative to the top-left cell', () => {
+    const grid = TileGrid.fromTiles([tile(5, 5, 1), tile(6, 6, 2, 'props'), tile(9, 5, 3), tile(7, 6, 4, 'decor')]);
+    const copy = extractStamp(grid, selectionFromCorners({ x: 5, y: 5 }, { x: 7, y: 6 }, ['terrain', 'props']), 'copy', 'Copy');
+
+    expect(copy).toMatchObject({ width: 3, height: 2 });
+    expect(copy.tiles).toEqual(expect.arrayContaining([tile(0, 0, 1), tile(1, 1, 2, 'props')]));
+    expect(copy.tiles).toHaveLength(2);
+  });
+});
+
+describe('transformStamp', () => {
+  it('mirrors tiles across the stamp and flips their art', () => {
+    const flipped = transformStamp(stamp, 'flipX');
+    expect(cells(flipped.tiles)).toEqual([[2, 0, 1], [0, 1, 2]]);
+    expect(flipped.tiles.every((t) => t.flipX)).toBe(true);
+
+    const back = transformStamp(flipped, 'flipX');
+    expect(back).toEqual(stamp);
+  });
+
+  it('mirrors tiles top to bottom', () => {
+    const flipped = transformStamp(stamp, 'flipY');
+    expect(cells(flipped.tiles)).toEqual([[0, 1, 1], [2, 0, 2]]);
+    expect(flipped.tiles.every((t) => t.flipY)).toBe(true);
+  });
+
+  it('turns the stamp clockwise and swaps its size', () => {
+    const turned = transformStamp(stamp, 'rotate');
+    expect(turned).toMatchObject({ width: 2, height: 3 });
+    expect(cells(turned.tiles)).toEqual([[1, 0, 1], [0, 2, 2]]);
+  });
+});
+
+describe('placeStamp', () => {
+  it('moves the stamp to the target cell', () => {
+    expect(cells(placeStamp(stamp, -3, 4))).toEqual([[-3, 4, 1], [-1, 5, 2]]);
+  });
+});
+
+describe('isStampBorder', () => {
+  it('is true on the outer cells only', () => {
+    const big = { width: 3, height: 3 };
+    expect(isStampBorder(big, { x: 1, y: 1 })).toBe(false);
+    expect(isStampBorder(big, { x: 2, y: 1 })).toBe(true);
+    expect(isStampBorder(big, { x: 1, y: 0 })).toBe(true);
+  });
+});
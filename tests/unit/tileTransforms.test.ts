@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import type { Tile } from '@shared/schema';
+import {
+  applyTileTransform,
+  flipTileTransform,
+  fromDiagonalFlags,
+  rotateTileTransform,
+  toDiagonalFlags,
+  type TileTransform,
+} from '@shared/tileTransforms';
+
+const tile: Tile = { x: 3, y: -1, tilesetId: 'grass', tileIndex: 4, layer: 'terrain' };
+
+// All eight orientations of a square tile, reached by turning and flipping
+const ORIENTATIONS: TileTransform[] = [
+  {},
+  { rotate90: true },
+  { flipX: true, flipY: true },
+  { flipX: true, flipY: true, rotate90: true },
+  { flipX: true },
+  { flipX: true, rotate90: true },
+  { flipY: true },
+  { flipY: true, rotate90: true },
+];
+
+describe('applyTileTransform', () => {
+  it('copies the orientation onto the tile', () => {
+    expect(applyTileTransform(tile, { flipY: true, rotate90: true })).toEqual({ ...tile, flipY: true, rotate90: true });
+  });
+
+  it('replaces the orientation the tile had', () => {
+    const turned = { ...tile, flipX: true, rotate90: true };
+    expect(applyTileTransform(turned, { flipY: true })).toEqual({ ...tile, flipY: true });
+  });
+
+  it('leaves out false flags', () => {
+    const plain = applyTileTransform({ ...tile, flipX: true }, { flipX: false, flipY: false, rotate90: false });
+    expect(plain).toEqual(tile);
+    expect(Object.keys(plain)).toEqual(Object.keys(tile));
+  });
+});
+
+describe('rotateTileTransform', () => {
+  it('comes back to the start after four turns', () => {
+    ORIENTATIONS.forEach((transform) => {
+      let turned = transform;
+      for (let i = 0; i < 4; i++) turned = rotateTileTransform(turned);
+      expect(turned).toEqual(transform);
+    });
+  });
+
+  it('undoes a clockwise turn with a counter-clockwise one', () => {
+    ORIENTATIONS.forEach((transform) => {
+      expect(rotateTileTransform(rotateTileTransform(transform), false)).toEqual(transform);
+    });
+  });
+
+  it('turns twice into a flip on both axes', () => {
+    expect(rotateTileTransform(rotateTileTransform({}))).toEqual({ flipX: true, flipY: true });
+  });
+});
+
+describe('flipTileTransform', () => {
+  it('toggles the flag of the axis', () => {
+    expect(flipTileTransform({}, 'x')).toEqual({ flipX: true });
+    expect(flipTileTransform({ flipX: true, rotate90: true }, 'x')).toEqual({ rotate90: true });
+    expect(flipTileTransform({ flipX: true }, 'y')).toEqual({ flipX: true, flipY: true });
+  });
+});
+
+describe('diagonal flags', () => {
+  it('round-trip every orientation', () => {
+    ORIENTATIONS.forEach((transform) => {
+      expect(fromDiagonalFlags(toDiagonalFlags(transform))).toEqual(transform);
+    });
+  });
+
+  it('write a clockwise turn as a transpose and a horizontal flip', () => {
+    expect(toDiagonalFlags({ rotate90: true })).toEqual({ diagonal: true, horizontal: true, vertical: false });
+  });
+});
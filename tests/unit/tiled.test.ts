@@ -0,0 +1,151 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import type { Shape, SpriteInstance, Tile, TileLayerDefinition, Tileset } from '@shared/schema';
+import { exportTiledMap, importTiledMap, type TiledExportSource, type TiledImportedTileset } from '@/utils/tiled';
+
+const tileset: Tileset = {
+  id: 'grass-id',
+  name: 'Grass & Dirt',
+  tileSize: 16,
+  spacing: 1,
+  imageUrl: '/tilesets/grass.png',
+  columns: 3,
+  rows: 3,
+  tilesetType: 'auto-tiling',
+  multiTileConfig: null,
+  tags: ['outdoor'],
+  tileAnimations: [{ tileIndex: 4, frames: [{ tileIndex: 4, duration: 200 }, { tileIndex: 5, duration: 150 }] }],
+  tileProperties: [{ name: 'solid', type: 'boolean', default: false }],
+  tilePropertyValues: { 1: { solid: true } },
+  tileImageUrls: ['/tilesets/grass/0.png', '/tilesets/grass/1.png'],
+};
+
+const layers: TileLayerDefinition[] = [
+  { id: 'ground', name: 'Ground', order: 0, visible: true, locked: false, opacity: 1, parallax: { x: 1, y: 1 } },
+  { id: 'decor', name: 'Decor', order: 1, visible: false, locked: true, opacity: 0.5, parallax: { x: 0.5, y: 1 } },
+];
+
+const tiles: Tile[] = [
+  { x: -2, y: 3, tilesetId: 'grass-id', tileIndex: 0, layer: 'ground' },
+  { x: 1, y: 3, tilesetId: 'grass-id', tileIndex: 4, layer: 'ground', flipX: true },
+  { x: 1, y: 5, tilesetId: 'grass-id', tileIndex: 8, layer: 'decor', rotate90: true, flipY: true },
+];
+
+const shape: Shape = {
+  id: 'shape-1',
+  type: 'rectangle',
+  transform: { x: -20, y: 60, width: 40, height: 24, rotation: 15, scaleX: 1, scaleY: 2 },
+  style: { fill: '#ff0000', stroke: '#000000', strokeWidth: 3, opacity: 0.8 },
+  metadata: { createdBy: 'alex', createdAt: 1, locked: true, layer: 2 },
+};
+
+const sprite: SpriteInstance = {
+  id: 'sprite-1',
+  spriteId: 'hero',
+  x: 8,
+  y: 72,
+  scale: 1.5,
+  rotation: 90,
+  currentAnimation: 'walk',
+  flipX: true,
+  flipY: false,
+  layer: 1,
+  metadata: { createdBy: 'alex', createdAt: 1, locked: false },
+};
+
+const board = {
+  name: 'Forest level',
+  canvasState: { gridSize: 16, shapes: [shape], sprites: [sprite] },
+  tileMap: { gridSize: 16, tiles, layers, spriteDefinitions: [] },
+} as unknown as TiledExportSource;
+
+const byPosition = (a: Tile, b: Tile) => a.y - b.y || a.x - b.x;
+const withoutCreatedAt = <T extends { metadata: { createdAt: number } }>(item: T) => ({
+  ...item,
+  metadata: { ...item.metadata, createdAt: 0 },
+});
+
+// Import under a new id, as when the map is opened in another project
+async function roundTrip(format: 'tmj' | 'tmx') {
+  const resolved: TiledImportedTileset[] = [];
+  const files = exportTiledMap(board, [tileset], format);
+  const result = await importTiledMap(files, async (imported) => {
+    resolved.push(imported);
+    return { ...imported, id: 'imported-id' };
+  });
+  return { files, resolved, result };
+}
+
+describe.each(['tmj', 'tmx'] as const)('Tiled %s round trip', (format) => {
+  it('writes the map followed by one tileset file', async () => {
+    const { files } = await roundTrip(format);
+    expect(files.map((file) => file.name)).toEqual([`Forest_level.${format}`, 'Grass_Dirt.tsx']);
+  });
+
+  it('restores tiles with their positions, layers and transforms', async () => {
+    const { result } = await roundTrip(format);
+    expect(result.name).toBe('Forest_level');
+    expect(result.gridSize).toBe(16);
+    expect(result.skippedTiles).toBe(0);
+    expect([...result.tiles].sort(byPosition)).toEqual(
+      tiles.map((tile) => ({ ...tile, tilesetId: 'imported-id' })).sort(byPosition)
+    );
+  });
+
+  it('restores the tile layers in order', async () => {
+    const { result } = await roundTrip(format);
+    expect(result.tileLayers).toEqual(layers);
+  });
+
+  it('restores the tileset with its animations and tile properties', async () => {
+    const { resolved, result } = await roundTrip(format);
+    expect(resolved).toHaveLength(1);
+    expect(resolved[0]).toMatchObject({
+      sourceId: tileset.id,
+      name: tileset.name,
+      tileSize: tileset.tileSize,
+      spacing: tileset.spacing,
+      imageUrl: tileset.imageUrl,
+      columns: tileset.columns,
+      rows: tileset.rows,
+      tilesetType: tileset.tilesetType,
+      tags: tileset.tags,
+      tileAnimations: tileset.tileAnimations,
+      tileProperties: tileset.tileProperties,
+      tilePropertyValues: tileset.tilePropertyValues,
+      tileImageUrls: tileset.tileImageUrls,
+    });
+    expect(result.tilesets.map((t) => t.id)).toEqual(['imported-id']);
+  });
+
+  it('restores shapes and sprites', async () => {
+    const { result } = await roundTrip(format);
+    expect(result.shapes.map(withoutCreatedAt)).toEqual([withoutCreatedAt(shape)]);
+    expect(result.sprites.map(withoutCreatedAt)).toEqual([withoutCreatedAt(sprite)]);
+  });
+});
+
+describe('importTiledMap', () => {
+  it('moves the per-tile images of a legacy tag into tileImageUrls', async () => {
+    const legacy = { ...tileset, tileImageUrls: null, tags: ['outdoor', 'tile-urls:["/tiles/0.png","/tiles/1.png"]'] };
+    const files = exportTiledMap(board, [legacy], 'tmj');
+    const resolved: TiledImportedTileset[] = [];
+    await importTiledMap(files, async (imported) => {
+      resolved.push(imported);
+      return null;
+    });
+    expect(resolved[0]).toMatchObject({ tags: ['outdoor'], tileImageUrls: ['/tiles/0.png', '/tiles/1.png'] });
+  });
+
+  it('counts the tiles of tilesets that could not be resolved', async () => {
+    const files = exportTiledMap(board, [tileset], 'tmj');
+    const result = await importTiledMap(files, async () => null);
+    expect(result.tiles).toEqual([]);
+    expect(result.skippedTiles).toBe(tiles.length);
+  });
+
+  it('asks for tileset files missing from the selection', async () => {
+    const [map] = exportTiledMap(board, [tileset], 'tmx');
+    await expect(importTiledMap([map], async () => null)).rejects.toThrow(/Missing tileset file "Grass_Dirt.tsx"/);
+  });
+});
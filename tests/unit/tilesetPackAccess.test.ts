@@ -0,0 +1,27 @@
+import { describe, expect, it, vi } from 'vitest';
+import { getOwnTilesetPack } from '../../server/middleware/tilesetPackAccess';
+
+vi.mock('../../server/storage', () => {
+  const packs = [
+    { id: 'mine', name: 'Mine', userId: 'ann' },
+    { id: 'theirs', name: 'Theirs', userId: 'bob' },
+    { id: 'shared', name: 'Shared', userId: null },
+  ];
+  return {
+    storage: {
+      getTilesetPack: async (id: string) => packs.find((pack) => pack.id === id),
+    },
+  };
+});
+
+describe('getOwnTilesetPack', () => {
+  it('returns packs the user created', async () => {
+    expect(await getOwnTilesetPack('mine', 'ann')).toMatchObject({ id: 'mine' });
+  });
+
+  it("reports other users' and shared packs as missing", async () => {
+    for (const id of ['theirs', 'shared', 'unknown']) {
+      await expect(getOwnTilesetPack(id, 'ann')).rejects.toMatchObject({ statusCode: 404, message: 'Tileset pack not found' });
+    }
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest';
+import type { Tile } from '@shared/schema';
+import { TileGrid } from '@shared/tileGrid';
+import { growFromSample, type TileRegion } from '@shared/waveFunctionCollapse';
+
+// Rows of one-letter tileset ids; '.' leaves the cell empty
+function paint(grid: TileGrid, rows: string[], at = { x: 0, y: 0 }) {
+  rows.forEach((row, y) =>
+    [...row].forEach((id, x) => {
+      if (id !== '.') grid.set({ x: at.x + x, y: at.y + y, tilesetId: id, tileIndex: 0, layer: 'terrain' });
+    })
+  );
+}
+
+const regionOf = (rows: string[], at = { x: 0, y: 0 }): TileRegion => ({
+  ...at,
+  width: rows[0].length,
+  height: rows.length,
+});
+
+// A sample where some seeds paint themselves into a corner
+const SAMPLE = ['ABAA', 'BBAB', 'AABA', 'ABBB'];
+const TARGET: TileRegion = { x: 10, y: 0, width: 8, height: 8 };
+const RETRIED_SEED = 8; // First attempt of this seed fails on SAMPLE and TARGET
+
+function sampleGrid() {
+  const grid = new TileGrid();
+  paint(grid, SAMPLE);
+  return grid;
+}
+
+const grow = (seed: number, grid = sampleGrid()) =>
+  growFromSample({ grid, layer: 'terrain', sample: regionOf(SAMPLE), target: TARGET, seed });
+
+// Every 2×2 window of the generated target, as strings like 'AB,BA'
+function windows(tiles: Tile[], region: TileRegion): string[] {
+  const at = new Map(tiles.map((tile) => [`${tile.x},${tile.y}`, tile.tilesetId]));
+  const result: string[] = [];
+  for (let y = region.y; y < region.y + region.height - 1; y++) {
+    for (let x = region.x; x < region.x + region.width - 1; x++) {
+      result.push(`${at.get(`${x},${y}`)}${at.get(`${x + 1},${y}`)},${at.get(`${x},${y + 1}`)}${at.get(`${x + 1},${y + 1}`)}`);
+    }
+  }
+  return result;
+}
+
+describe('growFromSample', () => {
+  it('gives the same tiles and attempts for the same seed', () => {
+    expect(grow(3)).toEqual(grow(3));
+    expect(grow(RETRIED_SEED)).toEqual(grow(RETRIED_SEED));
+  });
+
+  it('only uses 2×2 patterns from the sample', () => {
+    const result = grow(3);
+    expect(result.success).toBe(true);
+    expect(result.tiles).toHaveLength(TARGET.width * TARGET.height);
+
+    const sampleTiles = sampleGrid().toTiles();
+    const patterns = new Set(windows(sampleTiles, regionOf(SAMPLE)));
+    windows(result.tiles, TARGET).forEach((window) => expect(patterns).toContain(window));
+  });
+
+  it('keeps existing target tiles and grows around them', () => {
+    const grid = sampleGrid();
+    paint(grid, ['B'], { x: TARGET.x + 3, y: TARGET.y + 3 });
+    const result = grow(3, grid);
+
+    expect(result.success).toBe(true);
+    expect(result.tiles).toHaveLength(TARGET.width * TARGET.height - 1);
+    expect(result.tiles.some((tile) => tile.x === TARGET.x + 3 && tile.y === TARGET.y + 3)).toBe(false);
+  });
+
+  it('retries after a contradiction with a seed drawn from the first one', () => {
+    const result = grow(RETRIED_SEED);
+    expect(result.success).toBe(true);
+    expect(result.attempts.length).toBeGreaterThan(1);
+    expect(result.attempts[0].seed).toBe(RETRIED_SEED);
+
+    const failed = result.attempts.slice(0, -1);
+    failed.forEach(({ contradiction }) => {
+      expect(contradiction).toBeDefined();
+      expect(contradiction!.x).toBeGreaterThanOrEqual(TARGET.x);
+      expect(contradiction!.y).toBeGreaterThanOrEqual(TARGET.y);
+    });
+
+    // The successful attempt's seed reproduces the result on the first try
+    const last = result.attempts[result.attempts.length - 1];
+    expect(last.contradiction).toBeUndefined();
+    const replay = grow(last.seed);
+    expect(replay.attempts).toEqual([{ seed: last.seed }]);
+    expect(replay.tiles).toEqual(result.tiles);
+  });
+
+  it('gives up after the last attempt when every attempt contradicts', () => {
+    // A's only ever sit left of B's in the sample, so a B left of an A can't be filled in between
+    const sample = ['AABB', 'AABB'];
+    const grid = new TileGrid();
+    paint(grid, sample);
+    paint(grid, ['B.A'], { x: 10, y: 0 });
+
+    const result = growFromSample({
+      grid,
+      layer: 'terrain',
+      sample: regionOf(sample),
+      target: { x: 10, y: 0, width: 3, height: 2 },
+      seed: 1,
+      maxAttempts: 4,
+    });
+    expect(result.success).toBe(false);
+    expect(result.tiles).toEqual([]);
+    expect(result.error).toBeUndefined();
+    expect(result.attempts).toHaveLength(4);
+    expect(new Set(result.attempts.map((attempt) => attempt.seed)).size).toBe(4);
+    result.attempts.forEach((attempt) => expect(attempt.contradiction).toBeDefined());
+  });
+
+  it('explains why it could not start', () => {
+    const grid = sampleGrid();
+    const sample = regionOf(SAMPLE);
+    expect(growFromSample({ grid, layer: 'props', sample, target: TARGET, seed: 1 }).error).toMatch(/no tiles/);
+    expect(growFromSample({ grid, layer: 'terrain', sample, target: { ...TARGET, width: 1 }, seed: 1 }).error).toMatch(
+      /at least 2×2/
+    );
+
+    paint(grid, ['C'], { x: TARGET.x, y: TARGET.y });
+    expect(growFromSample({ grid, layer: 'terrain', sample, target: TARGET, seed: 1 }).error).toMatch(
+      /doesn't appear in the sample/
+    );
+  });
+});